@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { decideApproval, visibleApproval } from "@/lib/approvalStore";
+import { isApprovalDecision } from "@/lib/approvals";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// POST /api/approvals/<id>/decision  { status: aprobada|rechazada|cambios, comment } → resuelve la solicitud pendiente
+export async function POST(req: Request, { params }: Ctx) {
+  const body = await req.json().catch(() => null);
+  if (!body || !isApprovalDecision(body.status)) return NextResponse.json({ error: "Decisión desconocida" }, { status: 400 });
+  try {
+    const user = await requireUser("approve-comodato");
+    const { before, after } = await decideApproval(user, params.id, body.status, body.comment);
+    const comment = after.history[after.history.length - 1].comment;
+    await audit(user, {
+      action: "approval.decide",
+      entity: "solicitud-vb",
+      entityId: after.id,
+      before: { status: before.status },
+      after: { status: after.status },
+      ...(comment && { detail: comment }),
+    });
+    return NextResponse.json({ request: visibleApproval(user, after) });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo resolver la solicitud" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { getApprovalPdf } from "@/lib/approvalStore";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// GET /api/approvals/<id>/pdf → el PDF que se adjuntó al pedir el VB (se abre en el navegador)
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const user = await requireUser();
+    const pdf = await getApprovalPdf(user, params.id);
+    return new NextResponse(Buffer.from(pdf.data, "base64"), {
+      headers: {
+        "Content-Type": pdf.contentType,
+        "Content-Disposition": `inline; filename="${pdf.fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo el PDF" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
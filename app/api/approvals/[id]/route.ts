@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { getApproval, visibleApproval } from "@/lib/approvalStore";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// GET /api/approvals/<id> → solicitud con la copia de lo evaluado y su historial
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const user = await requireUser();
+    return NextResponse.json({ request: visibleApproval(user, await getApproval(user, params.id)) }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo la solicitud" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
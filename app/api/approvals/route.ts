@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { createApproval, listApprovals, visibleApproval } from "@/lib/approvalStore";
+import { APPROVAL_SOURCE_LABEL, APPROVAL_STATUS_LABEL, type ApprovalFilter, type ApprovalStatus } from "@/lib/approvals";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/approvals?q=&status=&evaluationId= → solicitudes de VB visibles para el usuario, las pendientes primero
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const status = searchParams.get("status");
+  const filter: ApprovalFilter = {
+    q: searchParams.get("q")?.trim() || undefined,
+    status: status && status in APPROVAL_STATUS_LABEL ? (status as ApprovalStatus) : undefined,
+    evaluationId: searchParams.get("evaluationId") || undefined,
+  };
+  try {
+    const user = await requireUser();
+    return NextResponse.json({ requests: await listApprovals(user, filter) }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo solicitudes" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
+
+// POST /api/approvals  { source: "evaluacion", evaluationId, pdf } | { source: "clientes-activos", simulation, pdf } → solicitud pendiente
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    const user = await requireUser();
+    const r = await createApproval(user, body);
+    await audit(user, {
+      action: "approval.request",
+      entity: "solicitud-vb",
+      entityId: r.id,
+      after: { origen: APPROVAL_SOURCE_LABEL[r.source], evaluacion: r.evaluationId, cliente: r.cliente.nombre, rut: r.cliente.rut, ejecutivo: r.ejecutivo, pdf: r.pdf.fileName },
+    });
+    return NextResponse.json({ request: visibleApproval(user, r) });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo enviar la solicitud" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
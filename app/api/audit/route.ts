@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { CLIENT_AUDIT_ACTIONS, type AuditFilter } from "@/lib/audit";
+import { appendAudit, listAudit } from "@/lib/auditStore";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/audit?from=&to=&user=&action=&entity=&q=&limit= → entradas, la más nueva primero
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const filter: AuditFilter = {};
+  for (const k of ["from", "to", "user", "action", "entity", "q"] as const) {
+    const v = searchParams.get(k)?.trim();
+    if (v) filter[k] = v;
+  }
+  if (searchParams.get("limit")) filter.limit = Number(searchParams.get("limit"));
+  try {
+    await requireUser("view-audit");
+    return NextResponse.json(await listAudit(filter), { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo auditoría" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
+
+// POST /api/audit  { action, entity, entityId?, before?, after?, detail? } → acciones hechas en el navegador
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  if (!CLIENT_AUDIT_ACTIONS.includes(body.action)) return NextResponse.json({ error: "Acción no permitida" }, { status: 400 });
+  if (typeof body.entity !== "string" || !body.entity) return NextResponse.json({ error: "Falta entity" }, { status: 400 });
+  try {
+    const user = await requireUser();
+    const { action, entity, entityId, before, after, detail } = body;
+    return NextResponse.json({ entry: await appendAudit(user, { action, entity, entityId, before, after, detail }) });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo registrar" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { sessionCookie } from "@/lib/session";
+import { AuthError, authenticate, createSession } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/auth/login  { username, password } → cookie de sesión + { user }
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    const user = await authenticate(body.username, body.password);
+    const { token, expires } = await createSession(user);
+    await audit(user, { action: "auth.login", entity: "sesion" });
+    const res = NextResponse.json({ user });
+    res.cookies.set(sessionCookie(token, expires));
+    return res;
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo iniciar sesión" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
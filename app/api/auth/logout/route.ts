@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { sessionCookie } from "@/lib/session";
+import { currentSession, revokeSession } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/auth/logout → cierra la sesión en el servidor y borra la cookie
+export async function POST() {
+  const s = await currentSession();
+  if (s) {
+    await revokeSession(s.sid);
+    await audit(s.user, { action: "auth.logout", entity: "sesion" });
+  }
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set(sessionCookie("", new Date(0)));
+  return res;
+}
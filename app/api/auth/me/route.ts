@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+import { currentUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/auth/me → usuario de la sesión
+export async function GET() {
+  const user = await currentUser();
+  if (!user) return NextResponse.json({ error: "Sesión requerida" }, { status: 401 });
+  return NextResponse.json({ user }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { sessionCookie } from "@/lib/session";
+import { AuthError, createFirstUser, createSession } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/auth/setup  { username, name, password } → primera cuenta (Administradora) e inicia sesión
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    const user = await createFirstUser(body);
+    await audit(user, { action: "user.create", entity: "usuario", entityId: user.username, after: user, detail: "Primera cuenta" });
+    const { token, expires } = await createSession(user);
+    const res = NextResponse.json({ user });
+    res.cookies.set(sessionCookie(token, expires));
+    return res;
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo crear la cuenta" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { hasUsers } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/auth/status → { needsSetup } (público: el login lo consulta antes de haber sesión)
+export async function GET() {
+  return NextResponse.json({ needsSetup: !(await hasUsers()) }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { can } from "@/lib/auth";
+import { getPriceHistory } from "@/lib/catalogStore";
+import { redactPriceHistory } from "@/lib/catalogVersions";
+import { currentUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/catalog/history?code=XXX → precios del producto en cada versión donde cambió (sin costo si no tiene "view-costs")
+export async function GET(req: Request) {
+  const code = new URL(req.url).searchParams.get("code")?.trim();
+  if (!code) return NextResponse.json({ error: "Falta code" }, { status: 400 });
+  try {
+    const points = await getPriceHistory(code);
+    const visible = can(await currentUser(), "view-costs") ? points : redactPriceHistory(points);
+    return NextResponse.json({ code, points: visible }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo historial" }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { can } from "@/lib/auth";
+import { getCatalogVersion } from "@/lib/catalogStore";
+import { redactCatalogVersion } from "@/lib/catalogVersions";
+import { currentUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// GET /api/catalog/versions/<id> → resumen, diff contra la anterior e ítems (sin costos si no tiene "view-costs")
+export async function GET(_req: Request, { params }: Ctx) {
+  const id = Number(params.id);
+  const version = Number.isInteger(id) && id > 0 ? await getCatalogVersion(id) : null;
+  if (!version) return NextResponse.json({ error: "Versión desconocida" }, { status: 404 });
+  const visible = can(await currentUser(), "view-costs") ? version : redactCatalogVersion(version);
+  return NextResponse.json({ version: visible }, { headers: { "Cache-Control": "no-store" } });
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { can } from "@/lib/auth";
+import { findCatalogVersion, listCatalogVersions, recordCatalogVersion } from "@/lib/catalogStore";
+import { catalogHash } from "@/lib/catalogVersions";
+import { audit } from "@/lib/auditStore";
+import { currentUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/catalog/versions → versiones del catálogo, la más nueva primero
+export async function GET() {
+  try {
+    return NextResponse.json({ versions: await listCatalogVersions() }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo versiones" }, { status: 500 });
+  }
+}
+
+// POST /api/catalog/versions  { items, origin } → registra la lectura (crea versión solo si cambió)
+//                             { hash, priceHash?, record: false } → busca una versión existente con ese contenido
+// Sin "view-costs" solo se busca: un catálogo leído sin costos no puede crear versiones.
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    if (body.record === false) {
+      if (typeof body.hash !== "string") return NextResponse.json({ error: "Falta hash" }, { status: 400 });
+      const priceHash = typeof body.priceHash === "string" ? body.priceHash : undefined;
+      return NextResponse.json({ version: await findCatalogVersion(body.hash, priceHash), created: false });
+    }
+    if (!Array.isArray(body.items)) return NextResponse.json({ error: "Falta items" }, { status: 400 });
+    const user = await currentUser();
+    if (!can(user, "view-costs")) {
+      const version = await findCatalogVersion(catalogHash(body.items), catalogHash(body.items, false));
+      return NextResponse.json({ version, created: false });
+    }
+    const result = await recordCatalogVersion(body.items, String(body.origin ?? ""));
+    if (result.created) {
+      const { id, count, added, removed, changed, origin } = result.version;
+      await audit(user, { action: "catalog.version", entity: "catalogo", entityId: `v${id}`, after: { count, added, removed, changed }, detail: origin });
+    }
+    return NextResponse.json(result);
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo registrar la versión" }, { status: 400 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { setEvaluationArchived, visibleEvaluation } from "@/lib/evaluationStore";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// POST /api/evaluations/<id>/archive  { archived } → archiva (sale del listado por defecto) o restaura
+export async function POST(req: Request, { params }: Ctx) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body.archived !== "boolean") return NextResponse.json({ error: "Falta archived" }, { status: 400 });
+  try {
+    const user = await requireUser();
+    const e = await setEvaluationArchived(user, params.id, body.archived);
+    await audit(user, { action: body.archived ? "evaluation.archive" : "evaluation.restore", entity: "evaluacion", entityId: e.id });
+    return NextResponse.json({ evaluation: visibleEvaluation(user, e) });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo archivar" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { duplicateEvaluation, visibleEvaluation } from "@/lib/evaluationStore";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// POST /api/evaluations/<id>/duplicate → evaluación nueva con los mismos datos
+export async function POST(_req: Request, { params }: Ctx) {
+  try {
+    const user = await requireUser();
+    const e = await duplicateEvaluation(user, params.id);
+    await audit(user, { action: "evaluation.create", entity: "evaluacion", entityId: e.id, detail: `Duplicada de ${params.id}` });
+    return NextResponse.json({ evaluation: visibleEvaluation(user, e) });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo duplicar" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from "next/server";
+import { audit, changedFields } from "@/lib/auditStore";
+import { getEvaluation, parseEvaluationInput, updateEvaluation, visibleEvaluation } from "@/lib/evaluationStore";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// GET /api/evaluations/<id> → evaluación completa (sin costos si no tiene "view-costs")
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const user = await requireUser();
+    const e = await getEvaluation(user, params.id);
+    return NextResponse.json({ evaluation: visibleEvaluation(user, e) }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo la evaluación" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
+
+// PUT /api/evaluations/<id>  { cliente, ejecutivo, fecha, sales, comodatos, params, results, catalogVersion }
+export async function PUT(req: Request, { params }: Ctx) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    const user = await requireUser();
+    const { before, after } = await updateEvaluation(user, params.id, parseEvaluationInput(body, user));
+    // Las líneas solo se cuentan: el detalle completo queda en la evaluación
+    const summary = (e: typeof before) => ({ ...e, sales: e.sales.length, comodatos: e.comodatos.length });
+    const diff = changedFields(summary(before), summary(after), ["cliente", "ejecutivo", "fecha", "sales", "comodatos", "params", "results"]);
+    if (diff) await audit(user, { action: "evaluation.update", entity: "evaluacion", entityId: after.id, ...diff });
+    return NextResponse.json({ evaluation: visibleEvaluation(user, after) });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo guardar" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
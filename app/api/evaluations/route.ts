@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { createEvaluation, listEvaluations, parseEvaluationInput, visibleEvaluation } from "@/lib/evaluationStore";
+import type { EvaluationFilter } from "@/lib/evaluations";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/evaluations?q=&status=activa|archivada|todas → resúmenes visibles para el usuario, la última modificada primero
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const status = searchParams.get("status");
+  const filter: EvaluationFilter = {
+    q: searchParams.get("q")?.trim() || undefined,
+    status: status === "archivada" || status === "todas" ? status : "activa",
+  };
+  try {
+    const user = await requireUser();
+    return NextResponse.json({ evaluations: await listEvaluations(user, filter) }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo evaluaciones" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
+
+// POST /api/evaluations  { cliente, ejecutivo, fecha, sales, comodatos, params, results, catalogVersion } → evaluación nueva
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    const user = await requireUser();
+    const e = await createEvaluation(user, parseEvaluationInput(body, user));
+    await audit(user, { action: "evaluation.create", entity: "evaluacion", entityId: e.id, after: { cliente: e.cliente.nombre, rut: e.cliente.rut, ejecutivo: e.ejecutivo, viable: e.results.viable } });
+    return NextResponse.json({ evaluation: visibleEvaluation(user, e) });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo guardar" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
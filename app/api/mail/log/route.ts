@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { listSentMail } from "@/lib/mailStore";
+import { isMailDocKind, type SentMailFilter } from "@/lib/mail";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/mail/log?q=&kind=&documentId= → correos enviados visibles para el usuario, el último primero
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const kind = searchParams.get("kind");
+  const filter: SentMailFilter = {
+    q: searchParams.get("q")?.trim() || undefined,
+    kind: isMailDocKind(kind) ? kind : undefined,
+    documentId: searchParams.get("documentId") || undefined,
+  };
+  try {
+    const user = await requireUser();
+    return NextResponse.json({ mails: await listSentMail(user, filter) }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo el registro de correos" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { previewMail } from "@/lib/mailStore";
+import { isMailDocKind } from "@/lib/mail";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/mail/preview?kind=evaluacion|cotizacion|nota-venta&id= → destinatarios y plantilla completada
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const kind = searchParams.get("kind");
+  const id = searchParams.get("id") ?? "";
+  if (!isMailDocKind(kind) || !id) return NextResponse.json({ error: "Documento desconocido" }, { status: 400 });
+  try {
+    const user = await requireUser();
+    return NextResponse.json({ preview: await previewMail(user, kind, id) }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo preparar el correo" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
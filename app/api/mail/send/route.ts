@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { sendDocumentMail } from "@/lib/mailStore";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// POST /api/mail/send  { kind, documentId, to[], cc[], subject, body, attachment: { fileName, data } } → correo enviado
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    const user = await requireUser();
+    const mail = await sendDocumentMail(user, body);
+    await audit(user, {
+      action: "mail.send",
+      entity: mail.kind,
+      entityId: mail.documentId,
+      after: { para: mail.to.join(", "), cc: mail.cc.join(", "), asunto: mail.subject, adjunto: mail.attachment.fileName, sha256: mail.attachment.sha256 },
+    });
+    return NextResponse.json({ mail });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo enviar el correo" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { convertQuoteToSalesNote } from "@/lib/salesNoteStore";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// POST /api/quotes/<número>/convert → nota de venta en borrador con los datos de la cotización; la cotización queda convertida
+export async function POST(_req: Request, { params }: Ctx) {
+  try {
+    const user = await requireUser();
+    const { note, quote } = await convertQuoteToSalesNote(user, params.id);
+    await audit(user, {
+      action: "salesnote.create",
+      entity: "nota-venta",
+      entityId: note.number,
+      after: { cliente: note.client.name, rut: note.client.rut, total: note.totals.total, items: note.items.length },
+      detail: `Desde cotización ${quote.number}`,
+    });
+    await audit(user, { action: "quote.convert", entity: "cotizacion", entityId: quote.number, after: { notaVenta: note.number } });
+    return NextResponse.json({ note, quote });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo convertir" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { getQuote } from "@/lib/quoteStore";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// GET /api/quotes/<número> → cotización completa, tal como se emitió
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const user = await requireUser();
+    return NextResponse.json({ quote: await getQuote(user, params.id) }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo la cotización" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
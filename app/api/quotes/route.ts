@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { getEvaluation, withEvaluationResults } from "@/lib/evaluationStore";
+import { issueQuote, listQuotes, parseQuoteInput } from "@/lib/quoteStore";
+import { evaluationMismatch, type QuoteFilter } from "@/lib/quotes";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/quotes?q=&from=&to= → resúmenes visibles para el usuario, la más nueva primero
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const filter: QuoteFilter = {};
+  for (const k of ["q", "from", "to"] as const) {
+    const v = searchParams.get(k)?.trim();
+    if (v) filter[k] = v;
+  }
+  try {
+    const user = await requireUser();
+    return NextResponse.json({ quotes: await listQuotes(user, filter) }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo cotizaciones" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
+
+// POST /api/quotes  { validity, client, issuer, items, taxPct, catalogVersion, branch, clonedFrom?, evaluationId? } → cotización emitida con su número
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    const user = await requireUser();
+    const input = parseQuoteInput(body);
+    // La evaluación enlazada tiene que existir, ser visible para quien emite, ser viable (recalculada aquí)
+    // y cotizar sus mismos productos sin bajar del $/kg evaluado
+    if (input.evaluationId) {
+      const e = await getEvaluation(user, input.evaluationId);
+      if (!(await withEvaluationResults(e)).results.viable) throw new Error(`La evaluación ${input.evaluationId} no es viable.`);
+      const mismatch = evaluationMismatch(input.items, e);
+      if (mismatch) throw new Error(mismatch);
+    }
+    const quote = await issueQuote(user, input);
+    await audit(user, {
+      action: "quote.issue",
+      entity: "cotizacion",
+      entityId: quote.number,
+      after: { cliente: quote.client.name, rut: quote.client.rut, total: quote.totals.total, items: quote.items.length },
+      detail: [quote.clonedFrom && `Clonada de ${quote.clonedFrom}`, quote.evaluationId && `Desde evaluación ${quote.evaluationId}`]
+        .filter(Boolean)
+        .join(" · "),
+    });
+    return NextResponse.json({ quote });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo emitir" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
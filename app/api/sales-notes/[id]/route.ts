@@ -0,0 +1,35 @@
+import { NextResponse } from "next/server";
+import { audit, changedFields } from "@/lib/auditStore";
+import { getSalesNote, updateSalesNote } from "@/lib/salesNoteStore";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// GET /api/sales-notes/<número> → nota completa con su historial de estados
+export async function GET(_req: Request, { params }: Ctx) {
+  try {
+    const user = await requireUser();
+    return NextResponse.json({ note: await getSalesNote(user, params.id) }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo la nota de venta" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
+
+// PUT /api/sales-notes/<número>  { client, issuer, items, taxPct, catalogVersion } → solo en borrador
+export async function PUT(req: Request, { params }: Ctx) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    const user = await requireUser();
+    const { before, after } = await updateSalesNote(user, params.id, body);
+    // Los ítems solo se cuentan: el detalle queda en la nota
+    const summary = (n: typeof before) => ({ ...n, items: n.items.length });
+    const diff = changedFields(summary(before), summary(after), ["client", "ejecutivo", "items", "taxPct", "totals"]);
+    if (diff) await audit(user, { action: "salesnote.update", entity: "nota-venta", entityId: after.number, ...diff });
+    return NextResponse.json({ note: after });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo guardar" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { setSalesNoteStatus } from "@/lib/salesNoteStore";
+import { isSalesNoteStatus } from "@/lib/salesNotes";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// POST /api/sales-notes/<número>/status  { status, note? } → siguiente estado del flujo (queda en el historial)
+export async function POST(req: Request, { params }: Ctx) {
+  const body = await req.json().catch(() => null);
+  if (!body || !isSalesNoteStatus(body.status)) return NextResponse.json({ error: "Estado desconocido" }, { status: 400 });
+  try {
+    const user = await requireUser();
+    const comment = typeof body.note === "string" ? body.note.trim().slice(0, 500) : "";
+    const { before, after } = await setSalesNoteStatus(user, params.id, body.status, comment || undefined);
+    await audit(user, {
+      action: "salesnote.status",
+      entity: "nota-venta",
+      entityId: after.number,
+      before: { status: before.status },
+      after: { status: after.status },
+      ...(comment && { detail: comment }),
+    });
+    return NextResponse.json({ note: after });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo cambiar el estado" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { createSalesNote, listSalesNotes } from "@/lib/salesNoteStore";
+import { isSalesNoteStatus, type SalesNoteFilter } from "@/lib/salesNotes";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/sales-notes?q=&status=&from=&to= → resúmenes visibles para el usuario, la última modificada primero
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const filter: SalesNoteFilter = {};
+  for (const k of ["q", "from", "to"] as const) {
+    const v = searchParams.get(k)?.trim();
+    if (v) filter[k] = v;
+  }
+  const status = searchParams.get("status");
+  if (isSalesNoteStatus(status)) filter.status = status;
+  try {
+    const user = await requireUser();
+    return NextResponse.json({ notes: await listSalesNotes(user, filter) }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo notas de venta" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
+
+// POST /api/sales-notes  { client, issuer, items, taxPct, catalogVersion } → nota en borrador con su número NV
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    const user = await requireUser();
+    const note = await createSalesNote(user, body);
+    await audit(user, {
+      action: "salesnote.create",
+      entity: "nota-venta",
+      entityId: note.number,
+      after: { cliente: note.client.name, rut: note.client.rut, total: note.totals.total, items: note.items.length },
+    });
+    return NextResponse.json({ note });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo crear" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
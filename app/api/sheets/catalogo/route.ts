@@ -0,0 +1,6 @@
+import { sheetRoute } from "@/lib/sheetCache";
+
+export const dynamic = "force-dynamic";
+
+// Catálogo de productos con cache en servidor
+export const GET = sheetRoute("catalogo");
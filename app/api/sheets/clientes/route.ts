@@ -0,0 +1,6 @@
+import { sheetRoute } from "@/lib/sheetCache";
+
+export const dynamic = "force-dynamic";
+
+// Maestro SN (clientes) con cache en servidor
+export const GET = sheetRoute("clientes");
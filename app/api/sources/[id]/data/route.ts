@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { SheetLoadError } from "@/lib/sheets";
+import { isSourceId } from "@/lib/sources";
+import { getSourceTable } from "@/lib/sheetCache";
+import { visibleTable } from "@/lib/sourceStore";
+import { can } from "@/lib/auth";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/sources/<id>/data?refresh=1 → { headers, rows, via, attempts, fetchedAt } de la fuente (URL o archivo),
+// recortada a lo que el usuario puede ver: sin costos sin "view-costs" y solo su cartera
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  if (!isSourceId(params.id)) return NextResponse.json({ error: "Fuente desconocida" }, { status: 404 });
+  const refresh = ["1", "true"].includes(new URL(req.url).searchParams.get("refresh") || "");
+  let user;
+  try {
+    user = await requireUser();
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Sesión requerida" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+  // Los intentos llevan el enlace de la planilla: solo para quien administra fuentes
+  const showUrls = can(user, "edit-sources");
+  const attemptsFor = (attempts: SheetLoadError["attempts"]) => (showUrls ? attempts : attempts.map((a) => ({ ...a, url: "" })));
+  try {
+    const { table, via, attempts, fetchedAt, status } = await getSourceTable(params.id, { refresh });
+    const { headers, rows } = visibleTable(params.id, table, user);
+    return NextResponse.json(
+      { headers, rows, via, attempts: attemptsFor(attempts), fetchedAt: new Date(fetchedAt).toISOString() },
+      { headers: { "Cache-Control": "no-store", "X-Cache": status } }
+    );
+  } catch (e: any) {
+    return NextResponse.json(
+      { error: e?.message ?? "Error leyendo la fuente", attempts: e instanceof SheetLoadError ? attemptsFor(e.attempts) : [] },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { isSourceId } from "@/lib/sources";
+import { deleteSourceFile, getSource, saveSourceFile } from "@/lib/sourceStore";
+import { audit } from "@/lib/auditStore";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// PUT /api/sources/<id>/file  { fileName, sheet, headers, rows } (ya parseado en el navegador)
+// El contenido se lee por /api/sources/<id>/data, recortado a lo que cada usuario puede ver
+export async function PUT(req: Request, { params }: Ctx) {
+  if (!isSourceId(params.id)) return NextResponse.json({ error: "Fuente desconocida" }, { status: 404 });
+  const body = await req.json().catch(() => null);
+  try {
+    const user = await requireUser("edit-sources");
+    const source = await saveSourceFile(params.id, body);
+    await audit(user, { action: "source.file.upload", entity: "fuente", entityId: params.id, after: source.file });
+    return NextResponse.json({ source });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo guardar el archivo" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
+
+export async function DELETE(_req: Request, { params }: Ctx) {
+  if (!isSourceId(params.id)) return NextResponse.json({ error: "Fuente desconocida" }, { status: 404 });
+  try {
+    const user = await requireUser("edit-sources");
+    const before = (await getSource(params.id)).file;
+    const source = await deleteSourceFile(params.id);
+    await audit(user, { action: "source.file.delete", entity: "fuente", entityId: params.id, before });
+    return NextResponse.json({ source });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo quitar el archivo" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
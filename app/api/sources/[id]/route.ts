@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { isSourceId } from "@/lib/sources";
+import { getSource, updateSource, visibleSource } from "@/lib/sourceStore";
+import { audit, changedFields } from "@/lib/auditStore";
+import { AuthError, currentUser, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+export async function GET(_req: Request, { params }: Ctx) {
+  if (!isSourceId(params.id)) return NextResponse.json({ error: "Fuente desconocida" }, { status: 404 });
+  return NextResponse.json({ source: visibleSource(await getSource(params.id), await currentUser()) });
+}
+
+// PUT /api/sources/<id>  { name?, url?, kind? }
+export async function PUT(req: Request, { params }: Ctx) {
+  if (!isSourceId(params.id)) return NextResponse.json({ error: "Fuente desconocida" }, { status: 404 });
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    const user = await requireUser("edit-sources");
+    const before = await getSource(params.id);
+    const source = await updateSource(params.id, body);
+    const diff = changedFields(before, source, ["name", "url", "kind"]);
+    if (diff) await audit(user, { action: "source.update", entity: "fuente", entityId: params.id, ...diff });
+    return NextResponse.json({ source });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo guardar" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
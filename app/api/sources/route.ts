@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import { listSources, visibleSource } from "@/lib/sourceStore";
+import { currentUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/sources → registro completo de fuentes de datos (enlaces solo con "edit-sources")
+export async function GET() {
+  try {
+    const user = await currentUser();
+    const sources = (await listSources()).map((s) => visibleSource(s, user));
+    return NextResponse.json({ sources }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo fuentes" }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from "next/server";
+import { audit, changedFields } from "@/lib/auditStore";
+import { AuthError, listUsers, requireUser, updateUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+type Ctx = { params: { id: string } };
+
+// PUT /api/users/<id>  { name?, role?, ejecutivo?, team?, disabled?, password? }
+export async function PUT(req: Request, { params }: Ctx) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    const admin = await requireUser("manage-users");
+    const before = (await listUsers()).find((u) => u.id === params.id);
+    const user = await updateUser(params.id, body);
+    // La contraseña nunca va al registro: solo que se cambió
+    const diff = before && changedFields(before, user, ["name", "role", "ejecutivo", "team", "disabled"]);
+    if (diff || body.password !== undefined) {
+      await audit(admin, {
+        action: "user.update",
+        entity: "usuario",
+        entityId: user.username,
+        ...diff,
+        ...(body.password !== undefined && { detail: "Contraseña cambiada" }),
+      });
+    }
+    return NextResponse.json({ user });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo guardar" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { audit } from "@/lib/auditStore";
+import { AuthError, createUser, listUsers, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/users → usuarios (solo Administradora)
+export async function GET() {
+  try {
+    await requireUser("manage-users");
+    return NextResponse.json({ users: await listUsers() }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo usuarios" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
+
+// POST /api/users  { username, name, role, password, ejecutivo?, team? }
+export async function POST(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    const admin = await requireUser("manage-users");
+    const user = await createUser(body);
+    await audit(admin, { action: "user.create", entity: "usuario", entityId: user.username, after: user });
+    return NextResponse.json({ user });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo crear" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
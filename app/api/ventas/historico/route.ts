@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { SheetLoadError } from "@/lib/sheets";
+import { SchemaError } from "@/lib/schemas";
+import { getVentasRecords } from "@/lib/ventasCache";
+import { DEFAULT_MONTHS, DEFAULT_PRODUCT, aggregateVentas } from "@/lib/ventasHistorico";
+import { userScope } from "@/lib/auth";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+const MAX_MONTHS = 36;
+
+// GET /api/ventas/historico?rut=&cardCode=&months=6&product=PT&refresh=1 → kilos y venta por ItemCode del cliente
+// Solo cuentan las líneas de la cartera del usuario (userScope): un RUT ajeno responde sin ventas.
+export async function GET(req: Request) {
+  const { searchParams } = new URL(req.url);
+  const rut = (searchParams.get("rut") || "").trim();
+  const cardCode = (searchParams.get("cardCode") || "").trim();
+  if (!rut && !cardCode) return NextResponse.json({ error: "Indica rut o cardCode" }, { status: 400 });
+
+  const monthsParam = Number(searchParams.get("months") || DEFAULT_MONTHS);
+  if (!Number.isInteger(monthsParam) || monthsParam < 1 || monthsParam > MAX_MONTHS) {
+    return NextResponse.json({ error: `months debe estar entre 1 y ${MAX_MONTHS}` }, { status: 400 });
+  }
+  const product = searchParams.get("product") ?? DEFAULT_PRODUCT;
+  const refresh = ["1", "true"].includes(searchParams.get("refresh") || "");
+
+  let ejecutivos: string[] | null;
+  try {
+    ejecutivos = userScope(await requireUser());
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Sesión requerida" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+
+  try {
+    const { records, fetchedAt, status } = await getVentasRecords({ refresh });
+    const result = aggregateVentas(records, { rut, cardCode, months: monthsParam, product, ejecutivos });
+    return NextResponse.json(
+      { ...result, fetchedAt: new Date(fetchedAt).toISOString() },
+      { headers: { "Cache-Control": "no-store", "X-Cache": status } }
+    );
+  } catch (e: any) {
+    return NextResponse.json(
+      {
+        error: e?.message ?? "Error leyendo Ventas",
+        attempts: e instanceof SheetLoadError ? e.attempts : [],
+        report: e instanceof SchemaError ? e.report : null,
+      },
+      { status: 502 }
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { effectiveViabilityRules } from "@/lib/viabilityStore";
+import { inScope, userScope } from "@/lib/auth";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+// GET /api/viability?ejecutivo= → reglas de viabilidad que aplican a ese ejecutivo (las de su Gerencia, si tiene).
+// Solo un ejecutivo de la cartera del usuario; cualquier otro recibe las del propio usuario.
+// Son para mostrar: al guardar y al pedir VB el servidor recalcula con el ejecutivo guardado
+export async function GET(req: Request) {
+  const ejecutivo = new URL(req.url).searchParams.get("ejecutivo")?.trim() ?? "";
+  try {
+    const user = await requireUser();
+    const visible = ejecutivo && inScope(userScope(user))(ejecutivo);
+    const rules = await effectiveViabilityRules(visible ? ejecutivo : user.ejecutivo || "");
+    return NextResponse.json({ rules }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo las reglas" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
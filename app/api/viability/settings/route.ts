@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server";
+import { audit, changedFields } from "@/lib/auditStore";
+import { getViabilitySettings, updateViabilitySettings } from "@/lib/viabilityStore";
+import { AuthError, requireUser } from "@/lib/userStore";
+
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    await requireUser("edit-config");
+    return NextResponse.json({ settings: await getViabilitySettings() }, { headers: { "Cache-Control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Error leyendo las reglas" }, { status: e instanceof AuthError ? e.status : 500 });
+  }
+}
+
+// PUT /api/viability/settings  { base, gerencias: [{ gerenciaId, ...reglas }], lines: [{ prefix, name, minMarginPct }] }
+export async function PUT(req: Request) {
+  const body = await req.json().catch(() => null);
+  if (!body || typeof body !== "object") return NextResponse.json({ error: "JSON inválido" }, { status: 400 });
+  try {
+    const user = await requireUser("edit-config");
+    const { before, after } = await updateViabilitySettings(user, body);
+    const diff = changedFields(before, after, ["base", "gerencias", "lines"]);
+    if (diff) await audit(user, { action: "viability.config", entity: "config", entityId: "viabilidad", ...diff });
+    return NextResponse.json({ settings: after });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "No se pudo guardar" }, { status: e instanceof AuthError ? e.status : 400 });
+  }
+}
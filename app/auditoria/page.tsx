@@ -0,0 +1,216 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ACTION_LABEL,
+  auditCsv,
+  fetchAudit,
+  isAuditAction,
+  type AuditEntry,
+  type AuditFilter,
+} from "@/lib/audit";
+
+/* ===================== HELPERS ===================== */
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleString("es-CL");
+}
+
+function fmtValue(v: unknown) {
+  if (v === undefined) return "";
+  return typeof v === "string" ? v : JSON.stringify(v, null, 1);
+}
+
+function download(name: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/* ===================== FILA ===================== */
+function EntryRow({ entry }: { entry: AuditEntry }) {
+  return (
+    <tr className="border-t align-top">
+      <td className="whitespace-nowrap px-2 py-1">{fmtDate(entry.at)}</td>
+      <td className="px-2 py-1">
+        {entry.user ? (
+          <>
+            <div>{entry.user.name}</div>
+            <div className="text-zinc-500">{entry.user.username}</div>
+          </>
+        ) : (
+          <span className="text-zinc-400">—</span>
+        )}
+      </td>
+      <td className="px-2 py-1">{isAuditAction(entry.action) ? AUDIT_ACTION_LABEL[entry.action] : entry.action}</td>
+      <td className="px-2 py-1">
+        <div>{entry.entity}</div>
+        {entry.entityId && <div className="break-all text-zinc-500">{entry.entityId}</div>}
+      </td>
+      <td className="max-w-xs px-2 py-1">
+        <pre className="whitespace-pre-wrap break-all text-red-700">{fmtValue(entry.before)}</pre>
+      </td>
+      <td className="max-w-xs px-2 py-1">
+        <pre className="whitespace-pre-wrap break-all text-emerald-700">{fmtValue(entry.after)}</pre>
+      </td>
+      <td className="px-2 py-1 text-zinc-600">{entry.detail}</td>
+    </tr>
+  );
+}
+
+/* ===================== PÁGINA ===================== */
+const EMPTY: AuditFilter = { from: "", to: "", user: "", action: "", entity: "", q: "" };
+
+export default function AuditoriaPage() {
+  const [filter, setFilter] = useState<AuditFilter>(EMPTY);
+  const [applied, setApplied] = useState<AuditFilter>(EMPTY);
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [total, setTotal] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setEntries(null);
+    setError(null);
+    fetchAudit(applied)
+      .then((r) => (setEntries(r.entries), setTotal(r.total)))
+      .catch((e) => setError(e.message));
+  }, [applied]);
+
+  // Opciones de usuario y entidad a partir de lo cargado
+  const usernames = useMemo(() => Array.from(new Set((entries ?? []).map((e) => e.user?.username).filter(Boolean))) as string[], [entries]);
+  const entities = useMemo(() => Array.from(new Set((entries ?? []).map((e) => e.entity))).sort(), [entries]);
+
+  const set = (k: keyof AuditFilter) => (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) =>
+    setFilter((f) => ({ ...f, [k]: e.target.value }));
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-[#2B6CFF]">🕵️ Auditoría</h1>
+          <p className="text-sm text-zinc-600">
+            Registro de solo agregado: quién cambió configuración, fuentes y usuarios, y quién generó evaluaciones y cotizaciones.
+          </p>
+        </div>
+        <Link href="/" className="rounded border px-3 py-1 text-sm hover:bg-white">
+          ⟵ Volver
+        </Link>
+      </div>
+
+      <form
+        className="mb-4 rounded-2xl border bg-white p-4 shadow-sm"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setApplied(filter);
+        }}
+      >
+        <div className="grid gap-3 text-sm md:grid-cols-6">
+          <label>
+            Desde
+            <input type="date" className="mt-1 w-full rounded border px-2 py-1" value={filter.from} onChange={set("from")} />
+          </label>
+          <label>
+            Hasta
+            <input type="date" className="mt-1 w-full rounded border px-2 py-1" value={filter.to} onChange={set("to")} />
+          </label>
+          <label>
+            Usuario
+            <input className="mt-1 w-full rounded border px-2 py-1" list="audit-users" value={filter.user} onChange={set("user")} />
+          </label>
+          <label>
+            Acción
+            <select className="mt-1 w-full rounded border px-2 py-1" value={filter.action} onChange={set("action")}>
+              <option value="">Todas</option>
+              {AUDIT_ACTIONS.map((a) => (
+                <option key={a} value={a}>
+                  {AUDIT_ACTION_LABEL[a]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Entidad
+            <input className="mt-1 w-full rounded border px-2 py-1" list="audit-entities" value={filter.entity} onChange={set("entity")} />
+          </label>
+          <label>
+            Texto
+            <input className="mt-1 w-full rounded border px-2 py-1" placeholder="id, detalle, valores" value={filter.q} onChange={set("q")} />
+          </label>
+        </div>
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-sm">
+          <button type="submit" className="rounded bg-[#2B6CFF] px-3 py-1 text-white">
+            Filtrar
+          </button>
+          <button type="button" className="rounded border px-3 py-1 hover:bg-zinc-50" onClick={() => (setFilter(EMPTY), setApplied(EMPTY))}>
+            Limpiar
+          </button>
+          <span className="ml-auto text-xs text-zinc-500">
+            {entries ? `${entries.length} de ${total} entradas` : ""}
+          </span>
+          <button
+            type="button"
+            className="rounded border px-3 py-1 hover:bg-zinc-50 disabled:opacity-50"
+            disabled={!entries?.length}
+            onClick={() => entries && download(`auditoria_${stamp}.csv`, auditCsv(entries), "text/csv;charset=utf-8")}
+          >
+            ⬇️ CSV
+          </button>
+          <button
+            type="button"
+            className="rounded border px-3 py-1 hover:bg-zinc-50 disabled:opacity-50"
+            disabled={!entries?.length}
+            onClick={() => entries && download(`auditoria_${stamp}.json`, JSON.stringify(entries, null, 2), "application/json")}
+          >
+            ⬇️ JSON
+          </button>
+        </div>
+        <datalist id="audit-users">
+          {usernames.map((u) => (
+            <option key={u} value={u} />
+          ))}
+        </datalist>
+        <datalist id="audit-entities">
+          {entities.map((e) => (
+            <option key={e} value={e} />
+          ))}
+        </datalist>
+      </form>
+
+      <section className="rounded-2xl border bg-white p-4 shadow-sm">
+        {error ? (
+          <div className="text-sm text-red-600">{error}</div>
+        ) : !entries ? (
+          <div className="text-sm text-zinc-500">Cargando…</div>
+        ) : !entries.length ? (
+          <div className="text-sm text-zinc-500">Sin entradas para este filtro.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="bg-zinc-50 text-left">
+                <tr>
+                  <th className="px-2 py-1">Fecha</th>
+                  <th className="px-2 py-1">Usuario</th>
+                  <th className="px-2 py-1">Acción</th>
+                  <th className="px-2 py-1">Entidad</th>
+                  <th className="px-2 py-1">Antes</th>
+                  <th className="px-2 py-1">Después</th>
+                  <th className="px-2 py-1">Detalle</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((e) => (
+                  <EntryRow key={e.id} entry={e} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -1,22 +1,79 @@
 "use client";
 
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
+import DataAsOf from "@/components/DataAsOf";
+import SheetFileInput from "@/components/SheetFileInput";
+import SourceErrorBox from "@/components/SourceErrorBox";
+import SourceInfo from "@/components/SourceInfo";
+import DraftFileButtons from "@/components/DraftFileButtons";
+import { parseDateLike } from "@/lib/sheets";
+import {
+  CATALOG_SCHEMA,
+  COMODATOS_SCHEMA,
+  SN_SCHEMA,
+  VENTAS_SCHEMA,
+  requireMapped,
+  type CatalogItem,
+  type ComodatoRow,
+  type Schema,
+} from "@/lib/schemas";
+import {
+  aggregateVentasInWorker,
+  describeProgress,
+  indexRecords,
+  isCancelled,
+  mapSheetTable,
+  searchRecords,
+  type JobOptions,
+  type KeepAs,
+} from "@/lib/sheetWorker";
+import { can, inScope, userScope } from "@/lib/auth";
+import { useSession } from "@/lib/useSession";
+import { logAudit } from "@/lib/audit";
+import { useAuditedSetting } from "@/lib/useAudit";
+import { syncCatalogVersion, versionLabel, type CatalogVersionRef } from "@/lib/catalogVersions";
+import {
+  fetchSources,
+  loadSourceCached,
+  sourceOrigin,
+  toProblem,
+  type SourceId,
+  type SourceMap,
+  type SourceProblem,
+  type SourceStamp,
+} from "@/lib/sources";
+import {
+  loadVentasHistorico,
+  sanitizeRut,
+  type VentasHistorico,
+  type VentasQuery,
+} from "@/lib/ventasHistorico";
+import type { UploadedSheet } from "@/lib/workbook";
+import type { ProposedItem, SimulationDraft } from "@/lib/drafts";
+import ViabilityChecks from "@/components/ViabilityChecks";
+import BreakEvenSolver, { type BreakEvenApply } from "@/components/BreakEvenSolver";
+import type { BreakEvenScenario } from "@/lib/breakEven";
+import { MARGIN_POLICIES, computeMargins } from "@/lib/margins";
+import {
+  CHECK_STATUS_LABEL,
+  DEFAULT_EFFECTIVE_RULES,
+  VIABILITY_STATUS_CLASS,
+  VIABILITY_STATUS_LABEL,
+  assessViability,
+  describeCheck,
+  fetchViabilityRules,
+  type EffectiveViabilityRules,
+} from "@/lib/viability";
+import { APPROVAL_STATUS_LABEL, approvalRef, fetchApproval, requestApproval, type ApprovalRef } from "@/lib/approvals";
 
 /* ===================== CONFIG ===================== */
-const DEFAULT_VENTAS_URL =
-  "https://docs.google.com/spreadsheets/d/1MY531UHJDhxvHsw6-DwlW8m4BeHwYP48MUSV98UTc1s/edit?gid=871602912#gid=871602912";
-const DEFAULT_COMODATOS_URL =
-  "https://docs.google.com/spreadsheets/d/1MY531UHJDhxvHsw6-DwlW8m4BeHwYP48MUSV98UTc1s/edit?gid=551810728#gid=551810728";
-const DEFAULT_CATALOG_URL =
-  "https://docs.google.com/spreadsheets/d/1UXVAxwzg-Kh7AWCPnPbxbEpzXnRPR2pDBKrRUFNZKZo/edit?gid=0#gid=0";
-const DEFAULT_SN_URL =
-  "https://docs.google.com/spreadsheets/d/1kF0INEtwYDXhQCBPTVhU8NQI2URKoi99Hs43DTSO02I/edit?gid=161671364#gid=161671364";
-
-const VIABILITY_THRESHOLD = 0.005; // 0,50%
+// Las planillas (Ventas, Comodatos, Catálogo, SN) se resuelven desde "Fuentes de datos" (/fuentes)
 const SUGGEST_ID = "catalog-suggest";
 const DEFAULT_LOGO_URL = "/logo.png"; // si pones el archivo en /public/logo.png
-
+// Nombres de los datos que quedan guardados en el Web Worker
+const CATALOG_INDEX = "catalogo";
+const VENTAS_UPLOAD = "ventas-archivo";
 
 /* ===================== HELPERS ===================== */
 function money(n: number) {
@@ -29,26 +86,6 @@ function num(x: any) {
   const v = Number(x);
   return Number.isFinite(v) ? v : 0;
 }
-function parseDateLike(d: any): Date | null {
-  if (!d && d !== 0) return null;
-  if (d instanceof Date) return d;
-  if (typeof d === "number") {
-    const base = new Date(1899, 11, 30).getTime();
-    return new Date(base + d * 86400000);
-  }
-  const s = String(d).trim();
-  const m1 = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
-  if (m1) return new Date(+m1[1], +m1[2] - 1, +m1[3]);
-  const m2 = s.match(/^(\d{2})[\/-](\d{2})[\/-](\d{4})/);
-  if (m2) return new Date(+m2[3], +m2[2] - 1, +m2[1]);
-  const t = Date.parse(s);
-  return Number.isNaN(t) ? null : new Date(t);
-}
-function rango6Meses(base = new Date()) {
-  const end = new Date(base.getFullYear(), base.getMonth() + 1, 1);
-  const start = new Date(base.getFullYear(), base.getMonth() - 5, 1);
-  return { start, end };
-}
 function useLocalStorage<T>(key: string, initial: T) {
   const [state, setState] = useState<T>(() => {
     if (typeof window === "undefined") return initial;
@@ -78,110 +115,14 @@ function diffMonths(from: Date, to: Date): number {
   const b = to.getFullYear() * 12 + to.getMonth();
   return b - a;
 }
-/* CSV robusto */
-function parseCsv(text: string): Record<string, any>[] {
-  const rows: string[][] = [];
-  let row: string[] = [];
-  let cell = "";
-  let inQuotes = false;
-  const pushCell = () => (row.push(cell), (cell = ""));
-  const pushRow = () => (row.length ? rows.push(row) : 0, (row = []));
-  const s = text.replace(/\r/g, "");
-  for (let i = 0; i < s.length; i++) {
-    const ch = s[i];
-    if (inQuotes) {
-      if (ch === '"') {
-        if (s[i + 1] === '"') (cell += '"'), i++;
-        else inQuotes = false;
-      } else cell += ch;
-    } else {
-      if (ch === '"') inQuotes = true;
-      else if (ch === ",") pushCell();
-      else if (ch === "\n") (pushCell(), pushRow());
-      else cell += ch;
-    }
-  }
-  if (cell.length || row.length) (pushCell(), pushRow());
-  if (!rows.length) return [];
-  const headers = rows[0].map((h) => h.trim());
-  const out: Record<string, any>[] = [];
-  for (let i = 1; i < rows.length; i++) {
-    const r = rows[i];
-    if (r.every((c) => c === "")) continue;
-    const obj: any = {};
-    headers.forEach((h, j) => (obj[h] = r[j] ?? ""));
-    out.push(obj);
-  }
-  return out;
-}
-/* GViz + CSV smart */
-async function fetchCsv(spreadsheetId: string, gid: string | number) {
-  const url = `https://docs.google.com/spreadsheets/d/${spreadsheetId}/export?format=csv&gid=${gid}`;
-  const res = await fetch(url, { cache: "no-store" });
-  if (!res.ok) throw new Error(`CSV ${res.status}`);
-  const text = await res.text();
-  const rows = parseCsv(text);
-  if (!rows.length) throw new Error("CSV vacío");
-  return rows;
-}
-async function fetchGviz(spreadsheetId: string, gid: string | number) {
-  const url = `https://docs.google.com/spreadsheets/d/${spreadsheetId}/gviz/tq?tqx=out:json&gid=${gid}`;
-  const res = await fetch(url, { cache: "no-store" });
-  if (!res.ok) throw new Error(`GViz ${res.status}`);
-  const text = await res.text();
-  const m = text.match(/setResponse\(([\s\S]*?)\);?$/);
-  if (!m) throw new Error("GViz: formato inesperado.");
-  let json: any;
-  try {
-    json = JSON.parse(m[1]);
-  } catch {
-    const start = text.indexOf("{");
-    const end = text.lastIndexOf("}");
-    json = JSON.parse(text.slice(start, end + 1));
-  }
-  const table = json.table;
-  const headers: string[] = table.cols.map((c: any) => (c.label || c.id || "col").trim());
-  const rows: Record<string, any>[] = [];
-  for (const r of table.rows) {
-    const obj: any = {};
-    headers.forEach((h, i) => (obj[h] = r.c[i]?.v ?? r.c[i]?.f ?? ""));
-    rows.push(obj);
-  }
-  if (!rows.length) throw new Error("GViz vacío");
-  return rows;
-}
-async function loadSheetSmart(spreadsheetId: string, gid: string | number, label: string) {
-  try {
-    return await fetchCsv(spreadsheetId, gid);
-  } catch {
-    try {
-      return await fetchGviz(spreadsheetId, gid);
-    } catch {
-      throw new Error(`${label}: no se pudo leer (revisa permisos y gid).`);
-    }
-  }
-}
-function normalizeGoogleSheetUrl(url: string) {
-  const m = url.match(/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
-  const id = m ? m[1] : "";
-  let gid = "0";
-  const g = url.match(/[?&#]gid=([0-9]+)/);
-  if (g) gid = g[1];
-  const csvUrl = id ? `https://docs.google.com/spreadsheets/d/${id}/export?format=csv&gid=${gid}` : "";
-  return { id, gid, csvUrl };
+/* Archivo subido en esta sesión → registros del schema (en el Web Worker); falla con mensaje claro si faltan columnas obligatorias */
+async function mapUpload<T>(schema: Schema<T>, upload: UploadedSheet, opts: JobOptions & { keep?: KeepAs } = {}): Promise<T[]> {
+  return requireMapped(schema, await mapSheetTable(schema, upload, opts), upload.fileName);
 }
-function simpleNorm(s: string) {
-  return (s || "")
-    .toString()
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .replace(/[^0-9a-zA-Z ]+/g, " ")
-    .replace(/\s+/g, " ")
-    .trim()
-    .toUpperCase();
-}
-function sanitizeRut(r: string) {
-  return (r || "").replace(/\./g, "").toUpperCase();
+function toCatalogMap(items: CatalogItem[]) {
+  const map: Record<string, CatalogItem> = {};
+  for (const c of items) map[c.code] = c;
+  return map;
 }
 
 /* === Imagen a dataURL para PDF (soporta data: URIs) === */
@@ -219,30 +160,6 @@ async function getImageSize(dataUrl: string): Promise<{ w: number; h: number } |
 }
 
 /* ===================== TIPOS ===================== */
-type VentasRow = {
-  DocDate?: any;
-  "Rut Cliente"?: string;
-  "Nombre Cliente"?: string;
-  ItemCode?: string;
-  Dscription?: string;
-  "Cantidad Kilos"?: number | string;
-  "Global Venta"?: number | string;
-  "Èmpleado Ventas"?: string;
-  "Empleado ventas"?: string;
-  "Direccion"?: string;
-  "Comuna"?: string;
-  "Ciudad"?: string;
-  "Codigo Cliente"?: string;
-  "odigo liente"?: string;
-};
-type ComodatoRow = {
-  "Rut Cliente"?: string;
-  Total?: number | string;
-  "Codigo Producto"?: string;
-  "Producto"?: string;
-  "Periodo"?: any;
-};
-type CatalogItem = { code: string; name: string; price_list?: number; cost?: number; kilos?: number };
 type HistRow = {
   code: string;
   name: string;
@@ -268,35 +185,79 @@ type ComodatoView = {
   periodoTexto: string;
   valorCuota: number;
 };
-type ProposedItem = {
-  code: string;
-  name: string;
-  qty: number;
-  unit: number;
-  total: number;
-  contractMonths: number;
-  period: string;
-  monthlyFee: number;
-};
 type ClienteOpt = { code: string; name: string; direccion: string; ejecutivo: string };
 
 /* ===================== COMPONENTE ===================== */
 export default function Page() {
-  // admin=1 para ver fuentes
-  const [admin, setAdmin] = useState(false);
+  // Reemplazar fuentes en la sesión expone los costos del catálogo
+  const me = useSession();
+  const admin = can(me, "view-costs");
+  // Cartera del usuario: solo sus clientes (Gerencia, su equipo; Administradora, todos)
+  const scope = useMemo(() => userScope(me), [me]);
+
+  // Fuentes del registro compartido
+  const [sources, setSources] = useState<SourceMap | null>(null);
   useEffect(() => {
-    if (typeof window === "undefined") return;
-    const u = new URL(window.location.href);
-    setAdmin(u.searchParams.get("admin") === "1");
+    fetchSources().then(setSources);
   }, []);
-
-  // URLs (persisten)
-  const [ventasUrl, setVentasUrl] = useLocalStorage("ventas.url", DEFAULT_VENTAS_URL);
-  const [comodatosUrl, setComodatosUrl] = useLocalStorage("comodatos.url", DEFAULT_COMODATOS_URL);
-  const [catalogUrl, setCatalogUrl] = useLocalStorage("catalog.url", DEFAULT_CATALOG_URL);
-  const [snUrl, setSnUrl] = useLocalStorage("sn.url", DEFAULT_SN_URL);
   const [logoUrl, setLogoUrl] = useLocalStorage("pdf.logoUrl", "");
 
+  // Archivos subidos (.xlsx/.csv): reemplazan a la fuente mientras estén cargados (no persisten)
+  const [uploads, setUploads] = useState<Partial<Record<SourceId, UploadedSheet | null>>>({});
+  const setUpload = (key: SourceId, v: UploadedSheet | null) => setUploads((u) => ({ ...u, [key]: v }));
+
+  // Antigüedad de lo mostrado (copia local en IndexedDB + revalidación en segundo plano)
+  const [stamps, setStamps] = useState<Partial<Record<SourceId, SourceStamp>>>({});
+  const setStamp = (id: SourceId, s: SourceStamp | undefined) => setStamps((m) => ({ ...m, [id]: s }));
+
+  // Lecturas en el Web Worker: avance por fuente y cancelación (botón o al salir de la página)
+  const [progress, setProgress] = useState<Partial<Record<SourceId, string>>>({});
+  const jobs = useRef<AbortController | null>(null);
+  useEffect(() => {
+    const ctrl = new AbortController();
+    jobs.current = ctrl;
+    return () => ctrl.abort();
+  }, []);
+  const jobOptions = (id: SourceId): JobOptions => ({
+    signal: jobs.current?.signal,
+    onProgress: (p) => setProgress((m) => ({ ...m, [id]: describeProgress(p) })),
+  });
+  const jobDone = (id: SourceId) => setProgress(({ [id]: _, ...m }) => m);
+  function cancelJobs() {
+    jobs.current?.abort();
+    jobs.current = new AbortController();
+    setProgress({});
+  }
+
+  /* Lee una fuente: archivo de la sesión, o registro con respuesta inmediata desde la copia local.
+     onRevalidate recibe los datos nuevos cuando llegan desde Google. Sin stamp: archivo de la sesión. */
+  async function loadStamped<T>(
+    id: SourceId,
+    schema: Schema<T>,
+    onRevalidate?: (records: T[]) => void
+  ): Promise<{ records: T[]; stamp?: SourceStamp }> {
+    const upload = uploads[id];
+    if (upload) {
+      setStamp(id, undefined);
+      return { records: await mapUpload(schema, upload, jobOptions(id)).finally(() => jobDone(id)) };
+    }
+    if (!sources) throw new Error(`${schema.name}: fuentes de datos aún no cargadas.`);
+    const { records, stamp } = await loadSourceCached(sources[id], schema, {
+      ...jobOptions(id),
+      onRevalidate: (fresh, s) => {
+        jobDone(id);
+        setStamp(id, s);
+        onRevalidate?.(fresh);
+      },
+      onOffline: (s) => (jobDone(id), setStamp(id, s)),
+    }).finally(() => jobDone(id));
+    setStamp(id, stamp);
+    return { records, stamp };
+  }
+  function load<T>(id: SourceId, schema: Schema<T>, onRevalidate?: (records: T[]) => void): Promise<T[]> {
+    return loadStamped(id, schema, onRevalidate).then((r) => r.records);
+  }
+
   // Parámetros
   const [fechaEval, setFechaEval] = useState<string>(() => {
     const d = new Date();
@@ -309,17 +270,24 @@ export default function Page() {
   const [ejecutivoNombre, setEjecutivoNombre] = useState<string>("");
 
   const [months, setMonths] = useLocalStorage<number>("comodato.meses", 24);
-  const [commissionPct, setCommissionPct] = useLocalStorage<number>("com.base", 0.02);
+  const [commissionPct, setCommissionPct] = useLocalStorage<number>("com.base", MARGIN_POLICIES["clientes-activos"].commissionBase);
   const [usePriceListAsCost, setUsePriceListAsCost] = useLocalStorage<boolean>("catalog.usePLasCost", true);
+  // Cambios de comisión base, costo por precio lista y logo quedan en la auditoría
+  useAuditedSetting("com.base", commissionPct);
+  useAuditedSetting("catalog.usePLasCost", usePriceListAsCost);
+  useAuditedSetting("pdf.logoUrl", logoUrl);
 
   // Estados
   const [catalog, setCatalog] = useState<Record<string, CatalogItem>>({});
+  // Versión del catálogo cargado y la usada para los costos del último cálculo
+  const [catalogVersion, setCatalogVersion] = useState<CatalogVersionRef | null>(null);
+  const [histCatalogVersion, setHistCatalogVersion] = useState<CatalogVersionRef | null>(null);
   const [hist6m, setHist6m] = useState<HistRow[]>([]);
   const [promVentaMensual6m, setPromVentaMensual6m] = useState(0);
   const [comodatoMensual6m, setComodatoMensual6m] = useState(0);
   const [relComVta6m, setRelComVta6m] = useState(0);
   const [commissionFinal6m, setCommissionFinal6m] = useState(0);
-  const [loadError, setLoadError] = useState<string>("");
+  const [loadError, setLoadError] = useState<SourceProblem | null>(null);
   const [comodatosView, setComodatosView] = useState<ComodatoView[]>([]);
   const [proposed, setProposed] = useLocalStorage<ProposedItem[]>("comodato.propuestos", []);
   const [totalVentaMes, setTotalVentaMes] = useState(0);
@@ -327,12 +295,36 @@ export default function Page() {
   const [showAllVentas, setShowAllVentas] = useState(false);
   const [showAllComodatos, setShowAllComodatos] = useState(false);
 
-  // Cache ventas y opciones de código-cliente por RUT
-  const [ventasCache, setVentasCache] = useState<VentasRow[] | null>(null);
+  // Opciones de código-cliente por RUT
   const [clienteCodOptions, setClienteCodOptions] = useState<ClienteOpt[]>([]);
 
   const viabilidadPct = totalVentaMes > 0 ? totalMgn3 / totalVentaMes : 0;
-  const isViable = viabilidadPct >= VIABILITY_THRESHOLD;
+  // Reglas de viabilidad del ejecutivo del cliente (las de su Gerencia, si tiene)
+  const [viabilityRules, setViabilityRules] = useState<EffectiveViabilityRules>(DEFAULT_EFFECTIVE_RULES);
+  useEffect(() => {
+    let alive = true;
+    fetchViabilityRules(ejecutivoNombre).then(
+      (r) => alive && setViabilityRules(r),
+      () => alive && setViabilityRules(DEFAULT_EFFECTIVE_RULES)
+    );
+    return () => {
+      alive = false;
+    };
+  }, [ejecutivoNombre]);
+  const viability = useMemo(
+    () =>
+      assessViability(
+        {
+          lines: hist6m.map((r) => ({ code: r.code, venta: r.ventaMes, mgn3: r.mgn3$ })),
+          ventaTotal: totalVentaMes,
+          rel: relComVta6m,
+          mgnFinalPct: viabilidadPct,
+        },
+        viabilityRules
+      ),
+    [hist6m, totalVentaMes, relComVta6m, viabilidadPct, viabilityRules]
+  );
+  const isViable = viability.status === "viable";
 
   /* ======== Datalist productos ======== */
   type Option = { code: string; name: string; price: number };
@@ -349,11 +341,19 @@ export default function Page() {
     for (const c of catalogList) m.set(c.code.toUpperCase(), c);
     return m;
   }, [catalogList]);
+  // Catálogo indexado en el worker por código y nombre; cada tecla cancela la búsqueda anterior
+  useEffect(() => {
+    indexRecords(CATALOG_INDEX, catalogList, ["code", "name"]).catch(() => undefined);
+  }, [catalogList]);
+  const suggestJob = useRef<AbortController | null>(null);
   function refreshSuggestions(q: string) {
-    const norm = simpleNorm(q);
-    if (!norm) return setSuggestions([]);
-    const list = catalogList.filter((c) => simpleNorm(c.code).includes(norm) || simpleNorm(c.name).includes(norm));
-    setSuggestions(list.slice(0, 50));
+    suggestJob.current?.abort();
+    if (!q.trim()) return setSuggestions([]);
+    const ctrl = new AbortController();
+    suggestJob.current = ctrl;
+    searchRecords<Option>(CATALOG_INDEX, q, 50, { signal: ctrl.signal }).then(setSuggestions, (e) => {
+      if (!isCancelled(e)) setSuggestions([]);
+    });
   }
   function autocompleteFromCode(row: number, value: string) {
     const code = value.trim().toUpperCase();
@@ -363,29 +363,27 @@ export default function Page() {
 
   /* ---------- Cargar catálogo ---------- */
   useEffect(() => {
+    if (!sources && !uploads.catalogo) return;
     (async () => {
       try {
-        const { id, gid } = normalizeGoogleSheetUrl(catalogUrl);
-        if (!id) throw new Error("URL de catálogo inválida.");
-        const rows = await loadSheetSmart(id, gid, "Catálogo");
-        const map: Record<string, CatalogItem> = {};
-        for (const r of rows) {
-          const code = String(r.code ?? r.Code ?? r.Codigo ?? r["code"] ?? "").trim().toUpperCase();
-          if (!code) continue;
-          map[code] = {
-            code,
-            name: String(r.name ?? r.Nombre ?? r.Producto ?? r["name"] ?? "").trim(),
-            price_list: num(r.price_list ?? r["price_list"]),
-            cost: num(r.cost ?? r["cost"]),
-            kilos: num(r.kilos ?? r["kilos"]),
-          };
-        }
-        setCatalog(map);
+        // Solo una lectura fresca crea versión; la copia local o un archivo de sesión solo se reconocen
+        const upload = uploads.catalogo;
+        const origin = upload ? `archivo ${upload.fileName}` : sources ? sourceOrigin(sources.catalogo) : "";
+        const track = (records: CatalogItem[], record: boolean) =>
+          syncCatalogVersion(records, { origin, record }).then(setCatalogVersion);
+        setCatalogVersion(null);
+        const { records, stamp } = await loadStamped("catalogo", CATALOG_SCHEMA, (fresh) => {
+          setCatalog(toCatalogMap(fresh));
+          track(fresh, true);
+        });
+        setCatalog(toCatalogMap(records));
+        track(records, !!stamp && !stamp.fromCache);
       } catch (e: any) {
-        setLoadError(e?.message ?? "Error cargando catálogo");
+        if (!isCancelled(e)) setLoadError(toProblem(e, "Error cargando catálogo"));
       }
     })();
-  }, [catalogUrl]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sources, uploads.catalogo]);
 
   /* ---------- Helpers Propuestos ---------- */
   function addProposed() {
@@ -393,13 +391,16 @@ export default function Page() {
     const ym = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}`;
     setProposed([...proposed, { code: "", name: "", qty: 1, unit: 0, total: 0, contractMonths: months || 24, period: ym, monthlyFee: 0 }]);
   }
-  function updateProposed(index: number, patch: Partial<ProposedItem>) {
-    const next = [...proposed];
-    const merged = { ...next[index], ...patch };
+  function withProposedTotals(p: ProposedItem): ProposedItem {
+    const merged = { ...p };
     merged.total = Math.max(0, Number(merged.qty || 0)) * Math.max(0, Number(merged.unit || 0));
     merged.contractMonths = Math.max(1, Number(merged.contractMonths || 1));
     merged.monthlyFee = merged.contractMonths > 0 ? merged.total / merged.contractMonths : merged.total;
-    next[index] = merged;
+    return merged;
+  }
+  function updateProposed(index: number, patch: Partial<ProposedItem>) {
+    const next = [...proposed];
+    next[index] = withProposedTotals({ ...next[index], ...patch });
     setProposed(next);
   }
   function removeProposed(index: number) {
@@ -408,38 +409,41 @@ export default function Page() {
     setProposed(next);
   }
 
-  /* ---------- Ventas cache ---------- */
-  async function ensureVentasCache() {
-    if (ventasCache) return ventasCache;
-    const { id: vId, gid: vGid } = normalizeGoogleSheetUrl(ventasUrl);
-    if (!vId) throw new Error("URL de ventas inválida.");
-    const rows = (await loadSheetSmart(vId, vGid, "Ventas 6M")) as VentasRow[];
-    setVentasCache(rows);
-    return rows;
+  /* ---------- Ventas por cliente ---------- */
+  /* El agregado por RUT/CardCode se calcula en /api/ventas/historico; la planilla completa no llega al navegador.
+     Un archivo de Ventas subido en esta sesión se mapea una vez en el Web Worker y cada consulta se agrega allí. */
+  const ventasEnWorker = useRef<UploadedSheet | null>(null);
+  async function queryVentas(q: VentasQuery): Promise<VentasHistorico> {
+    const upload = uploads.ventas;
+    if (upload) {
+      setStamp("ventas", undefined);
+      if (ventasEnWorker.current !== upload) {
+        await mapUpload(VENTAS_SCHEMA, upload, { ...jobOptions("ventas"), keep: { name: VENTAS_UPLOAD } }).finally(() => jobDone("ventas"));
+        ventasEnWorker.current = upload;
+      }
+      return aggregateVentasInWorker(VENTAS_UPLOAD, { ...q, ejecutivos: scope }, { signal: jobs.current?.signal });
+    }
+    const { data, stamp } = await loadVentasHistorico(q, {
+      onRevalidate: (_fresh, s) => setStamp("ventas", s),
+      onOffline: (s) => setStamp("ventas", s),
+    });
+    setStamp("ventas", stamp);
+    return data;
   }
 
   async function autofillByCodigoCliente(code: string) {
     try {
-      const rows = await ensureVentasCache();
       const codigoNorm = String(code || "").trim().toUpperCase();
       if (!codigoNorm) return;
-      const hit =
-        rows.find((r) => String(r["Codigo Cliente"] ?? r["odigo liente"] ?? "").toString().trim().toUpperCase() === codigoNorm) ||
-        null;
+      const { clientes } = await queryVentas({ cardCode: codigoNorm });
+      const hit = clientes[0];
       if (!hit) return;
-      const rut = String(hit["Rut Cliente"] ?? "").trim();
-      const nom = String(hit["Nombre Cliente"] ?? "").trim();
-      const dirBase = String(hit["Direccion"] ?? "").trim();
-      const comuna = String(hit["Comuna"] ?? "").trim();
-      const ciudad = String(hit["Ciudad"] ?? "").trim();
-      const direccion = [dirBase, comuna, ciudad].filter(Boolean).join(", ");
-      const ej = String(hit["Èmpleado Ventas"] ?? hit["Empleado ventas"] ?? "").trim();
-      setRutFiltro(rut);
-      setClienteNombre(nom);
-      setClienteDireccion(direccion);
-      setEjecutivoNombre(ej);
+      setRutFiltro(hit.rut);
+      setClienteNombre(hit.name);
+      setClienteDireccion(hit.direccion);
+      setEjecutivoNombre(hit.ejecutivo);
     } catch (e: any) {
-      setLoadError(e?.message ?? "No se pudo autocompletar por código");
+      if (!isCancelled(e)) setLoadError(toProblem(e, "No se pudo autocompletar por código"));
     }
   }
 
@@ -454,26 +458,18 @@ export default function Page() {
 
       // 1) Maestro SN
       let opts: ClienteOpt[] = [];
-      const { id: snId, gid: snGid } = normalizeGoogleSheetUrl(snUrl || "");
-      if (snId) {
+      if (uploads.sn || sources) {
         try {
-          const rows = await loadSheetSmart(snId, snGid, "Maestro SN");
+          const rows = await load("sn", SN_SCHEMA);
           const map = new Map<string, ClienteOpt>();
+          // El servidor ya recorta Maestro SN a la cartera del usuario; aquí se acota a la elegida
+          // (y se filtra el archivo subido en la sesión, que no pasa por el servidor)
+          const visible = inScope(scope);
           for (const r of rows) {
-            const rv = sanitizeRut(String(r["RUT"] ?? r.Rut ?? r.rut ?? ""));
-            if (rutSan && rv !== rutSan) continue;
-
-            const code = String(r["CardCode"] ?? r.CardCode ?? "").trim().toUpperCase();
-            if (!code) continue;
-
-            const name = String(r["CardName"] ?? r.CardName ?? "").trim();
-            const dirBase = String(r["Direccion Despacho"] ?? r["Dirección Despacho"] ?? "").trim();
-            const comuna = String(r["Despacho Comuna"] ?? "").trim();
-            const ciudad = String(r["Despacho Ciudad"] ?? "").trim();
-            const direccion = [dirBase, comuna, ciudad].filter(Boolean).join(", ");
-            const ejecutivo = String(r["Empleado Ventas"] ?? r["Èmpleado Ventas"] ?? r["Empleado ventas"] ?? "").trim();
-
-            map.set(code, { code, name, direccion, ejecutivo });
+            if (rutSan && sanitizeRut(r.rut) !== rutSan) continue;
+            if (!visible(r.ejecutivo)) continue;
+            const direccion = [r.direccion, r.comuna, r.ciudad].filter(Boolean).join(", ");
+            map.set(r.cardCode, { code: r.cardCode, name: r.cardName, direccion, ejecutivo: r.ejecutivo });
           }
           opts = Array.from(map.values()).sort((a, b) => a.code.localeCompare(b.code));
         } catch {
@@ -483,25 +479,8 @@ export default function Page() {
 
       // 2) Respaldo: Ventas 6M
       if (!opts.length) {
-        const rows = await ensureVentasCache();
-        const map = new Map<string, ClienteOpt>();
-        for (const r of rows) {
-          const rv = sanitizeRut(String(r["Rut Cliente"] ?? ""));
-          if (rutSan && rv !== rutSan) continue;
-
-          const code = String(r["Codigo Cliente"] ?? r["odigo liente"] ?? "").trim().toUpperCase();
-          if (!code) continue;
-
-          const name = String(r["Nombre Cliente"] ?? "").trim();
-          const dirBase = String(r["Direccion"] ?? "").trim();
-          const comuna = String(r["Comuna"] ?? "").trim();
-          const ciudad = String(r["Ciudad"] ?? "").trim();
-          const direccion = [dirBase, comuna, ciudad].filter(Boolean).join(", ");
-          const ejecutivo = String(r["Èmpleado Ventas"] ?? r["Empleado ventas"] ?? "").trim();
-
-          map.set(code, { code, name, direccion, ejecutivo });
-        }
-        opts = Array.from(map.values()).sort((a, b) => a.code.localeCompare(b.code));
+        const { clientes } = await queryVentas({ rut: rutSan });
+        opts = clientes.map(({ code, name, direccion, ejecutivo }) => ({ code, name, direccion, ejecutivo }));
       }
 
       setClienteCodOptions(opts);
@@ -510,8 +489,9 @@ export default function Page() {
         setClienteCodigo(opts[0].code);
         applyClienteOption(opts[0]);
       }
-    } catch {
+    } catch (e) {
       setClienteCodOptions([]);
+      if (!isCancelled(e)) setLoadError(toProblem(e, "No se pudieron cargar los códigos de cliente"));
     }
   }
 
@@ -529,67 +509,39 @@ export default function Page() {
   useEffect(() => {
     recalcClienteCodOptions();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [rutFiltro, ventasCache, snUrl]);
+  }, [rutFiltro, sources, uploads.sn, uploads.ventas, scope]);
 
   /* ---------- Cargar histórico 6M + Comodatos ---------- */
   async function cargarHistorico6M() {
-    setLoadError("");
+    setLoadError(null);
     try {
-      const { id: vId, gid: vGid } = normalizeGoogleSheetUrl(ventasUrl);
-      if (!vId) throw new Error("URL de ventas inválida.");
-      const ventasRows = (await loadSheetSmart(vId, vGid, "Ventas 6M")) as VentasRow[];
-      setVentasCache(ventasRows);
-
-      const { start, end } = rango6Meses(new Date());
       const rutSan = sanitizeRut(rutFiltro);
-
-      const ventasFiltradas = ventasRows.filter((r) => {
-        const fecha = parseDateLike(r.DocDate);
-        if (!fecha) return false;
-        if (rutSan) {
-          const rv = sanitizeRut(String(r["Rut Cliente"] ?? ""));
-          if (rv !== rutSan) return false;
-        }
-        return fecha >= start && fecha < end;
-      });
+      const codigo = clienteCodigo.trim().toUpperCase();
+      if (!rutSan && !codigo) throw new Error("Ingresa el RUT o el código de cliente.");
+
+      // Agregado 6M por producto (solo "PT"), por RUT o, si no hay, por código cliente
+      const cliente = rutSan ? { rut: rutSan } : { cardCode: codigo };
+      const ventas = await queryVentas({ ...cliente, months: 6, product: "PT" });
+      // Sin ventas ni código en la cartera: no se muestran sus comodatos
+      if (scope && !ventas.clientes.length && !clienteCodOptions.length) {
+        throw new Error("Ese cliente no pertenece a tu cartera (o no tiene ventas ni ficha en el Maestro SN).");
+      }
 
       // Datos cliente base
-      const ref = ventasFiltradas[0];
+      const ref = ventas.cliente;
       if (ref) {
-        setClienteNombre(String(ref["Nombre Cliente"] ?? ""));
-        const dirBase = String(ref["Direccion"] ?? "").trim();
-        const comuna = String(ref["Comuna"] ?? "").trim();
-        const ciudad = String(ref["Ciudad"] ?? "").trim();
-        setClienteDireccion([dirBase, comuna, ciudad].filter(Boolean).join(", "));
-        const ej = String(ref["Èmpleado Ventas"] ?? ref["Empleado ventas"] ?? "").trim();
-        setEjecutivoNombre(ej);
-        setClienteCodigo(String(ref["Codigo Cliente"] ?? ref["odigo liente"] ?? ""));
-      }
-
-      // Agregado por producto (solo "PT")
-      const agregados = new Map<string, HistRow>();
-      for (const r of ventasFiltradas) {
-        const rawCode = String(r.ItemCode ?? "").trim();
-        if (!rawCode) continue;
-        const code = rawCode.toUpperCase();
-        if (!/PT/i.test(code)) continue;
-        const name = String(r.Dscription ?? "").trim();
-        const kg = num(r["Cantidad Kilos"]);
-        const venta = num(r["Global Venta"]);
-        if (!agregados.has(code)) {
-          agregados.set(code, {
-            code, name, kilos6m: 0, kgMes: 0, venta6m: 0, ventaMes: 0,
-            precioPromKg: 0, margenDirectoPct: 0, mgn1$: 0, comodatoAsignado$: 0, mgn2$: 0, mgn2Pct: 0, mgn3$: 0, mgn3Pct: 0,
-          });
-        }
-        const row = agregados.get(code)!;
-        row.kilos6m += kg;
-        row.venta6m += venta;
-        if (!row.name) row.name = name;
+        setClienteNombre(ref.name);
+        setClienteDireccion(ref.direccion);
+        setEjecutivoNombre(ref.ejecutivo);
+        setClienteCodigo(ref.code);
       }
 
       let result: HistRow[] = [];
-      for (const r of agregados.values()) {
+      for (const v of ventas.items) {
+        const r = {
+          code: v.code, name: v.name, kilos6m: v.kilos, kgMes: 0, venta6m: v.venta, ventaMes: 0,
+          precioPromKg: 0, margenDirectoPct: 0, mgn1$: 0, comodatoAsignado$: 0, mgn2$: 0, mgn2Pct: 0, mgn3$: 0, mgn3Pct: 0,
+        };
         const item = catalog[r.code];
         const costoKg =
           item?.cost !== undefined && item?.cost !== null
@@ -601,29 +553,25 @@ export default function Page() {
         const margenDirectoPct = precioPromKg > 0 ? (precioPromKg - costoKg) / precioPromKg : 0;
         result.push({ ...r, kgMes: r.kilos6m / 6, ventaMes: r.venta6m / 6, precioPromKg, margenDirectoPct });
       }
+      setHistCatalogVersion(catalogVersion);
 
       const venta6mTotal = result.reduce((a, x) => a + x.venta6m, 0);
       const ventaMesProm = venta6mTotal / 6;
 
       // Comodatos históricos
-      const { id: cId, gid: cGid } = normalizeGoogleSheetUrl(comodatosUrl);
-      if (!cId) throw new Error("URL de comodatos inválida.");
-      const comodatos = (await loadSheetSmart(cId, cGid, "Comodatos")) as ComodatoRow[];
-      const comCliente = comodatos.filter((r) => {
-        if (!rutSan) return true;
-        const rc = sanitizeRut(String(r["Rut Cliente"] ?? ""));
-        return rc === rutSan;
-      });
+      const comodatos: ComodatoRow[] = await load("comodatos", COMODATOS_SCHEMA);
+      const rutCliente = rutSan || sanitizeRut(ref?.rut ?? "");
+      const comCliente = comodatos.filter((r) => !rutCliente || sanitizeRut(r.rut) === rutCliente);
 
       const hoy = new Date();
       const contratoDefault = Math.max(1, Number(months || 1));
       const comodatosV: ComodatoView[] = comCliente.map((r) => {
-        const code = String(r["Codigo Producto"] ?? "").trim().toUpperCase();
-        const name = String(r["Producto"] ?? "").trim();
-        const total = num(r.Total);
-        const periodoDate = parsePeriodoToDate(r["Periodo"]);
-        const periodoTexto = r["Periodo"]
-          ? String(r["Periodo"])
+        const code = r.codigo;
+        const name = r.producto;
+        const total = r.total;
+        const periodoDate = parsePeriodoToDate(r.periodo);
+        const periodoTexto = r.periodo
+          ? String(r.periodo)
           : periodoDate
           ? `${periodoDate.getFullYear()}-${String(periodoDate.getMonth() + 1).padStart(2, "0")}`
           : "—";
@@ -650,34 +598,28 @@ export default function Page() {
       const comodatoMensualPropuesto = proposedWithTotals.reduce((a, r) => a + r.monthlyFee, 0);
       const comodatoMensual = comodatoMensualHistorico + comodatoMensualPropuesto;
 
-      const relacion = ventaMesProm > 0 ? comodatoMensual / ventaMesProm : 0;
-      const comFinal = commissionPct * Math.max(0, 1 - relacion);
-
-      const totalKgMes = result.reduce((a, r) => a + r.kgMes, 0);
-      let sumVentaMes = 0;
-      let sumMgn3 = 0;
-      result = result.map((r) => {
-        const mgn1 = r.ventaMes * r.margenDirectoPct;
-        const comodatoAsig = totalKgMes > 0 ? (comodatoMensual / totalKgMes) * r.kgMes : 0;
-        const mgn2 = mgn1 - comodatoAsig;
-        const mgn2Pct = r.ventaMes > 0 ? mgn2 / r.ventaMes : 0;
-        const mgn3 = mgn2 - comFinal * r.ventaMes;
-        const mgn3Pct = r.ventaMes > 0 ? mgn3 / r.ventaMes : 0;
-        sumVentaMes += r.ventaMes;
-        sumMgn3 += mgn3;
-        return { ...r, mgn1$: mgn1, comodatoAsignado$: comodatoAsig, mgn2$: mgn2, mgn2Pct, mgn3$: mgn3, mgn3Pct };
+      // Costo desde el margen directo: sin kilos no hay precio por kg y el margen directo queda en 0
+      const m = computeMargins({
+        lines: result.map((r) => ({ ...r, kilosMes: r.kgMes, venta: r.ventaMes, costo: r.ventaMes * (1 - r.margenDirectoPct) })),
+        comodatoMensual,
+        commissionPct,
+        policy: MARGIN_POLICIES["clientes-activos"],
+      });
+      result = result.map((r, i) => {
+        const l = m.lines[i];
+        return { ...r, mgn1$: l.mgn1, comodatoAsignado$: l.cdtoAsignado, mgn2$: l.mgn2, mgn2Pct: l.mgn2Pct, mgn3$: l.mgn3, mgn3Pct: l.mgn3Pct };
       });
 
       setHist6m(result.sort((a, b) => b.venta6m - a.venta6m));
       setPromVentaMensual6m(ventaMesProm);
       setComodatoMensual6m(comodatoMensual);
-      setRelComVta6m(relacion);
-      setCommissionFinal6m(comFinal);
+      setRelComVta6m(m.rel);
+      setCommissionFinal6m(m.comFinalPct);
       setComodatosView(comodatosV);
-      setTotalVentaMes(sumVentaMes);
-      setTotalMgn3(sumMgn3);
+      setTotalVentaMes(m.ventaTotal);
+      setTotalMgn3(m.mgn3Total);
     } catch (e: any) {
-      setLoadError(e?.message ?? "Error cargando datos");
+      if (!isCancelled(e)) setLoadError(toProblem(e, "Error cargando datos"));
     }
   }
 
@@ -686,6 +628,26 @@ export default function Page() {
   const cuotaSimuladaTotal = proposed.reduce((a, r) => a + (r.monthlyFee || 0), 0);
   const nuevaCuotaTotal = cuotaVigenteTotal + cuotaSimuladaTotal;
 
+  /* ---------- Punto de equilibrio ---------- */
+  // Precios y kilos son históricos: quedan como meta para negociar. Se aplican solo los equipos propuestos
+  const breakEven = useMemo<BreakEvenScenario>(() => {
+    const investment = proposed.reduce((a, p) => a + (p.total || 0), 0);
+    return {
+      lines: hist6m.map((r) => ({ code: r.code, name: r.name, kilosMes: r.kgMes, venta: r.ventaMes, costo: r.ventaMes * (1 - r.margenDirectoPct) })),
+      fixedMonthlyFee: cuotaVigenteTotal,
+      // Meses equivalentes: los equipos pueden tener contratos distintos
+      investment,
+      months: cuotaSimuladaTotal > 0 ? investment / cuotaSimuladaTotal : months,
+      commissionPct,
+      policy: MARGIN_POLICIES["clientes-activos"],
+    };
+  }, [hist6m, proposed, cuotaVigenteTotal, cuotaSimuladaTotal, months, commissionPct]);
+  const breakEvenApply: BreakEvenApply = {
+    investment: (total) =>
+      setProposed(proposed.map((p) => withProposedTotals({ ...p, unit: Math.floor(((p.unit || 0) * total) / breakEven.investment) }))),
+    months: (n) => setProposed(proposed.map((p) => withProposedTotals({ ...p, contractMonths: n }))),
+  };
+
   /* ---------- PDF (alineaciones + LOGO proporcional) ---------- */
   async function descargarPdf() {
     const { jsPDF } = await import("jspdf");
@@ -694,6 +656,7 @@ export default function Page() {
     const BLUE = { r: 31, g: 78, b: 216 }; // #1f4ed8
     const GREEN = { r: 22, g: 163, b: 74 };
     const RED = { r: 220, g: 38, b: 38 };
+    const AMBER = { r: 217, g: 119, b: 6 };
 
     const W = doc.internal.pageSize.getWidth();
     const M = 36; // margen
@@ -800,6 +763,7 @@ export default function Page() {
       ["RUT", `${rutFiltro || "—"}`],
       ["Dirección", `${clienteDireccion || "—"}`],
       ["Ejecutivo", `${ejecutivoNombre || "—"}`],
+      ["Catálogo (costos)", versionLabel(histCatalogVersion)],
     ]);
 
     // ===== KPIs =====
@@ -812,16 +776,20 @@ export default function Page() {
     ]);
 
     // Estado
-    const label = isViable ? "Viable" : "No viable";
-    const color = isViable ? GREEN : RED;
+    const label = VIABILITY_STATUS_LABEL[viability.status];
+    const color = viability.status === "viable" ? GREEN : viability.status === "revision" ? AMBER : RED;
     doc.setFillColor(color.r, color.g, color.b);
     doc.setTextColor(255, 255, 255);
-    doc.rect(M, y, 160, 30, "F");
+    doc.rect(M, y, 240, 30, "F");
     doc.setFont("helvetica", "bold"); doc.setFontSize(14);
     doc.text(`Estado: ${label}`, M + 10, y + 20);
     doc.setTextColor(0, 0, 0);
     y += 42;
 
+    // ===== Reglas de viabilidad =====
+    drawSectionHeader(`Reglas de viabilidad ${viabilityRules.gerencia ? `(${viabilityRules.gerencia.name})` : "(generales)"}`);
+    drawKVTable(viability.checks.map((c) => [CHECK_STATUS_LABEL[c.status], `${c.label}: ${describeCheck(c)}`]));
+
     // ===== Evaluación en vivo =====
     drawSectionHeader("Evaluación en vivo — Nuevos equipos");
     const headers = ["Código", "Descripción", "Cantidad", "Valor unitario", "Valor total"];
@@ -832,20 +800,58 @@ export default function Page() {
 
     const fname = `Solicitud_Comodato_${(clienteNombre || "Cliente").replace(/[^A-Za-z0-9_-]+/g, "_")}_${fechaEval}.pdf`;
     doc.save(fname);
-    return fname;
+    logAudit({
+      action: "pdf.generate",
+      entity: "solicitud-comodato",
+      entityId: fname,
+      after: { cliente: clienteNombre, rut: rutFiltro, codigo: clienteCodigo, fecha: fechaEval, viabilidadPct, viabilidad: viability.status, catalogo: histCatalogVersion?.id ?? null },
+    });
+    return { fileName: fname, data: doc.output("datauristring").split(",")[1] };
   }
 
-  function descargarYEnviar() {
-    if (!isViable) {
-      alert("Solo se envía por correo si el estado es Viable.");
+  /* ------- Solicitud de VB comodato ------- */
+  // La simulación no se guarda aparte: la solicitud lleva su copia, los KPIs y el PDF
+  const [vb, setVb] = useLocalStorage<ApprovalRef | null>("comodato.vb", null);
+  const [vbMsg, setVbMsg] = useState<{ ok: boolean; text: string } | null>(null);
+  const [requesting, setRequesting] = useState(false);
+
+  useEffect(() => {
+    if (!vb) return;
+    fetchApproval(vb.id).then(
+      (r) => setVb(approvalRef(r)),
+      () => undefined
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [vb?.id]);
+
+  async function solicitarVB() {
+    if (viability.status === "no-viable") {
+      alert("No se solicita VB si el estado es No viable.");
       return;
     }
-    descargarPdf().then(() => {
-      const to = "patricia.acuna@spartan.cl";
-      const subject = encodeURIComponent(`Solicitud Evaluación de Comodato — ${clienteNombre || "Cliente"}`);
-      const body = encodeURIComponent("Estimada, se solicita gestionar VB a comodato. Saludos.");
-      window.location.href = `mailto:${to}?subject=${subject}&body=${body}`;
-    });
+    setRequesting(true);
+    setVbMsg(null);
+    try {
+      const simulation = {
+        ...currentSimulation(),
+        results: {
+          promVentaMensual: promVentaMensual6m,
+          comodatoMensual: comodatoMensual6m,
+          rel: relComVta6m,
+          comFinalPct: commissionFinal6m,
+          viabilidadPct,
+          viable: isViable,
+          viability: viability.status,
+        },
+      };
+      const r = await requestApproval({ source: "clientes-activos", simulation, pdf: await descargarPdf() });
+      setVb(approvalRef(r));
+      setVbMsg({ ok: true, text: `Solicitud ${r.id} enviada a VB comodato.` });
+    } catch (err: any) {
+      setVbMsg({ ok: false, text: err?.message ?? "No se pudo enviar la solicitud" });
+    } finally {
+      setRequesting(false);
+    }
   }
 
   /* ------- Limpiar para nuevo cliente ------- */
@@ -864,10 +870,38 @@ export default function Page() {
     setCommissionFinal6m(0);
     setTotalVentaMes(0);
     setTotalMgn3(0);
-    setVentasCache(null);
     setClienteCodOptions([]);
     setShowAllVentas(false);
     setShowAllComodatos(false);
+    setHistCatalogVersion(null);
+    setVb(null);
+    setVbMsg(null);
+  }
+
+  /* ------- Borrador en archivo (otro navegador) ------- */
+  function currentSimulation(): SimulationDraft {
+    return {
+      cliente: { codigo: clienteCodigo, rut: rutFiltro, nombre: clienteNombre, direccion: clienteDireccion },
+      ejecutivo: ejecutivoNombre,
+      fecha: fechaEval,
+      params: { months, commissionPct },
+      proposed,
+    };
+  }
+
+  // El histórico no viene en el archivo: se vuelve a cargar con Buscar
+  function importarBorrador(d: SimulationDraft) {
+    if (proposed.length && !confirm("Se reemplazarán los comodatos propuestos actuales. ¿Continuar?")) return;
+    limpiarTodo();
+    setClienteCodigo(d.cliente.codigo);
+    setRutFiltro(d.cliente.rut);
+    setClienteNombre(d.cliente.nombre);
+    setClienteDireccion(d.cliente.direccion);
+    setEjecutivoNombre(d.ejecutivo);
+    setFechaEval(d.fecha);
+    setMonths(d.params.months);
+    setCommissionPct(d.params.commissionPct);
+    setProposed(d.proposed);
   }
 
   /* ============= UI ============= */
@@ -893,35 +927,40 @@ export default function Page() {
       </datalist>
 
       <main className="mx-auto max-w-7xl px-6 py-6">
-        {loadError && <div className="mb-4 rounded-lg border border-red-300 bg-red-50 p-3 text-sm text-red-700">{loadError}</div>}
+        <SourceErrorBox problem={loadError} className="mb-4" />
 
-        {/* Fuentes (solo admin=1) */}
+        {/* Fuentes (requiere ver costos) */}
         {admin && (
           <section className="rounded-2xl border bg-white p-6 shadow-sm">
-            <h2 className="mb-4 text-lg font-semibold text-[#2B6CFF]">⚙️ Fuentes (Google Sheets)</h2>
+            <h2 className="mb-4 text-lg font-semibold text-[#2B6CFF]">⚙️ Fuentes</h2>
+            <p className="mb-3 text-xs text-zinc-500">
+              Las fuentes se administran en Fuentes de datos. Un archivo subido aquí solo reemplaza la fuente en esta sesión.
+            </p>
             <div className="grid gap-3 md:grid-cols-2">
-              <label className="text-sm">
-                Ventas (últimos 6 meses)
-                <input className="mt-1 w-full rounded border px-2 py-1" value={ventasUrl} onChange={(e) => setVentasUrl(e.target.value)} />
-              </label>
-              <label className="text-sm">
-                Comodatos
-                <input className="mt-1 w-full rounded border px-2 py-1" value={comodatosUrl} onChange={(e) => setComodatosUrl(e.target.value)} />
-              </label>
-              <label className="text-sm md:col-span-2">
-                Catálogo (costos)
-                <div className="mt-1 flex flex-wrap items-center gap-2">
-                  <input className="flex-1 rounded border px-2 py-1" value={catalogUrl} onChange={(e) => setCatalogUrl(e.target.value)} />
-                  <label className="ml-2 inline-flex items-center gap-2 text-xs">
-                    <input type="checkbox" checked={usePriceListAsCost} onChange={(e) => setUsePriceListAsCost(e.target.checked)} />
-                    <span>Usar price_list si falta costo</span>
-                  </label>
-                </div>
-              </label>
-              <label className="text-sm md:col-span-2">
-                Maestro clientes (SN)
-                <input className="mt-1 w-full rounded border px-2 py-1" value={snUrl} onChange={(e) => setSnUrl(e.target.value)} />
-              </label>
+              <div className="text-sm">
+                {sources?.ventas.name ?? "Ventas (últimos 6 meses)"}
+                <SourceInfo source={sources?.ventas} />
+                <SheetFileInput value={uploads.ventas ?? null} onChange={(v) => setUpload("ventas", v)} />
+              </div>
+              <div className="text-sm">
+                {sources?.comodatos.name ?? "Comodatos"}
+                <SourceInfo source={sources?.comodatos} />
+                <SheetFileInput value={uploads.comodatos ?? null} onChange={(v) => setUpload("comodatos", v)} />
+              </div>
+              <div className="text-sm md:col-span-2">
+                {sources?.catalogo.name ?? "Catálogo"} (costos)
+                <SourceInfo source={sources?.catalogo} />
+                <label className="mt-1 inline-flex items-center gap-2 text-xs">
+                  <input type="checkbox" checked={usePriceListAsCost} onChange={(e) => setUsePriceListAsCost(e.target.checked)} />
+                  <span>Usar price_list si falta costo</span>
+                </label>
+                <SheetFileInput value={uploads.catalogo ?? null} onChange={(v) => setUpload("catalogo", v)} />
+              </div>
+              <div className="text-sm md:col-span-2">
+                {sources?.sn.name ?? "Maestro clientes (SN)"}
+                <SourceInfo source={sources?.sn} />
+                <SheetFileInput value={uploads.sn ?? null} onChange={(v) => setUpload("sn", v)} />
+              </div>
               <label className="text-sm md:col-span-2">
                 Logo (URL imagen o data:image/png;base64,...)
                 <input className="mt-1 w-full rounded border px-2 py-1" value={logoUrl} onChange={(e) => setLogoUrl(e.target.value)} placeholder="https://.../logo.png o data:..." />
@@ -951,7 +990,35 @@ export default function Page() {
 
         {/* Parámetros y búsqueda */}
         <section className="mt-6 rounded-2xl border bg-white p-6 shadow-sm">
-          <h2 className="mb-4 text-lg font-semibold text-[#2B6CFF]">📊 Evaluación de Comodatos</h2>
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+            <h2 className="text-lg font-semibold text-[#2B6CFF]">📊 Evaluación de Comodatos</h2>
+            <DataAsOf
+              items={[
+                { label: "Ventas", stamp: stamps.ventas },
+                { label: "Comodatos", stamp: stamps.comodatos },
+                { label: "Catálogo", stamp: stamps.catalogo },
+                { label: "Maestro SN", stamp: stamps.sn },
+              ]}
+            />
+            {hist6m.length > 0 && (
+              <Link
+                href={histCatalogVersion ? `/fuentes/catalogo?v=${histCatalogVersion.id}` : "/fuentes/catalogo"}
+                className="text-xs text-zinc-500 underline"
+                title="Versión del catálogo con la que se calcularon los costos"
+              >
+                Costos: {versionLabel(histCatalogVersion)}
+              </Link>
+            )}
+            {Object.keys(progress).length > 0 && (
+              <span className="flex items-center gap-2 text-xs text-zinc-500">
+                Cargando…{" "}
+                {(Object.keys(progress) as SourceId[]).map((id) => `${sources?.[id].name ?? id}: ${progress[id]}`).join(" · ")}
+                <button type="button" onClick={cancelJobs} className="rounded border px-2 py-0.5 hover:bg-zinc-50">
+                  Cancelar
+                </button>
+              </span>
+            )}
+          </div>
 
           <div className="flex flex-wrap items-end gap-3 text-sm">
             <label className="flex items-center gap-2">
@@ -1025,6 +1092,7 @@ export default function Page() {
             <button onClick={limpiarTodo} className="rounded bg-zinc-200 px-3 py-2 text-xs hover:bg-zinc-300">
               Limpiar
             </button>
+            <DraftFileButtons kind="simulacion" name={clienteNombre || clienteCodigo} getData={currentSimulation} onImport={importarBorrador} />
           </div>
 
           {/* KPIs compactos */}
@@ -1047,19 +1115,46 @@ export default function Page() {
             </div>
             <div className="rounded-2xl border p-3 shadow-sm">
               <div className="text-[11px] leading-none text-zinc-500">Estado</div>
-              <div className={`mt-1 inline-flex items-center rounded-xl px-4 py-2 text-xl font-extrabold ${isViable ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"}`}>
-                {isViable ? "Viable" : "No viable"}
+              <div className={`mt-1 inline-flex items-center rounded-xl px-4 py-2 text-xl font-extrabold ${VIABILITY_STATUS_CLASS[viability.status]}`}>
+                {VIABILITY_STATUS_LABEL[viability.status]}
               </div>
             </div>
           </div>
+          <ViabilityChecks assessment={viability} rules={viabilityRules} className="mt-3" />
+          {hist6m.length > 0 && (
+            <BreakEvenSolver
+              scenario={breakEven}
+              rules={viabilityRules}
+              status={viability.status}
+              apply={breakEvenApply}
+              note="En los nuevos equipos, presiona Recalcular después de Aplicar."
+              className="mt-3"
+            />
+          )}
 
           {/* Acciones PDF */}
-          <div className="mt-4 flex gap-2">
+          <div className="mt-4 flex flex-wrap items-center gap-2">
             <button onClick={descargarPdf} className="rounded bg-zinc-200 px-3 py-2 text-xs hover:bg-zinc-300">Descargar PDF</button>
-            <button onClick={descargarYEnviar} className={`rounded px-3 py-2 text-xs text-white ${isViable ? "bg-emerald-600 hover:bg-emerald-700" : "bg-zinc-400 cursor-not-allowed"}`}>
-              Descargar y enviar (si Viable)
+            <button
+              onClick={solicitarVB}
+              disabled={requesting}
+              title="Envía la simulación y su PDF a Solicitudes de VB comodato"
+              className={`rounded px-3 py-2 text-xs text-white disabled:opacity-50 ${viability.status !== "no-viable" ? "bg-emerald-600 hover:bg-emerald-700" : "bg-zinc-400 cursor-not-allowed"}`}
+            >
+              {requesting ? "Enviando…" : "Solicitar VB comodato"}
             </button>
+            {vbMsg && <span className={`text-xs ${vbMsg.ok ? "text-emerald-700" : "text-red-600"}`}>{vbMsg.text}</span>}
           </div>
+          {vb && (
+            <div className="mt-2 text-xs text-zinc-600">
+              VB comodato:{" "}
+              <Link href={`/comodatos/vb?id=${encodeURIComponent(vb.id)}`} className="underline">
+                {vb.id} · {APPROVAL_STATUS_LABEL[vb.status]}
+              </Link>{" "}
+              ({new Date(vb.at).toLocaleString("es-CL")})
+              {vb.comment && <span className="ml-1 italic">“{vb.comment}”</span>}
+            </div>
+          )}
         </section>
 
         {/* Comodatos históricos */}
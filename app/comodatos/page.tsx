@@ -1,8 +1,11 @@
 "use client";
 
 import Link from "next/link";
+import { can } from "@/lib/auth";
+import { useSession } from "@/lib/useSession";
 
 export default function ComodatosMenu() {
+  const me = useSession();
   return (
     <div className="p-6">
       <h1 className="text-2xl font-bold text-[#1f4ed8] mb-6">
@@ -96,6 +99,66 @@ export default function ComodatosMenu() {
             </svg>
           </div>
         </Link>
+
+        {/* Card: Solicitudes de VB */}
+        <Link
+          href="/comodatos/vb"
+          className="group block rounded-2xl border bg-white p-6 shadow-sm ring-1 ring-black/5 transition hover:shadow-md"
+        >
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-semibold text-[#2B6CFF]">
+              Solicitudes de VB
+            </h2>
+            <span className="text-3xl">✅</span>
+          </div>
+          <p className="mt-2 text-sm text-zinc-600">
+            Evaluaciones viables o por revisar enviadas a aprobación: estado, comentarios, PDF y decisión de Gerencia.
+          </p>
+          <div className="mt-4 inline-flex items-center gap-2 text-[#2B6CFF]">
+            <span className="underline underline-offset-4">Ir al módulo</span>
+            <svg
+              className="h-4 w-4 transition group-hover:translate-x-0.5"
+              viewBox="0 0 24 24"
+              fill="none"
+              stroke="currentColor"
+              strokeWidth="2"
+            >
+              <path d="M5 12h14" />
+              <path d="m12 5 7 7-7 7" />
+            </svg>
+          </div>
+        </Link>
+
+        {/* Card: Reglas de viabilidad (solo Administradora) */}
+        {can(me, "edit-config") && (
+          <Link
+            href="/comodatos/reglas"
+            className="group block rounded-2xl border bg-white p-6 shadow-sm ring-1 ring-black/5 transition hover:shadow-md"
+          >
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold text-[#2B6CFF]">
+                Reglas de viabilidad
+              </h2>
+              <span className="text-3xl">⚖️</span>
+            </div>
+            <p className="mt-2 text-sm text-zinc-600">
+              Margen final mínimo, banda de revisión, relación comodato/venta, venta mínima y reglas por Gerencia y línea de producto.
+            </p>
+            <div className="mt-4 inline-flex items-center gap-2 text-[#2B6CFF]">
+              <span className="underline underline-offset-4">Ir al módulo</span>
+              <svg
+                className="h-4 w-4 transition group-hover:translate-x-0.5"
+                viewBox="0 0 24 24"
+                fill="none"
+                stroke="currentColor"
+                strokeWidth="2"
+              >
+                <path d="M5 12h14" />
+                <path d="m12 5 7 7-7 7" />
+              </svg>
+            </div>
+          </Link>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,261 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { fetchUsers, type User } from "@/lib/auth";
+import {
+  CHECK_STATUS_LABEL,
+  VIABILITY_STATUS_CLASS,
+  fetchViabilitySettings,
+  saveViabilitySettings,
+  type GerenciaRules,
+  type ProductLineRule,
+  type ViabilityRules,
+  type ViabilitySettings,
+} from "@/lib/viability";
+
+/* ===================== CAMPOS ===================== */
+// Los porcentajes se editan en % (0,5) y se guardan como fracción (0,005). Vacío: sin valor.
+function NumInput({
+  value,
+  onChange,
+  percent,
+  placeholder,
+}: {
+  value: number | null | undefined;
+  onChange: (v: number | undefined) => void;
+  percent?: boolean;
+  placeholder?: string;
+}) {
+  const shown = value === null || value === undefined ? "" : String(percent ? +(value * 100).toFixed(4) : value);
+  return (
+    <div className="flex items-center gap-1">
+      <input
+        type="number"
+        step={percent ? 0.1 : 1000}
+        className="w-28 rounded border px-2 py-1 text-right"
+        value={shown}
+        placeholder={placeholder}
+        onChange={(e) => onChange(e.target.value === "" ? undefined : Number(e.target.value) / (percent ? 100 : 1))}
+      />
+      <span className="text-zinc-500">{percent ? "%" : "$"}</span>
+    </div>
+  );
+}
+
+type RuleField = { key: keyof ViabilityRules; label: string; help: string; percent: boolean; optional: boolean };
+const RULE_FIELDS: RuleField[] = [
+  { key: "minMarginPct", label: "Mgn final mínimo", help: "Desde aquí, Viable.", percent: true, optional: false },
+  {
+    key: "reviewMarginPct",
+    label: "Mgn final de revisión",
+    help: "Entre este y el mínimo, Requiere revisión; bajo este, No viable. Igual al mínimo: sin banda.",
+    percent: true,
+    optional: false,
+  },
+  { key: "maxComodatoRel", label: "Relación comodato/venta máxima", help: "Sobre ella, Requiere revisión. Vacío: sin tope.", percent: true, optional: true },
+  { key: "minVentaMensual", label: "Venta mensual mínima", help: "Bajo ella, No viable. Vacío: sin mínimo.", percent: false, optional: true },
+];
+
+/* ===================== PÁGINA ===================== */
+export default function ReglasViabilidadPage() {
+  const [settings, setSettings] = useState<ViabilitySettings | null>(null);
+  const [gerencias, setGerencias] = useState<User[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    fetchViabilitySettings().then(setSettings, (e) => setMsg({ ok: false, text: e.message }));
+    fetchUsers().then((us) => setGerencias(us.filter((u) => u.role === "gerencia" && !u.disabled)), () => setGerencias([]));
+  }, []);
+
+  if (!settings) {
+    return <div className="p-6 text-sm">{msg ? <span className="text-red-600">{msg.text}</span> : <span className="text-zinc-500">Cargando…</span>}</div>;
+  }
+
+  const setBase = (k: keyof ViabilityRules, v: number | undefined, optional: boolean) =>
+    setSettings((s) => s && { ...s, base: { ...s.base, [k]: v === undefined ? (optional ? null : 0) : v } });
+  const setGerencia = (i: number, k: keyof ViabilityRules, v: number | undefined) =>
+    setSettings((s) => {
+      if (!s) return s;
+      const g: GerenciaRules = { ...s.gerencias[i] };
+      if (v === undefined) delete g[k];
+      else g[k] = v;
+      return { ...s, gerencias: s.gerencias.map((x, j) => (j === i ? g : x)) };
+    });
+  const setLine = (i: number, p: Partial<ProductLineRule>) =>
+    setSettings((s) => s && { ...s, lines: s.lines.map((l, j) => (j === i ? { ...l, ...p } : l)) });
+  const free = gerencias.filter((g) => !settings.gerencias.some((r) => r.gerenciaId === g.id));
+
+  async function guardar() {
+    if (!settings) return;
+    setSaving(true);
+    setMsg(null);
+    try {
+      const { base, gerencias, lines } = settings;
+      setSettings(await saveViabilitySettings({ base, gerencias, lines }));
+      setMsg({ ok: true, text: "Reglas guardadas. Se aplican al abrir o recalcular cada evaluación." });
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message ?? "No se pudo guardar" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-50 p-6 text-sm">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-[#2B6CFF]">⚖️ Reglas de viabilidad</h1>
+          <p className="text-zinc-600">
+            Evaluación de Negocio y Clientes Activos marcan cada regla como{" "}
+            {(["viable", "revision", "no-viable"] as const).map((s) => (
+              <span key={s} className={`mx-0.5 rounded px-1.5 py-0.5 text-xs ${VIABILITY_STATUS_CLASS[s]}`}>
+                {CHECK_STATUS_LABEL[s]}
+              </span>
+            ))}
+            ; el estado es el peor de todas.
+          </p>
+        </div>
+        <Link href="/comodatos" className="rounded border px-3 py-1 hover:bg-white">
+          ⟵ Volver
+        </Link>
+      </div>
+
+      <section className="mb-4 rounded-2xl border bg-white p-4 shadow-sm">
+        <h2 className="mb-2 font-semibold">Reglas generales</h2>
+        <div className="grid gap-3 md:grid-cols-2">
+          {RULE_FIELDS.map((f) => (
+            <label key={f.key} className="block">
+              <div className="font-medium">{f.label}</div>
+              <NumInput value={settings.base[f.key]} percent={f.percent} onChange={(v) => setBase(f.key, v, f.optional)} />
+              <div className="mt-0.5 text-xs text-zinc-500">{f.help}</div>
+            </label>
+          ))}
+        </div>
+      </section>
+
+      <section className="mb-4 rounded-2xl border bg-white p-4 shadow-sm">
+        <h2 className="font-semibold">Por Gerencia</h2>
+        <p className="mb-2 text-xs text-zinc-500">
+          Para las evaluaciones de los ejecutivos de su equipo. Vacío: igual que la regla general.
+        </p>
+        {settings.gerencias.length > 0 && (
+          <table className="w-full text-xs">
+            <thead className="bg-zinc-50 text-left">
+              <tr>
+                <th className="px-2 py-1">Gerencia</th>
+                {RULE_FIELDS.map((f) => (
+                  <th key={f.key} className="px-2 py-1">
+                    {f.label}
+                  </th>
+                ))}
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {settings.gerencias.map((g, i) => (
+                <tr key={g.gerenciaId} className="border-t">
+                  <td className="px-2 py-1">{gerencias.find((u) => u.id === g.gerenciaId)?.name ?? `${g.gerenciaId} (sin usuario Gerencia)`}</td>
+                  {RULE_FIELDS.map((f) => (
+                    <td key={f.key} className="px-2 py-1">
+                      <NumInput
+                        value={g[f.key]}
+                        percent={f.percent}
+                        placeholder={settings.base[f.key] === null ? "—" : String(f.percent ? +(settings.base[f.key]! * 100).toFixed(4) : settings.base[f.key])}
+                        onChange={(v) => setGerencia(i, f.key, v)}
+                      />
+                    </td>
+                  ))}
+                  <td className="px-2 py-1">
+                    <button
+                      className="text-red-700 hover:underline"
+                      onClick={() => setSettings((s) => s && { ...s, gerencias: s.gerencias.filter((_, j) => j !== i) })}
+                    >
+                      Quitar
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {free.length > 0 && (
+          <select
+            className="mt-2 rounded border px-2 py-1 text-xs"
+            value=""
+            onChange={(e) => e.target.value && setSettings((s) => s && { ...s, gerencias: [...s.gerencias, { gerenciaId: e.target.value }] })}
+          >
+            <option value="">+ Agregar Gerencia…</option>
+            {free.map((g) => (
+              <option key={g.id} value={g.id}>
+                {g.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </section>
+
+      <section className="mb-4 rounded-2xl border bg-white p-4 shadow-sm">
+        <h2 className="font-semibold">Por línea de producto</h2>
+        <p className="mb-2 text-xs text-zinc-500">
+          Mgn final mínimo de los productos cuyo código empieza con el prefijo; bajo él, Requiere revisión. Solo se mide si la evaluación tiene productos de
+          la línea.
+        </p>
+        {settings.lines.length > 0 && (
+          <table className="w-full text-xs">
+            <thead className="bg-zinc-50 text-left">
+              <tr>
+                <th className="px-2 py-1">Prefijo de código</th>
+                <th className="px-2 py-1">Nombre</th>
+                <th className="px-2 py-1">Mgn final mínimo</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {settings.lines.map((l, i) => (
+                <tr key={i} className="border-t">
+                  <td className="px-2 py-1">
+                    <input className="w-28 rounded border px-2 py-1 font-mono" value={l.prefix} onChange={(e) => setLine(i, { prefix: e.target.value.toUpperCase() })} />
+                  </td>
+                  <td className="px-2 py-1">
+                    <input className="w-full rounded border px-2 py-1" value={l.name} onChange={(e) => setLine(i, { name: e.target.value })} />
+                  </td>
+                  <td className="px-2 py-1">
+                    <NumInput value={l.minMarginPct} percent onChange={(v) => setLine(i, { minMarginPct: v ?? 0 })} />
+                  </td>
+                  <td className="px-2 py-1">
+                    <button
+                      className="text-red-700 hover:underline"
+                      onClick={() => setSettings((s) => s && { ...s, lines: s.lines.filter((_, j) => j !== i) })}
+                    >
+                      Quitar
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <button
+          className="mt-2 rounded border px-2 py-1 text-xs hover:bg-zinc-50"
+          onClick={() => setSettings((s) => s && { ...s, lines: [...s.lines, { prefix: "", name: "", minMarginPct: s.base.minMarginPct }] })}
+        >
+          + Agregar línea
+        </button>
+      </section>
+
+      <div className="flex items-center gap-2">
+        <button onClick={guardar} disabled={saving} className="rounded bg-[#2B6CFF] px-3 py-1 text-white disabled:opacity-50">
+          💾 Guardar
+        </button>
+        {settings.updatedAt && (
+          <span className="text-xs text-zinc-500">
+            Última modificación: {new Date(settings.updatedAt).toLocaleString("es-CL")} · {settings.updatedBy?.name}
+          </span>
+        )}
+        {msg && <span className={`text-xs ${msg.ok ? "text-emerald-700" : "text-red-600"}`}>{msg.text}</span>}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,397 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { can } from "@/lib/auth";
+import { useSession } from "@/lib/useSession";
+import {
+  APPROVAL_ACTION_LABEL,
+  APPROVAL_DECISIONS,
+  APPROVAL_SOURCE_LABEL,
+  APPROVAL_STATUSES,
+  APPROVAL_STATUS_LABEL,
+  approvalPdfUrl,
+  decideApproval,
+  fetchApproval,
+  fetchApprovals,
+  type ApprovalDecision,
+  type ApprovalRequest,
+  type ApprovalStatus,
+  type ApprovalSummary,
+} from "@/lib/approvals";
+import { VIABILITY_STATUS_LABEL, resultViability } from "@/lib/viability";
+
+/* ===================== HELPERS ===================== */
+function money(n: number) {
+  return (n || 0).toLocaleString("es-CL", { style: "currency", currency: "CLP", maximumFractionDigits: 0 });
+}
+
+function pct(n: number) {
+  return `${((n || 0) * 100).toFixed(2)}%`;
+}
+
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleString("es-CL");
+}
+
+const STATUS_CLASS: Record<ApprovalStatus, string> = {
+  pendiente: "bg-amber-100 text-amber-800",
+  aprobada: "bg-emerald-100 text-emerald-800",
+  rechazada: "bg-red-100 text-red-700",
+  cambios: "bg-blue-100 text-blue-800",
+};
+
+/* ===================== DETALLE ===================== */
+function Kpi({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-xl border p-2">
+      <div className="text-[11px] text-zinc-500">{label}</div>
+      <div className="font-semibold">{value}</div>
+    </div>
+  );
+}
+
+function Snapshot({ r }: { r: ApprovalRequest }) {
+  if (r.evaluation) {
+    const e = r.evaluation;
+    return (
+      <>
+        <div className="grid gap-2 sm:grid-cols-3 md:grid-cols-6">
+          <Kpi label="Venta mensual" value={money(e.results.ventaTotal)} />
+          <Kpi label="Comodato mensual" value={money(e.results.comodatoMensual)} />
+          <Kpi label="Relación com./venta" value={pct(e.results.rel)} />
+          {e.results.mgnFinalPct !== undefined && <Kpi label="Margen final" value={pct(e.results.mgnFinalPct)} />}
+          <Kpi label="Comisión final" value={pct(e.results.comFinalPct)} />
+          <Kpi label="Estado" value={VIABILITY_STATUS_LABEL[resultViability(e.results)]} />
+          <Kpi label="Contrato" value={`${e.params.months} meses`} />
+        </div>
+        <h3 className="mt-3 font-semibold">Productos</h3>
+        <table className="w-full text-xs">
+          <thead className="bg-zinc-50 text-left">
+            <tr>
+              <th className="px-2 py-1">Código</th>
+              <th className="px-2 py-1">Descripción</th>
+              <th className="px-2 py-1 text-right">Kilos</th>
+              <th className="px-2 py-1 text-right">Cant.</th>
+              <th className="px-2 py-1 text-right">$/kg</th>
+            </tr>
+          </thead>
+          <tbody>
+            {e.sales.map((l, i) => (
+              <tr key={i} className="border-t">
+                <td className="px-2 py-1 font-mono">{l.code}</td>
+                <td className="px-2 py-1">{l.name}</td>
+                <td className="px-2 py-1 text-right">{l.kilos}</td>
+                <td className="px-2 py-1 text-right">{l.qty}</td>
+                <td className="px-2 py-1 text-right">{money(l.priceKg)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <h3 className="mt-3 font-semibold">Equipos en comodato</h3>
+        <table className="w-full text-xs">
+          <thead className="bg-zinc-50 text-left">
+            <tr>
+              <th className="px-2 py-1">Código</th>
+              <th className="px-2 py-1">Descripción</th>
+              <th className="px-2 py-1 text-right">Cant.</th>
+              <th className="px-2 py-1 text-right">Precio contrato</th>
+            </tr>
+          </thead>
+          <tbody>
+            {e.comodatos.map((l, i) => (
+              <tr key={i} className="border-t">
+                <td className="px-2 py-1 font-mono">{l.code}</td>
+                <td className="px-2 py-1">{l.name}</td>
+                <td className="px-2 py-1 text-right">{l.qty}</td>
+                <td className="px-2 py-1 text-right">{money(l.priceContract)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </>
+    );
+  }
+  if (r.simulation) {
+    const s = r.simulation;
+    return (
+      <>
+        <div className="grid gap-2 sm:grid-cols-3 md:grid-cols-5">
+          <Kpi label="Prom. venta mensual (6m)" value={money(s.results.promVentaMensual)} />
+          <Kpi label="Comodato mensual (H+P)" value={money(s.results.comodatoMensual)} />
+          <Kpi label="Relación com./venta" value={pct(s.results.rel)} />
+          <Kpi label="Comisión final" value={pct(s.results.comFinalPct)} />
+          <Kpi label="Viabilidad" value={pct(s.results.viabilidadPct)} />
+          <Kpi label="Estado" value={VIABILITY_STATUS_LABEL[resultViability(s.results)]} />
+        </div>
+        <h3 className="mt-3 font-semibold">Equipos propuestos</h3>
+        <table className="w-full text-xs">
+          <thead className="bg-zinc-50 text-left">
+            <tr>
+              <th className="px-2 py-1">Código</th>
+              <th className="px-2 py-1">Descripción</th>
+              <th className="px-2 py-1 text-right">Cant.</th>
+              <th className="px-2 py-1 text-right">Valor total</th>
+              <th className="px-2 py-1 text-right">Meses</th>
+              <th className="px-2 py-1 text-right">Cuota mensual</th>
+            </tr>
+          </thead>
+          <tbody>
+            {s.proposed.map((p, i) => (
+              <tr key={i} className="border-t">
+                <td className="px-2 py-1 font-mono">{p.code}</td>
+                <td className="px-2 py-1">{p.name}</td>
+                <td className="px-2 py-1 text-right">{p.qty}</td>
+                <td className="px-2 py-1 text-right">{money(p.total)}</td>
+                <td className="px-2 py-1 text-right">{p.contractMonths}</td>
+                <td className="px-2 py-1 text-right">{money(p.monthlyFee)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </>
+    );
+  }
+  return null;
+}
+
+function Detail({ r, canDecide, onDecided }: { r: ApprovalRequest; canDecide: boolean; onDecided: (r: ApprovalRequest) => void }) {
+  const [comment, setComment] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function decide(status: ApprovalDecision) {
+    setBusy(true);
+    setError(null);
+    try {
+      onDecided(await decideApproval(r.id, status, comment.trim() || undefined));
+      setComment("");
+    } catch (err: any) {
+      setError(err?.message ?? "Error");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <section className="rounded-2xl border bg-white p-4 text-sm shadow-sm">
+      <div className="mb-3 flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-[#2B6CFF]">
+            {r.id} · {r.cliente.nombre || r.cliente.codigo || "—"}
+          </h2>
+          <div className="text-xs text-zinc-500">
+            {APPROVAL_SOURCE_LABEL[r.source]}
+            {r.evaluationId && (
+              <>
+                {" "}
+                <Link className="underline" href={`/comodatos/negocios?eval=${encodeURIComponent(r.evaluationId)}`}>
+                  {r.evaluationId}
+                </Link>
+              </>
+            )}
+            {" · "}RUT {r.cliente.rut || "—"} · Ejecutivo {r.ejecutivo || "—"} · Solicitada por {r.createdBy?.name} el {fmtDate(r.createdAt)}
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`rounded px-2 py-1 text-xs ${STATUS_CLASS[r.status]}`}>{APPROVAL_STATUS_LABEL[r.status]}</span>
+          <a className="rounded border px-3 py-1 text-xs hover:bg-zinc-50" href={approvalPdfUrl(r.id)} target="_blank" rel="noreferrer">
+            📄 {r.pdf.fileName}
+          </a>
+        </div>
+      </div>
+
+      <Snapshot r={r} />
+
+      <h3 className="mt-4 font-semibold">Historial</h3>
+      <ul className="mt-1 space-y-1 text-xs">
+        {r.history.map((h, i) => (
+          <li key={i}>
+            <span className={`rounded px-1.5 py-0.5 ${STATUS_CLASS[h.status]}`}>{APPROVAL_STATUS_LABEL[h.status]}</span>{" "}
+            {fmtDate(h.at)} · {h.by?.name}
+            {h.comment && <div className="ml-2 mt-0.5 whitespace-pre-wrap text-zinc-600">“{h.comment}”</div>}
+          </li>
+        ))}
+      </ul>
+
+      {canDecide && r.status === "pendiente" && (
+        <div className="mt-4 rounded-xl border bg-zinc-50 p-3">
+          <textarea
+            className="w-full rounded border px-2 py-1"
+            rows={3}
+            placeholder="Comentario para el ejecutivo (obligatorio al rechazar o pedir cambios)"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+          />
+          <div className="mt-2 flex flex-wrap items-center gap-2">
+            {APPROVAL_DECISIONS.map((d) => (
+              <button
+                key={d}
+                disabled={busy}
+                className={`rounded px-3 py-1 text-xs text-white disabled:opacity-50 ${
+                  d === "aprobada" ? "bg-emerald-600 hover:bg-emerald-700" : d === "rechazada" ? "bg-red-600 hover:bg-red-700" : "bg-[#2B6CFF] hover:bg-[#1F5AE6]"
+                }`}
+                onClick={() => decide(d)}
+              >
+                {APPROVAL_ACTION_LABEL[d]}
+              </button>
+            ))}
+            {error && <span className="text-xs text-red-600">{error}</span>}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
+
+/* ===================== PÁGINA ===================== */
+export default function SolicitudesVbPage() {
+  const me = useSession();
+  const canDecide = can(me, "approve-comodato");
+  const search = useSearchParams();
+
+  const [q, setQ] = useState("");
+  // Quien aprueba parte viendo lo pendiente; el ejecutivo, todas las suyas
+  const [status, setStatus] = useState<ApprovalStatus | "" | null>(null);
+  const [list, setList] = useState<ApprovalSummary[] | null>(null);
+  const [selected, setSelected] = useState<ApprovalRequest | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    if (me !== undefined && status === null) setStatus(canDecide ? "pendiente" : "");
+  }, [me, canDecide, status]);
+
+  useEffect(() => {
+    if (status === null) return;
+    let alive = true;
+    // Espera a que se deje de escribir en la búsqueda
+    const t = setTimeout(() => {
+      fetchApprovals({ q: q.trim() || undefined, status: status || undefined })
+        .then((l) => alive && (setList(l), setError(null)))
+        .catch((e) => alive && setError(e?.message ?? "No se pudieron leer las solicitudes"));
+    }, 300);
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+  }, [q, status, reloadKey]);
+
+  async function open(id: string) {
+    setError(null);
+    try {
+      setSelected(await fetchApproval(id));
+    } catch (err: any) {
+      setError(err?.message ?? "Error");
+    }
+  }
+
+  // ?id=VB-… abre esa solicitud (por ejemplo, desde la evaluación)
+  const idParam = search.get("id");
+  useEffect(() => {
+    if (idParam) open(idParam);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [idParam]);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-[#2B6CFF]">✅ Solicitudes de VB comodato</h1>
+          <p className="text-sm text-zinc-600">
+            Evaluaciones viables o por revisar enviadas a aprobación, con la copia de lo evaluado y su PDF. {canDecide ? "Aprueba, rechaza o pide cambios con un comentario." : ""}
+          </p>
+        </div>
+        <Link href="/comodatos" className="rounded border px-3 py-1 text-sm hover:bg-white">
+          ⟵ Volver
+        </Link>
+      </div>
+
+      <section className="mb-4 rounded-2xl border bg-white p-4 text-sm shadow-sm">
+        <div className="mb-3 flex flex-wrap items-center gap-2">
+          <input
+            className="w-72 rounded border px-2 py-1"
+            placeholder="Buscar por N°, evaluación, cliente, RUT o ejecutivo"
+            value={q}
+            onChange={(e) => setQ(e.target.value)}
+          />
+          <select className="rounded border px-2 py-1" value={status ?? ""} onChange={(e) => setStatus(e.target.value as ApprovalStatus | "")}>
+            <option value="">Todos los estados</option>
+            {APPROVAL_STATUSES.map((s) => (
+              <option key={s} value={s}>
+                {APPROVAL_STATUS_LABEL[s]}
+              </option>
+            ))}
+          </select>
+          {list && <span className="text-xs text-zinc-500">{list.length} solicitudes</span>}
+        </div>
+        {error && <div className="mb-2 text-xs text-red-600">{error}</div>}
+
+        {!list ? (
+          <div className="text-xs text-zinc-500">Cargando…</div>
+        ) : list.length === 0 ? (
+          <div className="text-xs text-zinc-500">Sin solicitudes para este filtro.</div>
+        ) : (
+          <div className="max-h-80 overflow-auto">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-zinc-50 text-left">
+                <tr>
+                  <th className="px-2 py-1">N°</th>
+                  <th className="px-2 py-1">Cliente</th>
+                  <th className="px-2 py-1">Ejecutivo</th>
+                  <th className="px-2 py-1 text-right">Venta mensual</th>
+                  <th className="px-2 py-1 text-right">Comodato mensual</th>
+                  <th className="px-2 py-1">Estado</th>
+                  <th className="px-2 py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {list.map((r) => (
+                  <tr key={r.id} className={`border-t ${r.id === selected?.id ? "bg-blue-50" : ""}`}>
+                    <td className="px-2 py-1 font-mono">
+                      {r.id}
+                      <div className="font-sans text-zinc-500">{r.evaluationId ?? APPROVAL_SOURCE_LABEL[r.source]}</div>
+                    </td>
+                    <td className="px-2 py-1">
+                      <div>{r.cliente.nombre || r.cliente.codigo || "—"}</div>
+                      <div className="text-zinc-500">{r.cliente.rut}</div>
+                    </td>
+                    <td className="px-2 py-1">
+                      {r.ejecutivo || "—"}
+                      <div className="text-zinc-500">{fmtDate(r.createdAt)}</div>
+                    </td>
+                    <td className="px-2 py-1 text-right">{money(r.venta)}</td>
+                    <td className="px-2 py-1 text-right">{money(r.comodato)}</td>
+                    <td className="px-2 py-1">
+                      <span className={`rounded px-1.5 py-0.5 ${STATUS_CLASS[r.status]}`}>{APPROVAL_STATUS_LABEL[r.status]}</span>
+                      {r.lastComment && <div className="max-w-xs truncate text-zinc-500">“{r.lastComment}”</div>}
+                    </td>
+                    <td className="px-2 py-1 text-right">
+                      <button className="rounded border px-2 py-0.5 hover:bg-zinc-50" onClick={() => open(r.id)}>
+                        Abrir
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {selected && (
+        <Detail
+          key={selected.id}
+          r={selected}
+          // Quien envió la solicitud no la resuelve
+          canDecide={canDecide && selected.createdBy?.id !== me?.id}
+          onDecided={(r) => {
+            setSelected(r);
+            setReloadKey((k) => k + 1);
+          }}
+        />
+      )}
+    </div>
+  );
+}
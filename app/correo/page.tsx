@@ -0,0 +1,335 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { can, fetchUsers, type User } from "@/lib/auth";
+import { useSession } from "@/lib/useSession";
+import {
+  MAIL_DOC_KINDS,
+  MAIL_DOC_LABEL,
+  MAIL_VARIABLES,
+  fetchMailSettings,
+  fetchSentMail,
+  parseEmails,
+  saveMailSettings,
+  type MailDocKind,
+  type MailSettings,
+  type SentMail,
+  type SentMailFilter,
+} from "@/lib/mail";
+
+/* ===================== HELPERS ===================== */
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleString("es-CL");
+}
+
+// Evaluaciones y NV se reabren por URL; las cotizaciones, desde 🗂️ Cotizaciones
+function documentHref(kind: MailDocKind, id: string) {
+  if (kind === "evaluacion") return `/comodatos/negocios?eval=${encodeURIComponent(id)}`;
+  if (kind === "nota-venta") return `/ventas/notaventas?nv=${encodeURIComponent(id)}`;
+  return null;
+}
+
+/* ===================== REGISTRO ===================== */
+function SentMailLog() {
+  const [filter, setFilter] = useState<SentMailFilter>({});
+  const [applied, setApplied] = useState<SentMailFilter>({});
+  const [mails, setMails] = useState<SentMail[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMails(null);
+    setError(null);
+    fetchSentMail(applied).then(setMails, (e) => setError(e.message));
+  }, [applied]);
+
+  return (
+    <section className="rounded-2xl border bg-white p-4 shadow-sm">
+      <form
+        className="mb-3 flex flex-wrap items-end gap-2 text-sm"
+        onSubmit={(e) => {
+          e.preventDefault();
+          setApplied(filter);
+        }}
+      >
+        <label>
+          Documento
+          <select
+            className="mt-1 block rounded border px-2 py-1"
+            value={filter.kind ?? ""}
+            onChange={(e) => setFilter((f) => ({ ...f, kind: (e.target.value || undefined) as MailDocKind | undefined }))}
+          >
+            <option value="">Todos</option>
+            {MAIL_DOC_KINDS.map((k) => (
+              <option key={k} value={k}>
+                {MAIL_DOC_LABEL[k]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Texto
+          <input
+            className="mt-1 block rounded border px-2 py-1"
+            placeholder="N°, asunto, destinatario"
+            value={filter.q ?? ""}
+            onChange={(e) => setFilter((f) => ({ ...f, q: e.target.value }))}
+          />
+        </label>
+        <button type="submit" className="rounded bg-[#2B6CFF] px-3 py-1 text-white">
+          Filtrar
+        </button>
+        <span className="ml-auto text-xs text-zinc-500">{mails ? `${mails.length} correos` : ""}</span>
+      </form>
+      {error ? (
+        <div className="text-sm text-red-600">{error}</div>
+      ) : !mails ? (
+        <div className="text-sm text-zinc-500">Cargando…</div>
+      ) : !mails.length ? (
+        <div className="text-sm text-zinc-500">Sin correos enviados para este filtro.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="bg-zinc-50 text-left">
+              <tr>
+                <th className="px-2 py-1">Fecha</th>
+                <th className="px-2 py-1">Envía</th>
+                <th className="px-2 py-1">Documento</th>
+                <th className="px-2 py-1">Para / CC</th>
+                <th className="px-2 py-1">Asunto</th>
+                <th className="px-2 py-1">Adjunto</th>
+                <th className="px-2 py-1">Estado</th>
+              </tr>
+            </thead>
+            <tbody>
+              {mails.map((m) => {
+                const href = documentHref(m.kind, m.documentId);
+                return (
+                  <tr key={m.id} className="border-t align-top">
+                    <td className="whitespace-nowrap px-2 py-1">{fmtDate(m.at)}</td>
+                    <td className="px-2 py-1">{m.by?.name ?? "—"}</td>
+                    <td className="px-2 py-1">
+                      <div>{MAIL_DOC_LABEL[m.kind]}</div>
+                      {href ? (
+                        <Link href={href} className="text-blue-700 underline">
+                          {m.documentId}
+                        </Link>
+                      ) : (
+                        <div className="text-zinc-500">{m.documentId}</div>
+                      )}
+                    </td>
+                    <td className="px-2 py-1">
+                      <div className="break-all">{m.to.join(", ")}</div>
+                      {m.cc.length > 0 && <div className="break-all text-zinc-500">CC: {m.cc.join(", ")}</div>}
+                    </td>
+                    <td className="px-2 py-1">{m.subject}</td>
+                    <td className="px-2 py-1 text-zinc-600">
+                      {m.attachment.fileName} ({Math.round(m.attachment.size / 1024)} KB)
+                      {m.attachment.sha256 && (
+                        <div className="font-mono text-[10px] text-zinc-400" title={`SHA-256 ${m.attachment.sha256}`}>
+                          {m.attachment.sha256.slice(0, 12)}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-2 py-1">
+                      {m.status === "enviado" ? (
+                        <span className="rounded bg-emerald-100 px-1.5 py-0.5 text-emerald-800">Enviado</span>
+                      ) : (
+                        <>
+                          <span className="rounded bg-red-100 px-1.5 py-0.5 text-red-800">Error</span>
+                          <div className="mt-1 text-red-700">{m.error}</div>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
+
+/* ===================== CONFIGURACIÓN ===================== */
+// Las listas de correos se editan como texto ("a@x.cl, b@y.cl") y se separan al guardar
+type RouteText = { gerenciaId: string; to: string; cc: string };
+
+function MailSettingsEditor() {
+  const [settings, setSettings] = useState<MailSettings | null>(null);
+  const [defaultTo, setDefaultTo] = useState("");
+  const [routes, setRoutes] = useState<RouteText[]>([]);
+  const [gerencias, setGerencias] = useState<User[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [msg, setMsg] = useState<{ ok: boolean; text: string } | null>(null);
+
+  function apply(s: MailSettings) {
+    setSettings(s);
+    setDefaultTo(s.defaultTo.join(", "));
+    setRoutes(s.routes.map((r) => ({ gerenciaId: r.gerenciaId, to: r.to.join(", "), cc: r.cc.join(", ") })));
+  }
+
+  useEffect(() => {
+    fetchMailSettings().then(apply, (e) => setMsg({ ok: false, text: e.message }));
+    fetchUsers().then((us) => setGerencias(us.filter((u) => u.role === "gerencia" && !u.disabled)), () => setGerencias([]));
+  }, []);
+
+  if (!settings) return msg ? <div className="text-sm text-red-600">{msg.text}</div> : <div className="text-sm text-zinc-500">Cargando…</div>;
+
+  const setTemplate = (k: MailDocKind, field: "subject" | "body", value: string) =>
+    setSettings((s) => s && { ...s, templates: { ...s.templates, [k]: { ...s.templates[k], [field]: value } } });
+  const setRoute = (i: number, p: Partial<RouteText>) => setRoutes((rs) => rs.map((r, j) => (j === i ? { ...r, ...p } : r)));
+  const free = gerencias.filter((g) => !routes.some((r) => r.gerenciaId === g.id));
+
+  async function guardar() {
+    if (!settings) return;
+    setSaving(true);
+    setMsg(null);
+    try {
+      apply(
+        await saveMailSettings({
+          templates: settings.templates,
+          defaultTo: parseEmails(defaultTo),
+          routes: routes.map((r) => ({ gerenciaId: r.gerenciaId, to: parseEmails(r.to), cc: parseEmails(r.cc) })),
+        })
+      );
+      setMsg({ ok: true, text: "Configuración guardada." });
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message ?? "No se pudo guardar" });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <section className="space-y-4 rounded-2xl border bg-white p-4 text-sm shadow-sm">
+      <div>
+        <h2 className="font-semibold">Destinatarios</h2>
+        <p className="text-xs text-zinc-500">
+          Cada documento va a las direcciones de la Gerencia cuyo equipo incluye a su ejecutivo; si no hay ninguna, a las de por defecto. Quien envía
+          puede cambiarlas antes de enviar.
+        </p>
+        <label className="mt-2 block text-xs">
+          Por defecto
+          <input className="mt-1 w-full rounded border px-2 py-1 text-sm" value={defaultTo} onChange={(e) => setDefaultTo(e.target.value)} />
+        </label>
+        <table className="mt-2 w-full text-xs">
+          <thead className="bg-zinc-50 text-left">
+            <tr>
+              <th className="px-2 py-1">Gerencia</th>
+              <th className="px-2 py-1">Para</th>
+              <th className="px-2 py-1">CC</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {routes.map((r, i) => (
+              <tr key={r.gerenciaId} className="border-t">
+                <td className="px-2 py-1">{gerencias.find((g) => g.id === r.gerenciaId)?.name ?? `${r.gerenciaId} (sin usuario Gerencia)`}</td>
+                <td className="px-2 py-1">
+                  <input className="w-full rounded border px-2 py-1" value={r.to} onChange={(e) => setRoute(i, { to: e.target.value })} />
+                </td>
+                <td className="px-2 py-1">
+                  <input className="w-full rounded border px-2 py-1" value={r.cc} onChange={(e) => setRoute(i, { cc: e.target.value })} />
+                </td>
+                <td className="px-2 py-1">
+                  <button className="text-red-700 hover:underline" onClick={() => setRoutes((rs) => rs.filter((_, j) => j !== i))}>
+                    Quitar
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {free.length > 0 && (
+          <select
+            className="mt-2 rounded border px-2 py-1 text-xs"
+            value=""
+            onChange={(e) => e.target.value && setRoutes((rs) => [...rs, { gerenciaId: e.target.value, to: "", cc: "" }])}
+          >
+            <option value="">+ Agregar Gerencia…</option>
+            {free.map((g) => (
+              <option key={g.id} value={g.id}>
+                {g.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      <div>
+        <h2 className="font-semibold">Plantillas</h2>
+        <p className="text-xs text-zinc-500">
+          Variables: {Object.entries(MAIL_VARIABLES).map(([k, label]) => `{{${k}}} ${label.toLowerCase()}`).join(" · ")}
+        </p>
+        <div className="mt-2 grid gap-3 md:grid-cols-3">
+          {MAIL_DOC_KINDS.map((k) => (
+            <div key={k} className="rounded border p-2">
+              <div className="mb-1 text-xs font-medium">{MAIL_DOC_LABEL[k]}</div>
+              <input
+                className="w-full rounded border px-2 py-1 text-xs"
+                value={settings.templates[k].subject}
+                onChange={(e) => setTemplate(k, "subject", e.target.value)}
+              />
+              <textarea
+                className="mt-1 h-40 w-full rounded border px-2 py-1 text-xs"
+                value={settings.templates[k].body}
+                onChange={(e) => setTemplate(k, "body", e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <button onClick={guardar} disabled={saving} className="rounded bg-[#2B6CFF] px-3 py-1 text-white disabled:opacity-50">
+          💾 Guardar
+        </button>
+        {settings.updatedAt && (
+          <span className="text-xs text-zinc-500">
+            Última modificación: {fmtDate(settings.updatedAt)} · {settings.updatedBy?.name}
+          </span>
+        )}
+        {msg && <span className={`text-xs ${msg.ok ? "text-emerald-700" : "text-red-600"}`}>{msg.text}</span>}
+      </div>
+    </section>
+  );
+}
+
+/* ===================== PÁGINA ===================== */
+export default function CorreoPage() {
+  const me = useSession();
+  const [tab, setTab] = useState<"registro" | "config">("registro");
+  const canConfig = !!me && can(me, "edit-config");
+
+  return (
+    <div className="min-h-screen bg-zinc-50 p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-[#2B6CFF]">✉️ Correos</h1>
+          <p className="text-sm text-zinc-600">Evaluaciones, cotizaciones y notas de venta enviadas por correo con su PDF adjunto.</p>
+        </div>
+        <Link href="/" className="rounded border px-3 py-1 text-sm hover:bg-white">
+          ⟵ Volver
+        </Link>
+      </div>
+
+      {canConfig && (
+        <div className="mb-4 flex gap-2 text-sm">
+          {(["registro", "config"] as const).map((t) => (
+            <button
+              key={t}
+              onClick={() => setTab(t)}
+              className={`rounded px-3 py-1 ${tab === t ? "bg-[#2B6CFF] text-white" : "border hover:bg-white"}`}
+            >
+              {t === "registro" ? "Enviados" : "Plantillas y destinatarios"}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {canConfig && tab === "config" ? <MailSettingsEditor /> : <SentMailLog />}
+    </div>
+  );
+}
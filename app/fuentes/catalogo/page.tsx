@@ -0,0 +1,323 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import {
+  fetchCatalogVersion,
+  fetchCatalogVersions,
+  fetchPriceHistory,
+  type CatalogVersion,
+  type CatalogVersionSummary,
+  type PriceField,
+  type PricePoint,
+} from "@/lib/catalogVersions";
+import { normalizeSearch } from "@/lib/sheetJobs";
+
+/* ===================== HELPERS ===================== */
+const FIELD_LABEL: Record<PriceField, string> = { price_list: "Precio lista", cost: "Costo", kilos: "Kilos" };
+
+function fmtDate(iso: string) {
+  return new Date(iso).toLocaleString("es-CL");
+}
+function fmtNum(n: number | undefined, field: PriceField = "price_list") {
+  if (n === undefined || n === null) return "—";
+  return field === "kilos"
+    ? n.toLocaleString("es-CL", { maximumFractionDigits: 3 })
+    : n.toLocaleString("es-CL", { style: "currency", currency: "CLP", maximumFractionDigits: 0 });
+}
+function fmtDelta(before: number | undefined, after: number | undefined) {
+  if (!before || after === undefined) return "";
+  const pct = ((after - before) / before) * 100;
+  return `${pct > 0 ? "+" : ""}${pct.toFixed(1)}%`;
+}
+
+/* ===================== DIFF ===================== */
+function VersionDiff({ version, onPick }: { version: CatalogVersion; onPick: (code: string) => void }) {
+  const { diff } = version;
+  return (
+    <div className="space-y-4 text-sm">
+      <div>
+        <h3 className="mb-1 font-semibold">Cambios de precio ({diff.changed.length})</h3>
+        {!diff.changed.length ? (
+          <div className="text-xs text-zinc-500">Sin cambios en productos existentes.</div>
+        ) : (
+          <table className="w-full text-xs">
+            <thead className="bg-zinc-50 text-left">
+              <tr>
+                <th className="px-2 py-1">Código</th>
+                <th className="px-2 py-1">Producto</th>
+                <th className="px-2 py-1">Campo</th>
+                <th className="px-2 py-1 text-right">Antes</th>
+                <th className="px-2 py-1 text-right">Después</th>
+                <th className="px-2 py-1 text-right">Var.</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.changed.flatMap((c) =>
+                c.fields.map((f) => (
+                  <tr key={`${c.code}-${f}`} className="border-t">
+                    <td className="px-2 py-1">
+                      <button className="text-[#2B6CFF] underline" onClick={() => onPick(c.code)}>
+                        {c.code}
+                      </button>
+                    </td>
+                    <td className="px-2 py-1">{c.name}</td>
+                    <td className="px-2 py-1">{FIELD_LABEL[f]}</td>
+                    <td className="px-2 py-1 text-right">{fmtNum(c.before[f], f)}</td>
+                    <td className="px-2 py-1 text-right">{fmtNum(c.after[f], f)}</td>
+                    <td className="px-2 py-1 text-right">{fmtDelta(c.before[f], c.after[f])}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {(
+          [
+            ["Nuevos", diff.added, "text-emerald-700"],
+            ["Eliminados", diff.removed, "text-red-700"],
+          ] as const
+        ).map(([title, items, cls]) => (
+          <div key={title}>
+            <h3 className={`mb-1 font-semibold ${cls}`}>
+              {title} ({items.length})
+            </h3>
+            {!items.length ? (
+              <div className="text-xs text-zinc-500">Ninguno.</div>
+            ) : (
+              <div className="max-h-72 overflow-auto rounded border">
+                <table className="w-full text-xs">
+                  <tbody>
+                    {items.map((it) => (
+                      <tr key={it.code} className="border-t first:border-t-0">
+                        <td className="px-2 py-1">
+                          <button className="text-[#2B6CFF] underline" onClick={() => onPick(it.code)}>
+                            {it.code}
+                          </button>
+                        </td>
+                        <td className="px-2 py-1">{it.name}</td>
+                        <td className="px-2 py-1 text-right">{fmtNum(it.price_list)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/* ===================== HISTORIAL ===================== */
+function PriceHistory({ code, points }: { code: string; points: PricePoint[] }) {
+  if (!points.length) return <div className="text-xs text-zinc-500">Sin historial para {code}.</div>;
+  const chart = points.filter((p) => !p.removed).map((p) => ({ v: `v${p.version}`, price_list: p.price_list, cost: p.cost }));
+  return (
+    <div className="space-y-3">
+      <div className="text-sm">
+        <b>{code}</b> · {points[points.length - 1].name}
+      </div>
+      {chart.length > 1 && (
+        <div className="h-56">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chart}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="v" fontSize={11} />
+              <YAxis fontSize={11} width={80} tickFormatter={(n) => Number(n).toLocaleString("es-CL")} />
+              <Tooltip formatter={(n) => fmtNum(Number(n))} />
+              <Legend />
+              <Line type="stepAfter" dataKey="price_list" name="Precio lista" stroke="#2B6CFF" />
+              <Line type="stepAfter" dataKey="cost" name="Costo" stroke="#f59e0b" />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      <table className="w-full text-xs">
+        <thead className="bg-zinc-50 text-left">
+          <tr>
+            <th className="px-2 py-1">Versión</th>
+            <th className="px-2 py-1">Fecha</th>
+            <th className="px-2 py-1 text-right">Precio lista</th>
+            <th className="px-2 py-1 text-right">Costo</th>
+            <th className="px-2 py-1 text-right">Kilos</th>
+          </tr>
+        </thead>
+        <tbody>
+          {points.map((p, i) => {
+            const prev = points[i - 1];
+            return (
+              <tr key={p.version} className="border-t">
+                <td className="px-2 py-1">v{p.version}</td>
+                <td className="px-2 py-1">{fmtDate(p.at)}</td>
+                {p.removed ? (
+                  <td colSpan={3} className="px-2 py-1 text-right text-red-700">
+                    Eliminado del catálogo
+                  </td>
+                ) : (
+                  (["price_list", "cost", "kilos"] as PriceField[]).map((f) => (
+                    <td key={f} className="px-2 py-1 text-right">
+                      {fmtNum(p[f], f)}{" "}
+                      {prev && !prev.removed && prev[f] !== p[f] && (
+                        <span className="text-zinc-500">({fmtDelta(prev[f], p[f])})</span>
+                      )}
+                    </td>
+                  ))
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/* ===================== PÁGINA ===================== */
+export default function CatalogoVersionesPage() {
+  const search = useSearchParams();
+  const [versions, setVersions] = useState<CatalogVersionSummary[] | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [version, setVersion] = useState<CatalogVersion | null>(null);
+  const [query, setQuery] = useState("");
+  const [code, setCode] = useState<string | null>(null);
+  const [points, setPoints] = useState<PricePoint[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchCatalogVersions()
+      .then((vs) => {
+        setVersions(vs);
+        const v = Number(search.get("v"));
+        setSelected(vs.some((x) => x.id === v) ? v : vs[0]?.id ?? null);
+      })
+      .catch((e) => setError(e.message));
+    const c = search.get("code");
+    if (c) setCode(c.toUpperCase());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    if (selected === null) return;
+    setVersion(null);
+    fetchCatalogVersion(selected)
+      .then(setVersion)
+      .catch((e) => setError(e.message));
+  }, [selected]);
+
+  useEffect(() => {
+    if (!code) return;
+    setPoints([]);
+    fetchPriceHistory(code)
+      .then(setPoints)
+      .catch((e) => setError(e.message));
+  }, [code]);
+
+  // Sugerencias desde los ítems de la versión seleccionada
+  const matches = useMemo(() => {
+    const q = normalizeSearch(query).trim();
+    if (!version || !q) return [];
+    return version.items.filter((i) => normalizeSearch(`${i.code} ${i.name}`).includes(q)).slice(0, 20);
+  }, [version, query]);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 p-6">
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-[#2B6CFF]">🏷️ Versiones del catálogo</h1>
+          <p className="text-sm text-zinc-600">
+            Cada lectura del catálogo con contenido distinto crea una versión. Evaluaciones y cotizaciones guardan la versión
+            con la que se calcularon.
+          </p>
+        </div>
+        <Link href="/fuentes" className="rounded border px-3 py-1 text-sm hover:bg-white">
+          ⟵ Fuentes de datos
+        </Link>
+      </div>
+
+      {error && <div className="mb-4 rounded border border-red-200 bg-red-50 p-3 text-sm text-red-700">{error}</div>}
+
+      <div className="grid gap-4 lg:grid-cols-[18rem_1fr]">
+        <section className="rounded-2xl border bg-white p-4 shadow-sm">
+          <h2 className="mb-2 font-semibold text-[#2B6CFF]">Versiones</h2>
+          {!versions ? (
+            <div className="text-sm text-zinc-500">Cargando…</div>
+          ) : !versions.length ? (
+            <div className="text-sm text-zinc-500">Aún no hay versiones: se registran al cargar el catálogo en algún módulo.</div>
+          ) : (
+            <ul className="space-y-1 text-sm">
+              {versions.map((v) => (
+                <li key={v.id}>
+                  <button
+                    className={`w-full rounded px-2 py-1 text-left hover:bg-zinc-50 ${selected === v.id ? "bg-blue-50 ring-1 ring-[#2B6CFF]" : ""}`}
+                    onClick={() => setSelected(v.id)}
+                  >
+                    <div className="flex justify-between">
+                      <b>v{v.id}</b>
+                      <span className="text-xs text-zinc-500">{v.count.toLocaleString("es-CL")} productos</span>
+                    </div>
+                    <div className="text-xs text-zinc-500">{fmtDate(v.createdAt)}</div>
+                    <div className="text-xs">
+                      <span className="text-emerald-700">+{v.added}</span> · <span className="text-red-700">−{v.removed}</span> ·{" "}
+                      <span className="text-amber-700">~{v.changed}</span>
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <div className="space-y-4">
+          <section className="rounded-2xl border bg-white p-4 shadow-sm">
+            <h2 className="mb-1 font-semibold text-[#2B6CFF]">{selected ? `Versión v${selected}` : "Versión"}</h2>
+            {version && (
+              <p className="mb-3 break-all text-xs text-zinc-500">
+                {fmtDate(version.createdAt)} · origen: {version.origin || "—"}
+                {version.id === 1 && " · primera versión: todos los productos aparecen como nuevos"}
+              </p>
+            )}
+            {!selected ? null : !version ? (
+              <div className="text-sm text-zinc-500">Cargando…</div>
+            ) : (
+              <VersionDiff version={version} onPick={setCode} />
+            )}
+          </section>
+
+          <section className="rounded-2xl border bg-white p-4 shadow-sm">
+            <h2 className="mb-2 font-semibold text-[#2B6CFF]">Historial de precios por producto</h2>
+            <input
+              className="mb-2 w-full rounded border px-2 py-1 text-sm"
+              placeholder="Buscar por código o nombre…"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            {matches.length > 0 && (
+              <div className="mb-3 flex flex-wrap gap-1">
+                {matches.map((m) => (
+                  <button
+                    key={m.code}
+                    className="rounded border px-2 py-0.5 text-xs hover:bg-zinc-50"
+                    onClick={() => {
+                      setCode(m.code);
+                      setQuery("");
+                    }}
+                  >
+                    {m.code} · {m.name}
+                  </button>
+                ))}
+              </div>
+            )}
+            {code ? <PriceHistory code={code} points={points} /> : <div className="text-xs text-zinc-500">Elige un producto.</div>}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { AttemptList, ReportDetail } from "@/components/SourceErrorBox";
+import { SOURCE_IDS, diagnoseSource, fetchSources, type SourceDiagnosis, type SourceId, type SourceMap } from "@/lib/sources";
+
+/* ===================== HELPERS ===================== */
+const VIA_LABEL: Record<string, string> = { csv: "CSV", gviz: "GViz (respaldo)", file: "Archivo subido" };
+
+function StatusBadge({ d, running }: { d?: SourceDiagnosis; running: boolean }) {
+  if (running) return <span className="rounded bg-zinc-100 px-2 py-0.5 text-xs text-zinc-600">Probando…</span>;
+  if (!d) return <span className="rounded bg-zinc-100 px-2 py-0.5 text-xs text-zinc-500">Sin probar</span>;
+  if (d.ok && d.report && (d.report.optionalMissing.length || d.via === "gviz")) {
+    return <span className="rounded bg-amber-100 px-2 py-0.5 text-xs text-amber-800">OK con advertencias</span>;
+  }
+  return d.ok ? (
+    <span className="rounded bg-emerald-100 px-2 py-0.5 text-xs text-emerald-800">OK</span>
+  ) : (
+    <span className="rounded bg-red-100 px-2 py-0.5 text-xs text-red-700">Error</span>
+  );
+}
+
+/* ===================== PÁGINA ===================== */
+export default function DiagnosticoFuentesPage() {
+  const [sources, setSources] = useState<SourceMap | null>(null);
+  const [results, setResults] = useState<Partial<Record<SourceId, SourceDiagnosis>>>({});
+  const [running, setRunning] = useState<Partial<Record<SourceId, boolean>>>({});
+
+  async function test(map: SourceMap, id: SourceId) {
+    setRunning((r) => ({ ...r, [id]: true }));
+    const d = await diagnoseSource(map[id]);
+    setResults((r) => ({ ...r, [id]: d }));
+    setRunning((r) => ({ ...r, [id]: false }));
+  }
+
+  async function testAll(map = sources) {
+    if (!map) return;
+    // De a una para no gatillar límites de Google con varias descargas simultáneas
+    for (const id of SOURCE_IDS) await test(map, id);
+  }
+
+  useEffect(() => {
+    fetchSources().then((m) => {
+      setSources(m);
+      testAll(m);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const busy = Object.values(running).some(Boolean);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 p-6">
+      <div className="mb-6 flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-[#2B6CFF]">🩺 Diagnóstico de fuentes</h1>
+          <p className="text-sm text-zinc-600">
+            Lee cada fuente como lo hacen los módulos: intento CSV, respaldo GViz, filas y columnas reconocidas.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            className="rounded bg-[#2B6CFF] px-3 py-1 text-sm text-white disabled:opacity-50"
+            disabled={!sources || busy}
+            onClick={() => testAll()}
+          >
+            Probar todas
+          </button>
+          <Link href="/fuentes" className="rounded border px-3 py-1 text-sm hover:bg-white">
+            ⟵ Fuentes de datos
+          </Link>
+        </div>
+      </div>
+
+      {!sources ? (
+        <div className="text-sm text-zinc-500">Cargando…</div>
+      ) : (
+        <div className="space-y-4">
+          {SOURCE_IDS.map((id) => {
+            const src = sources[id];
+            const d = results[id];
+            return (
+              <section key={id} className="rounded-2xl border bg-white p-5 shadow-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <h2 className="text-lg font-semibold text-[#2B6CFF]">{src.name}</h2>
+                    <StatusBadge d={d} running={!!running[id]} />
+                  </div>
+                  <button
+                    className="rounded border px-3 py-1 text-xs hover:bg-zinc-50 disabled:opacity-50"
+                    disabled={!!running[id]}
+                    onClick={() => test(sources, id)}
+                  >
+                    Probar
+                  </button>
+                </div>
+                <div className="mt-1 truncate text-xs text-zinc-500">
+                  {src.kind === "file" ? `Archivo: ${src.file?.fileName ?? "—"}` : src.url || "sin URL"}
+                </div>
+
+                {d && (
+                  <div className="mt-3 text-sm">
+                    <div className="flex flex-wrap gap-2 text-xs">
+                      <span className="rounded border px-2 py-1">
+                        Vía: <b>{d.via ? VIA_LABEL[d.via] : "—"}</b>
+                      </span>
+                      <span className="rounded border px-2 py-1">
+                        Filas: <b>{d.rows.toLocaleString("es-CL")}</b>
+                      </span>
+                      <span className="rounded border px-2 py-1">
+                        Tiempo: <b>{(d.ms / 1000).toLocaleString("es-CL", { maximumFractionDigits: 1 })} s</b>
+                      </span>
+                    </div>
+                    {d.error && <div className="mt-2 text-red-700">{d.error}</div>}
+                    <div className="mt-2 text-zinc-700">
+                      <AttemptList attempts={d.attempts} />
+                      {d.report && <ReportDetail report={d.report} />}
+                    </div>
+                  </div>
+                )}
+              </section>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
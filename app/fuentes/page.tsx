@@ -0,0 +1,184 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import SheetFileInput from "@/components/SheetFileInput";
+import {
+  SOURCE_IDS,
+  fetchSources,
+  removeSourceFile,
+  saveSource,
+  uploadSourceFile,
+  type DataSource,
+  type SourceKind,
+  type SourceMap,
+} from "@/lib/sources";
+import type { UploadedSheet } from "@/lib/workbook";
+
+/* ===================== HELPERS ===================== */
+function fmtDate(iso: string | null | undefined) {
+  return iso ? new Date(iso).toLocaleString("es-CL") : "—";
+}
+
+/* ===================== TARJETA ===================== */
+function SourceCard({ source, onSaved }: { source: DataSource; onSaved: (s: DataSource) => void }) {
+  const [name, setName] = useState(source.name);
+  const [url, setUrl] = useState(source.url);
+  const [kind, setKind] = useState<SourceKind>(source.kind);
+  const [pending, setPending] = useState<UploadedSheet | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<{ ok: boolean; text: string } | null>(null);
+
+  useEffect(() => {
+    setName(source.name);
+    setUrl(source.url);
+    setKind(source.kind);
+  }, [source]);
+
+  const dirty = name !== source.name || url !== source.url || kind !== source.kind;
+
+  async function run(fn: () => Promise<DataSource>, okText: string) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      onSaved(await fn());
+      setMsg({ ok: true, text: okText });
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message ?? "Error" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <section className="rounded-2xl border bg-white p-6 shadow-sm">
+      <div className="mb-3 flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-[#2B6CFF]">{source.name}</h2>
+          <p className="text-xs text-zinc-500">{source.description}</p>
+        </div>
+        <div className="text-right text-xs text-zinc-600">
+          <div>
+            Última lectura exitosa: <b>{fmtDate(source.lastLoadedAt)}</b>
+          </div>
+          <div>Modificada: {fmtDate(source.updatedAt)}</div>
+        </div>
+      </div>
+
+      <div className="grid gap-3 text-sm md:grid-cols-2">
+        <label>
+          Nombre
+          <input className="mt-1 w-full rounded border px-2 py-1" value={name} onChange={(e) => setName(e.target.value)} />
+        </label>
+        <div>
+          Origen
+          <div className="mt-1 flex gap-4">
+            <label className="inline-flex items-center gap-2">
+              <input type="radio" checked={kind === "url"} onChange={() => setKind("url")} /> Google Sheets
+            </label>
+            <label className="inline-flex items-center gap-2">
+              <input type="radio" checked={kind === "file"} onChange={() => setKind("file")} disabled={!source.file} /> Archivo
+              subido
+            </label>
+          </div>
+        </div>
+        <label className="md:col-span-2">
+          URL (enlace de la pestaña)
+          <input className="mt-1 w-full rounded border px-2 py-1" value={url} onChange={(e) => setUrl(e.target.value)} />
+        </label>
+
+        <div className="md:col-span-2">
+          Archivo (.xlsx/.csv)
+          <div className="mt-1 text-xs text-zinc-600">
+            {source.file ? (
+              <>
+                Actual: <b>{source.file.fileName}</b>
+                {source.file.sheet && source.file.sheet !== "CSV" ? ` › ${source.file.sheet}` : ""} ·{" "}
+                {source.file.rows.toLocaleString("es-CL")} filas · subido {fmtDate(source.file.uploadedAt)}
+              </>
+            ) : (
+              "Sin archivo subido."
+            )}
+          </div>
+          <SheetFileInput value={pending} onChange={setPending} />
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+        <button
+          className="rounded bg-[#2B6CFF] px-3 py-1 text-white disabled:opacity-50"
+          disabled={busy || !dirty}
+          onClick={() => run(() => saveSource(source.id, { name, url, kind }), "Cambios guardados.")}
+        >
+          Guardar
+        </button>
+        <button
+          className="rounded border px-3 py-1 hover:bg-zinc-50 disabled:opacity-50"
+          disabled={busy || !pending}
+          onClick={() =>
+            run(async () => {
+              const s = await uploadSourceFile(source.id, pending!);
+              setPending(null);
+              return s;
+            }, "Archivo subido; la fuente ahora usa el archivo.")
+          }
+        >
+          Subir archivo
+        </button>
+        {source.file && (
+          <button
+            className="rounded border px-3 py-1 text-red-700 hover:bg-red-50 disabled:opacity-50"
+            disabled={busy}
+            onClick={() => run(() => removeSourceFile(source.id), "Archivo eliminado; la fuente vuelve a la URL.")}
+          >
+            Eliminar archivo
+          </button>
+        )}
+        {msg && <span className={msg.ok ? "text-emerald-700" : "text-red-600"}>{msg.text}</span>}
+      </div>
+    </section>
+  );
+}
+
+/* ===================== PÁGINA ===================== */
+export default function FuentesPage() {
+  const [sources, setSources] = useState<SourceMap | null>(null);
+
+  useEffect(() => {
+    fetchSources().then(setSources);
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-[#2B6CFF]">🗂️ Fuentes de datos</h1>
+          <p className="text-sm text-zinc-600">
+            Planillas y archivos que usan todos los módulos. Un cambio aquí aplica a todo el equipo.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Link href="/fuentes/diagnostico" className="rounded border px-3 py-1 text-sm hover:bg-white">
+            🩺 Diagnóstico
+          </Link>
+          <Link href="/fuentes/catalogo" className="rounded border px-3 py-1 text-sm hover:bg-white">
+            🏷️ Versiones del catálogo
+          </Link>
+          <Link href="/" className="rounded border px-3 py-1 text-sm hover:bg-white">
+            ⟵ Volver
+          </Link>
+        </div>
+      </div>
+
+      {!sources ? (
+        <div className="text-sm text-zinc-500">Cargando…</div>
+      ) : (
+        <div className="space-y-4">
+          {SOURCE_IDS.map((id) => (
+            <SourceCard key={id} source={sources[id]} onSaved={(s) => setSources((m) => (m ? { ...m, [s.id]: s } : m))} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
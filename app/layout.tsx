@@ -3,9 +3,15 @@
 import "./globals.css";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import { useEffect } from "react";
+import { ROLE_LABEL, can, type Capability } from "@/lib/auth";
+import { logout, useSession } from "@/lib/useSession";
 
-const menuItems = [
+// cap: solo se muestra a quien tiene ese permiso (el middleware también lo exige)
+const menuItems: { name: string; href: string; icon: string; cap?: Capability }[] = [
   { name: "Gestión de Comodatos", href: "/comodatos", icon: "🧪" },
+  { name: "Solicitudes de VB", href: "/comodatos/vb", icon: "✅", cap: "approve-comodato" },
+  { name: "Reglas de viabilidad", href: "/comodatos/reglas", icon: "⚖️", cap: "edit-config" },
   { name: "Gestión de Ventas", href: "/ventas", icon: "📈" },
   { name: "Logística", href: "/logistica", icon: "🚚" },
   { name: "Inventarios", href: "/inventarios", icon: "📦" },
@@ -13,13 +19,33 @@ const menuItems = [
   { name: "KPI", href: "/kpi", icon: "📊" },
   { name: "Metas", href: "/metas", icon: "🎯" },
   { name: "Facturas y NC", href: "/facturas", icon: "🧾" },
+  { name: "Correos", href: "/correo", icon: "✉️" },
+  { name: "Fuentes de datos", href: "/fuentes", icon: "🗂️", cap: "edit-sources" },
+  { name: "Usuarios", href: "/usuarios", icon: "👥", cap: "manage-users" },
+  { name: "Auditoría", href: "/auditoria", icon: "🕵️", cap: "view-audit" },
 ];
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
   const pathname = usePathname();
+  const user = useSession();
+  const isLogin = pathname === "/login";
 
-  function handleLogout() {
-    alert("Cerrar sesión");
+  // Cookie vigente pero sesión cerrada o cuenta bloqueada en el servidor: de vuelta al login
+  useEffect(() => {
+    if (user === null && !isLogin) window.location.href = `/login?next=${encodeURIComponent(pathname)}`;
+  }, [user, isLogin, pathname]);
+
+  async function handleLogout() {
+    await logout();
+    window.location.href = "/login";
+  }
+
+  if (isLogin) {
+    return (
+      <html lang="es">
+        <body className="min-h-screen bg-gray-50 text-zinc-900">{children}</body>
+      </html>
+    );
   }
 
   return (
@@ -47,7 +73,7 @@ export default function RootLayout({ children }: { children: React.ReactNode })
 
           {/* Links de menú */}
           <nav className="flex-1 px-2 py-3 space-y-1">
-            {menuItems.map((item) => (
+            {menuItems.filter((item) => !item.cap || can(user, item.cap)).map((item) => (
               <Link
                 key={item.href}
                 href={item.href}
@@ -63,8 +89,14 @@ export default function RootLayout({ children }: { children: React.ReactNode })
             ))}
           </nav>
 
-          {/* Botón cerrar sesión */}
+          {/* Usuario y cerrar sesión */}
           <div className="p-4 border-t">
+            {user && (
+              <div className="mb-3 text-xs text-gray-600">
+                <div className="font-medium text-gray-800">{user.name}</div>
+                <div>{ROLE_LABEL[user.role]}</div>
+              </div>
+            )}
             <button
               onClick={handleLogout}
               className="w-full flex items-center justify-center gap-2 rounded-md bg-[#1f4ed8] px-3 py-2 text-sm font-medium text-white hover:bg-[#163bb8] transition"
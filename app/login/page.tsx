@@ -0,0 +1,99 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { fetchAuthStatus, login, setupFirstUser } from "@/lib/useSession";
+
+/* ===================== HELPERS ===================== */
+// Solo rutas internas: evita que ?next= lleve a otro sitio ("//x", "/\x" y similares los normaliza el navegador a otro host)
+function safeNext(next: string | null) {
+  if (!next || !next.startsWith("/") || next.includes("\\")) return "/";
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? `${url.pathname}${url.search}${url.hash}` : "/";
+  } catch {
+    return "/";
+  }
+}
+
+/* ===================== PÁGINA ===================== */
+export default function LoginPage() {
+  const search = useSearchParams();
+  const [needsSetup, setNeedsSetup] = useState<boolean | null>(null);
+  const [username, setUsername] = useState("");
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAuthStatus()
+      .then((s) => setNeedsSetup(s.needsSetup))
+      .catch(() => setNeedsSetup(false));
+  }, []);
+
+  async function submit(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      if (needsSetup) await setupFirstUser({ username, name, password });
+      else await login(username, password);
+      // Recarga completa: el layout y las páginas leen la sesión nueva
+      window.location.href = safeNext(search.get("next"));
+    } catch (err: any) {
+      setError(err?.message ?? "No se pudo iniciar sesión");
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="flex min-h-screen items-center justify-center p-6">
+      <form onSubmit={submit} className="w-full max-w-sm rounded-2xl border bg-white p-6 shadow-sm">
+        <h1 className="text-xl font-bold text-[#1f4ed8]">Panel Spartan</h1>
+        <p className="mb-4 text-sm text-zinc-600">
+          {needsSetup ? "Crea la primera cuenta (Administradora) para comenzar." : "Ingresa con tu usuario."}
+        </p>
+
+        <div className="space-y-3 text-sm">
+          <label className="block">
+            Usuario
+            <input
+              className="mt-1 w-full rounded border px-2 py-1"
+              autoComplete="username"
+              autoFocus
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+            />
+          </label>
+          {needsSetup && (
+            <label className="block">
+              Nombre
+              <input className="mt-1 w-full rounded border px-2 py-1" value={name} onChange={(e) => setName(e.target.value)} />
+            </label>
+          )}
+          <label className="block">
+            Contraseña
+            <input
+              type="password"
+              className="mt-1 w-full rounded border px-2 py-1"
+              autoComplete={needsSetup ? "new-password" : "current-password"}
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+            />
+          </label>
+        </div>
+
+        {error && <div className="mt-3 text-sm text-red-600">{error}</div>}
+
+        <button
+          type="submit"
+          className="mt-4 w-full rounded-md bg-[#1f4ed8] px-3 py-2 text-sm font-medium text-white hover:bg-[#163bb8] disabled:opacity-50"
+          disabled={busy || needsSetup === null || !username || !password}
+        >
+          {needsSetup ? "Crear cuenta e ingresar" : "Ingresar"}
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -2,14 +2,61 @@
 
 import React, { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import DataAsOf from "@/components/DataAsOf";
+import SheetFileInput from "@/components/SheetFileInput";
+import SourceErrorBox from "@/components/SourceErrorBox";
+import SourceInfo from "@/components/SourceInfo";
+import { CATALOG_SCHEMA, requireMapped, type CatalogItem } from "@/lib/schemas";
+import { mapSheetTable } from "@/lib/sheetWorker";
+import { ROLE_LABEL, can } from "@/lib/auth";
+import { useSession } from "@/lib/useSession";
+import { logAudit } from "@/lib/audit";
+import { useAuditedSetting } from "@/lib/useAudit";
+import { syncCatalogVersion, versionLabel, type CatalogVersionRef } from "@/lib/catalogVersions";
+import EvaluationList from "@/components/EvaluationList";
+import ViabilityChecks from "@/components/ViabilityChecks";
+import BreakEvenSolver, { type BreakEvenApply } from "@/components/BreakEvenSolver";
+import type { BreakEvenScenario } from "@/lib/breakEven";
+import { MARGIN_POLICIES, computeMargins, monthlyFee } from "@/lib/margins";
+import {
+  CHECK_STATUS_LABEL,
+  DEFAULT_EFFECTIVE_RULES,
+  VIABILITY_STATUS_CLASS,
+  VIABILITY_STATUS_LABEL,
+  assessViability,
+  describeCheck,
+  fetchViabilityRules,
+  type EffectiveViabilityRules,
+} from "@/lib/viability";
+import DraftFileButtons from "@/components/DraftFileButtons";
+import SendMailButton from "@/components/SendMailButton";
+import {
+  EVALUATION_STATUS_LABEL,
+  fetchEvaluation,
+  saveEvaluation,
+  type Evaluation,
+  type EvaluationInput,
+  type EvaluationStatus,
+} from "@/lib/evaluations";
+import type { EvaluationDraft } from "@/lib/drafts";
+import { APPROVAL_STATUS_LABEL, approvalRef, requestApproval, type ApprovalRef } from "@/lib/approvals";
+import {
+  fetchSources,
+  loadSourceCached,
+  sourceOrigin,
+  toProblem,
+  type DataSource,
+  type SourceProblem,
+  type SourceStamp,
+} from "@/lib/sources";
+import type { UploadedSheet } from "@/lib/workbook";
 
 /* ===================== CONFIG ===================== */
-const DEFAULT_CATALOG_URL =
-  "https://docs.google.com/spreadsheets/d/1UXVAxwzg-Kh7AWCPnPbxbEpzXnRPR2pDBKrRUFNZKZo/edit?gid=0#gid=0";
+// El catálogo se resuelve desde "Fuentes de datos" (/fuentes)
 const DEFAULT_LOGO =
   "https://assets.jumpseller.com/store/spartan-de-chile/themes/317202/options/27648963/Logo-spartan-white.png?1600810625";
 const SUGGEST_ID = "catalog-suggest";
-const VIABILITY_THRESHOLD = 0.005; // 0,50%
 
 /* ===================== HELPERS ===================== */
 function money(n: number) {
@@ -26,6 +73,10 @@ function pct(n: number) {
     maximumFractionDigits: 1,
   });
 }
+function today() {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
 function num(x: any) {
   const v = Number(x);
   return Number.isFinite(v) ? v : 0;
@@ -43,100 +94,6 @@ function useLocalStorage<T>(key: string, initial: T) {
   return [state, setState] as const;
 }
 
-/* === CSV + GViz === */
-function parseCsv(text: string): Record<string, any>[] {
-  const rows: string[][] = [];
-  let row: string[] = [];
-  let cell = "";
-  let inQuotes = false;
-  const pushCell = () => (row.push(cell), (cell = ""));
-  const pushRow = () => (row.length ? rows.push(row) : 0, (row = []));
-  const s = text.replace(/\r/g, "");
-  for (let i = 0; i < s.length; i++) {
-    const ch = s[i];
-    if (inQuotes) {
-      if (ch === '"') {
-        if (s[i + 1] === '"') (cell += '"'), i++;
-        else inQuotes = false;
-      } else cell += ch;
-    } else {
-      if (ch === '"') inQuotes = true;
-      else if (ch === ",") pushCell();
-      else if (ch === "\n") (pushCell(), pushRow());
-      else cell += ch;
-    }
-  }
-  if (cell.length || row.length) (pushCell(), pushRow());
-  if (!rows.length) return [];
-  const headers = rows[0].map((h) => h.trim());
-  const out: Record<string, any>[] = [];
-  for (let i = 1; i < rows.length; i++) {
-    const r = rows[i];
-    if (r.every((c) => c === "")) continue;
-    const obj: any = {};
-    headers.forEach((h, j) => (obj[h] = r[j] ?? ""));
-    out.push(obj);
-  }
-  return out;
-}
-async function fetchCsv(spreadsheetId: string, gid: string | number) {
-  const url = `https://docs.google.com/spreadsheets/d/${spreadsheetId}/export?format=csv&gid=${gid}`;
-  const res = await fetch(url, { cache: "no-store" });
-  if (!res.ok) throw new Error(`CSV ${res.status}`);
-  const text = await res.text();
-  const rows = parseCsv(text);
-  if (!rows.length) throw new Error("CSV vacío");
-  return rows;
-}
-async function fetchGviz(spreadsheetId: string, gid: string | number) {
-  const url = `https://docs.google.com/spreadsheets/d/${spreadsheetId}/gviz/tq?tqx=out:json&gid=${gid}`;
-  const res = await fetch(url, { cache: "no-store" });
-  if (!res.ok) throw new Error(`GViz ${res.status}`);
-  const text = await res.text();
-  const m = text.match(/setResponse\(([\s\S]*?)\);?$/);
-  if (!m) throw new Error("GViz: formato inesperado.");
-  let json: any;
-  try {
-    json = JSON.parse(m[1]);
-  } catch {
-    const start = text.indexOf("{");
-    const end = text.lastIndexOf("}");
-    json = JSON.parse(text.slice(start, end + 1));
-  }
-  const table = json.table;
-  const headers: string[] = table.cols.map((c: any) => (c.label || c.id || "col").trim());
-  const rows: Record<string, any>[] = [];
-  for (const r of table.rows) {
-    const obj: any = {};
-    headers.forEach((h, i) => (obj[h] = r.c[i]?.v ?? r.c[i]?.f ?? ""));
-    rows.push(obj);
-  }
-  if (!rows.length) throw new Error("GViz vacío");
-  return rows;
-}
-async function loadSheetSmart(spreadsheetId: string, gid: string | number, label: string) {
-  try {
-    return await fetchCsv(spreadsheetId, gid);
-  } catch {
-    try {
-      return await fetchGviz(spreadsheetId, gid);
-    } catch {
-      throw new Error(`${label}: no se pudo leer (revisa permisos y gid).`);
-    }
-  }
-}
-function normalizeGoogleSheetUrl(url: string) {
-  const m = url.match(/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
-  const id = m ? m[1] : "";
-  let gid = "0";
-  const g = url.match(/[?&#]gid=([0-9]+)/);
-  if (g) gid = g[1];
-  const csvUrl = id
-    ? `https://docs.google.com/spreadsheets/d/${id}/export?format=csv&gid=${gid}`
-    : "";
-  return { id, gid, csvUrl };
-}
-
 /* === Img a dataURL (PDF) === */
 async function fetchImageAsDataURL(url: string): Promise<{ dataUrl: string; format: "PNG" | "JPEG" } | null> {
   try {
@@ -170,33 +127,37 @@ async function getImageSize(dataUrl: string): Promise<{ w: number; h: number } |
 }
 
 /* ===================== TIPOS ===================== */
-type CatalogItem = { code: string; name: string; price_list?: number; cost?: number; kilos?: number };
 type SaleLine = { code: string; name: string; kilos: number; qty: number; priceKg: number; priceListaKg?: number; costKg?: number };
 type ComLine = { code: string; name: string; priceContract: number; qty: number };
 
+// Lo editable de una evaluación, para saber si hay cambios sin guardar (los resultados se derivan de esto)
+function evaluationKey(e: Omit<EvaluationInput, "results">) {
+  return JSON.stringify([e.cliente, e.ejecutivo, e.fecha, e.sales, e.comodatos, e.params, e.catalogVersion]);
+}
+
 /* ===================== COMPONENTE ===================== */
 export default function Page() {
-  // Roles por URL: admin=2 (Administradora), admin=1 (Gerencia), sin parámetro (Usuario)
-  const [adminLevel, setAdminLevel] = useState<number>(0);
+  // Permisos de la sesión (el servidor los exige también en las rutas API)
+  const me = useSession();
+  const canCosts = can(me, "view-costs");
+  const canSources = can(me, "edit-sources");
+  const canConfig = can(me, "edit-config");
+
+  // Catálogo del registro compartido
+  const [catalogSource, setCatalogSource] = useState<DataSource | undefined>(undefined);
   useEffect(() => {
-    if (typeof window === "undefined") return;
-    const u = new URL(window.location.href);
-    const val = u.searchParams.get("admin");
-    const lvl = val ? Number(val) : 0;
-    setAdminLevel(Number.isFinite(lvl) ? Math.max(0, Math.min(2, Math.trunc(lvl))) : 0);
+    fetchSources().then((s) => setCatalogSource(s.catalogo));
   }, []);
-
-  // URLs (persisten)
-  const [catalogUrl, setCatalogUrl] = useLocalStorage("eval.catalog.url", DEFAULT_CATALOG_URL);
   const [logoUrl, setLogoUrl] = useLocalStorage("eval.pdf.logoUrl", DEFAULT_LOGO);
+  // Catálogo desde archivo (.xlsx/.csv): reemplaza a la fuente en esta sesión
+  const [catalogFile, setCatalogFile] = useState<UploadedSheet | null>(null);
+  const [catalogStamp, setCatalogStamp] = useState<SourceStamp | undefined>(undefined);
+  const [catalogError, setCatalogError] = useState<SourceProblem | null>(null);
+  // Versión registrada del catálogo cargado (null: archivo de sesión sin versión o aún sin respuesta)
+  const [catalogVersion, setCatalogVersion] = useState<CatalogVersionRef | null>(null);
 
   // Datos cliente
-  const [fechaEval, setFechaEval] = useState<string>(() => {
-    const d = new Date();
-    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(
-      d.getDate()
-    ).padStart(2, "0")}`;
-  });
+  const [fechaEval, setFechaEval] = useLocalStorage("eval.fecha", today());
   const [clienteNombre, setClienteNombre] = useLocalStorage("eval.cliente.nombre", "");
   const [rut, setRut] = useLocalStorage("eval.cliente.rut", "");
   const [direccion, setDireccion] = useLocalStorage("eval.cliente.dir", "");
@@ -204,7 +165,12 @@ export default function Page() {
 
   // Parámetros
   const [months, setMonths] = useLocalStorage<number>("eval.meses", 24);
-  const [commissionPct, setCommissionPct] = useLocalStorage<number>("eval.com.base", 0.105); // base
+  const [commissionPct, setCommissionPct] = useLocalStorage<number>("eval.com.base", MARGIN_POLICIES.negocio.commissionBase);
+  // Cambios de comisión base y logo quedan en la auditoría
+  useAuditedSetting("eval.com.base", commissionPct);
+  useAuditedSetting("eval.pdf.logoUrl", logoUrl);
+  // Versión del catálogo de la que se tomaron los precios de las líneas
+  const [evalCatalogVersion, setEvalCatalogVersion] = useLocalStorage<CatalogVersionRef | null>("eval.catalogo.version", null);
 
   // Catálogo y sugerencias
   const [catalog, setCatalog] = useState<Record<string, CatalogItem>>({});
@@ -231,31 +197,39 @@ export default function Page() {
   useEffect(() => {
     (async () => {
       try {
-        const { id, gid } = normalizeGoogleSheetUrl(catalogUrl);
-        if (!id) throw new Error("URL de catálogo inválida.");
-        const rows = await loadSheetSmart(id, gid, "Catálogo");
-        const map: Record<string, CatalogItem> = {};
-        for (const r of rows) {
-          const code = String(r.code ?? r.Code ?? r.Codigo ?? r["code"] ?? "").trim().toUpperCase();
-          if (!code) continue;
-          map[code] = {
-            code,
-            name: String(r.name ?? r.Nombre ?? r.Producto ?? r["name"] ?? "").trim(),
-            // Aceptar múltiples encabezados posibles para precio lista
-            price_list: num(
-              r.price_list ?? r["price_list"] ?? r.PrecioLista ?? r["Precio Lista"] ?? r.Precio ?? r["Precio"]
-            ),
-            // Aceptar variantes de costo si existen
-            cost: (r.cost ?? r.Costo ?? r["Costo"]) !== undefined ? num(r.cost ?? r.Costo ?? r["Costo"]) : undefined,
-            kilos: r.kilos !== undefined ? num(r.kilos) : 1,
-          };
+        // Encabezados aceptados (code/Codigo, price_list/Precio Lista, cost/Costo…) definidos en CATALOG_SCHEMA
+        const apply = (records: CatalogItem[]) => {
+          const map: Record<string, CatalogItem> = {};
+          for (const c of records) map[c.code] = { ...c, price_list: c.price_list ?? 0, kilos: c.kilos ?? 1 };
+          setCatalog(map);
+        };
+        // Solo una lectura fresca crea versión; la copia local o un archivo de sesión solo se reconocen
+        const track = (records: CatalogItem[], origin: string, record: boolean) =>
+          syncCatalogVersion(records, { origin, record }).then(setCatalogVersion);
+        setCatalogError(null);
+        setCatalogVersion(null);
+        if (catalogFile) {
+          setCatalogStamp(undefined);
+          const records = requireMapped(CATALOG_SCHEMA, await mapSheetTable(CATALOG_SCHEMA, catalogFile), catalogFile.fileName);
+          apply(records);
+          track(records, `archivo ${catalogFile.fileName}`, false);
+        } else if (catalogSource) {
+          const origin = sourceOrigin(catalogSource);
+          // Copia local al tiro; la versión de Google reemplaza al catálogo cuando llega
+          const { records, stamp } = await loadSourceCached(catalogSource, CATALOG_SCHEMA, {
+            onRevalidate: (fresh, s) => (apply(fresh), setCatalogStamp(s), track(fresh, origin, true)),
+            onOffline: setCatalogStamp,
+          });
+          apply(records);
+          setCatalogStamp(stamp);
+          track(records, origin, !stamp.fromCache);
         }
-        setCatalog(map);
       } catch (e) {
-        // no-op si no hay catálogo accesible
+        // Sin catálogo se puede seguir ingresando productos a mano, pero se avisa por qué
+        setCatalogError(toProblem(e, "No se pudo cargar el catálogo"));
       }
     })();
-  }, [catalogUrl]);
+  }, [catalogSource, catalogFile]);
 
   // Líneas
   const [sales, setSales] = useLocalStorage<SaleLine[]>("eval.ventas", []);
@@ -281,6 +255,7 @@ export default function Page() {
     if (n[i].priceKg === 0) n[i].priceKg = o.price || 0; // precio venta $/kg para el cliente
     if (o.cost !== undefined) n[i].costKg = o.cost;
     setSales(n);
+    setEvalCatalogVersion(catalogVersion);
   }
   function fillComFromCode(i: number, code: string) {
     const o = mapByCode.get(code.trim().toUpperCase());
@@ -290,61 +265,167 @@ export default function Page() {
     n[i].name = o.name;
     if (n[i].priceContract === 0) n[i].priceContract = o.price || 0;
     setComodatos(n);
+    setEvalCatalogVersion(catalogVersion);
   }
 
   /* ===================== CÁLCULOS ===================== */
   const calc = useMemo(() => {
-    // 0) Métricas por línea de producto
+    // Líneas mensuales: kilos y venta al $/kg del cliente, costo al costo del catálogo
     const lines = sales.map((l) => {
       const kilosMes = (l.qty || 0) * (l.kilos || 1);
-      const venta = (l.priceKg || 0) * kilosMes; // Precio venta mensual por fila (usa $/kg del cliente)
       const costKg = l.costKg !== undefined ? Number(l.costKg) : 0;
-      const costo = (costKg || 0) * kilosMes;
-      const mgnDirecto = venta - costo; // $
-      const mgnDirPct = venta > 0 ? mgnDirecto / venta : 0;
-      return { ...l, kilosMes, venta, costKg, costo, mgnDirecto, mgnDirPct, priceListaKg: l.priceListaKg ?? 0 };
+      return { ...l, kilosMes, venta: (l.priceKg || 0) * kilosMes, costKg, costo: (costKg || 0) * kilosMes, priceListaKg: l.priceListaKg ?? 0 };
     });
-
-    const ventaTotal = lines.reduce((a, r) => a + r.venta, 0);
-
-    // 1) Total Comodato (contrato) y Comodato mensual (prorrateado)
+    // Comodato total del contrato, prorrateado en los meses
     const totalComodato = comodatos.reduce((a, r) => a + (r.priceContract || 0) * (r.qty || 0), 0);
-    const comodatoMensual = months > 0 ? totalComodato / months : 0;
-
-    // 2) Relación comodato/venta (global)
-    const rel = ventaTotal > 0 ? comodatoMensual / ventaTotal : 0;
-
-    // 3) Reparto del comodato POR KILOS
-    const totalKilos = lines.reduce((a, r) => a + r.kilosMes, 0);
-
-    // 4) Márgenes y comisión final por fila
-    const withMgn = lines.map((r) => {
-      const cdtoAsignado = totalKilos > 0 ? (r.kilosMes / totalKilos) * comodatoMensual : 0;
-      // Comisión final según instrucción: comisión base * (1 - %relación cdto/venta)
-      const comision = commissionPct * (1 - rel) * r.venta;
-      const mgn2 = r.mgnDirecto - cdtoAsignado; // Mgn $ (2)
-      const mgn2Pct = r.venta > 0 ? mgn2 / r.venta : 0; // Mgn % (2)
-      const mgn3 = mgn2 - comision; // Mgn Final $ (3)
-      const mgn3Pct = r.venta > 0 ? mgn3 / r.venta : 0; // Mgn Final % (3)
-      return { ...r, cdtoAsignado, comision, mgn2, mgn2Pct, mgn3, mgn3Pct };
+    const m = computeMargins({
+      lines,
+      comodatoMensual: monthlyFee(totalComodato, months),
+      commissionPct,
+      policy: MARGIN_POLICIES.negocio,
     });
+    return { ...m, totalComodato };
+  }, [sales, comodatos, commissionPct, months]);
 
-    const mgn3Total = withMgn.reduce((a, r) => a + r.mgn3, 0);
-    const comisionTotal = withMgn.reduce((a, r) => a + r.comision, 0);
-    const mgnFinalPct = ventaTotal > 0 ? mgn3Total / ventaTotal : 0; // Viabilidad global
-
+  // Reglas de viabilidad del ejecutivo (las de su Gerencia, si tiene)
+  const [viabilityRules, setViabilityRules] = useState<EffectiveViabilityRules>(DEFAULT_EFFECTIVE_RULES);
+  useEffect(() => {
+    let alive = true;
+    fetchViabilityRules(ejecutivo).then(
+      (r) => alive && setViabilityRules(r),
+      () => alive && setViabilityRules(DEFAULT_EFFECTIVE_RULES)
+    );
+    return () => {
+      alive = false;
+    };
+  }, [ejecutivo]);
+  const viability = useMemo(() => assessViability(calc, viabilityRules), [calc, viabilityRules]);
+  const isViable = viability.status === "viable";
+
+  // Punto de equilibrio de lo que se está evaluando; Aplicar cambia los productos, el comodato o los meses
+  const breakEven = useMemo<BreakEvenScenario>(
+    () => ({
+      lines: calc.lines,
+      fixedMonthlyFee: 0,
+      investment: calc.totalComodato,
+      months,
+      commissionPct,
+      policy: MARGIN_POLICIES.negocio,
+    }),
+    [calc, months, commissionPct]
+  );
+  // Redondeado hacia el lado que mantiene la viabilidad: precios y cantidades hacia arriba, comodato hacia abajo
+  const breakEvenApply: BreakEvenApply = {
+    linePrice: (i, priceKg) => setSales(sales.map((l, j) => (j === i ? { ...l, priceKg } : l))),
+    prices: (f) => setSales(sales.map((l) => ({ ...l, priceKg: Math.ceil((l.priceKg || 0) * f) }))),
+    kilos: (f) => setSales(sales.map((l) => ({ ...l, qty: Math.ceil((l.qty || 0) * f) }))),
+    investment: (total) =>
+      setComodatos(comodatos.map((c) => ({ ...c, priceContract: Math.floor(((c.priceContract || 0) * total) / calc.totalComodato) }))),
+    months: setMonths,
+  };
+
+  /* ===================== EVALUACIONES GUARDADAS ===================== */
+  // Evaluación del servidor que se está editando (null: nueva) y cómo estaba al guardarla/abrirla
+  const [saved, setSaved] = useLocalStorage<{ id: string; status: EvaluationStatus; key: string } | null>("eval.guardada", null);
+  const [saving, setSaving] = useState(false);
+  const [saveMsg, setSaveMsg] = useState<{ ok: boolean; text: string } | null>(null);
+  const [listKey, setListKey] = useState(0);
+  // Última solicitud de VB comodato de la evaluación abierta
+  const [approval, setApproval] = useState<ApprovalRef | null>(null);
+  const [requesting, setRequesting] = useState(false);
+
+  function currentEvaluation(): EvaluationInput {
     return {
-      lines: withMgn,
-      ventaTotal,
-      totalComodato,
-      comodatoMensual,
-      rel,
-      mgnFinalPct,
-      comFinalPct: ventaTotal > 0 ? comisionTotal / ventaTotal : 0,
+      cliente: { nombre: clienteNombre, rut, direccion },
+      ejecutivo,
+      fecha: fechaEval,
+      sales,
+      comodatos,
+      params: { months, commissionPct },
+      results: {
+        ventaTotal: calc.ventaTotal,
+        totalComodato: calc.totalComodato,
+        comodatoMensual: calc.comodatoMensual,
+        rel: calc.rel,
+        mgnFinalPct: calc.mgnFinalPct,
+        comFinalPct: calc.comFinalPct,
+        viable: isViable,
+        viability: viability.status,
+      },
+      catalogVersion: evalCatalogVersion,
     };
-  }, [sales, comodatos, commissionPct, months]);
+  }
+  const dirty = saved
+    ? evaluationKey(currentEvaluation()) !== saved.key
+    : !!(clienteNombre || rut || sales.length || comodatos.length);
+
+  function applyEvaluation(e: Evaluation) {
+    setClienteNombre(e.cliente.nombre);
+    setRut(e.cliente.rut);
+    setDireccion(e.cliente.direccion);
+    setEjecutivo(e.ejecutivo);
+    setFechaEval(e.fecha);
+    setSales(e.sales);
+    setComodatos(e.comodatos);
+    setMonths(e.params.months);
+    setCommissionPct(e.params.commissionPct);
+    setEvalCatalogVersion(e.catalogVersion);
+    setSaved({ id: e.id, status: e.status, key: evaluationKey(e) });
+    setApproval(e.approval ?? null);
+  }
 
-  const isViable = calc.mgnFinalPct >= VIABILITY_THRESHOLD;
+  function abrirEvaluacion(e: Evaluation) {
+    if (dirty && !confirm("Hay cambios sin guardar en la evaluación actual. ¿Descartarlos?")) return;
+    applyEvaluation(e);
+    setSaveMsg(null);
+  }
+
+  async function guardar(): Promise<Evaluation | null> {
+    setSaving(true);
+    setSaveMsg(null);
+    try {
+      const e = await saveEvaluation(currentEvaluation(), saved?.id);
+      applyEvaluation(e);
+      setListKey((k) => k + 1);
+      setSaveMsg({ ok: true, text: `Guardada como ${e.id}.` });
+      return e;
+    } catch (err: any) {
+      setSaveMsg({ ok: false, text: err?.message ?? "No se pudo guardar" });
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  // ?eval=EV-… abre esa evaluación (por ejemplo, desde la cotización que se generó con ella)
+  const search = useSearchParams();
+  const evalParam = search.get("eval");
+  // El VB lo resuelve otra persona: al volver a la página se relee el estado de la evaluación abierta
+  useEffect(() => {
+    if (!saved?.id || saved.id === evalParam) return;
+    fetchEvaluation(saved.id).then(
+      (e) => setApproval(e.approval ?? null),
+      () => undefined
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [saved?.id]);
+  useEffect(() => {
+    if (!evalParam || evalParam === saved?.id) return;
+    fetchEvaluation(evalParam).then(abrirEvaluacion, (e) => setSaveMsg({ ok: false, text: e?.message ?? "No se pudo abrir la evaluación" }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [evalParam]);
+
+  // La cotización queda enlazada a la evaluación guardada: se guarda antes si hay cambios
+  const router = useRouter();
+  async function generarCotizacion() {
+    if (!isViable) {
+      alert("Solo se genera cotización si el estado es Viable.");
+      return;
+    }
+    let id = saved?.id;
+    if (!id || dirty) id = (await guardar())?.id;
+    if (id) router.push(`/ventas/cotizacion?eval=${encodeURIComponent(id)}`);
+  }
 
   /* ===================== PDF ===================== */
   async function descargarPdf() {
@@ -354,6 +435,7 @@ export default function Page() {
     const BLUE = { r: 31, g: 78, b: 216 }; // #1f4ed8
     const GREEN = { r: 22, g: 163, b: 74 };
     const RED = { r: 220, g: 38, b: 38 };
+    const AMBER = { r: 217, g: 119, b: 6 };
 
     const W = doc.internal.pageSize.getWidth();
     const M = 36; // margen
@@ -469,6 +551,7 @@ export default function Page() {
       ["RUT", `${rut || "—"}`],
       ["Dirección", `${direccion || "—"}`],
       ["Ejecutivo", `${ejecutivo || "—"}`],
+      ["Catálogo", versionLabel(evalCatalogVersion)],
     ]);
 
     // ===== KPIs =====
@@ -483,8 +566,8 @@ export default function Page() {
     ]);
 
     // Estado
-    const label = isViable ? "Viable" : "No viable";
-    const color = isViable ? GREEN : RED;
+    const label = VIABILITY_STATUS_LABEL[viability.status];
+    const color = viability.status === "viable" ? GREEN : viability.status === "revision" ? AMBER : RED;
     doc.setFillColor(color.r, color.g, color.b);
     doc.setTextColor(255, 255, 255);
     doc.rect(M, y, 260, 30, "F");
@@ -494,6 +577,10 @@ export default function Page() {
     doc.setTextColor(0, 0, 0);
     y += 42;
 
+    // ===== Reglas de viabilidad =====
+    drawSectionHeader(`Reglas de viabilidad ${viabilityRules.gerencia ? `(${viabilityRules.gerencia.name})` : "(generales)"}`);
+    drawKVTable(viability.checks.map((c) => [CHECK_STATUS_LABEL[c.status], `${c.label}: ${describeCheck(c)}`]));
+
     // ===== Productos (venta mensual) =====
     drawSectionHeader("Productos (venta mensual)");
     const prodHeaders = ["Código", "Descripción", "Cant.", "Precio venta $/kg", "Precio lista $/kg", "Subtotal"];
@@ -528,33 +615,76 @@ export default function Page() {
     const fname = `Evaluacion_${(clienteNombre || "Cliente")
       .replace(/[^A-Za-z0-9_-]+/g, "_")}_${fechaEval}.pdf`;
     doc.save(fname);
-    return fname;
+    logAudit({
+      action: "pdf.generate",
+      entity: "evaluacion",
+      entityId: fname,
+      after: { cliente: clienteNombre, rut, ejecutivo, fecha: fechaEval, mgnFinalPct: calc.mgnFinalPct, viabilidad: viability.status, catalogo: evalCatalogVersion?.id ?? null },
+    });
+    return { fileName: fname, data: doc.output("datauristring").split(",")[1] };
   }
 
-  function descargarYEnviar() {
-    if (!isViable) {
-      alert("Solo se envía por correo si el estado es Viable.");
+  // La solicitud lleva la evaluación guardada: se guarda antes si hay cambios
+  async function solicitarVB() {
+    if (viability.status === "no-viable") {
+      alert("No se solicita VB si el estado es No viable.");
       return;
     }
-    descargarPdf().then(() => {
-      const to = "patricia.acuna@spartan.cl";
-      const subject = encodeURIComponent(
-        `Evaluación de Negocio — ${clienteNombre || "Cliente"}`
-      );
-      const body = encodeURIComponent(
-        "Estimada, se solicita gestionar VB a comodato. Saludos."
-      );
-      window.location.href = `mailto:${to}?subject=${subject}&body=${body}`;
-    });
+    let id = saved?.id;
+    if (!id || dirty) id = (await guardar())?.id;
+    if (!id) return;
+    setRequesting(true);
+    try {
+      const r = await requestApproval({ source: "evaluacion", evaluationId: id, pdf: await descargarPdf() });
+      setApproval(approvalRef(r));
+      setListKey((k) => k + 1);
+      setSaveMsg({ ok: true, text: `Solicitud ${r.id} enviada a VB comodato.` });
+    } catch (err: any) {
+      setSaveMsg({ ok: false, text: err?.message ?? "No se pudo enviar la solicitud" });
+    } finally {
+      setRequesting(false);
+    }
+  }
+
+  // El correo lleva el PDF de la evaluación guardada: se guarda antes si hay cambios
+  async function prepararCorreo() {
+    let id = saved?.id;
+    if (!id || dirty) id = (await guardar())?.id;
+    return id ?? null;
   }
 
+  // Empieza una evaluación nueva; la guardada sigue en el servidor
   function limpiarTodo() {
+    if (dirty && !confirm("Hay cambios sin guardar. ¿Descartarlos y empezar una evaluación nueva?")) return;
+    setSaved(null);
+    setSaveMsg(null);
+    setApproval(null);
+    setFechaEval(today());
     setClienteNombre("");
     setRut("");
     setDireccion("");
     setEjecutivo("");
     setSales([]);
     setComodatos([]);
+    setEvalCatalogVersion(null);
+  }
+
+  // Un borrador importado queda como evaluación nueva: al guardarlo recibe su propio id
+  function importarBorrador(d: EvaluationDraft) {
+    if (dirty && !confirm("Hay cambios sin guardar. ¿Reemplazarlos por el borrador importado?")) return;
+    setSaved(null);
+    setSaveMsg(null);
+    setApproval(null);
+    setClienteNombre(d.cliente.nombre);
+    setRut(d.cliente.rut);
+    setDireccion(d.cliente.direccion);
+    setEjecutivo(d.ejecutivo);
+    setFechaEval(d.fecha);
+    setSales(d.sales);
+    setComodatos(d.comodatos);
+    setMonths(d.params.months);
+    setCommissionPct(d.params.commissionPct);
+    setEvalCatalogVersion(d.catalogVersion);
   }
 
   /* ============= UI ============= */
@@ -572,10 +702,8 @@ export default function Page() {
             </h1>
           </div>
           <div className="flex items-center gap-2">
-            {adminLevel > 0 && (
-              <span className="rounded bg-white/20 px-2 py-1 text-xs text-white">
-                {adminLevel === 2 ? "Administradora" : "Gerencia"}
-              </span>
+            {me && me.role !== "usuario" && (
+              <span className="rounded bg-white/20 px-2 py-1 text-xs text-white">{ROLE_LABEL[me.role]}</span>
             )}
             <Link
               href="/"
@@ -595,30 +723,32 @@ export default function Page() {
       </datalist>
 
       <main className="mx-auto max-w-7xl px-6 py-6">
-        {/* Config (solo Administradora) */}
-        {adminLevel === 2 && (
+        {/* Config: cada bloque según permiso */}
+        {(canSources || canConfig || canCosts) && (
           <section className="rounded-2xl border bg-white p-6 shadow-sm">
             <h2 className="mb-4 text-lg font-semibold text-[#2B6CFF]">⚙️ Configuración</h2>
             <div className="grid gap-3 md:grid-cols-2">
-              <label className="text-sm md:col-span-2">
-                Catálogo
-                <input
-                  className="mt-1 w-full rounded border px-2 py-1"
-                  value={catalogUrl}
-                  onChange={(e) => setCatalogUrl(e.target.value)}
-                />
-              </label>
-              <label className="text-sm md:col-span-2">
-                Logo PDF (URL o data:)
-                <input
-                  className="mt-1 w-full rounded border px-2 py-1"
-                  value={logoUrl}
-                  onChange={(e) => setLogoUrl(e.target.value)}
-                />
-              </label>
+              {canSources && (
+                <div className="text-sm md:col-span-2">
+                  {catalogSource?.name ?? "Catálogo"}
+                  <SourceInfo source={catalogSource} />
+                  <SheetFileInput value={catalogFile} onChange={setCatalogFile} />
+                </div>
+              )}
+              {canConfig && (
+                <label className="text-sm md:col-span-2">
+                  Logo PDF (URL o data:)
+                  <input
+                    className="mt-1 w-full rounded border px-2 py-1"
+                    value={logoUrl}
+                    onChange={(e) => setLogoUrl(e.target.value)}
+                  />
+                </label>
+              )}
             </div>
 
-            {/* Subcálculos visibles solo en Configuración (Admin) */}
+            {/* Subcálculos por producto (ver costos) */}
+            {canCosts && (
             <div className="mt-6">
               <h3 className="mb-2 text-sm font-semibold">🔎 Subcálculos por producto</h3>
               {calc.lines.length === 0 ? (
@@ -631,7 +761,7 @@ export default function Page() {
                       <div className="mt-1 flex flex-wrap gap-2">
                         <span className="rounded border px-2 py-1">Kilos/mes: <b>{r.kilosMes.toLocaleString("es-CL")}</b></span>
                         <span className="rounded border px-2 py-1">Costo total: <b>{money(r.costo)}</b></span>
-                        <span className="rounded border px-2 py-1">Mgn dir %: <b>{pct(r.mgnDirPct)}</b></span>
+                        <span className="rounded border px-2 py-1">Mgn dir %: <b>{pct(r.mgn1Pct)}</b></span>
                         <span className="rounded border px-2 py-1">Cdto asignado: <b>{money(r.cdtoAsignado)}</b></span>
                         <span className="rounded border px-2 py-1">Mgn (2) %: <b>{pct(r.mgn2Pct)}</b></span>
                         <span className="rounded border px-2 py-1">Mgn final: <b>{pct(r.mgn3Pct)}</b></span>
@@ -641,12 +771,30 @@ export default function Page() {
                 </div>
               )}
             </div>
+            )}
           </section>
         )}
 
+        {/* Evaluaciones guardadas */}
+        <section className="mt-6 rounded-2xl border bg-white p-6 shadow-sm">
+          <h2 className="mb-4 text-lg font-semibold text-[#2B6CFF]">🗂️ Evaluaciones guardadas</h2>
+          <EvaluationList
+            currentId={saved?.id ?? null}
+            reloadKey={listKey}
+            onOpen={abrirEvaluacion}
+            onChanged={(e) => e.id === saved?.id && setSaved({ ...saved, status: e.status })}
+          />
+        </section>
+
         {/* Parámetros + Cliente */}
         <section className="mt-6 rounded-2xl border bg-white p-6 shadow-sm">
-          <h2 className="mb-4 text-lg font-semibold text-[#2B6CFF]">📊 Parámetros y Cliente</h2>
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-[#2B6CFF]">📊 Parámetros y Cliente</h2>
+            <span className="text-xs text-zinc-500">
+              {saved ? `${saved.id} · ${EVALUATION_STATUS_LABEL[saved.status]}` : "Evaluación nueva"}
+              {dirty && " · cambios sin guardar"}
+            </span>
+          </div>
 
           <div className="flex flex-wrap items-end gap-3 text-sm">
             <label className="flex items-center gap-2">
@@ -731,8 +879,17 @@ export default function Page() {
               onClick={limpiarTodo}
               className="rounded bg-zinc-200 px-3 py-2 text-xs hover:bg-zinc-300"
             >
-              Limpiar
+              Nueva
             </button>
+            <DraftFileButtons
+              kind="evaluacion"
+              name={clienteNombre}
+              getData={() => {
+                const { results: _, ...draft } = currentEvaluation();
+                return draft;
+              }}
+              onImport={importarBorrador}
+            />
           </div>
 
           {/* KPIs */}
@@ -763,40 +920,78 @@ export default function Page() {
             </div>
             <div className="rounded-2xl border p-3 shadow-sm">
               <div className="text-[11px] leading-none text-zinc-500">Estado</div>
-              <div
-                className={`mt-1 inline-flex items-center rounded-xl px-4 py-2 text-xl font-extrabold ${
-                  isViable ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
-                }`}
-              >
-                {isViable ? "Viable" : "No viable"}
+              <div className={`mt-1 inline-flex items-center rounded-xl px-4 py-2 text-xl font-extrabold ${VIABILITY_STATUS_CLASS[viability.status]}`}>
+                {VIABILITY_STATUS_LABEL[viability.status]}
               </div>
             </div>
           </div>
+          <ViabilityChecks assessment={viability} rules={viabilityRules} className="mt-3" />
+          <BreakEvenSolver scenario={breakEven} rules={viabilityRules} status={viability.status} apply={breakEvenApply} className="mt-3" />
 
-          {/* Acciones PDF */}
-          <div className="mt-4 flex gap-2">
+          {/* Guardar + acciones PDF */}
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            <button
+              onClick={guardar}
+              disabled={saving || saved?.status === "archivada"}
+              title={saved?.status === "archivada" ? "Archivada: restáurala o duplícala para editarla" : undefined}
+              className="rounded bg-[#2B6CFF] px-3 py-2 text-xs text-white hover:bg-[#1f4ed8] disabled:opacity-50"
+            >
+              💾 {saved ? `Guardar ${saved.id}` : "Guardar"}
+            </button>
             <button
               onClick={descargarPdf}
               className="rounded bg-zinc-200 px-3 py-2 text-xs hover:bg-zinc-300"
             >
               Descargar PDF
             </button>
+            <SendMailButton kind="evaluacion" disabled={saving} prepare={prepararCorreo} getPdf={descargarPdf} />
             <button
-              onClick={descargarYEnviar}
-              className={`rounded px-3 py-2 text-xs text-white ${
-                isViable ? "bg-emerald-600 hover:bg-emerald-700" : "bg-zinc-400 cursor-not-allowed"
+              onClick={solicitarVB}
+              disabled={saving || requesting}
+              title="Envía la evaluación guardada y su PDF a Solicitudes de VB comodato"
+              className={`rounded px-3 py-2 text-xs text-white disabled:opacity-50 ${
+                viability.status !== "no-viable" ? "bg-emerald-600 hover:bg-emerald-700" : "bg-zinc-400 cursor-not-allowed"
               }`}
             >
-              Descargar y enviar (si Viable)
+              {requesting ? "Enviando…" : "Solicitar VB comodato"}
             </button>
+            <button
+              onClick={generarCotizacion}
+              disabled={saving}
+              title="Crea una cotización con el cliente y los productos de esta evaluación, enlazada a ella"
+              className={`rounded px-3 py-2 text-xs text-white disabled:opacity-50 ${
+                isViable ? "bg-[#2B6CFF] hover:bg-[#1f4ed8]" : "bg-zinc-400 cursor-not-allowed"
+              }`}
+            >
+              Generar cotización
+            </button>
+            {saveMsg && <span className={`text-xs ${saveMsg.ok ? "text-emerald-700" : "text-red-600"}`}>{saveMsg.text}</span>}
           </div>
+          {approval && (
+            <div className="mt-2 text-xs text-zinc-600">
+              VB comodato:{" "}
+              <Link href={`/comodatos/vb?id=${encodeURIComponent(approval.id)}`} className="underline">
+                {approval.id} · {APPROVAL_STATUS_LABEL[approval.status]}
+              </Link>{" "}
+              ({new Date(approval.at).toLocaleString("es-CL")})
+              {approval.comment && <span className="ml-1 italic">“{approval.comment}”</span>}
+            </div>
+          )}
         </section>
 
         {/* Productos */}
         <section className="mt-6 rounded-2xl border bg-white p-6 shadow-sm">
           <div className="mb-4 flex items-center justify-between">
             <h2 className="text-lg font-semibold text-[#2B6CFF]">📦 Productos — Venta mensual</h2>
-            <div className="flex gap-2">
+            <div className="flex items-center gap-2">
+              <DataAsOf items={[{ label: "Catálogo", stamp: catalogStamp }]} />
+              <Link
+                href={evalCatalogVersion ? `/fuentes/catalogo?v=${evalCatalogVersion.id}` : "/fuentes/catalogo"}
+                className="text-xs text-zinc-500 underline"
+                title="Versión del catálogo con la que se tomaron los precios"
+              >
+                Precios: {versionLabel(evalCatalogVersion)}
+              </Link>
               <button
                 className="rounded bg-zinc-100 px-3 py-1 text-xs"
                 type="button"
@@ -806,6 +1001,7 @@ export default function Page() {
               </button>
             </div>
           </div>
+          <SourceErrorBox problem={catalogError} className="mb-4" />
 
           <div className="overflow-x-auto">
             <table className="min-w-full text-sm">
@@ -897,7 +1093,7 @@ export default function Page() {
                     </tr>
 
                     {/* Subcálculos debajo de cada código (incluye Kilos/mes) */}
-                    {adminLevel === 2 && (
+                    {canCosts && (
                     <tr className="bg-zinc-50">$1</tr>
                     )}
                   </React.Fragment>
@@ -1,42 +1,34 @@
 "use client";
 
-import { useSearchParams } from "next/navigation";
 import { useEffect, useState } from "react";
 import { RadialBarChart, RadialBar, PolarAngleAxis, ReferenceLine } from "recharts";
+import { METAS_SCHEMA, mapTable, requireMapped, type MetaRow } from "@/lib/schemas";
+import { fetchSourceTable, toProblem, type SourceProblem } from "@/lib/sources";
+import SourceErrorBox from "@/components/SourceErrorBox";
+import { can } from "@/lib/auth";
+import { useSession } from "@/lib/useSession";
 
 const LOGO_URL =
   "https://assets.jumpseller.com/store/spartan-de-chile/themes/317202/options/27648963/Logo-spartan-white.png?1600810625";
 
-// Función para limpiar y convertir valores a número
-const parseNumber = (value: any) => {
-  if (!value) return 0;
-  return Number(value.toString().replace(/[^0-9.-]+/g, ""));
-};
-
 export default function HomeMenu() {
-  const search = useSearchParams();
-  const isAdmin = (search.get("admin") || "") === "1";
+  const isAdmin = can(useSession(), "edit-sources");
 
-  const [data, setData] = useState<string[][]>([]);
+  const [data, setData] = useState<MetaRow[]>([]);
+  const [loadError, setLoadError] = useState<SourceProblem | null>(null);
 
   useEffect(() => {
     const fetchData = async () => {
       try {
-        const spreadsheetId = "1GASOV0vl85q5STfvDn5hdZFD0Mwcj2SzXM6IqvgI50A";
-        const gid = "1307924129"; // pestaña Metas
-        const url = `https://docs.google.com/spreadsheets/d/${spreadsheetId}/gviz/tq?tqx=out:json&gid=${gid}`;
-
-        const res = await fetch(url);
-        const text = await res.text();
-        const json = JSON.parse(text.substr(47).slice(0, -2));
-
-        const rows = json.table.rows.map((r: any) =>
-          r.c.map((c: any) => (c ? c.v : ""))
-        );
+        // Pestaña Metas según "Fuentes de datos"; el servidor la lee por GViz, que conserva las posiciones de columna
+        const table = await fetchSourceTable("metas");
+        const records = requireMapped(METAS_SCHEMA, mapTable(METAS_SCHEMA, table.headers, table.rows));
 
-        setData(rows);
+        setData(records);
+        setLoadError(null);
       } catch (err) {
         console.error("Error cargando Google Sheets:", err);
+        setLoadError(toProblem(err, "Error cargando metas"));
       }
     };
 
@@ -44,12 +36,12 @@ export default function HomeMenu() {
   }, []);
 
   // Filtrar solo filas de Gerencia = FB (Food)
-  const foodData = data.filter((row) => row[1]?.toString().startsWith("FB"));
+  const foodData = data.filter((row) => row.gerencia.startsWith("FB"));
 
   // Calcular indicadores
-  const totalMeta = foodData.reduce((sum, r) => sum + parseNumber(r[8]), 0); // Meta
-  const totalVentas = foodData.reduce((sum, r) => sum + parseNumber(r[6]), 0); // Ventas
-  const totalCumplimiento = foodData.reduce((sum, r) => sum + parseNumber(r[9]), 0); // Cumplimiento $
+  const totalMeta = foodData.reduce((sum, r) => sum + r.meta, 0);
+  const totalVentas = foodData.reduce((sum, r) => sum + r.ventas, 0);
+  const totalCumplimiento = foodData.reduce((sum, r) => sum + r.cumplimiento, 0);
 
   // Porcentaje de cumplimiento
   const progreso = totalMeta > 0 ? (totalVentas / totalMeta) * 100 : 0;
@@ -88,6 +80,7 @@ export default function HomeMenu() {
           <p className="mb-4 text-sm text-zinc-600">
             KPIs consolidados solo de la Gerencia <b>FB</b>.
           </p>
+          <SourceErrorBox problem={loadError} className="mb-4" />
 
           {/* KPIs en tarjetas */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -168,7 +161,7 @@ export default function HomeMenu() {
           </div>
         </section>
 
-        {/* Accesos útiles solo admin */}
+        {/* Accesos útiles para quien administra las fuentes */}
         {isAdmin && (
           <div className="mt-10 rounded-2xl border bg-white p-4 shadow-sm dark:bg-zinc-900">
             <p className="text-sm text-zinc-600">
@@ -0,0 +1,277 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  ROLES,
+  can,
+  ROLE_LABEL,
+  createUser,
+  fetchUsers,
+  updateUser,
+  type Role,
+  type User,
+  type UserPatch,
+} from "@/lib/auth";
+import { useSession } from "@/lib/useSession";
+import { SN_SCHEMA, mapRows } from "@/lib/schemas";
+
+/* ===================== HELPERS ===================== */
+function fmtDate(iso: string | null | undefined) {
+  return iso ? new Date(iso).toLocaleString("es-CL") : "—";
+}
+
+// Equipo de Gerencia como texto: un ejecutivo por coma
+function parseTeam(text: string) {
+  return text
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+// Nombres de "Empleado Ventas" del Maestro SN, para sugerir al vincular usuarios
+async function fetchEjecutivos(): Promise<string[]> {
+  const r = await fetch("/api/sheets/clientes?format=json", { cache: "no-store" });
+  if (!r.ok) return [];
+  const { rows } = await r.json();
+  const names = new Set(mapRows(SN_SCHEMA, rows).records.map((c) => c.ejecutivo).filter(Boolean));
+  return Array.from(names).sort((a, b) => a.localeCompare(b));
+}
+
+/* ===================== FILA ===================== */
+function UserRow({ user, onSaved }: { user: User; onSaved: (u: User) => void }) {
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<{ ok: boolean; text: string } | null>(null);
+  const [ejecutivo, setEjecutivo] = useState(user.ejecutivo ?? "");
+  const [team, setTeam] = useState(user.team.join(", "));
+  const carteraChanged = ejecutivo.trim() !== (user.ejecutivo ?? "") || parseTeam(team).join(", ") !== user.team.join(", ");
+
+  async function save(patch: UserPatch, okText: string) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      onSaved(await updateUser(user.id, patch));
+      setMsg({ ok: true, text: okText });
+      setPassword("");
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message ?? "Error" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <tr className={`border-t align-top ${user.disabled ? "text-zinc-400" : ""}`}>
+      <td className="px-2 py-2">
+        <div className="font-medium">{user.name}</div>
+        <div className="text-xs text-zinc-500">{user.username}</div>
+      </td>
+      <td className="px-2 py-2">
+        <select
+          className="rounded border px-2 py-1"
+          value={user.role}
+          disabled={busy}
+          onChange={(e) => save({ role: e.target.value as Role }, "Rol actualizado; sus sesiones se cerraron.")}
+        >
+          {ROLES.map((r) => (
+            <option key={r} value={r}>
+              {ROLE_LABEL[r]}
+            </option>
+          ))}
+        </select>
+      </td>
+      <td className="px-2 py-2">
+        <input
+          className="w-44 rounded border px-2 py-1"
+          list="ejecutivos"
+          placeholder="Empleado Ventas"
+          value={ejecutivo}
+          onChange={(e) => setEjecutivo(e.target.value)}
+        />
+        {user.role === "gerencia" && (
+          <input
+            className="mt-1 block w-44 rounded border px-2 py-1 text-xs"
+            placeholder="Equipo: nombres separados por coma"
+            value={team}
+            onChange={(e) => setTeam(e.target.value)}
+          />
+        )}
+        {carteraChanged && (
+          <button
+            className="mt-1 rounded border px-2 py-0.5 text-xs hover:bg-zinc-50 disabled:opacity-50"
+            disabled={busy}
+            onClick={() => save({ ejecutivo: ejecutivo.trim() || null, team: parseTeam(team) }, "Cartera actualizada.")}
+          >
+            Guardar cartera
+          </button>
+        )}
+      </td>
+      <td className="px-2 py-2 text-xs">{fmtDate(user.lastLoginAt)}</td>
+      <td className="px-2 py-2">
+        <div className="flex gap-1">
+          <input
+            type="password"
+            className="w-36 rounded border px-2 py-1"
+            placeholder="Nueva contraseña"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+          />
+          <button
+            className="rounded border px-2 py-1 hover:bg-zinc-50 disabled:opacity-50"
+            disabled={busy || !password}
+            onClick={() => save({ password }, "Contraseña cambiada.")}
+          >
+            Cambiar
+          </button>
+        </div>
+      </td>
+      <td className="px-2 py-2">
+        <button
+          className={`rounded border px-2 py-1 disabled:opacity-50 ${user.disabled ? "hover:bg-zinc-50" : "text-red-700 hover:bg-red-50"}`}
+          disabled={busy}
+          onClick={() => save({ disabled: !user.disabled }, user.disabled ? "Cuenta activada." : "Cuenta bloqueada.")}
+        >
+          {user.disabled ? "Activar" : "Bloquear"}
+        </button>
+        {msg && <div className={`mt-1 text-xs ${msg.ok ? "text-emerald-700" : "text-red-600"}`}>{msg.text}</div>}
+      </td>
+    </tr>
+  );
+}
+
+/* ===================== PÁGINA ===================== */
+const EMPTY = { username: "", name: "", role: "usuario" as Role, password: "", ejecutivo: "" };
+
+export default function UsuariosPage() {
+  const me = useSession();
+  const [users, setUsers] = useState<User[] | null>(null);
+  const [form, setForm] = useState(EMPTY);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ejecutivos, setEjecutivos] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!can(me, "manage-users")) return;
+    fetchUsers()
+      .then(setUsers)
+      .catch((e) => setError(e.message));
+    fetchEjecutivos().then(setEjecutivos, () => undefined);
+  }, [me]);
+
+  async function crear(e: React.FormEvent) {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const u = await createUser({ ...form, ejecutivo: form.ejecutivo.trim() || undefined });
+      setUsers((l) => [...(l ?? []), u]);
+      setForm(EMPTY);
+    } catch (err: any) {
+      setError(err?.message ?? "No se pudo crear");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (me && !can(me, "manage-users")) {
+    return <div className="p-6 text-sm text-zinc-600">No tienes permiso para gestionar usuarios.</div>;
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-50 p-6">
+      <div className="mb-6 flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-[#2B6CFF]">👥 Usuarios</h1>
+          <p className="text-sm text-zinc-600">
+            Cuentas de acceso al panel. Cambiar el rol, la contraseña o bloquear cierra sus sesiones. La cartera (Empleado Ventas)
+            limita los clientes y ventas que ve cada usuario; Gerencia ve además su equipo.
+          </p>
+        </div>
+        <Link href="/" className="rounded border px-3 py-1 text-sm hover:bg-white">
+          ⟵ Volver
+        </Link>
+      </div>
+
+      <form onSubmit={crear} className="mb-4 rounded-2xl border bg-white p-4 shadow-sm">
+        <h2 className="mb-2 font-semibold text-[#2B6CFF]">Nuevo usuario</h2>
+        <div className="grid gap-3 text-sm md:grid-cols-6">
+          <label>
+            Usuario
+            <input className="mt-1 w-full rounded border px-2 py-1" value={form.username} onChange={(e) => setForm({ ...form, username: e.target.value })} />
+          </label>
+          <label>
+            Nombre
+            <input className="mt-1 w-full rounded border px-2 py-1" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+          </label>
+          <label>
+            Rol
+            <select className="mt-1 w-full rounded border px-2 py-1" value={form.role} onChange={(e) => setForm({ ...form, role: e.target.value as Role })}>
+              {ROLES.map((r) => (
+                <option key={r} value={r}>
+                  {ROLE_LABEL[r]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Ejecutivo (Empleado Ventas)
+            <input
+              className="mt-1 w-full rounded border px-2 py-1"
+              list="ejecutivos"
+              value={form.ejecutivo}
+              onChange={(e) => setForm({ ...form, ejecutivo: e.target.value })}
+            />
+          </label>
+          <label>
+            Contraseña
+            <input
+              type="password"
+              autoComplete="new-password"
+              className="mt-1 w-full rounded border px-2 py-1"
+              value={form.password}
+              onChange={(e) => setForm({ ...form, password: e.target.value })}
+            />
+          </label>
+          <div className="flex items-end">
+            <button type="submit" className="rounded bg-[#2B6CFF] px-3 py-1 text-white disabled:opacity-50" disabled={busy}>
+              Crear
+            </button>
+          </div>
+        </div>
+        {error && <div className="mt-2 text-sm text-red-600">{error}</div>}
+      </form>
+
+      <datalist id="ejecutivos">
+        {ejecutivos.map((e) => (
+          <option key={e} value={e} />
+        ))}
+      </datalist>
+
+      <section className="rounded-2xl border bg-white p-4 shadow-sm">
+        {!users ? (
+          <div className="text-sm text-zinc-500">Cargando…</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-zinc-50 text-left text-xs">
+              <tr>
+                <th className="px-2 py-1">Usuario</th>
+                <th className="px-2 py-1">Rol</th>
+                <th className="px-2 py-1">Cartera</th>
+                <th className="px-2 py-1">Último ingreso</th>
+                <th className="px-2 py-1">Contraseña</th>
+                <th className="px-2 py-1">Estado</th>
+              </tr>
+            </thead>
+            <tbody>
+              {users.map((u) => (
+                <UserRow key={u.id} user={u} onSaved={(n) => setUsers((l) => (l ?? []).map((x) => (x.id === n.id ? n : x)))} />
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -2,15 +2,51 @@
 
 import React, { useEffect, useMemo, useRef, useState } from "react";
 import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import DataAsOf from "@/components/DataAsOf";
+import ScopeToggle from "@/components/ScopeToggle";
+import SheetFileInput from "@/components/SheetFileInput";
+import SourceErrorBox from "@/components/SourceErrorBox";
+import QuoteList from "@/components/QuoteList";
+import DraftFileButtons from "@/components/DraftFileButtons";
+import SendMailButton from "@/components/SendMailButton";
+import { CATALOG_SCHEMA, SN_SCHEMA, requireMapped, type CatalogItem, type Schema, type SnRow } from "@/lib/schemas";
+import {
+  describeProgress,
+  indexRecords,
+  isCancelled,
+  mapSheetTable,
+  parseSheetText,
+  searchRecords,
+  type JobOptions,
+} from "@/lib/sheetWorker";
+import { putSnapshot, staleWhileRevalidate } from "@/lib/snapshots";
+import { syncCatalogVersion, versionLabel, type CatalogVersionRef } from "@/lib/catalogVersions";
+import { toProblem, type SourceProblem, type SourceStamp } from "@/lib/sources";
+import type { UploadedSheet } from "@/lib/workbook";
+import { inScope } from "@/lib/auth";
+import { useScope } from "@/lib/useSession";
+import { logAudit } from "@/lib/audit";
+import { fetchEvaluation, type Evaluation } from "@/lib/evaluations";
+import { pdfFromElement } from "@/lib/mail";
+import {
+  BRANCHES,
+  convertQuote,
+  evaluationMismatch,
+  issueQuote,
+  lineTotal,
+  quoteData,
+  quoteFromEvaluation,
+  quoteTotals,
+  type BranchId,
+  type Party,
+  type Quote,
+  type QuoteData,
+  type QuoteItem,
+} from "@/lib/quotes";
 
 /* =================== CONFIG =================== */
-const SHEETS = {
-  clientesCSV:
-    "https://docs.google.com/spreadsheets/d/1kF0INEtwYDXhQCBPTVhU8NQI2URKoi99Hs43DTSO02I/export?format=csv&gid=161671364",
-  catalogCSV:
-    "https://docs.google.com/spreadsheets/d/1UXVAxwzg-Kh7AWCPnPbxbEpzXnRPR2pDBKrRUFNZKZo/export?format=csv&gid=0",
-};
-
+// Clientes (SN) y Catálogo se resuelven desde "Fuentes de datos" (/fuentes)
 const BRAND = {
   name: "Spartan de Chile Ltda.",
   rut: "76.333.980-7",
@@ -19,33 +55,8 @@ const BRAND = {
   colors: { brandBlue: "#0B5FFF" },
 };
 
-/* =================== TIPOS =================== */
-type SheetRow = Record<string, string>;
-type QuoteItem = {
-  code?: string;
-  description: string;
-  kilos?: number;
-  qty: number;
-  unitPrice: number;
-  discountPct?: number;
-};
-type Party = {
-  name: string;
-  rut?: string;
-  address?: string;
-  clientCode?: string;
-  condicionPago?: string;
-  giro?: string;
-};
-type QuoteData = {
-  number: string;
-  dateISO: string;
-  validity: string;
-  client: Party;
-  issuer: Party & { paymentTerms?: string; contact?: string; email?: string; phone?: string };
-  items: QuoteItem[];
-  taxPct?: number;
-};
+// Sucursal emisora de este formulario (dirección y, si se configura, serie de numeración)
+const BRANCH: BranchId = "quilicura";
 
 /* =================== HELPERS =================== */
 const money = (n: number) =>
@@ -56,141 +67,86 @@ const todayISO = () => new Date().toISOString().slice(0, 10);
 const normalize = (s: string) =>
   (s || "").normalize("NFD").replace(/\p{Diacritic}+/gu, "").toLowerCase();
 
-function toNumber(v?: string): number {
-  return (
-    Number(
-      (v || "")
-        .replace(/[^0-9,.-]/g, "")
-        .replace(/\.(?=\d{3}(\D|$))/g, "")
-        .replace(/,/, ".")
-    ) || 0
-  );
-}
-
-/* =================== PARSER CSV ROBUSTO =================== */
-function parseCSV(csv: string): SheetRow[] {
-  const rows: string[][] = [];
-  let cur = "";
-  let row: string[] = [];
-  let inQuotes = false;
-
-  for (let i = 0; i < csv.length; i++) {
-    const c = csv[i];
-    const next = csv[i + 1];
-
-    if (c === '"' && inQuotes && next === '"') {
-      cur += '"';
-      i++;
-    } else if (c === '"') {
-      inQuotes = !inQuotes;
-    } else if (c === "," && !inQuotes) {
-      row.push(cur);
-      cur = "";
-    } else if ((c === "\n" || c === "\r") && !inQuotes) {
-      if (cur.length || row.length) {
-        row.push(cur);
-        rows.push(row);
-        row = [];
-        cur = "";
-      }
-      if (c === "\r" && next === "\n") i++;
-    } else {
-      cur += c;
-    }
-  }
-  if (cur.length || row.length) {
-    row.push(cur);
-    rows.push(row);
-  }
-
-  if (!rows.length) return [];
-  const header = rows[0].map((h) => h.trim());
-  return rows.slice(1).map((r) => {
-    const o: SheetRow = {};
-    header.forEach((h, i) => (o[h] = (r[i] ?? "").trim()));
-    return o;
-  });
-}
-
-/* =================== FETCH (con fallback) =================== */
+/* =================== FETCH =================== */
 async function fetchCsvNoStore(url: string) {
   const ts = Date.now();
   const sep = url.includes("?") ? "&" : "?";
   const r = await fetch(`${url}${sep}ts=${ts}`, { cache: "no-store" });
-  if (!r.ok) throw new Error(`Error ${r.status} al traer ${url}`);
+  if (!r.ok) {
+    // /api/sheets responde { error } con el motivo
+    const body = await r.json().catch(() => null);
+    throw new Error(body?.error ?? `Error ${r.status} al traer ${url}`);
+  }
   return r.text();
 }
 
-async function fetchClientesAll(): Promise<SheetRow[]> {
-  // 1) intenta API interna
+// La planilla la lee el servidor (refresh=1 fuerza refresco de su cache) y entrega solo lo que el usuario puede ver.
+// Si falla, la página sigue con la copia local, si hay.
+async function fetchSheetCsv(api: string, label: string, refresh: boolean) {
   try {
-    const csv = await fetchCsvNoStore("/api/sheets/clientes");
-    return parseCSV(csv);
-  } catch {
-    // 2) fallback directo a Google Sheets
-    try {
-      const csv = await fetchCsvNoStore(SHEETS.clientesCSV);
-      return parseCSV(csv);
-    } catch {
-      return [];
-    }
+    return await fetchCsvNoStore(`${api}${refresh ? "?refresh=1" : ""}`);
+  } catch (e: any) {
+    throw new Error(`${label}: no se pudo leer (${e?.message ?? "error"}).`);
   }
 }
 
-async function fetchCatalogCSV(): Promise<SheetRow[]> {
-  try {
-    const csv = await fetchCsvNoStore("/api/sheets/catalogo");
-    return parseCSV(csv);
-  } catch {
-    try {
-      const csv = await fetchCsvNoStore(SHEETS.catalogCSV);
-      return parseCSV(csv);
-    } catch {
-      return [];
-    }
-  }
+async function fetchClientesAll(refresh = false, opts: JobOptions = {}): Promise<SnRow[]> {
+  return toClientes(await fetchSheetCsv("/api/sheets/clientes", "Clientes", refresh), opts);
+}
+
+async function fetchCatalogCSV(refresh = false, opts: JobOptions = {}): Promise<CatalogItem[]> {
+  return toCatalogo(await fetchSheetCsv("/api/sheets/catalogo", "Catálogo", refresh), opts);
 }
 
 /* =================== MAP =================== */
-function mapCliente(r: SheetRow): Party {
-  // Ajusta aquí si tus headers exactos difieren (acentos, espacios, etc.)
+// Lectura y mapeo en el Web Worker. Se exige que estén las columnas obligatorias; si no, SchemaError con los encabezados detectados
+async function toClientes(csv: string, opts: JobOptions = {}): Promise<SnRow[]> {
+  return requireMapped(SN_SCHEMA, await parseSheetText(SN_SCHEMA, csv, "csv", opts));
+}
+async function toCatalogo(csv: string, opts: JobOptions = {}): Promise<CatalogItem[]> {
+  return requireMapped(CATALOG_SCHEMA, await parseSheetText(CATALOG_SCHEMA, csv, "csv", opts));
+}
+// Archivo subido (.xlsx/.csv)
+async function fromFile<T>(schema: Schema<T>, f: UploadedSheet, opts: JobOptions = {}): Promise<T[]> {
+  return requireMapped(schema, await mapSheetTable(schema, f, opts), f.fileName);
+}
+
+// Clientes indexados en el worker por RUT y razón social
+const CLIENTES_INDEX = "clientes";
+
+function mapCliente(r: SnRow): Party {
   return {
-    name: r["CardName"] || "",
-    rut: r["RUT"] || "",
-    clientCode: r["CardCode"] || "",
-    address: [
-      r["Direccion Despacho"] ?? r["Dirección Despacho"],
-      r["Despacho Comuna"],
-      r["Despacho Ciudad"],
-    ]
-      .filter(Boolean)
-      .join(", "),
-    condicionPago: r["Condicion pago"] || "",
-    giro: r["Giro"] || "",
+    name: r.cardName,
+    rut: r.rut,
+    clientCode: r.cardCode,
+    address: [r.direccion, r.comuna, r.ciudad].filter(Boolean).join(", "),
+    condicionPago: r.condicionPago,
+    giro: r.giro,
   };
 }
 
-function mapCatalogItem(r: SheetRow): QuoteItem {
+function mapCatalogItem(r: CatalogItem): QuoteItem {
   return {
-    code: r["code"] || "",
-    description: r["name"] || "",
-    kilos: toNumber(r["kilos"]),
+    code: r.code,
+    description: r.name,
+    kilos: r.kilos ?? 0,
     qty: 1,
-    unitPrice: toNumber(r["price_list"]),
+    unitPrice: r.price_list ?? 0,
     discountPct: 0,
   };
 }
 
 /* =================== DEFAULT =================== */
+// Sin número: lo asigna el servidor al emitir
 const DEFAULT_QUOTE: QuoteData = {
-  number: "CTZ-2025-00001",
+  number: "",
   dateISO: todayISO(),
   validity: "10 días",
   client: { name: "" },
   issuer: {
     name: BRAND.name,
     rut: BRAND.rut,
-    address: "Cerro Santa Lucia 9873, Quilicura",
+    address: BRANCHES[BRANCH].address,
     paymentTerms: "30 días • Transferencia",
     contact: "",
     email: "",
@@ -205,8 +161,17 @@ type ClientMode = "existing" | "new";
 
 export default function CotizacionEjecutivaSheets({ initial = DEFAULT_QUOTE }: { initial?: QuoteData }) {
   const [data, setData] = useState<QuoteData>(initial);
-  const [clientes, setClientes] = useState<SheetRow[]>([]);
-  const [catalogo, setCatalogo] = useState<SheetRow[]>([]);
+  const [clientes, setClientes] = useState<SnRow[]>([]);
+  // Cartera: el servidor ya entrega solo los clientes que el usuario puede ver (visibleTable);
+  // aquí se acota a los ejecutivos elegidos (por defecto, los propios)
+  const cartera = useScope();
+  const misClientes = useMemo(() => {
+    if (cartera.scope === undefined) return [];
+    const visible = inScope(cartera.scope);
+    return clientes.filter((c) => visible(c.ejecutivo));
+  }, [clientes, cartera.scope]);
+  const [catalogo, setCatalogo] = useState<CatalogItem[]>([]);
+  const [catalogVersion, setCatalogVersion] = useState<CatalogVersionRef | null>(null);
   const [rutToken, setRutToken] = useState("");
   const [showSuggestions, setShowSuggestions] = useState(false);
 
@@ -217,33 +182,177 @@ export default function CotizacionEjecutivaSheets({ initial = DEFAULT_QUOTE }: {
   // Estado fetch
   const [loadingData, setLoadingData] = useState(false);
   const [lastUpdated, setLastUpdated] = useState<string | null>(null);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<SourceProblem | null>(null);
+
+  // Lectura en el Web Worker: avance visible y cancelable (también al desmontar o cambiar de archivo)
+  const [progress, setProgress] = useState("");
+  const jobRef = useRef<AbortController | null>(null);
+  function beginJob() {
+    jobRef.current?.abort();
+    const ctrl = new AbortController();
+    jobRef.current = ctrl;
+    setProgress("");
+    return ctrl;
+  }
+  function endJob(ctrl: AbortController) {
+    if (jobRef.current !== ctrl) return;
+    jobRef.current = null;
+    setLoadingData(false);
+    setProgress("");
+  }
+  const jobOptions = (ctrl: AbortController, label: string): JobOptions => ({
+    signal: ctrl.signal,
+    onProgress: (p) => setProgress(`${label}: ${describeProgress(p)}`),
+  });
+
+  // Fuentes desde archivo: reemplazan a Google Sheets mientras estén cargadas
+  const [showFiles, setShowFiles] = useState(false);
+  const [clientesFile, setClientesFile] = useState<UploadedSheet | null>(null);
+  const [catalogFile, setCatalogFile] = useState<UploadedSheet | null>(null);
+
+  // Copia local (IndexedDB): se muestra al tiro y se revalida en segundo plano
+  const [stamps, setStamps] = useState<{ clientes?: SourceStamp; catalogo?: SourceStamp }>({});
+  const setStamp = (key: "clientes" | "catalogo", s: SourceStamp | undefined) => setStamps((m) => ({ ...m, [key]: s }));
+  async function cached<T>(
+    key: "clientes" | "catalogo",
+    ctrl: AbortController,
+    fetcher: () => Promise<T[]>,
+    set: (rows: T[], fresh: boolean) => void
+  ) {
+    const r = await staleWhileRevalidate(`sheets:${key}`, fetcher, {
+      onRevalidate: (x) => (set(x.data, true), setStamp(key, { fetchedAt: x.fetchedAt, fromCache: false })),
+      // Revalidación cancelada (se desmontó o cambió el archivo): no es falta de conexión
+      onOffline: (error, snap) => ctrl.signal.aborted || setStamp(key, { fetchedAt: snap.fetchedAt, fromCache: true, offline: error }),
+    });
+    set(r.data, !r.fromCache);
+    setStamp(key, { fetchedAt: r.fetchedAt, fromCache: r.fromCache });
+  }
+
+  // Solo una lectura fresca crea versión del catálogo; la copia local o un archivo de sesión solo se reconocen
+  function applyCatalogo(rows: CatalogItem[], fresh: boolean) {
+    setCatalogo(rows);
+    setCatalogVersion(null);
+    syncCatalogVersion(rows, { origin: catalogFile ? `archivo ${catalogFile.fileName}` : "/api/sheets/catalogo", record: fresh }).then(
+      setCatalogVersion
+    );
+  }
 
   useEffect(() => {
+    const ctrl = beginJob();
     (async () => {
       setLoadingData(true);
+      setLoadError(null);
       try {
-        const [c1, c2] = await Promise.all([fetchClientesAll(), fetchCatalogCSV()]);
-        setClientes(c1);
-        setCatalogo(c2);
+        await Promise.all([
+          clientesFile
+            ? fromFile(SN_SCHEMA, clientesFile, jobOptions(ctrl, "Clientes")).then((rows) => (setClientes(rows), setStamp("clientes", undefined)))
+            : cached("clientes", ctrl, () => fetchClientesAll(false, jobOptions(ctrl, "Clientes")), setClientes),
+          catalogFile
+            ? fromFile(CATALOG_SCHEMA, catalogFile, jobOptions(ctrl, "Catálogo")).then((rows) => (applyCatalogo(rows, false), setStamp("catalogo", undefined)))
+            : cached("catalogo", ctrl, () => fetchCatalogCSV(false, jobOptions(ctrl, "Catálogo")), applyCatalogo),
+        ]);
         setLastUpdated(new Date().toLocaleString("es-CL"));
       } catch (e: any) {
-        setLoadError(e?.message ?? "Error cargando datos");
+        if (!isCancelled(e)) setLoadError(toProblem(e, "Error cargando datos"));
       } finally {
-        setLoadingData(false);
+        endJob(ctrl);
       }
     })();
-  }, []);
+    return () => ctrl.abort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clientesFile, catalogFile]);
 
-  const totals = useMemo(() => {
-    const rows = data.items.map((it) => {
-      const precioVenta = (it.unitPrice || 0) * (1 - (it.discountPct || 0) / 100);
-      return { sub: (it.kilos || 0) * (it.qty || 0) * precioVenta };
-    });
-    const subtotal = rows.reduce((a, r) => a + r.sub, 0);
-    const tax = subtotal * ((data.taxPct ?? 19) / 100);
-    return { subtotal, tax, total: subtotal + tax };
-  }, [data]);
+  // Índice de clientes en el worker: filtrar por tecla no recorre la lista en el hilo principal
+  useEffect(() => {
+    indexRecords(CLIENTES_INDEX, misClientes, ["rut", "cardName"]).catch(() => undefined);
+  }, [misClientes]);
+
+  const totals = useMemo(() => quoteTotals(data), [data]);
+
+  /* =================== COTIZACIONES EMITIDAS =================== */
+  // Con número, la cotización ya está emitida: se reimprime tal cual; para cambiarla se clona
+  const issued = !!data.number;
+  const [clonedFrom, setClonedFrom] = useState<string | null>(null);
+  // Nota de venta creada desde la cotización abierta
+  const [convertedTo, setConvertedTo] = useState<string | null>(null);
+  const router = useRouter();
+  const [issuing, setIssuing] = useState(false);
+  const [issueError, setIssueError] = useState<string | null>(null);
+  const [showQuotes, setShowQuotes] = useState(false);
+  const [listKey, setListKey] = useState(0);
+  const [printPending, setPrintPending] = useState(false);
+
+  function openQuote(q: Quote) {
+    setData(quoteData(q));
+    setClonedFrom(null);
+    setConvertedTo(q.convertedTo ?? null);
+    setIssueError(null);
+    setRutToken("");
+    setClientMode("existing");
+  }
+  function cloneQuote(q: Quote) {
+    setData({ ...quoteData(q), number: "", dateISO: todayISO() });
+    setClonedFrom(q.number);
+    setConvertedTo(null);
+    setIssueError(null);
+    setRutToken("");
+    setClientMode("existing");
+  }
+  function reprintQuote(q: Quote) {
+    openQuote(q);
+    setPrintPending(true);
+  }
+  function nuevaCotizacion() {
+    if (!issued && data.items.length && !confirm("El borrador no se ha emitido. ¿Descartarlo?")) return;
+    // Se mantienen los datos del ejecutivo que emite
+    const { contact, email, phone } = data.issuer;
+    setData({ ...DEFAULT_QUOTE, dateISO: todayISO(), issuer: { ...DEFAULT_QUOTE.issuer, contact, email, phone } });
+    setClonedFrom(null);
+    setConvertedTo(null);
+    setIssueError(null);
+    clearCliente();
+  }
+  // Borrador exportado desde otro navegador: vuelve sin número y sin enlaces a otras cotizaciones
+  function importarBorrador(d: QuoteData) {
+    if (!issued && data.items.length && !confirm("El borrador actual no se ha emitido. ¿Reemplazarlo por el importado?")) return;
+    setData(d);
+    setClonedFrom(null);
+    setConvertedTo(null);
+    setIssueError(null);
+    setRutToken("");
+    setClientMode("existing");
+  }
+
+  // ?eval=EV-… arma un borrador con el cliente y los productos de esa evaluación (solo si es viable)
+  const search = useSearchParams();
+  const evalParam = search.get("eval");
+  const [linkedEval, setLinkedEval] = useState<Evaluation | null>(null);
+  useEffect(() => {
+    if (!evalParam) return;
+    fetchEvaluation(evalParam).then(
+      (e) => {
+        if (!e.results.viable) return setIssueError(`La evaluación ${e.id} no es viable: no se genera cotización.`);
+        setLinkedEval(e);
+        setData({ ...DEFAULT_QUOTE, dateISO: todayISO(), ...quoteFromEvaluation(e), issuer: { ...DEFAULT_QUOTE.issuer, contact: e.ejecutivo } });
+        setClonedFrom(null);
+        setConvertedTo(null);
+        setIssueError(null);
+        setRutToken("");
+        setClientMode("existing");
+      },
+      (err) => setIssueError(err?.message ?? "No se pudo abrir la evaluación")
+    );
+  }, [evalParam]);
+  // El servidor no emite si los productos o precios se apartan de la evaluación enlazada
+  const evalMismatch = !issued && linkedEval && data.evaluationId === linkedEval.id ? evaluationMismatch(data.items, linkedEval) : null;
+
+  // Se imprime después de pintar el número asignado (o la cotización reabierta)
+  useEffect(() => {
+    if (!printPending) return;
+    setPrintPending(false);
+    printIssued();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [printPending]);
 
   function setItem(i: number, p: Partial<QuoteItem>) {
     setData((s) => {
@@ -262,7 +371,66 @@ export default function CotizacionEjecutivaSheets({ initial = DEFAULT_QUOTE }: {
   function removeItem(i: number) {
     setData((s) => ({ ...s, items: s.items.filter((_, j) => j !== i) }));
   }
-  function printNow() {
+  // Un borrador se emite antes de imprimir: toda cotización impresa queda guardada con su número
+  async function printNow() {
+    if (issued) return printIssued();
+    setIssuing(true);
+    setIssueError(null);
+    try {
+      const q = await issueQuote(data, BRANCH, clonedFrom);
+      openQuote(q);
+      setListKey((k) => k + 1);
+      setPrintPending(true);
+    } catch (e: any) {
+      setIssueError(e?.message ?? "No se pudo emitir la cotización");
+    } finally {
+      setIssuing(false);
+    }
+  }
+  // Igual que al imprimir: un borrador se emite antes de enviarlo por correo
+  async function prepararCorreo() {
+    if (issued) return data.number;
+    setIssuing(true);
+    setIssueError(null);
+    try {
+      const q = await issueQuote(data, BRANCH, clonedFrom);
+      openQuote(q);
+      setListKey((k) => k + 1);
+      return q.number;
+    } catch (e: any) {
+      setIssueError(e?.message ?? "No se pudo emitir la cotización");
+      return null;
+    } finally {
+      setIssuing(false);
+    }
+  }
+  function pdfCotizacion() {
+    return pdfFromElement(document.getElementById("printArea")!, `Cotizacion_${data.number}.pdf`);
+  }
+
+  // Copia cliente, ítems, descuentos y condiciones a una nota de venta nueva y la abre
+  async function convertirANotaVenta() {
+    if (!confirm(`¿Crear una nota de venta desde la cotización ${data.number}?`)) return;
+    setIssuing(true);
+    setIssueError(null);
+    try {
+      const { note } = await convertQuote(data.number);
+      setConvertedTo(note.number);
+      setListKey((k) => k + 1);
+      router.push(`/ventas/notaventas?nv=${encodeURIComponent(note.number)}`);
+    } catch (e: any) {
+      setIssueError(e?.message ?? "No se pudo convertir la cotización");
+    } finally {
+      setIssuing(false);
+    }
+  }
+  function printIssued() {
+    logAudit({
+      action: "quote.print",
+      entity: "cotizacion",
+      entityId: String(data.number),
+      after: { cliente: data.client.name, rut: data.client.rut, total: totals.total, items: data.items.length, catalogo: data.catalogVersion?.id ?? null },
+    });
     window.print();
   }
 
@@ -274,7 +442,7 @@ export default function CotizacionEjecutivaSheets({ initial = DEFAULT_QUOTE }: {
     setRutToken("");
   }
 
-  function handleSelectCliente(row: SheetRow) {
+  function handleSelectCliente(row: SnRow) {
     const picked = mapCliente(row);
     setData((s) => ({ ...s, client: { ...s.client, ...picked } }));
     setRutToken(`${picked.rut} — ${picked.name}`);
@@ -304,60 +472,57 @@ export default function CotizacionEjecutivaSheets({ initial = DEFAULT_QUOTE }: {
     const raw = token.trim();
     const codeFromToken = raw.includes("—") ? raw.split("—")[0].trim() : raw;
     const findRow =
-      catalogo.find((r) => normalize(r["code"] || "") === normalize(codeFromToken)) ||
-      catalogo.find((r) => normalize(r["name"] || "") === normalize(raw)) ||
-      catalogo.find((r) => normalize(r["code"] || "").startsWith(normalize(raw))) ||
-      catalogo.find((r) => normalize(r["name"] || "").startsWith(normalize(raw))) ||
+      catalogo.find((r) => normalize(r.code) === normalize(codeFromToken)) ||
+      catalogo.find((r) => normalize(r.name) === normalize(raw)) ||
+      catalogo.find((r) => normalize(r.code).startsWith(normalize(raw))) ||
+      catalogo.find((r) => normalize(r.name).startsWith(normalize(raw))) ||
       catalogo.find(
         (r) =>
-          normalize(r["code"] || "").includes(normalize(raw)) ||
-          normalize(r["name"] || "").includes(normalize(raw))
+          normalize(r.code).includes(normalize(raw)) ||
+          normalize(r.name).includes(normalize(raw))
       );
     if (!findRow) return;
     const item = mapCatalogItem(findRow);
     setItem(i, { ...item, qty: data.items[i]?.qty ?? 1 });
+    setData((s) => ({ ...s, catalogVersion }));
   }
 
-  const filteredClientes = useMemo(() => {
-    if (!rutToken || rutToken.trim().length < 2 || clientMode !== "existing") return [];
-    const normQ = normalize(rutToken);
-    return clientes
-      .filter((r) => {
-        const rut = normalize(r["RUT"] || "");
-        const name = normalize(r["CardName"] || "");
-        return rut.includes(normQ) || name.includes(normQ);
-      })
-      .slice(0, 50);
-  }, [rutToken, clientes, clientMode]);
+  // Búsqueda en el worker; cada tecla cancela la anterior
+  const [filteredClientes, setFilteredClientes] = useState<SnRow[]>([]);
+  useEffect(() => {
+    if (!rutToken || rutToken.trim().length < 2 || clientMode !== "existing") {
+      setFilteredClientes([]);
+      return;
+    }
+    const ctrl = new AbortController();
+    searchRecords<SnRow>(CLIENTES_INDEX, rutToken, 50, { signal: ctrl.signal }).then(setFilteredClientes, (e) => {
+      if (!isCancelled(e)) setFilteredClientes([]);
+    });
+    return () => ctrl.abort();
+  }, [rutToken, misClientes, clientMode]);
 
   async function reloadData() {
+    const ctrl = beginJob();
     try {
       setLoadingData(true);
       setLoadError(null);
+      const now = Date.now();
       const [c1, c2] = await Promise.all([
-        // intenta API → fallback directo
-        (async () => {
-          try {
-            return parseCSV(await fetchCsvNoStore("/api/sheets/clientes"));
-          } catch {
-            return parseCSV(await fetchCsvNoStore(SHEETS.clientesCSV));
-          }
-        })(),
-        (async () => {
-          try {
-            return parseCSV(await fetchCsvNoStore("/api/sheets/catalogo"));
-          } catch {
-            return parseCSV(await fetchCsvNoStore(SHEETS.catalogCSV));
-          }
-        })(),
+        // API forzando refresco del cache del servidor
+        clientesFile ? fromFile(SN_SCHEMA, clientesFile, jobOptions(ctrl, "Clientes")) : fetchClientesAll(true, jobOptions(ctrl, "Clientes")),
+        catalogFile
+          ? fromFile(CATALOG_SCHEMA, catalogFile, jobOptions(ctrl, "Catálogo"))
+          : fetchCatalogCSV(true, jobOptions(ctrl, "Catálogo")),
       ]);
       setClientes(c1);
-      setCatalogo(c2);
+      applyCatalogo(c2, !catalogFile);
+      if (!clientesFile) putSnapshot("sheets:clientes", c1, now).then(() => setStamp("clientes", { fetchedAt: now, fromCache: false }));
+      if (!catalogFile) putSnapshot("sheets:catalogo", c2, now).then(() => setStamp("catalogo", { fetchedAt: now, fromCache: false }));
       setLastUpdated(new Date().toLocaleString("es-CL"));
     } catch (e: any) {
-      setLoadError(e?.message ?? "No se pudo actualizar");
+      if (!isCancelled(e)) setLoadError(toProblem(e, "No se pudo actualizar"));
     } finally {
-      setLoadingData(false);
+      endJob(ctrl);
     }
   }
 
@@ -366,282 +531,378 @@ export default function CotizacionEjecutivaSheets({ initial = DEFAULT_QUOTE }: {
       {/* Barra superior: estado + actualizar */}
       <div className="flex items-center justify-between gap-3 mb-2 print:hidden">
         <div className="text-xs text-zinc-600">
-          {loadingData ? "Cargando…" : `Clientes: ${clientes.length} · Productos: ${catalogo.length}`}
+          {loadingData ? `Cargando… ${progress}` : `Clientes: ${misClientes.length} · Productos: ${catalogo.length}`}
           {lastUpdated ? ` · Última actualización: ${lastUpdated}` : ""}
+          {clientesFile || catalogFile ? " · Usando archivo local" : ""}{" "}
+          <DataAsOf
+            items={[
+              { label: "Clientes", stamp: stamps.clientes },
+              { label: "Catálogo", stamp: stamps.catalogo },
+            ]}
+          />
         </div>
         <div className="flex items-center gap-2">
-          {loadError && <span className="text-xs text-red-600">{loadError}</span>}
+          <ScopeToggle scope={cartera} />
+          <button
+            onClick={() => setShowQuotes((v) => !v)}
+            className="px-3 py-1 rounded border text-sm hover:bg-zinc-50"
+            title="Buscar, reabrir, clonar o reimprimir cotizaciones emitidas"
+          >
+            🗂️ Cotizaciones
+          </button>
+          <button onClick={nuevaCotizacion} className="px-3 py-1 rounded border text-sm hover:bg-zinc-50" title="Empezar un borrador nuevo">
+            Nueva
+          </button>
+          <DraftFileButtons
+            kind="cotizacion"
+            name={data.client.name}
+            getData={() => ({ ...data, number: "" })}
+            onImport={importarBorrador}
+            className="px-3 py-1 rounded border text-sm hover:bg-zinc-50"
+          />
+          <button
+            onClick={() => setShowFiles((v) => !v)}
+            className="px-3 py-1 rounded border text-sm hover:bg-zinc-50"
+            title="Usar un archivo .xlsx/.csv (por ejemplo, exportación de SAP) en lugar de Google Sheets"
+          >
+            📂 Archivos
+          </button>
           <button
             onClick={reloadData}
             disabled={loadingData}
             className={`px-3 py-1 rounded border text-sm transition
               ${loadingData ? "opacity-60 cursor-not-allowed" : "hover:bg-blue-50 border-blue-600 text-blue-700"}`}
-            title="Volver a leer Clientes y Catálogo desde Sheets"
+            title="Volver a leer Clientes y Catálogo (refresca el cache del servidor)"
           >
             {loadingData ? "Actualizando…" : "Actualizar datos"}
           </button>
+          {loadingData && (
+            <button
+              onClick={() => jobRef.current?.abort()}
+              className="px-3 py-1 rounded border text-sm hover:bg-zinc-50"
+              title="Detener la lectura en curso"
+            >
+              Cancelar
+            </button>
+          )}
+        </div>
+      </div>
+      <SourceErrorBox problem={loadError} className="mb-2 print:hidden" />
+
+      {showQuotes && (
+        <div className="mb-2 rounded border bg-white p-3 print:hidden">
+          <QuoteList
+            currentNumber={data.number || null}
+            reloadKey={listKey}
+            onOpen={openQuote}
+            onClone={cloneQuote}
+            onReprint={reprintQuote}
+          />
         </div>
+      )}
+
+      <div className="mb-2 text-xs text-zinc-600 print:hidden">
+        {issued
+          ? `Cotización ${data.number} emitida: se reimprime tal cual. Para cambiarla, clónala desde 🗂️ Cotizaciones.`
+          : `Borrador${clonedFrom ? ` (clonado de ${clonedFrom})` : ""}: el número se asigna al emitir (Imprimir / PDF).`}
+        {data.evaluationId && (
+          <Link href={`/negocio?eval=${encodeURIComponent(data.evaluationId)}`} className="ml-2 text-blue-700 underline">
+            Según evaluación {data.evaluationId}
+          </Link>
+        )}
+        {issued &&
+          (convertedTo ? (
+            <Link href={`/ventas/notaventas?nv=${encodeURIComponent(convertedTo)}`} className="ml-2 text-blue-700 underline">
+              Convertida en {convertedTo}
+            </Link>
+          ) : (
+            <button
+              onClick={convertirANotaVenta}
+              disabled={issuing}
+              className="ml-2 rounded border border-blue-600 px-2 py-0.5 text-blue-700 hover:bg-blue-50 disabled:opacity-50"
+            >
+              Convertir a Nota de Venta
+            </button>
+          ))}
+        {evalMismatch && <span className="ml-2 text-amber-700">{evalMismatch}</span>}
+        {issueError && <span className="ml-2 text-red-600">{issueError}</span>}
       </div>
 
+      {showFiles && (
+        <div className="grid grid-cols-2 gap-4 mb-2 rounded border bg-zinc-50 p-3 text-sm print:hidden">
+          <div>
+            <div className="font-medium">Clientes (Maestro SN)</div>
+            <SheetFileInput value={clientesFile} onChange={setClientesFile} />
+          </div>
+          <div>
+            <div className="font-medium">Catálogo</div>
+            <SheetFileInput value={catalogFile} onChange={setCatalogFile} />
+          </div>
+        </div>
+      )}
+
       <div id="printArea" className="p-6 text-[13px] bg-white relative min-h-screen">
         {/* Encabezado */}
         <header className="border-b pb-2 mb-4 flex justify-between items-center">
           <img src={BRAND.logo} alt="Logo" className="h-16" />
           <h1 className="text-blue-700 font-bold text-xl">COTIZACIÓN</h1>
           <div className="text-xs text-right bg-zinc-100 p-2 rounded">
-            <div>N° {data.number}</div>
+            <div>N° {data.number || "(al emitir)"}</div>
             <div>{data.dateISO}</div>
             <div>{data.validity}</div>
+            {data.catalogVersion && <div className="text-[10px] text-zinc-500">Precios catálogo {versionLabel(data.catalogVersion)}</div>}
           </div>
         </header>
 
-        {/* Cliente y Emisor */}
-        <section className="grid grid-cols-2 gap-6 border-b pb-4 mb-4">
-          {/* Cliente */}
-          <Card title="Cliente">
-            {/* Toggle + buscador */}
-            <div className="flex items-center gap-2 mb-2">
-              <div className="inline-flex rounded border overflow-hidden">
-                <button
-                  type="button"
-                  onClick={activarClienteExistente}
-                  className={`px-3 py-1 text-xs ${clientMode === "existing" ? "bg-blue-600 text-white" : "bg-white"}`}
-                  title="Buscar y seleccionar desde la lista"
-                >
-                  Cliente existente
-                </button>
+        {/* Emitida: solo lectura */}
+        <fieldset disabled={issued}>
+          {/* Cliente y Emisor */}
+          <section className="grid grid-cols-2 gap-6 border-b pb-4 mb-4">
+            {/* Cliente */}
+            <Card title="Cliente">
+              {/* Toggle + buscador */}
+              <div className="flex items-center gap-2 mb-2">
+                <div className="inline-flex rounded border overflow-hidden">
+                  <button
+                    type="button"
+                    onClick={activarClienteExistente}
+                    className={`px-3 py-1 text-xs ${clientMode === "existing" ? "bg-blue-600 text-white" : "bg-white"}`}
+                    title="Buscar y seleccionar desde la lista"
+                  >
+                    Cliente existente
+                  </button>
+                  <button
+                    type="button"
+                    onClick={activarClienteNuevo}
+                    className={`px-3 py-1 text-xs border-l ${clientMode === "new" ? "bg-blue-600 text-white" : "bg-white"}`}
+                    title="Ingresar un cliente nuevo manualmente"
+                  >
+                    Cliente nuevo
+                  </button>
+                </div>
+
+                <div className="relative flex-1">
+                  <input
+                    placeholder="Escriba RUT o Nombre… (mín. 2 letras)"
+                    value={rutToken}
+                    disabled={clientMode === "new"}
+                    onChange={(e) => {
+                      const v = e.target.value;
+                      setRutToken(v);
+                      setShowSuggestions(v.trim().length >= 2 && clientMode === "existing");
+                    }}
+                    onFocus={() => clientMode === "existing" && setShowSuggestions(rutToken.trim().length >= 2)}
+                    className="w-full border px-2 py-1 disabled:bg-zinc-100"
+                  />
+                  {clientMode === "existing" && showSuggestions && filteredClientes.length > 0 && (
+                    <ul className="absolute z-50 bg-white border w-full max-h-64 overflow-y-auto text-xs shadow-lg">
+                      {filteredClientes.map((r, i) => (
+                        <li
+                          key={i}
+                          className="px-2 py-1 hover:bg-blue-100 cursor-pointer"
+                          onClick={() => handleSelectCliente(r)}
+                        >
+                          {r.rut} — {r.cardName}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
                 <button
-                  type="button"
-                  onClick={activarClienteNuevo}
-                  className={`px-3 py-1 text-xs border-l ${clientMode === "new" ? "bg-blue-600 text-white" : "bg-white"}`}
-                  title="Ingresar un cliente nuevo manualmente"
+                  onClick={clearCliente}
+                  className="text-xs bg-red-100 border px-2 py-1 rounded"
+                  title="Limpiar cliente"
                 >
-                  Cliente nuevo
+                  Limpiar
                 </button>
               </div>
 
-              <div className="relative flex-1">
+              {clientMode === "new" && (
+                <div className="mb-2 text-[11px] text-blue-700">
+                  Modo “Cliente nuevo” activo: completa todos los campos del cliente.
+                </div>
+              )}
+
+              {/* Campos Cliente */}
+              <Field label="Razón Social">
                 <input
-                  placeholder="Escriba RUT o Nombre… (mín. 2 letras)"
-                  value={rutToken}
-                  disabled={clientMode === "new"}
-                  onChange={(e) => {
-                    const v = e.target.value;
-                    setRutToken(v);
-                    setShowSuggestions(v.trim().length >= 2 && clientMode === "existing");
-                  }}
-                  onFocus={() => clientMode === "existing" && setShowSuggestions(rutToken.trim().length >= 2)}
-                  className="w-full border px-2 py-1 disabled:bg-zinc-100"
+                  ref={razonRef}
+                  value={data.client.name || ""}
+                  onChange={(e) => setData((s) => ({ ...s, client: { ...s.client, name: e.target.value } }))}
+                  className="w-full border px-2 py-1"
                 />
-                {clientMode === "existing" && showSuggestions && filteredClientes.length > 0 && (
-                  <ul className="absolute z-50 bg-white border w-full max-h-64 overflow-y-auto text-xs shadow-lg">
-                    {filteredClientes.map((r, i) => (
-                      <li
-                        key={i}
-                        className="px-2 py-1 hover:bg-blue-100 cursor-pointer"
-                        onClick={() => handleSelectCliente(r)}
-                      >
-                        {r["RUT"]} — {r["CardName"]}
-                      </li>
-                    ))}
-                  </ul>
-                )}
-              </div>
-
-              <button
-                onClick={clearCliente}
-                className="text-xs bg-red-100 border px-2 py-1 rounded"
-                title="Limpiar cliente"
-              >
-                Limpiar
-              </button>
-            </div>
-
-            {clientMode === "new" && (
-              <div className="mb-2 text-[11px] text-blue-700">
-                Modo “Cliente nuevo” activo: completa todos los campos del cliente.
-              </div>
-            )}
-
-            {/* Campos Cliente */}
-            <Field label="Razón Social">
-              <input
-                ref={razonRef}
-                value={data.client.name || ""}
-                onChange={(e) => setData((s) => ({ ...s, client: { ...s.client, name: e.target.value } }))}
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="RUT">
-              <input
-                value={data.client.rut || ""}
-                onChange={(e) => setData((s) => ({ ...s, client: { ...s.client, rut: e.target.value } }))}
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Código Cliente">
-              <input
-                value={data.client.clientCode || ""}
-                onChange={(e) => setData((s) => ({ ...s, client: { ...s.client, clientCode: e.target.value } }))}
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Dirección">
-              <textarea
-                value={data.client.address || ""}
-                onChange={(e) => setData((s) => ({ ...s, client: { ...s.client, address: e.target.value } }))}
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Condición Pago">
-              <input
-                value={data.client.condicionPago || ""}
-                onChange={(e) =>
-                  setData((s) => ({ ...s, client: { ...s.client, condicionPago: e.target.value } }))
-                }
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Giro">
-              <input
-                value={data.client.giro || ""}
-                onChange={(e) => setData((s) => ({ ...s, client: { ...s.client, giro: e.target.value } }))}
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-          </Card>
-
-          {/* Emisor */}
-          <Card title="Emisor">
-            <Field label="Empresa">{data.issuer.name}</Field>
-            <Field label="RUT">{data.issuer.rut}</Field>
-            <Field label="Dirección">{data.issuer.address}</Field>
-            <Field label="Ejecutivo">
-              <input
-                value={data.issuer.contact || ""}
-                onChange={(e) => setData((s) => ({ ...s, issuer: { ...s.issuer, contact: e.target.value } }))}
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Email">
-              <input
-                type="email"
-                value={data.issuer.email || ""}
-                onChange={(e) => setData((s) => ({ ...s, issuer: { ...s.issuer, email: e.target.value } }))}
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Celular">
-              <input
-                value={data.issuer.phone || ""}
-                onChange={(e) => setData((s) => ({ ...s, issuer: { ...s.issuer, phone: e.target.value } }))}
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Forma de Pago">
-              <input
-                value={data.issuer.paymentTerms || ""}
-                onChange={(e) => setData((s) => ({ ...s, issuer: { ...s.issuer, paymentTerms: e.target.value } }))}
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-          </Card>
-        </section>
-
-        {/* Intro Productos */}
-        <p className="mb-2 text-sm">
-          De acuerdo a lo solicitado, tenemos el agrado de cotizar algunos de los productos que Spartan de Chile Ltda.
-          fabrica y distribuye en el país, y/o maquinaria / accesorios de limpieza industrial.
-        </p>
-
-        {/* Productos */}
-        <section>
-          <h2 className="bg-blue-700 text-white px-3 py-1 rounded text-sm font-semibold mb-2 print:-webkit-print-color-adjust: exact">
-            📦 Productos Cotizados
-          </h2>
-          <button onClick={addItem} className="bg-blue-600 text-white px-2 rounded mb-2 print:hidden">
-            + Ítem
-          </button>
-          <table className="w-full text-xs border border-collapse">
-            <thead className="bg-blue-600 text-white print:-webkit-print-color-adjust: exact">
-              <tr>
-                <th>Código</th>
-                <th>Descripción</th>
-                <th>Kilos</th>
-                <th>Cantidad</th>
-                <th>$/Kg</th>
-                <th style={{ width: "60px" }}>Desc %</th>
-                <th>Precio Venta</th>
-                <th>Total</th>
-                <th className="print:hidden"></th>
-              </tr>
-            </thead>
-            <tbody>
-              {data.items.map((it, i) => {
-                const precioVenta = (it.unitPrice || 0) * (1 - (it.discountPct || 0) / 100);
-                const sub = (it.kilos || 0) * (it.qty || 0) * precioVenta;
-                return (
-                  <tr key={i} className="border-b text-blue-800">
-                    <td>
-                      <input
-                        value={it.code || ""}
-                        list="catalog-list"
-                        onChange={(e) => setItem(i, { code: e.target.value })}
-                        onBlur={(e) => autofillFromCatalog(i, e.target.value)}
-                        className="border px-1 w-24"
-                      />
-                    </td>
-                    <td>
-                      <input
-                        value={it.description}
-                        onChange={(e) => setItem(i, { description: e.target.value })}
-                        onBlur={(e) => autofillFromCatalog(i, e.target.value)}
-                        className="border px-1 w-full"
-                      />
-                    </td>
-                    <td>{it.kilos}</td>
-                    <td>
-                      <input
-                        type="number"
-                        value={it.qty}
-                        onChange={(e) => setItem(i, { qty: Number(e.target.value) })}
-                        className="border px-1 w-16 text-right"
-                      />
-                    </td>
-                    <td>
-                      <input
-                        type="number"
-                        value={it.unitPrice}
-                        onChange={(e) => setItem(i, { unitPrice: Number(e.target.value) })}
-                        className="border px-1 w-20 text-right"
-                      />
-                    </td>
-                    <td>
-                      <input
-                        type="number"
-                        value={it.discountPct ?? 0}
-                        onChange={(e) => setItem(i, { discountPct: Number(e.target.value) })}
-                        className="border px-1 w-14 text-right"
-                      />
-                    </td>
-                    <td>{money(precioVenta)}</td>
-                    <td>{money(sub)}</td>
-                    <td className="print:hidden">
-                      <button onClick={() => removeItem(i)}>❌</button>
-                    </td>
-                  </tr>
-                );
-              })}
-            </tbody>
-          </table>
-
-          {/* Datalist del catálogo (re-usa CSV) */}
-          <datalist id="catalog-list">
-            {catalogo.map((r, i) => (
-              <option key={i} value={`${r["code"]} — ${r["name"]}`} />
-            ))}
-          </datalist>
-        </section>
+              </Field>
+              <Field label="RUT">
+                <input
+                  value={data.client.rut || ""}
+                  onChange={(e) => setData((s) => ({ ...s, client: { ...s.client, rut: e.target.value } }))}
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Código Cliente">
+                <input
+                  value={data.client.clientCode || ""}
+                  onChange={(e) => setData((s) => ({ ...s, client: { ...s.client, clientCode: e.target.value } }))}
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Dirección">
+                <textarea
+                  value={data.client.address || ""}
+                  onChange={(e) => setData((s) => ({ ...s, client: { ...s.client, address: e.target.value } }))}
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Condición Pago">
+                <input
+                  value={data.client.condicionPago || ""}
+                  onChange={(e) =>
+                    setData((s) => ({ ...s, client: { ...s.client, condicionPago: e.target.value } }))
+                  }
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Giro">
+                <input
+                  value={data.client.giro || ""}
+                  onChange={(e) => setData((s) => ({ ...s, client: { ...s.client, giro: e.target.value } }))}
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+            </Card>
+
+            {/* Emisor */}
+            <Card title="Emisor">
+              <Field label="Empresa">{data.issuer.name}</Field>
+              <Field label="RUT">{data.issuer.rut}</Field>
+              <Field label="Dirección">{data.issuer.address}</Field>
+              <Field label="Ejecutivo">
+                <input
+                  value={data.issuer.contact || ""}
+                  onChange={(e) => setData((s) => ({ ...s, issuer: { ...s.issuer, contact: e.target.value } }))}
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Email">
+                <input
+                  type="email"
+                  value={data.issuer.email || ""}
+                  onChange={(e) => setData((s) => ({ ...s, issuer: { ...s.issuer, email: e.target.value } }))}
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Celular">
+                <input
+                  value={data.issuer.phone || ""}
+                  onChange={(e) => setData((s) => ({ ...s, issuer: { ...s.issuer, phone: e.target.value } }))}
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Forma de Pago">
+                <input
+                  value={data.issuer.paymentTerms || ""}
+                  onChange={(e) => setData((s) => ({ ...s, issuer: { ...s.issuer, paymentTerms: e.target.value } }))}
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+            </Card>
+          </section>
+
+          {/* Intro Productos */}
+          <p className="mb-2 text-sm">
+            De acuerdo a lo solicitado, tenemos el agrado de cotizar algunos de los productos que Spartan de Chile Ltda.
+            fabrica y distribuye en el país, y/o maquinaria / accesorios de limpieza industrial.
+          </p>
+
+          {/* Productos */}
+          <section>
+            <h2 className="bg-blue-700 text-white px-3 py-1 rounded text-sm font-semibold mb-2 print:-webkit-print-color-adjust: exact">
+              📦 Productos Cotizados
+            </h2>
+            <button onClick={addItem} className="bg-blue-600 text-white px-2 rounded mb-2 print:hidden">
+              + Ítem
+            </button>
+            <table className="w-full text-xs border border-collapse">
+              <thead className="bg-blue-600 text-white print:-webkit-print-color-adjust: exact">
+                <tr>
+                  <th>Código</th>
+                  <th>Descripción</th>
+                  <th>Kilos</th>
+                  <th>Cantidad</th>
+                  <th>$/Kg</th>
+                  <th style={{ width: "60px" }}>Desc %</th>
+                  <th>Precio Venta</th>
+                  <th>Total</th>
+                  <th className="print:hidden"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.items.map((it, i) => {
+                  const { precioVenta, sub } = lineTotal(it);
+                  return (
+                    <tr key={i} className="border-b text-blue-800">
+                      <td>
+                        <input
+                          value={it.code || ""}
+                          list="catalog-list"
+                          onChange={(e) => setItem(i, { code: e.target.value })}
+                          onBlur={(e) => autofillFromCatalog(i, e.target.value)}
+                          className="border px-1 w-24"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          value={it.description}
+                          onChange={(e) => setItem(i, { description: e.target.value })}
+                          onBlur={(e) => autofillFromCatalog(i, e.target.value)}
+                          className="border px-1 w-full"
+                        />
+                      </td>
+                      <td>{it.kilos}</td>
+                      <td>
+                        <input
+                          type="number"
+                          value={it.qty}
+                          onChange={(e) => setItem(i, { qty: Number(e.target.value) })}
+                          className="border px-1 w-16 text-right"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          value={it.unitPrice}
+                          onChange={(e) => setItem(i, { unitPrice: Number(e.target.value) })}
+                          className="border px-1 w-20 text-right"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          value={it.discountPct ?? 0}
+                          onChange={(e) => setItem(i, { discountPct: Number(e.target.value) })}
+                          className="border px-1 w-14 text-right"
+                        />
+                      </td>
+                      <td>{money(precioVenta)}</td>
+                      <td>{money(sub)}</td>
+                      <td className="print:hidden">
+                        <button onClick={() => removeItem(i)}>❌</button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {/* Datalist del catálogo (re-usa CSV) */}
+            <datalist id="catalog-list">
+              {catalogo.map((r, i) => (
+                <option key={i} value={`${r.code} — ${r.name}`} />
+              ))}
+            </datalist>
+          </section>
+        </fieldset>
 
         {/* Totales */}
         <section className="mt-4">
@@ -684,9 +945,18 @@ export default function CotizacionEjecutivaSheets({ initial = DEFAULT_QUOTE }: {
         {/* Footer */}
         <footer className="mt-6 flex justify-between text-sm text-zinc-500">
           <div className="w-64 text-center border-t pt-1">Firma y timbre</div>
-          <button onClick={printNow} className="border px-3 py-1 print:hidden">
-            Imprimir / PDF
-          </button>
+          <div className="flex items-start gap-2">
+            <SendMailButton
+              kind="cotizacion"
+              disabled={issuing}
+              prepare={prepararCorreo}
+              getPdf={pdfCotizacion}
+              className="border px-3 py-1 print:hidden disabled:opacity-50"
+            />
+            <button onClick={printNow} disabled={issuing} className="border px-3 py-1 print:hidden disabled:opacity-50">
+              {issuing ? "Emitiendo…" : issued ? "Reimprimir / PDF" : "Emitir e imprimir / PDF"}
+            </button>
+          </div>
         </footer>
       </div>
 
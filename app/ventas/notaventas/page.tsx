@@ -2,15 +2,36 @@
 
 import React, { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import ScopeToggle from "@/components/ScopeToggle";
+import SourceErrorBox from "@/components/SourceErrorBox";
+import SalesNoteList, { STATUS_CLASS } from "@/components/SalesNoteList";
+import SendMailButton from "@/components/SendMailButton";
+import { CATALOG_SCHEMA, SN_SCHEMA, requireMapped, type CatalogItem, type SnRow } from "@/lib/schemas";
+import { describeProgress, indexRecords, isCancelled, parseSheetText, searchRecords, type JobOptions } from "@/lib/sheetWorker";
+import { toProblem, type SourceProblem } from "@/lib/sources";
+import { syncCatalogVersion, versionLabel, type CatalogVersionRef } from "@/lib/catalogVersions";
+import { inScope } from "@/lib/auth";
+import { useScope } from "@/lib/useSession";
+import { logAudit } from "@/lib/audit";
+import { pdfFromElement } from "@/lib/mail";
+import { lineTotal, quoteTotals, type Party, type QuoteItem } from "@/lib/quotes";
+import {
+  SALES_NOTE_ACTION_LABEL,
+  SALES_NOTE_STATUS_LABEL,
+  SALES_NOTE_TRANSITIONS,
+  canSetSalesNoteStatus,
+  fetchSalesNote,
+  saveSalesNote,
+  salesNoteData,
+  setSalesNoteStatus,
+  type SalesNote,
+  type SalesNoteData,
+  type SalesNoteStatus,
+} from "@/lib/salesNotes";
 
 /* =================== CONFIG =================== */
-const SHEETS = {
-  clientesCSV:
-    "https://docs.google.com/spreadsheets/d/1kF0INEtwYDXhQCBPTVhU8NQI2URKoi99Hs43DTSO02I/export?format=csv&gid=161671364",
-  catalogCSV:
-    "https://docs.google.com/spreadsheets/d/1UXVAxwzg-Kh7AWCPnPbxbEpzXnRPR2pDBKrRUFNZKZo/export?format=csv&gid=0",
-};
-
+// Clientes (SN) y Catálogo vienen de /api/sheets, que resuelve las fuentes desde "Fuentes de datos"
 const BRAND = {
   name: "Spartan de Chile Ltda.",
   rut: "76.333.980-7",
@@ -19,108 +40,67 @@ const BRAND = {
   colors: { brandBlue: "#0B5FFF" },
 };
 
-/* =================== TIPOS =================== */
-type SheetRow = Record<string, string>;
-type QuoteItem = {
-  code?: string;
-  description: string;
-  kilos?: number;
-  qty: number;
-  unitPrice: number;
-  discountPct?: number;
-};
-type Party = {
-  name: string;
-  rut?: string;
-  address?: string;
-  clientCode?: string;
-  condicionPago?: string;
-  giro?: string;
-};
-type QuoteData = {
-  number: string;
-  dateISO: string;
-  validity: string;
-  client: Party;
-  issuer: Party & { paymentTerms?: string; contact?: string; email?: string; phone?: string };
-  items: QuoteItem[];
-  taxPct?: number;
-};
-
 /* =================== HELPERS =================== */
 const money = (n: number) =>
   (n || 0).toLocaleString("es-CL", { style: "currency", currency: "CLP", maximumFractionDigits: 0 });
 const todayISO = () => new Date().toISOString().slice(0, 10);
 const normalize = (s: string) =>
   (s || "").normalize("NFD").replace(/\p{Diacritic}+/gu, "").toLowerCase();
-function toNumber(v?: string): number {
-  return (
-    Number(
-      (v || "")
-        .replace(/[^0-9,.-]/g, "")
-        .replace(/\.(?=\d{3}(\D|$))/g, "")
-        .replace(/,/, ".")
-    ) || 0
-  );
-}
-
-/* =================== PARSERS =================== */
-function parseCSV(text: string): SheetRow[] {
-  const rows = text.split(/\r?\n/).map((r) => r.split(","));
-  if (!rows.length) return [];
-  const header = rows[0];
-  return rows.slice(1).map((r) => {
-    const o: SheetRow = {};
-    header.forEach((h, i) => (o[h] = r[i] || ""));
-    return o;
-  });
-}
 
 /* =================== FETCH =================== */
-async function fetchClientesAll(): Promise<SheetRow[]> {
-  try {
-    const r = await fetch(SHEETS.clientesCSV);
-    if (r.ok) return parseCSV(await r.text());
-  } catch {}
-  return [];
+async function fetchSheetCsv(url: string, label: string) {
+  const r = await fetch(url, { cache: "no-store" });
+  if (!r.ok) {
+    const body = await r.json().catch(() => null);
+    throw new Error(`${label}: ${body?.error ?? `error ${r.status}`}`);
+  }
+  return r.text();
+}
+async function fetchClientesAll(opts: JobOptions = {}): Promise<SnRow[]> {
+  return toClientes(await fetchSheetCsv("/api/sheets/clientes", "Clientes"), opts);
 }
-async function fetchCatalogCSV(): Promise<SheetRow[]> {
-  try {
-    const r = await fetch(SHEETS.catalogCSV);
-    if (r.ok) return parseCSV(await r.text());
-  } catch {}
-  return [];
+async function fetchCatalogCSV(opts: JobOptions = {}): Promise<CatalogItem[]> {
+  return toCatalogo(await fetchSheetCsv("/api/sheets/catalogo", "Catálogo"), opts);
 }
 
 /* =================== MAP =================== */
-function mapCliente(r: SheetRow): Party {
+// Lectura y mapeo en el Web Worker
+async function toClientes(csv: string, opts: JobOptions = {}): Promise<SnRow[]> {
+  return requireMapped(SN_SCHEMA, await parseSheetText(SN_SCHEMA, csv, "csv", opts));
+}
+async function toCatalogo(csv: string, opts: JobOptions = {}): Promise<CatalogItem[]> {
+  return requireMapped(CATALOG_SCHEMA, await parseSheetText(CATALOG_SCHEMA, csv, "csv", opts));
+}
+
+// Clientes indexados en el worker por RUT y razón social
+const CLIENTES_INDEX = "clientes";
+
+function mapCliente(r: SnRow): Party {
   return {
-    name: r["CardName"] || "",
-    rut: r["RUT"] || "",
-    clientCode: r["CardCode"] || "",
-    address: [r["Direccion Despacho"], r["Despacho Comuna"], r["Despacho Ciudad"]]
-      .filter(Boolean)
-      .join(", "),
-    condicionPago: r["Condicion pago"] || "",
-    giro: r["Giro"] || "",
+    name: r.cardName,
+    rut: r.rut,
+    clientCode: r.cardCode,
+    address: [r.direccion, r.comuna, r.ciudad].filter(Boolean).join(", "),
+    condicionPago: r.condicionPago,
+    giro: r.giro,
   };
 }
-function mapCatalogItem(r: SheetRow): QuoteItem {
+function mapCatalogItem(r: CatalogItem): QuoteItem {
   return {
-    code: r["code"] || "",
-    description: r["name"] || "",
-    kilos: toNumber(r["kilos"]),
+    code: r.code,
+    description: r.name,
+    kilos: r.kilos ?? 0,
     qty: 1,
-    unitPrice: toNumber(r["price_list"]),
+    unitPrice: r.price_list ?? 0,
     discountPct: 0,
   };
 }
 
 /* =================== DEFAULT =================== */
-const DEFAULT_QUOTE: QuoteData = {
-  number: "CTZ-2025-00001",
+// Sin número: el servidor asigna el NV al guardar el primer borrador
+const DEFAULT_NOTE: SalesNoteData = {
+  number: "",
   dateISO: todayISO(),
-  validity: "10 días",
   client: { name: "" },
   issuer: {
     name: BRAND.name,
@@ -136,33 +116,148 @@ const DEFAULT_QUOTE: QuoteData = {
 };
 
 /* =================== COMPONENTE =================== */
-export default function CotizacionEjecutivaSheets({
-  initial = DEFAULT_QUOTE,
+export default function NotaVentaPage({
+  initial = DEFAULT_NOTE,
 }: {
-  initial?: QuoteData;
+  initial?: SalesNoteData;
 }) {
-  const [data, setData] = useState<QuoteData>(initial);
-  const [clientes, setClientes] = useState<SheetRow[]>([]);
-  const [catalogo, setCatalogo] = useState<SheetRow[]>([]);
+  const [data, setData] = useState<SalesNoteData>(initial);
+  const [clientes, setClientes] = useState<SnRow[]>([]);
+  // Cartera: el servidor ya entrega solo los clientes que el usuario puede ver (visibleTable);
+  // aquí se acota a los ejecutivos elegidos (por defecto, los propios)
+  const cartera = useScope();
+  const misClientes = useMemo(() => {
+    if (cartera.scope === undefined) return [];
+    const visible = inScope(cartera.scope);
+    return clientes.filter((c) => visible(c.ejecutivo));
+  }, [clientes, cartera.scope]);
+  const [catalogo, setCatalogo] = useState<CatalogItem[]>([]);
+  const [catalogVersion, setCatalogVersion] = useState<CatalogVersionRef | null>(null);
   const [rutToken, setRutToken] = useState("");
   const [showSuggestions, setShowSuggestions] = useState(false);
+  const [loadErrors, setLoadErrors] = useState<SourceProblem[]>([]);
+  const [progress, setProgress] = useState<Record<string, string>>({});
 
   useEffect(() => {
-    (async () => {
-      setClientes(await fetchClientesAll());
-      setCatalogo(await fetchCatalogCSV());
-    })();
+    // Cada fuente por separado: si una falla la otra igual queda disponible. Al salir se cancela la lectura.
+    const ctrl = new AbortController();
+    const opts = (label: string): JobOptions => ({
+      signal: ctrl.signal,
+      onProgress: (p) => setProgress((m) => ({ ...m, [label]: describeProgress(p) })),
+    });
+    const done = (label: string) => setProgress(({ [label]: _, ...m }) => m);
+    const fail = (e: unknown) => isCancelled(e) || setLoadErrors((l) => [...l, toProblem(e)]);
+    fetchClientesAll(opts("Clientes")).then(setClientes, fail).finally(() => done("Clientes"));
+    fetchCatalogCSV(opts("Catálogo"))
+      .then((rows) => {
+        setCatalogo(rows);
+        // Lectura fresca: registra la versión si el catálogo cambió
+        syncCatalogVersion(rows, { origin: "/api/sheets/catalogo" }).then(setCatalogVersion);
+      }, fail)
+      .finally(() => done("Catálogo"));
+    return () => ctrl.abort();
   }, []);
 
-  const totals = useMemo(() => {
-    const rows = data.items.map((it) => {
-      const precioVenta = (it.unitPrice || 0) * (1 - (it.discountPct || 0) / 100);
-      return { sub: (it.kilos || 0) * (it.qty || 0) * precioVenta };
-    });
-    const subtotal = rows.reduce((a, r) => a + r.sub, 0);
-    const tax = subtotal * ((data.taxPct ?? 19) / 100);
-    return { subtotal, tax, total: subtotal + tax };
-  }, [data]);
+  // Índice de clientes en el worker: filtrar por tecla no recorre la lista en el hilo principal
+  useEffect(() => {
+    indexRecords(CLIENTES_INDEX, misClientes, ["rut", "cardName"]).catch(() => undefined);
+  }, [misClientes]);
+
+  const totals = useMemo(() => quoteTotals(data), [data]);
+
+  /* =================== NOTA GUARDADA =================== */
+  // null: nota nueva sin guardar. Solo el borrador se edita; después la nota solo cambia de estado
+  const [note, setNote] = useState<SalesNote | null>(null);
+  const editable = !note || note.status === "borrador";
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<{ ok: boolean; text: string } | null>(null);
+  const [showNotes, setShowNotes] = useState(false);
+  const [listKey, setListKey] = useState(0);
+
+  function openNote(n: SalesNote) {
+    setNote(n);
+    setData(salesNoteData(n));
+    setRutToken("");
+    setMsg(null);
+  }
+
+  async function run(action: () => Promise<SalesNote>, done: (n: SalesNote) => string) {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const n = await action();
+      openNote(n);
+      setListKey((k) => k + 1);
+      setMsg({ ok: true, text: done(n) });
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message ?? "Error" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // ?nv=NV-… abre esa nota (por ejemplo, recién creada desde una cotización)
+  const search = useSearchParams();
+  const nvParam = search.get("nv");
+  useEffect(() => {
+    if (!nvParam) return;
+    fetchSalesNote(nvParam).then(openNote, (e) => setMsg({ ok: false, text: e?.message ?? "No se pudo abrir la nota" }));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [nvParam]);
+
+  function guardar() {
+    run(() => saveSalesNote(data), (n) => `Borrador guardado como ${n.number}.`);
+  }
+
+  function cambiarEstado(status: SalesNoteStatus) {
+    if (!note) return;
+    let comment: string | undefined;
+    if (status === "anulada") {
+      const motivo = prompt(`Motivo de anulación de ${note.number}:`);
+      if (motivo === null) return;
+      comment = motivo;
+    }
+    // Un borrador con cambios se guarda antes de emitirlo
+    const pending = editable && JSON.stringify(salesNoteData(note)) !== JSON.stringify(data);
+    run(
+      async () => {
+        const saved = pending ? await saveSalesNote(data) : note;
+        return setSalesNoteStatus(saved.number, status, comment);
+      },
+      (n) => `${n.number}: ${SALES_NOTE_STATUS_LABEL[n.status]}.`
+    );
+  }
+
+  // Se envía la nota guardada: un borrador con cambios se guarda antes
+  async function prepararCorreo() {
+    if (note && !(editable && JSON.stringify(salesNoteData(note)) !== JSON.stringify(data))) return note.number;
+    setBusy(true);
+    setMsg(null);
+    try {
+      const n = await saveSalesNote(data);
+      openNote(n);
+      setListKey((k) => k + 1);
+      return n.number;
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message ?? "Error" });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  }
+  function pdfNota() {
+    return pdfFromElement(document.getElementById("printArea")!, `NotaVenta_${data.number}.pdf`);
+  }
+
+  function nuevaNota() {
+    if (editable && data.items.length && !confirm("Hay cambios que no se han guardado. ¿Empezar una nota nueva?")) return;
+    // Se mantienen los datos del ejecutivo
+    const { contact, email, phone } = data.issuer;
+    setData({ ...DEFAULT_NOTE, dateISO: todayISO(), issuer: { ...DEFAULT_NOTE.issuer, contact, email, phone } });
+    setNote(null);
+    setMsg(null);
+    setRutToken("");
+  }
 
   function setItem(i: number, p: Partial<QuoteItem>) {
     setData((s) => {
@@ -185,6 +280,12 @@ export default function CotizacionEjecutivaSheets({
     setData((s) => ({ ...s, items: s.items.filter((_, j) => j !== i) }));
   }
   function printNow() {
+    logAudit({
+      action: "pdf.generate",
+      entity: "nota-venta",
+      entityId: data.number || "(sin guardar)",
+      after: { cliente: data.client.name, rut: data.client.rut, total: totals.total, items: data.items.length, catalogo: data.catalogVersion?.id ?? null },
+    });
     window.print();
   }
   function clearCliente() {
@@ -192,7 +293,7 @@ export default function CotizacionEjecutivaSheets({
     setRutToken("");
   }
 
-  function handleSelectCliente(row: SheetRow) {
+  function handleSelectCliente(row: SnRow) {
     const picked = mapCliente(row);
     setData((s) => ({ ...s, client: { ...s.client, ...picked } }));
     setRutToken(`${picked.rut} — ${picked.name}`);
@@ -203,291 +304,380 @@ export default function CotizacionEjecutivaSheets({
     const raw = token.trim();
     const codeFromToken = raw.includes("—") ? raw.split("—")[0].trim() : raw;
     const findRow =
-      catalogo.find((r) => normalize(r["code"] || "") === normalize(codeFromToken)) ||
-      catalogo.find((r) => normalize(r["name"] || "") === normalize(raw)) ||
-      catalogo.find((r) => normalize(r["code"] || "").startsWith(normalize(raw))) ||
-      catalogo.find((r) => normalize(r["name"] || "").startsWith(normalize(raw))) ||
+      catalogo.find((r) => normalize(r.code) === normalize(codeFromToken)) ||
+      catalogo.find((r) => normalize(r.name) === normalize(raw)) ||
+      catalogo.find((r) => normalize(r.code).startsWith(normalize(raw))) ||
+      catalogo.find((r) => normalize(r.name).startsWith(normalize(raw))) ||
       catalogo.find(
         (r) =>
-          normalize(r["code"] || "").includes(normalize(raw)) ||
-          normalize(r["name"] || "").includes(normalize(raw))
+          normalize(r.code).includes(normalize(raw)) ||
+          normalize(r.name).includes(normalize(raw))
       );
     if (!findRow) return;
     const item = mapCatalogItem(findRow);
     setItem(i, { ...item, qty: data.items[i]?.qty ?? 1 });
+    setData((s) => ({ ...s, catalogVersion }));
   }
 
-  const filteredClientes = useMemo(() => {
-    if (!rutToken) return [];
-    const normQ = normalize(rutToken);
-    return clientes
-      .filter((r) => {
-        const rut = normalize(r["RUT"] || "");
-        const name = normalize(r["CardName"] || "");
-        return rut.includes(normQ) || name.includes(normQ);
-      })
-      .slice(0, 50);
-  }, [rutToken, clientes]);
+  // Búsqueda en el worker; cada tecla cancela la anterior
+  const [filteredClientes, setFilteredClientes] = useState<SnRow[]>([]);
+  useEffect(() => {
+    if (!rutToken) {
+      setFilteredClientes([]);
+      return;
+    }
+    const ctrl = new AbortController();
+    searchRecords<SnRow>(CLIENTES_INDEX, rutToken, 50, { signal: ctrl.signal }).then(setFilteredClientes, (e) => {
+      if (!isCancelled(e)) setFilteredClientes([]);
+    });
+    return () => ctrl.abort();
+  }, [rutToken, misClientes]);
 
   return (
     <>
+      <div className="mb-2 flex flex-wrap items-center justify-end gap-2 print:hidden">
+        {cartera.canWiden && <ScopeToggle scope={cartera} />}
+        <button
+          onClick={() => setShowNotes((v) => !v)}
+          className="px-3 py-1 rounded border text-sm hover:bg-zinc-50"
+          title="Buscar y abrir notas de venta"
+        >
+          🗂️ Notas de venta
+        </button>
+        <button onClick={nuevaNota} className="px-3 py-1 rounded border text-sm hover:bg-zinc-50">
+          Nueva
+        </button>
+      </div>
+      {showNotes && (
+        <div className="mb-2 rounded border bg-white p-3 print:hidden">
+          <SalesNoteList currentNumber={note?.number ?? null} reloadKey={listKey} onOpen={openNote} />
+        </div>
+      )}
+
+      {/* Estado y flujo: borrador → emitida → aprobada → despachada → facturada / anulada */}
+      <div className="mb-2 rounded border bg-zinc-50 p-3 text-xs print:hidden">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-semibold">{note ? note.number : "Nota nueva (sin guardar)"}</span>
+          {note && <span className={`rounded px-1.5 py-0.5 ${STATUS_CLASS[note.status]}`}>{SALES_NOTE_STATUS_LABEL[note.status]}</span>}
+          {editable && (
+            <button
+              onClick={guardar}
+              disabled={busy}
+              className="rounded bg-blue-600 px-3 py-1 text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              💾 Guardar borrador
+            </button>
+          )}
+          {note &&
+            SALES_NOTE_TRANSITIONS[note.status]
+              .filter((s) => canSetSalesNoteStatus(cartera.user, note, s))
+              .map((s) => (
+                <button
+                  key={s}
+                  onClick={() => cambiarEstado(s)}
+                  disabled={busy}
+                  className={`rounded border px-3 py-1 disabled:opacity-50 ${s === "anulada" ? "text-red-700 hover:bg-red-50" : "hover:bg-white"}`}
+                >
+                  {SALES_NOTE_ACTION_LABEL[s]}
+                </button>
+              ))}
+          <SendMailButton
+            kind="nota-venta"
+            disabled={busy}
+            prepare={prepararCorreo}
+            getPdf={pdfNota}
+            className="rounded border px-3 py-1 hover:bg-white disabled:opacity-50"
+          />
+          {msg && <span className={msg.ok ? "text-emerald-700" : "text-red-600"}>{msg.text}</span>}
+        </div>
+        {note?.source && (
+          <div className="mt-1 text-zinc-600">
+            Precios de la cotización {note.source.quote} del {note.source.dateISO}
+            {note.source.catalogVersion && ` · catálogo ${versionLabel(note.source.catalogVersion)}`}
+          </div>
+        )}
+        {note && (
+          <ol className="mt-2 space-y-0.5 text-zinc-600">
+            {note.history.map((h, i) => (
+              <li key={i}>
+                {new Date(h.at).toLocaleString("es-CL")} · {SALES_NOTE_STATUS_LABEL[h.status]} · {h.by?.name ?? "—"}
+                {h.note && <span className="italic"> — {h.note}</span>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+      {Object.keys(progress).length > 0 && (
+        <div className="mb-2 text-xs text-zinc-600 print:hidden">
+          Cargando… {Object.entries(progress).map(([label, p]) => `${label}: ${p}`).join(" · ")}
+        </div>
+      )}
+      {loadErrors.map((p, i) => (
+        <SourceErrorBox key={i} problem={p} className="mb-2 print:hidden" />
+      ))}
       {/* SOLO imprimiremos #printArea */}
       <div id="printArea" className="p-6 text-[13px] bg-white relative min-h-screen">
         {/* Encabezado */}
         <header className="border-b pb-2 mb-4 flex justify-between items-center">
           <img src={BRAND.logo} alt="Logo" className="h-16" />
-          <h1 className="text-blue-700 font-bold text-xl">COTIZACIÓN</h1>
+          <h1 className="text-blue-700 font-bold text-xl">NOTA DE VENTA</h1>
           <div className="text-xs text-right bg-zinc-100 p-2 rounded">
-            <div>N° {data.number}</div>
+            <div>N° {data.number || "(al guardar)"}</div>
             <div>{data.dateISO}</div>
-            <div>{data.validity}</div>
+            {note && <div>{SALES_NOTE_STATUS_LABEL[note.status]}</div>}
+            {note?.source && <div className="text-[10px] text-zinc-500">Según cotización {note.source.quote}</div>}
+            {data.catalogVersion && <div className="text-[10px] text-zinc-500">Precios catálogo {versionLabel(data.catalogVersion)}</div>}
           </div>
         </header>
 
-        {/* Cliente y Emisor */}
-        <section className="grid grid-cols-2 gap-6 border-b pb-4 mb-4">
-          {/* Cliente */}
-          <Card title="Cliente">
-            <div className="relative mb-2">
-              <input
-                placeholder="Escriba RUT o Nombre..."
-                value={rutToken}
-                onChange={(e) => {
-                  setRutToken(e.target.value);
-                  setShowSuggestions(true);
-                }}
-                onFocus={() => setShowSuggestions(true)}
-                className="w-full border px-2 py-1"
-              />
-              <button
-                onClick={clearCliente}
-                className="absolute right-1 top-1 text-xs bg-red-100 border px-1"
-              >
-                X
-              </button>
-              {showSuggestions && filteredClientes.length > 0 && (
-                <ul className="absolute z-10 bg-white border w-full max-h-64 overflow-y-auto text-xs">
-                  {filteredClientes.map((r, i) => (
-                    <li
-                      key={i}
-                      className="px-2 py-1 hover:bg-blue-100 cursor-pointer"
-                      onClick={() => handleSelectCliente(r)}
-                    >
-                      {r["RUT"]} — {r["CardName"]}
-                    </li>
-                  ))}
-                </ul>
-              )}
-            </div>
-            <Field label="Razón Social">
-              <input
-                value={data.client.name || ""}
-                onChange={(e) =>
-                  setData((s) => ({ ...s, client: { ...s.client, name: e.target.value } }))
-                }
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Código Cliente">
-              <input
-                value={data.client.clientCode || ""}
-                onChange={(e) =>
-                  setData((s) => ({
-                    ...s,
-                    client: { ...s.client, clientCode: e.target.value },
-                  }))
-                }
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Dirección">
-              <textarea
-                value={data.client.address || ""}
-                onChange={(e) =>
-                  setData((s) => ({
-                    ...s,
-                    client: { ...s.client, address: e.target.value },
-                  }))
-                }
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Condición Pago">
-              <input
-                value={data.client.condicionPago || ""}
-                onChange={(e) =>
-                  setData((s) => ({
-                    ...s,
-                    client: { ...s.client, condicionPago: e.target.value },
-                  }))
-                }
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Giro">
-              <input
-                value={data.client.giro || ""}
-                onChange={(e) =>
-                  setData((s) => ({ ...s, client: { ...s.client, giro: e.target.value } }))
-                }
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-          </Card>
-
-          {/* Emisor */}
-          <Card title="Emisor">
-            <Field label="Empresa">{data.issuer.name}</Field>
-            <Field label="RUT">{data.issuer.rut}</Field>
-            <Field label="Dirección">{data.issuer.address}</Field>
-            <Field label="Ejecutivo">
-              <input
-                value={data.issuer.contact || ""}
-                onChange={(e) =>
-                  setData((s) => ({
-                    ...s,
-                    issuer: { ...s.issuer, contact: e.target.value },
-                  }))
-                }
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Email">
-              <input
-                type="email"
-                value={data.issuer.email || ""}
-                onChange={(e) =>
-                  setData((s) => ({
-                    ...s,
-                    issuer: { ...s.issuer, email: e.target.value },
-                  }))
-                }
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Celular">
-              <input
-                value={data.issuer.phone || ""}
-                onChange={(e) =>
-                  setData((s) => ({
-                    ...s,
-                    issuer: { ...s.issuer, phone: e.target.value },
-                  }))
-                }
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-            <Field label="Forma de Pago">
-              <input
-                value={data.issuer.paymentTerms || ""}
-                onChange={(e) =>
-                  setData((s) => ({
-                    ...s,
-                    issuer: { ...s.issuer, paymentTerms: e.target.value },
-                  }))
-                }
-                className="w-full border px-2 py-1"
-              />
-            </Field>
-          </Card>
-        </section>
-
-        {/* Intro Productos */}
-        <p className="mb-2 text-sm">
-          De acuerdo a lo solicitado, tenemos el agrado de cotizar algunos de los
-          productos que Spartan de Chile Ltda., fabrica y distribuye en el país, y/o
-          maquinaria / accesorios de limpieza industrial.
-        </p>
-
-        {/* Productos */}
-        <section>
-          <h2 className="bg-blue-700 text-white px-3 py-1 rounded text-sm font-semibold mb-2 print:-webkit-print-color-adjust: exact">
-            📦 Productos Cotizados
-          </h2>
-          <button
-            onClick={addItem}
-            className="bg-blue-600 text-white px-2 rounded mb-2 print:hidden"
-          >
-            + Ítem
-          </button>
-          <table className="w-full text-xs border border-collapse">
-            <thead className="bg-blue-600 text-white print:-webkit-print-color-adjust: exact">
-              <tr>
-                <th>Código</th>
-                <th>Descripción</th>
-                <th>Kilos</th>
-                <th>Cantidad</th>
-                <th>$/Kg</th>
-                <th style={{ width: "60px" }}>Desc %</th>
-                <th>Precio Venta</th>
-                <th>Total</th>
-                <th className="print:hidden"></th>
-              </tr>
-            </thead>
-            <tbody>
-              {data.items.map((it, i) => {
-                const precioVenta = (it.unitPrice || 0) * (1 - (it.discountPct || 0) / 100);
-                const sub = (it.kilos || 0) * (it.qty || 0) * precioVenta;
-                return (
-                  <tr key={i} className="border-b text-blue-800">
-                    <td>
-                      <input
-                        value={it.code || ""}
-                        list="catalog-list"
-                        onChange={(e) => setItem(i, { code: e.target.value })}
-                        onBlur={(e) => autofillFromCatalog(i, e.target.value)}
-                        className="border px-1 w-24"
-                      />
-                    </td>
-                    <td>
-                      <input
-                        value={it.description}
-                        onChange={(e) => setItem(i, { description: e.target.value })}
-                        onBlur={(e) => autofillFromCatalog(i, e.target.value)}
-                        className="border px-1 w-full"
-                      />
-                    </td>
-                    <td>{it.kilos}</td>
-                    <td>
-                      <input
-                        type="number"
-                        value={it.qty}
-                        onChange={(e) => setItem(i, { qty: Number(e.target.value) })}
-                        className="border px-1 w-16 text-right"
-                      />
-                    </td>
-                    <td>
-                      <input
-                        type="number"
-                        value={it.unitPrice}
-                        onChange={(e) => setItem(i, { unitPrice: Number(e.target.value) })}
-                        className="border px-1 w-20 text-right"
-                      />
-                    </td>
-                    <td>
-                      <input
-                        type="number"
-                        value={it.discountPct ?? 0}
-                        onChange={(e) => setItem(i, { discountPct: Number(e.target.value) })}
-                        className="border px-1 w-14 text-right"
-                      />
-                    </td>
-                    <td>{money(precioVenta)}</td>
-                    <td>{money(sub)}</td>
-                    <td className="print:hidden">
-                      <button onClick={() => removeItem(i)}>❌</button>
-                    </td>
-                  </tr>
-                );
-              })}
-            </tbody>
-          </table>
-          <datalist id="catalog-list">
-            {catalogo.map((r, i) => (
-              <option key={i} value={`${r["code"]} — ${r["name"]}`} />
-            ))}
-          </datalist>
-        </section>
+        {/* Fuera de borrador: solo lectura */}
+        <fieldset disabled={!editable}>
+          {/* Cliente y Emisor */}
+          <section className="grid grid-cols-2 gap-6 border-b pb-4 mb-4">
+            {/* Cliente */}
+            <Card title="Cliente">
+              <div className="relative mb-2">
+                <input
+                  placeholder="Escriba RUT o Nombre..."
+                  value={rutToken}
+                  onChange={(e) => {
+                    setRutToken(e.target.value);
+                    setShowSuggestions(true);
+                  }}
+                  onFocus={() => setShowSuggestions(true)}
+                  className="w-full border px-2 py-1"
+                />
+                <button
+                  onClick={clearCliente}
+                  className="absolute right-1 top-1 text-xs bg-red-100 border px-1"
+                >
+                  X
+                </button>
+                {showSuggestions && filteredClientes.length > 0 && (
+                  <ul className="absolute z-10 bg-white border w-full max-h-64 overflow-y-auto text-xs">
+                    {filteredClientes.map((r, i) => (
+                      <li
+                        key={i}
+                        className="px-2 py-1 hover:bg-blue-100 cursor-pointer"
+                        onClick={() => handleSelectCliente(r)}
+                      >
+                        {r.rut} — {r.cardName}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              <Field label="Razón Social">
+                <input
+                  value={data.client.name || ""}
+                  onChange={(e) =>
+                    setData((s) => ({ ...s, client: { ...s.client, name: e.target.value } }))
+                  }
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Código Cliente">
+                <input
+                  value={data.client.clientCode || ""}
+                  onChange={(e) =>
+                    setData((s) => ({
+                      ...s,
+                      client: { ...s.client, clientCode: e.target.value },
+                    }))
+                  }
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Dirección">
+                <textarea
+                  value={data.client.address || ""}
+                  onChange={(e) =>
+                    setData((s) => ({
+                      ...s,
+                      client: { ...s.client, address: e.target.value },
+                    }))
+                  }
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Condición Pago">
+                <input
+                  value={data.client.condicionPago || ""}
+                  onChange={(e) =>
+                    setData((s) => ({
+                      ...s,
+                      client: { ...s.client, condicionPago: e.target.value },
+                    }))
+                  }
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Giro">
+                <input
+                  value={data.client.giro || ""}
+                  onChange={(e) =>
+                    setData((s) => ({ ...s, client: { ...s.client, giro: e.target.value } }))
+                  }
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+            </Card>
+
+            {/* Emisor */}
+            <Card title="Emisor">
+              <Field label="Empresa">{data.issuer.name}</Field>
+              <Field label="RUT">{data.issuer.rut}</Field>
+              <Field label="Dirección">{data.issuer.address}</Field>
+              <Field label="Ejecutivo">
+                <input
+                  value={data.issuer.contact || ""}
+                  readOnly={!!note}
+                  title={note ? "El ejecutivo de una nota guardada no se cambia" : undefined}
+                  onChange={(e) =>
+                    setData((s) => ({
+                      ...s,
+                      issuer: { ...s.issuer, contact: e.target.value },
+                    }))
+                  }
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Email">
+                <input
+                  type="email"
+                  value={data.issuer.email || ""}
+                  onChange={(e) =>
+                    setData((s) => ({
+                      ...s,
+                      issuer: { ...s.issuer, email: e.target.value },
+                    }))
+                  }
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Celular">
+                <input
+                  value={data.issuer.phone || ""}
+                  onChange={(e) =>
+                    setData((s) => ({
+                      ...s,
+                      issuer: { ...s.issuer, phone: e.target.value },
+                    }))
+                  }
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+              <Field label="Forma de Pago">
+                <input
+                  value={data.issuer.paymentTerms || ""}
+                  onChange={(e) =>
+                    setData((s) => ({
+                      ...s,
+                      issuer: { ...s.issuer, paymentTerms: e.target.value },
+                    }))
+                  }
+                  className="w-full border px-2 py-1"
+                />
+              </Field>
+            </Card>
+          </section>
+
+          {/* Intro Productos */}
+          <p className="mb-2 text-sm">
+            De acuerdo a lo solicitado, tenemos el agrado de cotizar algunos de los
+            productos que Spartan de Chile Ltda., fabrica y distribuye en el país, y/o
+            maquinaria / accesorios de limpieza industrial.
+          </p>
+
+          {/* Productos */}
+          <section>
+            <h2 className="bg-blue-700 text-white px-3 py-1 rounded text-sm font-semibold mb-2 print:-webkit-print-color-adjust: exact">
+              📦 Productos
+            </h2>
+            <button
+              onClick={addItem}
+              className="bg-blue-600 text-white px-2 rounded mb-2 print:hidden"
+            >
+              + Ítem
+            </button>
+            <table className="w-full text-xs border border-collapse">
+              <thead className="bg-blue-600 text-white print:-webkit-print-color-adjust: exact">
+                <tr>
+                  <th>Código</th>
+                  <th>Descripción</th>
+                  <th>Kilos</th>
+                  <th>Cantidad</th>
+                  <th>$/Kg</th>
+                  <th style={{ width: "60px" }}>Desc %</th>
+                  <th>Precio Venta</th>
+                  <th>Total</th>
+                  <th className="print:hidden"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.items.map((it, i) => {
+                  const { precioVenta, sub } = lineTotal(it);
+                  return (
+                    <tr key={i} className="border-b text-blue-800">
+                      <td>
+                        <input
+                          value={it.code || ""}
+                          list="catalog-list"
+                          onChange={(e) => setItem(i, { code: e.target.value })}
+                          onBlur={(e) => autofillFromCatalog(i, e.target.value)}
+                          className="border px-1 w-24"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          value={it.description}
+                          onChange={(e) => setItem(i, { description: e.target.value })}
+                          onBlur={(e) => autofillFromCatalog(i, e.target.value)}
+                          className="border px-1 w-full"
+                        />
+                      </td>
+                      <td>{it.kilos}</td>
+                      <td>
+                        <input
+                          type="number"
+                          value={it.qty}
+                          onChange={(e) => setItem(i, { qty: Number(e.target.value) })}
+                          className="border px-1 w-16 text-right"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          value={it.unitPrice}
+                          onChange={(e) => setItem(i, { unitPrice: Number(e.target.value) })}
+                          className="border px-1 w-20 text-right"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          value={it.discountPct ?? 0}
+                          onChange={(e) => setItem(i, { discountPct: Number(e.target.value) })}
+                          className="border px-1 w-14 text-right"
+                        />
+                      </td>
+                      <td>{money(precioVenta)}</td>
+                      <td>{money(sub)}</td>
+                      <td className="print:hidden">
+                        <button onClick={() => removeItem(i)}>❌</button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+            <datalist id="catalog-list">
+              {catalogo.map((r, i) => (
+                <option key={i} value={`${r.code} — ${r.name}`} />
+              ))}
+            </datalist>
+          </section>
+        </fieldset>
 
         {/* Totales */}
         <section className="mt-4">
@@ -26,7 +26,7 @@ export default function VentasPage() {
         >
           <h2 className="text-lg font-semibold text-[#2B6CFF] mb-2">📝 Nota de Venta</h2>
           <p className="text-sm text-zinc-600">
-            Crea y administra notas de venta con precios especiales y descuentos.
+            Crea notas de venta numeradas (NV) y sigue su estado hasta el despacho y la facturación.
           </p>
         </Link>
       </div>
@@ -0,0 +1,140 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { solveBreakEven, type BreakEvenScenario } from "@/lib/breakEven";
+import type { EffectiveViabilityRules, ViabilityStatus } from "@/lib/viability";
+
+function money(n: number) {
+  return (n || 0).toLocaleString("es-CL", { style: "currency", currency: "CLP", maximumFractionDigits: 0 });
+}
+function pct(n: number) {
+  return (n || 0).toLocaleString("es-CL", { style: "percent", minimumFractionDigits: 1, maximumFractionDigits: 1 });
+}
+function kg(n: number) {
+  return `${(n || 0).toLocaleString("es-CL", { maximumFractionDigits: 0 })} kg`;
+}
+
+/** Qué hace la página con cada valor sugerido; sin callback, el valor se muestra como meta y no se aplica. */
+export type BreakEvenApply = {
+  linePrice?: (index: number, priceKg: number) => void;
+  prices?: (factor: number) => void;
+  kilos?: (factor: number) => void;
+  investment?: (total: number) => void;
+  months?: (months: number) => void;
+};
+
+/* Punto de equilibrio: lo mínimo (o máximo) de cada palanca para que la evaluación quede Viable. */
+export default function BreakEvenSolver({
+  scenario,
+  rules,
+  status,
+  apply,
+  note,
+  className = "",
+}: {
+  scenario: BreakEvenScenario;
+  rules: EffectiveViabilityRules;
+  status: ViabilityStatus;
+  apply: BreakEvenApply;
+  note?: string;
+  className?: string;
+}) {
+  const r = useMemo(() => solveBreakEven(scenario, rules), [scenario, rules]);
+  const kilosTotal = scenario.lines.reduce((a, l) => a + l.kilosMes, 0);
+  const none = <span className="text-zinc-400">No alcanza</span>;
+
+  const row = (label: string, current: string, value: React.ReactNode, onApply?: () => void) => (
+    <tr className="border-t">
+      <td className="px-2 py-1">{label}</td>
+      <td className="px-2 py-1 text-right text-zinc-600">{current}</td>
+      <td className="px-2 py-1 text-right font-semibold">{value}</td>
+      <td className="px-2 py-1 text-right">
+        {onApply && (
+          <button onClick={onApply} className="rounded bg-[#2B6CFF] px-2 py-0.5 text-white hover:bg-[#1f4ed8]">
+            Aplicar
+          </button>
+        )}
+      </td>
+    </tr>
+  );
+
+  return (
+    <details open={status !== "viable"} className={`rounded-2xl border p-3 text-xs ${className}`}>
+      <summary className="cursor-pointer font-semibold text-[#2B6CFF]">🎯 Punto de equilibrio</summary>
+      <p className="mt-1 text-zinc-500">
+        Cuánto se puede mover cada valor, uno a la vez y dejando lo demás igual, para que la evaluación siga o quede Viable.
+        {note && ` ${note}`}
+      </p>
+      <table className="mt-2 w-full">
+        <thead className="bg-zinc-50 text-left">
+          <tr>
+            <th className="px-2 py-1"></th>
+            <th className="px-2 py-1 text-right">Actual</th>
+            <th className="px-2 py-1 text-right">Para ser Viable</th>
+            <th className="px-2 py-1"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {row(
+            r.priceFactor !== null && r.priceFactor < 1 ? "Descuento máximo parejo" : "Alza mínima pareja de precios",
+            "—",
+            r.priceFactor === null ? none : r.priceFactor < 1 ? `${pct(1 - r.priceFactor)} menos` : `${pct(r.priceFactor - 1)} más`,
+            apply.prices && r.priceFactor !== null ? () => apply.prices!(r.priceFactor!) : undefined
+          )}
+          {row(
+            "Kilos mensuales mínimos",
+            kg(kilosTotal),
+            r.kilosFactor === null ? none : kg(kilosTotal * r.kilosFactor),
+            apply.kilos && r.kilosFactor !== null ? () => apply.kilos!(r.kilosFactor!) : undefined
+          )}
+          {row(
+            "Inversión máxima en comodato",
+            money(scenario.investment),
+            r.maxInvestment === null ? none : money(Math.floor(r.maxInvestment)),
+            apply.investment && r.maxInvestment !== null && scenario.investment > 0 ? () => apply.investment!(Math.floor(r.maxInvestment!)) : undefined
+          )}
+          {row(
+            "Meses mínimos de contrato",
+            scenario.investment > 0 ? String(Math.round(scenario.months)) : "—",
+            scenario.investment <= 0 ? "—" : r.minMonths === null ? none : String(r.minMonths),
+            apply.months && r.minMonths !== null ? () => apply.months!(r.minMonths!) : undefined
+          )}
+        </tbody>
+      </table>
+
+      {scenario.lines.length > 0 && (
+        <table className="mt-3 w-full">
+          <thead className="bg-zinc-50 text-left">
+            <tr>
+              <th className="px-2 py-1">Producto</th>
+              <th className="px-2 py-1 text-right">$/kg actual</th>
+              <th className="px-2 py-1 text-right">$/kg mínimo</th>
+              <th className="px-2 py-1"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {scenario.lines.map((l, i) => {
+              const min = r.linePriceKg[i];
+              return (
+                <tr key={i} className="border-t">
+                  <td className="px-2 py-1">
+                    {l.code} {l.name}
+                  </td>
+                  <td className="px-2 py-1 text-right text-zinc-600">{l.kilosMes > 0 ? money(l.venta / l.kilosMes) : "—"}</td>
+                  <td className="px-2 py-1 text-right font-semibold">{min === null ? none : money(Math.ceil(min))}</td>
+                  <td className="px-2 py-1 text-right">
+                    {apply.linePrice && min !== null && (
+                      <button onClick={() => apply.linePrice!(i, Math.ceil(min))} className="rounded bg-[#2B6CFF] px-2 py-0.5 text-white hover:bg-[#1f4ed8]">
+                        Aplicar
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </details>
+  );
+}
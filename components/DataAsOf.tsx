@@ -0,0 +1,28 @@
+"use client";
+
+import React from "react";
+import { formatAsOf } from "@/lib/snapshots";
+import type { SourceStamp } from "@/lib/sources";
+
+/* Indicador "datos al <fecha>": toma la fuente más antigua y avisa si se trabaja sin conexión. */
+export default function DataAsOf({ items }: { items: { label: string; stamp?: SourceStamp | null }[] }) {
+  const loaded = items.filter((i): i is { label: string; stamp: SourceStamp } => !!i.stamp);
+  if (!loaded.length) return null;
+  const oldest = Math.min(...loaded.map((i) => i.stamp.fetchedAt));
+  const offline = loaded.filter((i) => i.stamp.offline);
+  const refreshing = loaded.some((i) => i.stamp.fromCache && !i.stamp.offline);
+  const detail = loaded.map((i) => `${i.label}: ${formatAsOf(i.stamp.fetchedAt)}${i.stamp.offline ? " (copia local)" : ""}`).join("\n");
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 rounded border px-2 py-0.5 text-xs ${
+        offline.length ? "border-amber-300 bg-amber-50 text-amber-800" : "border-zinc-200 bg-white text-zinc-600"
+      }`}
+      title={detail}
+    >
+      📅 Datos al {formatAsOf(oldest)}
+      {refreshing && <span className="text-zinc-400">· actualizando…</span>}
+      {offline.length > 0 && <span>· sin conexión, usando copia local</span>}
+    </span>
+  );
+}
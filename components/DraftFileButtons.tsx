@@ -0,0 +1,44 @@
+"use client";
+
+import React, { useRef } from "react";
+import { DRAFT_KIND_LABEL, exportDraft, importDraft, type DraftData, type DraftKind } from "@/lib/drafts";
+
+/* Exportar el borrador a un archivo JSON e importarlo en otro navegador. name va en el nombre del archivo. */
+export default function DraftFileButtons<K extends DraftKind>({
+  kind,
+  name,
+  getData,
+  onImport,
+  className = "rounded bg-zinc-200 px-3 py-2 text-xs hover:bg-zinc-300",
+}: {
+  kind: K;
+  name: string;
+  getData: () => DraftData[K];
+  onImport: (data: DraftData[K]) => void;
+  className?: string;
+}) {
+  const input = useRef<HTMLInputElement>(null);
+
+  async function onFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    try {
+      onImport(await importDraft(file, kind));
+    } catch (err: any) {
+      alert(err?.message ?? "No se pudo importar el borrador");
+    }
+  }
+
+  return (
+    <>
+      <button className={className} title={`Descarga la ${DRAFT_KIND_LABEL[kind]} como archivo JSON`} onClick={() => exportDraft(kind, getData(), name)}>
+        Exportar
+      </button>
+      <button className={className} title={`Abre una ${DRAFT_KIND_LABEL[kind]} exportada`} onClick={() => input.current?.click()}>
+        Importar
+      </button>
+      <input ref={input} type="file" accept="application/json,.json" className="hidden" onChange={onFile} />
+    </>
+  );
+}
@@ -0,0 +1,164 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  EVALUATION_STATUS_LABEL,
+  archiveEvaluation,
+  duplicateEvaluation,
+  fetchEvaluation,
+  fetchEvaluations,
+  type Evaluation,
+  type EvaluationFilter,
+  type EvaluationSummary,
+} from "@/lib/evaluations";
+import { APPROVAL_STATUS_LABEL } from "@/lib/approvals";
+import { VIABILITY_STATUS_LABEL, resultViability, type ViabilityStatus } from "@/lib/viability";
+
+const VIABILITY_TEXT: Record<ViabilityStatus, string> = { viable: "text-green-700", revision: "text-amber-700", "no-viable": "text-red-700" };
+
+function money(n: number) {
+  return (n || 0).toLocaleString("es-CL", { style: "currency", currency: "CLP", maximumFractionDigits: 0 });
+}
+function pct(n: number) {
+  return (n || 0).toLocaleString("es-CL", { style: "percent", minimumFractionDigits: 1, maximumFractionDigits: 1 });
+}
+
+/* Evaluaciones guardadas en el servidor: buscar, abrir, duplicar y archivar. reloadKey recarga el listado tras guardar. */
+export default function EvaluationList({
+  currentId,
+  reloadKey,
+  onOpen,
+  onChanged,
+}: {
+  currentId: string | null;
+  reloadKey?: unknown;
+  onOpen: (e: Evaluation) => void;
+  /** La evaluación cambió en el servidor (archivada/restaurada). */
+  onChanged?: (e: Evaluation) => void;
+}) {
+  const [q, setQ] = useState("");
+  const [status, setStatus] = useState<NonNullable<EvaluationFilter["status"]>>("activa");
+  const [list, setList] = useState<EvaluationSummary[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [tick, setTick] = useState(0);
+
+  useEffect(() => {
+    let alive = true;
+    // Espera a que se deje de escribir en la búsqueda
+    const t = setTimeout(() => {
+      fetchEvaluations({ q: q.trim() || undefined, status })
+        .then((l) => alive && (setList(l), setError(null)))
+        .catch((e) => alive && setError(e?.message ?? "No se pudieron leer las evaluaciones"));
+    }, 300);
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+  }, [q, status, reloadKey, tick]);
+
+  async function run(id: string, action: () => Promise<Evaluation>, then?: (e: Evaluation) => void) {
+    setBusy(id);
+    setError(null);
+    try {
+      const e = await action();
+      then?.(e);
+      setTick((n) => n + 1);
+    } catch (err: any) {
+      setError(err?.message ?? "Error");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="text-sm">
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <input
+          className="w-72 rounded border px-2 py-1"
+          placeholder="Buscar por ID, cliente, RUT o ejecutivo"
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+        />
+        <select className="rounded border px-2 py-1" value={status} onChange={(e) => setStatus(e.target.value as typeof status)}>
+          <option value="activa">Activas</option>
+          <option value="archivada">Archivadas</option>
+          <option value="todas">Todas</option>
+        </select>
+        {list && <span className="text-xs text-zinc-500">{list.length} evaluaciones</span>}
+      </div>
+      {error && <div className="mb-2 text-xs text-red-600">{error}</div>}
+
+      {!list ? (
+        <div className="text-xs text-zinc-500">Cargando…</div>
+      ) : list.length === 0 ? (
+        <div className="text-xs text-zinc-500">Sin evaluaciones guardadas.</div>
+      ) : (
+        <div className="max-h-80 overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-zinc-50 text-left">
+              <tr>
+                <th className="px-2 py-1">ID</th>
+                <th className="px-2 py-1">Cliente</th>
+                <th className="px-2 py-1">Ejecutivo</th>
+                <th className="px-2 py-1">Fecha</th>
+                <th className="px-2 py-1 text-right">Venta mensual</th>
+                <th className="px-2 py-1">Estado</th>
+                <th className="px-2 py-1">Modificada</th>
+                <th className="px-2 py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {list.map((e) => (
+                <tr key={e.id} className={`border-t ${e.id === currentId ? "bg-blue-50" : ""} ${e.status === "archivada" ? "text-zinc-400" : ""}`}>
+                  <td className="px-2 py-1 font-mono">{e.id}</td>
+                  <td className="px-2 py-1">
+                    <div>{e.cliente.nombre || "—"}</div>
+                    <div className="text-zinc-500">{e.cliente.rut}</div>
+                  </td>
+                  <td className="px-2 py-1">{e.ejecutivo || "—"}</td>
+                  <td className="px-2 py-1">{e.fecha}</td>
+                  <td className="px-2 py-1 text-right">{money(e.results.ventaTotal)}</td>
+                  <td className="px-2 py-1">
+                    <span className={VIABILITY_TEXT[resultViability(e.results)]}>{VIABILITY_STATUS_LABEL[resultViability(e.results)]}</span>
+                    {e.results.mgnFinalPct !== undefined && <span className="text-zinc-500"> · {pct(e.results.mgnFinalPct)}</span>}
+                    {e.approval && <div className="text-zinc-500">VB {APPROVAL_STATUS_LABEL[e.approval.status].toLowerCase()}</div>}
+                    {e.status === "archivada" && <div>{EVALUATION_STATUS_LABEL[e.status]}</div>}
+                  </td>
+                  <td className="px-2 py-1">
+                    {new Date(e.updatedAt).toLocaleString("es-CL")}
+                    <div className="text-zinc-500">{e.updatedBy?.name}</div>
+                  </td>
+                  <td className="whitespace-nowrap px-2 py-1 text-right">
+                    <button
+                      className="rounded border px-2 py-0.5 hover:bg-zinc-50 disabled:opacity-50"
+                      disabled={!!busy}
+                      onClick={() => run(e.id, () => fetchEvaluation(e.id), onOpen)}
+                    >
+                      Abrir
+                    </button>{" "}
+                    <button
+                      className="rounded border px-2 py-0.5 hover:bg-zinc-50 disabled:opacity-50"
+                      disabled={!!busy}
+                      title="Crea una evaluación nueva con los mismos datos"
+                      onClick={() => run(e.id, () => duplicateEvaluation(e.id), onOpen)}
+                    >
+                      Duplicar
+                    </button>{" "}
+                    <button
+                      className="rounded border px-2 py-0.5 hover:bg-zinc-50 disabled:opacity-50"
+                      disabled={!!busy}
+                      onClick={() => run(e.id, () => archiveEvaluation(e.id, e.status !== "archivada"), onChanged)}
+                    >
+                      {e.status === "archivada" ? "Restaurar" : "Archivar"}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { BRANCHES, QUOTE_STATUS_LABEL, fetchQuote, fetchQuotes, type Quote, type QuoteSummary } from "@/lib/quotes";
+
+function money(n: number) {
+  return (n || 0).toLocaleString("es-CL", { style: "currency", currency: "CLP", maximumFractionDigits: 0 });
+}
+
+/* Cotizaciones emitidas: buscar por cliente, RUT, ejecutivo y fecha; abrir, clonar o reimprimir. reloadKey recarga tras emitir. */
+export default function QuoteList({
+  currentNumber,
+  reloadKey,
+  onOpen,
+  onClone,
+  onReprint,
+}: {
+  currentNumber: string | null;
+  reloadKey?: unknown;
+  onOpen: (q: Quote) => void;
+  onClone: (q: Quote) => void;
+  onReprint: (q: Quote) => void;
+}) {
+  const [q, setQ] = useState("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [list, setList] = useState<QuoteSummary[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    // Espera a que se deje de escribir en la búsqueda
+    const t = setTimeout(() => {
+      fetchQuotes({ q: q.trim() || undefined, from: from || undefined, to: to || undefined })
+        .then((l) => alive && (setList(l), setError(null)))
+        .catch((e) => alive && setError(e?.message ?? "No se pudieron leer las cotizaciones"));
+    }, 300);
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+  }, [q, from, to, reloadKey]);
+
+  async function run(number: string, then: (q: Quote) => void) {
+    setBusy(number);
+    setError(null);
+    try {
+      then(await fetchQuote(number));
+    } catch (err: any) {
+      setError(err?.message ?? "Error");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="text-sm">
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <input
+          className="w-72 rounded border px-2 py-1"
+          placeholder="Buscar por N°, cliente, RUT o ejecutivo"
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+        />
+        <label className="flex items-center gap-1 text-xs">
+          Desde
+          <input type="date" className="rounded border px-2 py-1" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </label>
+        <label className="flex items-center gap-1 text-xs">
+          Hasta
+          <input type="date" className="rounded border px-2 py-1" value={to} onChange={(e) => setTo(e.target.value)} />
+        </label>
+        {list && <span className="text-xs text-zinc-500">{list.length} cotizaciones</span>}
+      </div>
+      {error && <div className="mb-2 text-xs text-red-600">{error}</div>}
+
+      {!list ? (
+        <div className="text-xs text-zinc-500">Cargando…</div>
+      ) : list.length === 0 ? (
+        <div className="text-xs text-zinc-500">Sin cotizaciones emitidas.</div>
+      ) : (
+        <div className="max-h-80 overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-zinc-50 text-left">
+              <tr>
+                <th className="px-2 py-1">N°</th>
+                <th className="px-2 py-1">Cliente</th>
+                <th className="px-2 py-1">Ejecutivo</th>
+                <th className="px-2 py-1">Fecha</th>
+                <th className="px-2 py-1 text-right">Total</th>
+                <th className="px-2 py-1">Estado</th>
+                <th className="px-2 py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {list.map((s) => (
+                <tr key={s.number} className={`border-t ${s.number === currentNumber ? "bg-blue-50" : ""}`}>
+                  <td className="px-2 py-1 font-mono">
+                    {s.number}
+                    <div className="font-sans text-zinc-500">{BRANCHES[s.branch]?.label}</div>
+                  </td>
+                  <td className="px-2 py-1">
+                    <div>{s.client.name || "—"}</div>
+                    <div className="text-zinc-500">{s.client.rut}</div>
+                  </td>
+                  <td className="px-2 py-1">{s.ejecutivo || "—"}</td>
+                  <td className="px-2 py-1">
+                    {s.dateISO}
+                    <div className="text-zinc-500">{s.createdBy?.name}</div>
+                  </td>
+                  <td className="px-2 py-1 text-right">{money(s.totals.total)}</td>
+                  <td className="px-2 py-1">
+                    {QUOTE_STATUS_LABEL[s.status]}
+                    {s.convertedTo && <div className="text-zinc-500">→ {s.convertedTo}</div>}
+                    {s.clonedFrom && <div className="text-zinc-500">Clonada de {s.clonedFrom}</div>}
+                  </td>
+                  <td className="whitespace-nowrap px-2 py-1 text-right">
+                    <button
+                      className="rounded border px-2 py-0.5 hover:bg-zinc-50 disabled:opacity-50"
+                      disabled={!!busy}
+                      onClick={() => run(s.number, onOpen)}
+                    >
+                      Abrir
+                    </button>{" "}
+                    <button
+                      className="rounded border px-2 py-0.5 hover:bg-zinc-50 disabled:opacity-50"
+                      disabled={!!busy}
+                      title="Borrador nuevo con los mismos datos (recibe número al emitirlo)"
+                      onClick={() => run(s.number, onClone)}
+                    >
+                      Clonar
+                    </button>{" "}
+                    <button
+                      className="rounded border px-2 py-0.5 hover:bg-zinc-50 disabled:opacity-50"
+                      disabled={!!busy}
+                      title="Imprime la cotización tal como se emitió"
+                      onClick={() => run(s.number, onReprint)}
+                    >
+                      Reimprimir
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
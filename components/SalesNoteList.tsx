@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import {
+  SALES_NOTE_STATUSES,
+  SALES_NOTE_STATUS_LABEL,
+  fetchSalesNote,
+  fetchSalesNotes,
+  type SalesNote,
+  type SalesNoteStatus,
+  type SalesNoteSummary,
+} from "@/lib/salesNotes";
+
+function money(n: number) {
+  return (n || 0).toLocaleString("es-CL", { style: "currency", currency: "CLP", maximumFractionDigits: 0 });
+}
+
+export const STATUS_CLASS: Record<SalesNoteStatus, string> = {
+  borrador: "bg-zinc-100 text-zinc-700",
+  emitida: "bg-blue-100 text-blue-800",
+  aprobada: "bg-emerald-100 text-emerald-800",
+  despachada: "bg-amber-100 text-amber-800",
+  facturada: "bg-green-200 text-green-900",
+  anulada: "bg-red-100 text-red-700",
+};
+
+/* Notas de venta guardadas: buscar por cliente, RUT, ejecutivo, estado y fecha; abrir. reloadKey recarga tras guardar. */
+export default function SalesNoteList({
+  currentNumber,
+  reloadKey,
+  onOpen,
+}: {
+  currentNumber: string | null;
+  reloadKey?: unknown;
+  onOpen: (n: SalesNote) => void;
+}) {
+  const [q, setQ] = useState("");
+  const [status, setStatus] = useState<SalesNoteStatus | "">("");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [list, setList] = useState<SalesNoteSummary[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    // Espera a que se deje de escribir en la búsqueda
+    const t = setTimeout(() => {
+      fetchSalesNotes({ q: q.trim() || undefined, status: status || undefined, from: from || undefined, to: to || undefined })
+        .then((l) => alive && (setList(l), setError(null)))
+        .catch((e) => alive && setError(e?.message ?? "No se pudieron leer las notas de venta"));
+    }, 300);
+    return () => {
+      alive = false;
+      clearTimeout(t);
+    };
+  }, [q, status, from, to, reloadKey]);
+
+  async function open(number: string) {
+    setBusy(number);
+    setError(null);
+    try {
+      onOpen(await fetchSalesNote(number));
+    } catch (err: any) {
+      setError(err?.message ?? "Error");
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  return (
+    <div className="text-sm">
+      <div className="mb-3 flex flex-wrap items-center gap-2">
+        <input
+          className="w-72 rounded border px-2 py-1"
+          placeholder="Buscar por N°, cliente, RUT o ejecutivo"
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+        />
+        <select className="rounded border px-2 py-1" value={status} onChange={(e) => setStatus(e.target.value as typeof status)}>
+          <option value="">Todos los estados</option>
+          {SALES_NOTE_STATUSES.map((s) => (
+            <option key={s} value={s}>
+              {SALES_NOTE_STATUS_LABEL[s]}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-1 text-xs">
+          Desde
+          <input type="date" className="rounded border px-2 py-1" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </label>
+        <label className="flex items-center gap-1 text-xs">
+          Hasta
+          <input type="date" className="rounded border px-2 py-1" value={to} onChange={(e) => setTo(e.target.value)} />
+        </label>
+        {list && <span className="text-xs text-zinc-500">{list.length} notas</span>}
+      </div>
+      {error && <div className="mb-2 text-xs text-red-600">{error}</div>}
+
+      {!list ? (
+        <div className="text-xs text-zinc-500">Cargando…</div>
+      ) : list.length === 0 ? (
+        <div className="text-xs text-zinc-500">Sin notas de venta.</div>
+      ) : (
+        <div className="max-h-80 overflow-auto">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-zinc-50 text-left">
+              <tr>
+                <th className="px-2 py-1">N°</th>
+                <th className="px-2 py-1">Cliente</th>
+                <th className="px-2 py-1">Ejecutivo</th>
+                <th className="px-2 py-1">Fecha</th>
+                <th className="px-2 py-1 text-right">Total</th>
+                <th className="px-2 py-1">Estado</th>
+                <th className="px-2 py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {list.map((n) => (
+                <tr key={n.number} className={`border-t ${n.number === currentNumber ? "bg-blue-50" : ""}`}>
+                  <td className="px-2 py-1 font-mono">{n.number}</td>
+                  <td className="px-2 py-1">
+                    <div>{n.client.name || "—"}</div>
+                    <div className="text-zinc-500">{n.client.rut}</div>
+                  </td>
+                  <td className="px-2 py-1">{n.ejecutivo || "—"}</td>
+                  <td className="px-2 py-1">{n.dateISO}</td>
+                  <td className="px-2 py-1 text-right">{money(n.totals.total)}</td>
+                  <td className="px-2 py-1">
+                    <span className={`rounded px-1.5 py-0.5 ${STATUS_CLASS[n.status]}`}>{SALES_NOTE_STATUS_LABEL[n.status]}</span>
+                    <div className="text-zinc-500">
+                      {new Date(n.updatedAt).toLocaleString("es-CL")} · {n.updatedBy?.name}
+                    </div>
+                  </td>
+                  <td className="px-2 py-1 text-right">
+                    <button
+                      className="rounded border px-2 py-0.5 hover:bg-zinc-50 disabled:opacity-50"
+                      disabled={!!busy}
+                      onClick={() => open(n.number)}
+                    >
+                      Abrir
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
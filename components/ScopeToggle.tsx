@@ -0,0 +1,18 @@
+"use client";
+
+import React from "react";
+import { can } from "@/lib/auth";
+import type { useScope } from "@/lib/useSession";
+
+/* "Solo mi cartera": aparece solo si el rol puede ver más ejecutivos que el propio. */
+export default function ScopeToggle({ scope }: { scope: ReturnType<typeof useScope> }) {
+  const { user, mine, setMine, canWiden } = scope;
+  if (!user || !canWiden) return null;
+  const wider = can(user, "see-all-executives") ? "todos los ejecutivos" : "mi equipo";
+  return (
+    <label className="inline-flex items-center gap-1 text-xs text-zinc-600" title={`Desmarca para ver ${wider}`}>
+      <input type="checkbox" checked={mine} onChange={(e) => setMine(e.target.checked)} />
+      Solo mi cartera{user.ejecutivo ? ` (${user.ejecutivo})` : ""}
+    </label>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import React, { useState } from "react";
+import { MAIL_DOC_LABEL, fetchMailPreview, parseEmails, sendDocumentMail, type MailAttachment, type MailDocKind } from "@/lib/mail";
+
+type Draft = { documentId: string; to: string; cc: string; subject: string; body: string; configured: boolean; anyRecipient: boolean };
+
+/* Enviar el PDF del documento por correo. prepare guarda o emite si hace falta y devuelve su número (null: cancelar);
+   getPdf se llama al enviar, con el documento ya guardado en pantalla. */
+export default function SendMailButton({
+  kind,
+  prepare,
+  getPdf,
+  disabled,
+  className = "rounded bg-zinc-200 px-3 py-2 text-xs hover:bg-zinc-300 disabled:opacity-50",
+}: {
+  kind: MailDocKind;
+  prepare: () => Promise<string | null>;
+  getPdf: () => Promise<MailAttachment>;
+  disabled?: boolean;
+  className?: string;
+}) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function open() {
+    setBusy(true);
+    setError(null);
+    try {
+      const documentId = await prepare();
+      if (!documentId) return;
+      const p = await fetchMailPreview(kind, documentId);
+      setDraft({ documentId, to: p.to.join(", "), cc: p.cc.join(", "), subject: p.subject, body: p.body, configured: p.configured, anyRecipient: p.anyRecipient });
+    } catch (e: any) {
+      alert(e?.message ?? "No se pudo preparar el correo");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function send() {
+    if (!draft) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const mail = await sendDocumentMail({
+        kind,
+        documentId: draft.documentId,
+        to: parseEmails(draft.to),
+        cc: parseEmails(draft.cc),
+        subject: draft.subject,
+        body: draft.body,
+        attachment: await getPdf(),
+      });
+      setDraft(null);
+      alert(`Correo enviado a ${mail.to.join(", ")}.`);
+    } catch (e: any) {
+      setError(e?.message ?? "No se pudo enviar el correo");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const set = (k: keyof Draft) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setDraft((d) => d && { ...d, [k]: e.target.value });
+
+  return (
+    <>
+      <button className={className} disabled={disabled || busy} onClick={open} title={`Envía la ${MAIL_DOC_LABEL[kind].toLowerCase()} en PDF por correo`}>
+        ✉️ Enviar por correo
+      </button>
+      {draft && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4 print:hidden">
+          <div className="w-full max-w-xl space-y-3 rounded-lg bg-white p-4 shadow-xl">
+            <div className="flex items-center justify-between">
+              <h3 className="font-semibold">
+                ✉️ {MAIL_DOC_LABEL[kind]} {draft.documentId}
+              </h3>
+              <button className="text-zinc-500 hover:text-zinc-800" onClick={() => setDraft(null)} disabled={busy}>
+                ✕
+              </button>
+            </div>
+            {!draft.configured && (
+              <div className="rounded border border-amber-300 bg-amber-50 p-2 text-xs text-amber-800">
+                El servidor no tiene relay SMTP configurado (SMTP_HOST): el envío fallará y quedará en el registro.
+              </div>
+            )}
+            {!draft.anyRecipient && (
+              <div className="text-xs text-zinc-500">Solo puedes enviarlo a los destinatarios configurados para este documento (puedes quitar algunos).</div>
+            )}
+            <label className="block text-xs">
+              Para
+              <input className="mt-1 w-full rounded border px-2 py-1 text-sm" value={draft.to} onChange={set("to")} placeholder="correo@cliente.cl, otro@spartan.cl" />
+            </label>
+            <label className="block text-xs">
+              CC
+              <input className="mt-1 w-full rounded border px-2 py-1 text-sm" value={draft.cc} onChange={set("cc")} />
+            </label>
+            <label className="block text-xs">
+              Asunto
+              <input className="mt-1 w-full rounded border px-2 py-1 text-sm" value={draft.subject} onChange={set("subject")} />
+            </label>
+            <label className="block text-xs">
+              Mensaje
+              <textarea className="mt-1 h-40 w-full rounded border px-2 py-1 text-sm" value={draft.body} onChange={set("body")} />
+            </label>
+            <div className="text-xs text-zinc-500">Se adjunta el PDF del documento.</div>
+            {error && <div className="rounded border border-red-300 bg-red-50 p-2 text-xs text-red-700">{error}</div>}
+            <div className="flex justify-end gap-2">
+              <button className="rounded bg-zinc-200 px-3 py-2 text-sm hover:bg-zinc-300" onClick={() => setDraft(null)} disabled={busy}>
+                Cancelar
+              </button>
+              <button className="rounded bg-blue-600 px-3 py-2 text-sm text-white hover:bg-blue-700 disabled:opacity-50" onClick={send} disabled={busy || !parseEmails(draft.to).length}>
+                {busy ? "Enviando…" : "Enviar"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
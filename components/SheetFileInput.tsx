@@ -0,0 +1,90 @@
+"use client";
+
+import React, { useState } from "react";
+import { readWorkbook, WORKBOOK_ACCEPT, type UploadedSheet, type Workbook } from "@/lib/workbook";
+
+/* Selector de archivo local (.xlsx/.csv) como fuente alternativa a la URL de Google Sheets.
+   El archivo se lee en el navegador y queda solo en memoria (no se sube a ningún servidor). */
+export default function SheetFileInput({
+  value,
+  onChange,
+}: {
+  value: UploadedSheet | null;
+  onChange: (v: UploadedSheet | null) => void;
+}) {
+  const [wb, setWb] = useState<Workbook | null>(null);
+  const [error, setError] = useState("");
+  const [reading, setReading] = useState(false);
+
+  function pick(book: Workbook, sheet: string) {
+    try {
+      const table = book.table(sheet);
+      if (!table.headers.length) throw new Error(`La hoja "${sheet}" está vacía.`);
+      setError("");
+      onChange({ ...table, fileName: book.fileName, sheet });
+    } catch (e: any) {
+      setError(e?.message ?? "No se pudo leer la hoja");
+      onChange(null);
+    }
+  }
+
+  async function onFile(file: File | undefined) {
+    if (!file) return;
+    setReading(true);
+    try {
+      const book = await readWorkbook(file);
+      setWb(book);
+      pick(book, book.sheetNames[0]);
+    } catch (e: any) {
+      setWb(null);
+      setError(e?.message ?? "No se pudo leer el archivo");
+      onChange(null);
+    } finally {
+      setReading(false);
+    }
+  }
+
+  function clear() {
+    setWb(null);
+    setError("");
+    onChange(null);
+  }
+
+  return (
+    <div className="mt-1 text-xs">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="file"
+          accept={WORKBOOK_ACCEPT}
+          className="block text-xs"
+          onChange={(e) => {
+            onFile(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+        {wb && wb.sheetNames.length > 1 && (
+          <select className="rounded border px-2 py-1" value={value?.sheet ?? ""} onChange={(e) => pick(wb, e.target.value)}>
+            {wb.sheetNames.map((s) => (
+              <option key={s} value={s}>
+                {s}
+              </option>
+            ))}
+          </select>
+        )}
+        {value && (
+          <button type="button" className="rounded border px-2 py-1 hover:bg-zinc-50" onClick={clear} title="Volver a usar la URL">
+            Quitar archivo
+          </button>
+        )}
+      </div>
+      {reading && <div className="mt-1 text-zinc-500">Leyendo archivo…</div>}
+      {value && !reading && (
+        <div className="mt-1 text-emerald-700">
+          Usando {value.fileName}
+          {value.sheet !== "CSV" ? ` › ${value.sheet}` : ""} ({value.rows.length.toLocaleString("es-CL")} filas) en lugar de la URL.
+        </div>
+      )}
+      {error && <div className="mt-1 text-red-600">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import type { SheetAttempt } from "@/lib/sheets";
+import type { MapReport } from "@/lib/schemas";
+import type { SourceProblem } from "@/lib/sources";
+
+/* Error de carga con detalle: intentos CSV/GViz, columnas faltantes y encabezados detectados. */
+export function AttemptList({ attempts }: { attempts: SheetAttempt[] }) {
+  if (!attempts.length) return null;
+  return (
+    <ul className="mt-1 space-y-0.5">
+      {attempts.map((a, i) => (
+        <li key={i} className="font-mono text-[11px]">
+          {a.error ? "✗" : "✓"} {a.via.toUpperCase()} · HTTP {a.status ?? "—"} · {a.error ?? `${a.rows} filas`}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function ReportDetail({ report }: { report: MapReport }) {
+  return (
+    <div className="mt-1 space-y-0.5 text-[11px]">
+      {report.missing.length > 0 && (
+        <div>
+          Faltan (obligatorias): <b>{report.missing.join(", ")}</b>
+        </div>
+      )}
+      {report.optionalMissing.length > 0 && <div>Sin columna (opcionales): {report.optionalMissing.join(", ")}</div>}
+      {report.unmatched.length > 0 && <div>No reconocidas: {report.unmatched.join(", ")}</div>}
+      <div className="text-zinc-500">Encabezados detectados: {report.headers.join(" · ") || "ninguno"}</div>
+    </div>
+  );
+}
+
+export default function SourceErrorBox({ problem, className = "" }: { problem: SourceProblem | null; className?: string }) {
+  if (!problem) return null;
+  return (
+    <div className={`rounded-lg border border-red-300 bg-red-50 p-3 text-sm text-red-700 ${className}`}>
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <span>{problem.message}</span>
+        <Link href="/fuentes/diagnostico" className="text-xs underline">
+          Diagnosticar fuentes
+        </Link>
+      </div>
+      <AttemptList attempts={problem.attempts} />
+      {problem.report && <ReportDetail report={problem.report} />}
+    </div>
+  );
+}
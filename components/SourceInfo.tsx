@@ -0,0 +1,26 @@
+"use client";
+
+import React from "react";
+import Link from "next/link";
+import type { DataSource } from "@/lib/sources";
+
+/* Resumen de solo lectura de una fuente del registro, con acceso a "Fuentes de datos". */
+export default function SourceInfo({ source }: { source: DataSource | undefined }) {
+  if (!source) return <div className="mt-1 text-xs text-zinc-500">Cargando fuente…</div>;
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-2 rounded border bg-zinc-50 px-2 py-1 text-xs">
+      <span className="truncate text-zinc-700" title={source.kind === "file" ? source.file?.fileName : source.url}>
+        {source.kind === "file" && source.file
+          ? `📄 ${source.file.fileName}${source.file.sheet && source.file.sheet !== "CSV" ? ` › ${source.file.sheet}` : ""}`
+          : // Sin "edit-sources" el servidor no entrega la URL
+            `🔗 ${source.url || "Google Sheets"}`}
+      </span>
+      {source.lastLoadedAt && (
+        <span className="text-zinc-500">· leída {new Date(source.lastLoadedAt).toLocaleString("es-CL")}</span>
+      )}
+      <Link href="/fuentes" className="ml-auto text-[#2B6CFF] hover:underline">
+        Cambiar
+      </Link>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import React from "react";
+import {
+  CHECK_STATUS_LABEL,
+  VIABILITY_STATUS_CLASS,
+  describeCheck,
+  type EffectiveViabilityRules,
+  type ViabilityAssessment,
+} from "@/lib/viability";
+
+/* Qué reglas de viabilidad cumple la evaluación y de dónde salen (base o Gerencia). */
+export default function ViabilityChecks({
+  assessment,
+  rules,
+  className = "",
+}: {
+  assessment: ViabilityAssessment;
+  rules: EffectiveViabilityRules;
+  className?: string;
+}) {
+  return (
+    <div className={`text-xs ${className}`}>
+      <ul className="space-y-0.5">
+        {assessment.checks.map((c, i) => (
+          <li key={i} className="flex items-center gap-2">
+            <span className={`w-20 rounded px-1.5 py-0.5 text-center ${VIABILITY_STATUS_CLASS[c.status]}`}>{CHECK_STATUS_LABEL[c.status]}</span>
+            <span>{c.label}:</span>
+            <span className="text-zinc-600">{describeCheck(c)}</span>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-1 text-zinc-500">Reglas {rules.gerencia ? `de ${rules.gerencia.name}` : "generales"}</div>
+    </div>
+  );
+}
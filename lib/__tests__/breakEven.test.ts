@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { isViableScenario, solveBreakEven, type BreakEvenScenario } from "@/lib/breakEven";
+import { MARGIN_POLICIES } from "@/lib/margins";
+import { DEFAULT_VIABILITY_RULES, type EffectiveViabilityRules } from "@/lib/viability";
+
+// Sin comisión para que los umbrales salgan a mano: 100 kg/mes a $1.000/kg, costo $600/kg y comodato de $240.000 en 24 meses
+const scenario = (patch: Partial<BreakEvenScenario> = {}): BreakEvenScenario => ({
+  lines: [{ code: "PT-1", name: "PT-1", kilosMes: 100, venta: 100_000, costo: 60_000 }],
+  fixedMonthlyFee: 0,
+  investment: 240_000,
+  months: 24,
+  commissionPct: 0,
+  policy: MARGIN_POLICIES.negocio,
+  ...patch,
+});
+
+const rules = (minMarginPct: number): EffectiveViabilityRules => ({
+  rules: { ...DEFAULT_VIABILITY_RULES, minMarginPct, reviewMarginPct: minMarginPct },
+  lines: [],
+});
+
+describe("solveBreakEven", () => {
+  // Mgn final = (venta − costo − comodato) / venta; con 20% de mínimo y hoy en 30%
+  const r = solveBreakEven(scenario(), rules(0.2));
+
+  it("precio: descuento máximo parejo y $/kg mínimo por línea", () => {
+    // (100.000·f − 70.000) / (100.000·f) = 0,2 → f = 0,875
+    expect(r.priceFactor).toBeCloseTo(0.875, 6);
+    expect(r.linePriceKg[0]).toBeCloseTo(875, 4);
+  });
+
+  it("kilos: la venta y el costo escalan, el comodato no", () => {
+    // (40.000·k − 10.000) / (100.000·k) = 0,2 → k = 0,5
+    expect(r.kilosFactor).toBeCloseTo(0.5, 6);
+  });
+
+  it("inversión máxima con los mismos meses y meses mínimos con la misma inversión", () => {
+    // 40.000 − x/24 = 20.000 → x = 480.000 · 40.000 − 240.000/n ≥ 20.000 → n = 12
+    expect(r.maxInvestment).toBeCloseTo(480_000, 0);
+    expect(r.minMonths).toBe(12);
+  });
+
+  it("sin ninguna palanca que alcance, todo queda en null", () => {
+    // El costo supera diez veces la venta: ni el precio tope ni más kilos ni sin comodato llegan
+    const lost = solveBreakEven(scenario({ lines: [{ code: "PT-1", name: "PT-1", kilosMes: 100, venta: 100_000, costo: 1_100_000 }] }), rules(0.2));
+    expect(lost).toEqual({ linePriceKg: [null], priceFactor: null, kilosFactor: null, maxInvestment: null, minMonths: null });
+  });
+
+  it("sin meses ni inversión no busca comodato", () => {
+    const none = solveBreakEven(scenario({ investment: 0, months: 0 }), rules(0.2));
+    expect(none.maxInvestment).toBeNull();
+    expect(none.minMonths).toBeNull();
+  });
+});
+
+describe("sin venta", () => {
+  it("con un margen mínimo de 0 o menos no propone regalar el producto", () => {
+    // (100.000·f − 70.000) / (100.000·f) = 0 → f = 0,7
+    const r = solveBreakEven(scenario(), rules(0));
+    expect(r.priceFactor).toBeCloseTo(0.7, 6);
+    const loose = solveBreakEven(scenario(), rules(-1e9));
+    expect(loose.priceFactor).toBeGreaterThan(0);
+    expect(loose.kilosFactor).toBeGreaterThan(0);
+    expect(loose.linePriceKg[0]).toBeGreaterThan(0);
+  });
+
+  it("una evaluación sin venta nunca es viable, y sin líneas con venta no hay palanca de precio ni kilos", () => {
+    const empty = scenario({ lines: [{ code: "PT-1", name: "PT-1", kilosMes: 100, venta: 0, costo: 0 }] });
+    expect(isViableScenario(empty, rules(-1e9))).toBe(false);
+    const r = solveBreakEven(empty, rules(-1e9));
+    expect(r).toMatchObject({ linePriceKg: [null], priceFactor: null, kilosFactor: null, maxInvestment: null, minMonths: null });
+  });
+});
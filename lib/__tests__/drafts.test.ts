@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { DRAFT_VERSION, parseDraft, type DraftHistory } from "@/lib/drafts";
+
+const file = (kind: string, version: number, data: unknown) => JSON.stringify({ format: "spartan-draft", kind, version, exportedAt: "2025-01-15T10:00:00.000Z", data });
+
+const quote = {
+  number: "CTZ-2025-00007",
+  dateISO: "2025-01-15",
+  validity: "30 días",
+  client: { name: "Comercial Los Andes", rut: "76.123.456-7" },
+  issuer: { name: "Spartan", contact: "Juan Pérez" },
+  items: [{ code: "pt-1001", description: "Detergente", kilos: 20, qty: "3", unitPrice: 12500 }],
+};
+
+describe("parseDraft", () => {
+  it("lee un borrador de la versión actual y lo normaliza (sin número, códigos en mayúsculas, IVA por defecto)", () => {
+    const d = parseDraft(file("cotizacion", DRAFT_VERSION.cotizacion, quote), "cotizacion");
+    expect(d.number).toBe("");
+    expect(d.client.name).toBe("Comercial Los Andes");
+    expect(d.items).toEqual([{ code: "PT-1001", description: "Detergente", kilos: 20, qty: 3, unitPrice: 12500, discountPct: 0 }]);
+    expect(d.taxPct).toBe(19);
+  });
+
+  it("rechaza un borrador de otro tipo", () => {
+    expect(() => parseDraft(file("simulacion", 1, {}), "cotizacion")).toThrow("El archivo es una simulación de clientes activos, no una cotización.");
+  });
+
+  it("rechaza archivos que no son borradores de la aplicación o JSON mal formado", () => {
+    expect(() => parseDraft("{ no es json", "cotizacion")).toThrow("El archivo no es un JSON válido.");
+    expect(() => parseDraft(JSON.stringify({ kind: "cotizacion", version: 1, data: quote }), "cotizacion")).toThrow("no es un borrador exportado");
+    expect(() => parseDraft(file("factura", 1, quote), "cotizacion")).toThrow("no es un borrador exportado");
+    expect(() => parseDraft(file("cotizacion", 1, null), "cotizacion")).toThrow("El borrador no trae datos.");
+  });
+
+  it("rechaza una versión más nueva que la de la aplicación en vez de cargarla a medias", () => {
+    expect(() => parseDraft(file("cotizacion", DRAFT_VERSION.cotizacion + 1, quote), "cotizacion")).toThrow("versión más nueva");
+  });
+
+  it("rechaza un borrador sin versión válida", () => {
+    expect(() => parseDraft(file("cotizacion", 0, quote), "cotizacion")).toThrow("El borrador no indica su versión.");
+    expect(() => parseDraft(JSON.stringify({ format: "spartan-draft", kind: "cotizacion", data: quote }), "cotizacion")).toThrow("no indica su versión");
+  });
+
+  it("migra un borrador de la versión anterior con la tabla de migraciones", () => {
+    // v1 guardaba el cliente en "cliente" y el descuento como texto "10%"
+    const history: DraftHistory = {
+      current: 2,
+      migrations: [
+        ({ cliente, items, ...rest }) => ({
+          ...rest,
+          client: cliente,
+          items: items.map((it: any) => ({ ...it, discountPct: parseFloat(it.descuento), descuento: undefined })),
+        }),
+      ],
+    };
+    const { client, ...v1 } = quote;
+    const old = { ...v1, cliente: client, items: [{ ...quote.items[0], descuento: "10%" }] };
+
+    const d = parseDraft(file("cotizacion", 1, old), "cotizacion", history);
+    expect(d.client).toMatchObject({ name: "Comercial Los Andes", rut: "76.123.456-7" });
+    expect(d.items[0].discountPct).toBe(10);
+    // Ya en la versión actual no se vuelve a migrar
+    expect(parseDraft(file("cotizacion", 2, quote), "cotizacion", history).client.name).toBe("Comercial Los Andes");
+    expect(() => parseDraft(file("cotizacion", 3, quote), "cotizacion", history)).toThrow("versión más nueva (v3)");
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { MARGIN_POLICIES, computeMargins, monthlyFee, type MarginLine, type MarginPolicy } from "@/lib/margins";
+
+// Línea como la arma Evaluación de Negocio: kilos/mes = cantidad · kilos por formato
+const line = (code: string, qty: number, kilos: number, priceKg: number, costKg: number): MarginLine => {
+  const kilosMes = qty * kilos;
+  return { code, name: code, kilosMes, venta: priceKg * kilosMes, costo: costKg * kilosMes };
+};
+
+const negocio = MARGIN_POLICIES.negocio;
+const clamped: MarginPolicy = { ...negocio, clampCommission: true };
+
+describe("computeMargins", () => {
+  it("reproduce Evaluación de Negocio: comodato repartido por kilos y comisión según relación cdto/venta", () => {
+    const m = computeMargins({
+      lines: [line("PT-1", 10, 20, 1500, 900), line("PT-2", 5, 10, 2000, 1000)],
+      comodatoMensual: monthlyFee(1_200_000, 24),
+      commissionPct: negocio.commissionBase,
+      policy: negocio,
+    });
+    expect(m.ventaTotal).toBe(400_000);
+    expect(m.kilosTotal).toBe(250);
+    expect(m.comodatoMensual).toBe(50_000);
+    expect(m.rel).toBe(0.125);
+    expect(m.comFinalPct).toBeCloseTo(0.091875, 10);
+
+    const [a, b] = m.lines;
+    expect(a.cdtoAsignado).toBe(40_000);
+    expect(b.cdtoAsignado).toBe(10_000);
+    expect(a.mgn1).toBe(120_000);
+    expect(a.mgn2).toBe(80_000);
+    expect(a.comision).toBeCloseTo(27_562.5, 6);
+    expect(a.mgn3).toBeCloseTo(52_437.5, 6);
+    expect(b.mgn3).toBeCloseTo(30_812.5, 6);
+    expect(b.mgn2Pct).toBe(0.4);
+
+    expect(m.comisionTotal).toBeCloseTo(36_750, 6);
+    expect(m.mgn3Total).toBeCloseTo(83_250, 6);
+    expect(m.mgnFinalPct).toBeCloseTo(0.208125, 10);
+    // Como en las páginas: la comisión final es la comisión total sobre la venta
+    expect(m.comFinalPct).toBeCloseTo(m.comisionTotal / m.ventaTotal, 10);
+  });
+
+  it("con comodato mayor que la venta, acotar deja la comisión en 0 y sin acotar la vuelve negativa", () => {
+    const input = { lines: [line("PT-1", 10, 10, 1000, 600)], comodatoMensual: 150_000, commissionPct: 0.02 };
+
+    const on = computeMargins({ ...input, policy: clamped });
+    expect(on.rel).toBe(1.5);
+    expect(on.comFinalPct).toBe(0);
+    expect(on.lines[0].comision).toBe(0);
+    expect(on.mgn3Total).toBe(-110_000);
+
+    const off = computeMargins({ ...input, policy: negocio });
+    expect(off.comFinalPct).toBeCloseTo(-0.01, 10);
+    expect(off.lines[0].comision).toBeCloseTo(-1_000, 6);
+    expect(off.mgn3Total).toBeCloseTo(-109_000, 6);
+  });
+
+  it("bajo la venta acotar no cambia nada", () => {
+    const input = { lines: [line("PT-1", 10, 10, 1000, 600)], comodatoMensual: 25_000, commissionPct: 0.02 };
+    expect(computeMargins({ ...input, policy: clamped })).toEqual(computeMargins({ ...input, policy: negocio }));
+    expect(computeMargins({ ...input, policy: MARGIN_POLICIES["clientes-activos"] }).comFinalPct).toBeCloseTo(0.015, 10);
+  });
+
+  it("sin venta: relación, comisión y margen final en 0, y el comodato igual se asigna por kilos", () => {
+    const m = computeMargins({
+      lines: [line("PT-1", 10, 10, 0, 600)],
+      comodatoMensual: 50_000,
+      commissionPct: negocio.commissionBase,
+      policy: negocio,
+    });
+    expect(m.ventaTotal).toBe(0);
+    expect(m.rel).toBe(0);
+    expect(m.comFinalPct).toBe(0);
+    expect(m.comisionTotal).toBe(0);
+    expect(m.mgnFinalPct).toBe(0);
+    expect(m.lines[0].cdtoAsignado).toBe(50_000);
+    expect(m.lines[0].mgn3).toBe(-110_000);
+    expect(m.lines[0].mgn3Pct).toBe(0);
+  });
+
+  it("sin líneas ni kilos no reparte comodato", () => {
+    const empty = computeMargins({ lines: [], comodatoMensual: 50_000, commissionPct: 0.02, policy: clamped });
+    expect(empty).toMatchObject({ ventaTotal: 0, kilosTotal: 0, rel: 0, comFinalPct: 0, mgn3Total: 0, mgnFinalPct: 0 });
+    const noKilos = computeMargins({
+      lines: [{ code: "PT-1", name: "PT-1", kilosMes: 0, venta: 0, costo: 0 }],
+      comodatoMensual: 50_000,
+      commissionPct: 0.02,
+      policy: clamped,
+    });
+    expect(noKilos.lines[0].cdtoAsignado).toBe(0);
+  });
+});
+
+describe("monthlyFee", () => {
+  it("divide el contrato por los meses y da 0 sin meses", () => {
+    expect(monthlyFee(1_200_000, 24)).toBe(50_000);
+    expect(monthlyFee(1_200_000, 0)).toBe(0);
+  });
+});
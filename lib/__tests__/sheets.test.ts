@@ -0,0 +1,118 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { normalizeGoogleSheetUrl, parseCsv, parseCsvMatrix, parseGviz, parseGvizTable, toNumber } from "@/lib/sheets";
+
+const fixture = (name: string) => readFileSync(path.join(__dirname, "fixtures", name), "utf8");
+
+describe("parseCsv", () => {
+  it("lee una exportación de Excel es-CL: BOM, ';', CRLF, comillas y saltos de línea en celdas", () => {
+    const rows = parseCsv(fixture("ventas-excel.csv"));
+    expect(rows).toHaveLength(2);
+    expect(Object.keys(rows[0])[0]).toBe("Fecha");
+    expect(rows[0]["Èmpleado Ventas"]).toBe("Juan Pérez");
+    expect(rows[0]["Razón Social"]).toBe("Comercial Los Andes; Ltda.");
+    expect(rows[0]["Dirección"]).toBe("Av. Providencia 1234, of. 5");
+    expect(rows[0]["Descripción"]).toBe('Detergente "Max" 20 L');
+    expect(rows[1]["Dirección"]).toBe("Camino Real 55\nBodega 2");
+    expect(toNumber(rows[0].Total)).toBe(1234567);
+    expect(toNumber(rows[1].Cantidad)).toBe(3.5);
+    expect(toNumber(rows[1].Total)).toBe(98765.5);
+  });
+
+  it("lee una exportación CSV de Google Sheets con ',' y decimales con punto", () => {
+    const rows = parseCsv(fixture("catalogo-google.csv"));
+    expect(rows.map((r) => r.code)).toEqual(["PT-1001", "PT-2002"]);
+    expect(rows[0].name).toBe("Detergente industrial, 20 L");
+    expect(rows.map((r) => toNumber(r.cost, "."))).toEqual([0.125, 1234.5]);
+    expect(toNumber(rows[1].price, ".")).toBe(2.125);
+  });
+
+  it("respeta el separador indicado y el ';' dentro de comillas no cuenta al detectarlo", () => {
+    expect(parseCsvMatrix('a;b\n"1;2";3')).toEqual([["a", "b"], ["1;2", "3"]]);
+    expect(parseCsvMatrix('"x;y",z,w\n1,2,3')).toEqual([["x;y", "z", "w"], ["1", "2", "3"]]);
+    expect(parseCsvMatrix("a;b\n1;2", ",")).toEqual([["a;b"], ["1;2"]]);
+  });
+});
+
+describe("parseGviz", () => {
+  it("convierte celdas de fecha y fecha-hora (mes base 0) y deja los números tipados", () => {
+    const rows = parseGviz(fixture("comodatos-gviz.txt"));
+    expect(rows).toHaveLength(2);
+    expect(rows[0].Periodo).toEqual(new Date(2025, 0, 15));
+    expect(rows[0].Actualizado).toEqual(new Date(2025, 0, 15, 10, 30, 0));
+    expect(rows[0].Total).toBe(150000);
+    expect(rows[0].E).toBe(true);
+  });
+
+  it("usa el texto formateado sin valor y vacío sin celda", () => {
+    const { headers, rows } = parseGvizTable(fixture("comodatos-gviz.txt"));
+    expect(headers).toEqual(["Periodo", "Producto", "Total", "Actualizado", "E"]);
+    expect(rows[1]).toEqual(["", "Bomba", "—", "", false]);
+  });
+
+  it("informa el error de GViz", () => {
+    const text = 'google.visualization.Query.setResponse({"status":"error","errors":[{"detailed_message":"Hoja inexistente"}]});';
+    expect(() => parseGviz(text)).toThrow("GViz: Hoja inexistente");
+    expect(() => parseGviz("<html>login</html>")).toThrow("GViz: formato inesperado.");
+  });
+});
+
+describe("normalizeGoogleSheetUrl", () => {
+  it("extrae id y gid de enlaces de edición, exportación y gviz", () => {
+    const id = "1AbC-d_EfGh123";
+    expect(normalizeGoogleSheetUrl(`https://docs.google.com/spreadsheets/d/${id}/edit#gid=456`)).toEqual({
+      id,
+      gid: "456",
+      csvUrl: `https://docs.google.com/spreadsheets/d/${id}/export?format=csv&gid=456`,
+    });
+    expect(normalizeGoogleSheetUrl(`https://docs.google.com/spreadsheets/d/${id}/export?format=csv&gid=7`).gid).toBe("7");
+    expect(normalizeGoogleSheetUrl(`https://docs.google.com/spreadsheets/d/${id}/gviz/tq?tqx=out:json&gid=8`).gid).toBe("8");
+    expect(normalizeGoogleSheetUrl(`https://docs.google.com/spreadsheets/d/${id}/edit`).gid).toBe("0");
+  });
+
+  it("sin id devuelve vacío", () => {
+    expect(normalizeGoogleSheetUrl("https://example.com/planilla")).toEqual({ id: "", gid: "0", csvUrl: "" });
+    expect(normalizeGoogleSheetUrl("")).toEqual({ id: "", gid: "0", csvUrl: "" });
+  });
+});
+
+describe("toNumber", () => {
+  // es-CL por defecto: el punto siempre es de miles, con o sin "$" y con cualquier cantidad de grupos
+  it.each([
+    ["1.250", 1250],
+    ["12.500", 12500],
+    ["1.234.567", 1234567],
+    ["1.234,5", 1234.5],
+    ["0,25", 0.25],
+    ["-0,005", -0.005],
+    ["$ 12.300", 12300],
+    ["$1.234.567,89", 1234567.89],
+    ["-$ 1.500", -1500],
+    ["", 0],
+    ["abc", 0],
+  ])("es-CL: %s → %s", (v, n) => {
+    expect(toNumber(v)).toBe(n);
+    expect(toNumber(v, ",")).toBe(n);
+  });
+
+  // Decimal con punto: la coma es de miles
+  it.each([
+    ["1.250", 1.25],
+    ["12.500", 12.5],
+    ["0.125", 0.125],
+    ["2.125", 2.125],
+    ["-0.005", -0.005],
+    ["1,234.5", 1234.5],
+    ["1,234,567", 1234567],
+    ["$ 12,300", 12300],
+  ])("decimal '.': %s → %s", (v, n) => {
+    expect(toNumber(v, ".")).toBe(n);
+  });
+
+  it("deja los números como vienen y descarta NaN", () => {
+    expect(toNumber(42.5)).toBe(42.5);
+    expect(toNumber(NaN)).toBe(0);
+    expect(toNumber(null)).toBe(0);
+  });
+});
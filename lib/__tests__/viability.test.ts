@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_VIABILITY_RULES, assessViability, mergeRules, resultViability, type ViabilityRules } from "@/lib/viability";
+
+const base: ViabilityRules = { minMarginPct: 0.1, reviewMarginPct: 0.05, maxComodatoRel: null, minVentaMensual: null };
+
+// Lo que mira assessViability de un resultado de computeMargins
+const result = (mgnFinalPct: number, extra: { ventaTotal?: number; rel?: number; lines?: { code: string; venta: number; mgn3: number }[] } = {}) => ({
+  ventaTotal: 1_000_000,
+  rel: 0,
+  lines: [],
+  mgnFinalPct,
+  ...extra,
+});
+
+describe("assessViability", () => {
+  it.each([
+    [0.2, "viable"],
+    [0.1, "viable"],
+    [0.0999, "revision"],
+    [0.05, "revision"],
+    [0.0499, "no-viable"],
+    [-0.1, "no-viable"],
+  ])("Mgn final %s → %s (mín. 10%, revisión desde 5%)", (margin, status) => {
+    expect(assessViability(result(margin), { rules: base, lines: [] }).status).toBe(status);
+  });
+
+  it("sin banda de revisión (igual al mínimo) pasa directo de viable a no viable", () => {
+    const rules = { rules: DEFAULT_VIABILITY_RULES, lines: [] };
+    expect(assessViability(result(0.005), rules).status).toBe("viable");
+    expect(assessViability(result(0.0049), rules).status).toBe("no-viable");
+  });
+
+  it.each([
+    [0.3, "viable"],
+    [0.3001, "revision"],
+  ])("relación comodato/venta %s con máx. 30% → %s", (rel, status) => {
+    const a = assessViability(result(0.2, { rel }), { rules: { ...base, maxComodatoRel: 0.3 }, lines: [] });
+    expect(a.status).toBe(status);
+    expect(a.checks.map((c) => c.label)).toEqual(["Mgn final", "Relación comodato/venta"]);
+  });
+
+  it.each([
+    [500_000, "viable"],
+    [499_999, "no-viable"],
+  ])("venta mensual %s con mín. $500.000 → %s", (ventaTotal, status) => {
+    expect(assessViability(result(0.2, { ventaTotal }), { rules: { ...base, minVentaMensual: 500_000 }, lines: [] }).status).toBe(status);
+  });
+
+  it("las reglas sin límite (null) no generan chequeo", () => {
+    expect(assessViability(result(0.2), { rules: base, lines: [] }).checks).toHaveLength(1);
+  });
+
+  it("líneas de producto: margen por prefijo, solo con venta, y el estado es el peor de todos", () => {
+    const lines = [
+      { code: "pt-1", venta: 100_000, mgn3: 25_000 },
+      { code: "PT-2", venta: 100_000, mgn3: 15_000 },
+      { code: "QM-1", venta: 100_000, mgn3: 5_000 },
+    ];
+    const rules = {
+      rules: base,
+      lines: [
+        { prefix: "PT", name: "Detergentes", minMarginPct: 0.2 },
+        { prefix: "QM", name: "", minMarginPct: 0.06 },
+        { prefix: "EQ", name: "Equipos", minMarginPct: 0.5 },
+      ],
+    };
+    // PT: 40.000 / 200.000 = 20% (justo en el mínimo) · QM: 5% bajo 6% · EQ: sin productos en la evaluación
+    const a = assessViability(result(0.15, { lines }), rules);
+    expect(a.checks.map((c) => [c.label, c.status])).toEqual([
+      ["Mgn final", "viable"],
+      ["Mgn final línea Detergentes", "viable"],
+      ["Mgn final línea QM", "revision"],
+    ]);
+    expect(a.checks[1].value).toBeCloseTo(0.2, 10);
+    expect(a.status).toBe("revision");
+    // Una línea nunca deja peor que Requiere revisión; el margen global sí
+    expect(assessViability(result(0.01, { lines }), rules).status).toBe("no-viable");
+  });
+});
+
+describe("mergeRules", () => {
+  it("la Gerencia reemplaza solo lo que define; lo demás queda como en las reglas base", () => {
+    const rules = { ...base, maxComodatoRel: 0.4, minVentaMensual: 300_000 };
+    expect(mergeRules(rules, { minMarginPct: 0.15, minVentaMensual: null })).toEqual({
+      minMarginPct: 0.15,
+      reviewMarginPct: 0.05,
+      maxComodatoRel: 0.4,
+      minVentaMensual: null,
+    });
+    // Las reglas base no cambian
+    expect(rules.minMarginPct).toBe(0.1);
+  });
+
+  it("sin cambios (o con campos undefined) devuelve las reglas base", () => {
+    expect(mergeRules(base)).toEqual(base);
+    expect(mergeRules(base, { minMarginPct: undefined })).toEqual(base);
+  });
+
+  it("con las reglas de la Gerencia el mismo margen cambia de estado", () => {
+    const m = result(0.08);
+    expect(assessViability(m, { rules: base, lines: [] }).status).toBe("revision");
+    expect(assessViability(m, { rules: mergeRules(base, { minMarginPct: 0.08 }), lines: [] }).status).toBe("viable");
+    expect(assessViability(m, { rules: mergeRules(base, { reviewMarginPct: 0.09 }), lines: [] }).status).toBe("no-viable");
+  });
+});
+
+describe("resultViability", () => {
+  it("usa el estado guardado y, en lo guardado antes de las reglas, viable / no viable", () => {
+    expect(resultViability({ viable: false, viability: "revision" })).toBe("revision");
+    expect(resultViability({ viable: true })).toBe("viable");
+    expect(resultViability({ viable: false })).toBe("no-viable");
+  });
+});
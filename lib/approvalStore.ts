@@ -0,0 +1,249 @@
+import { readJson, updateJson, writeJson } from "@/lib/store";
+import { can, inScope, userScope, type User } from "@/lib/auth";
+import { AuthError } from "@/lib/userStore";
+import { getEvaluation, setEvaluationApproval, withEvaluationResults } from "@/lib/evaluationStore";
+import { normalizeDraft, type SimulationDraft } from "@/lib/drafts";
+import { assessViability, resultViability } from "@/lib/viability";
+import { effectiveViabilityRules } from "@/lib/viabilityStore";
+import { MARGIN_POLICIES, computeMargins } from "@/lib/margins";
+import { getSourceRecords } from "@/lib/sheetCache";
+import { getVentasRecords } from "@/lib/ventasCache";
+import { aggregateVentas, sanitizeRut } from "@/lib/ventasHistorico";
+import { CATALOG_SCHEMA, COMODATOS_SCHEMA } from "@/lib/schemas";
+import {
+  APPROVAL_STATUS_LABEL,
+  approvalRef,
+  toApprovalSummary,
+  type ApprovalDecision,
+  type ApprovalFilter,
+  type ApprovalRequest,
+  type ApprovalSummary,
+  type SimulationSnapshot,
+} from "@/lib/approvals";
+import type { AuditActor } from "@/lib/audit";
+
+/* ===================== STORAGE ===================== */
+// data/approvals/index.json: resúmenes · data/approvals/<id>.json: solicitud con su copia · data/approvals/<id>-pdf.json: PDF en base64
+type Index = { lastId: number; requests: ApprovalSummary[] };
+type StoredPdf = { fileName: string; contentType: "application/pdf"; data: string };
+const INDEX = "approvals/index";
+const requestKey = (id: string) => `approvals/${id}`;
+const pdfKey = (id: string) => `approvals/${id}-pdf`;
+const formatId = (n: number) => `VB-${String(n).padStart(5, "0")}`;
+const ID_RE = /^VB-\d+$/;
+const EMPTY: Index = { lastId: 0, requests: [] };
+const MAX_PDF_BYTES = 5 * 1024 * 1024;
+
+function actor(user: User): AuditActor {
+  return { id: user.id, username: user.username, name: user.name };
+}
+
+/* ===================== VALIDACIÓN ===================== */
+const str = (v: unknown, max = 200) => String(v ?? "").trim().slice(0, max);
+
+function parsePdf(v: any): StoredPdf & { size: number } {
+  const data = typeof v?.data === "string" ? v.data.replace(/^data:[^,]*,/, "") : "";
+  const bytes = Buffer.from(data, "base64");
+  if (!bytes.length || bytes.subarray(0, 4).toString("latin1") !== "%PDF") throw new Error("Falta el PDF de la evaluación.");
+  if (bytes.length > MAX_PDF_BYTES) throw new Error("El PDF supera los 5 MB.");
+  const fileName = str(v.fileName, 120).replace(/[^A-Za-z0-9_.-]+/g, "_") || "evaluacion.pdf";
+  return { fileName, contentType: "application/pdf", data: bytes.toString("base64"), size: bytes.length };
+}
+
+/**
+ * Recalcula la simulación de Clientes Activos con los datos del servidor, como la página: Ventas 6M del cliente
+ * (solo la cartera del usuario), costos del catálogo (o su precio lista), comodatos vigentes y los propuestos.
+ * Los resultados que manda el navegador no se usan: el VB exige que no sea No viable.
+ */
+async function simulate(user: User, s: SimulationDraft): Promise<SimulationSnapshot> {
+  const months = Math.max(1, s.params.months);
+  const cliente = s.cliente.rut ? { rut: sanitizeRut(s.cliente.rut) } : { cardCode: s.cliente.codigo };
+  const ventas = aggregateVentas((await getVentasRecords()).records, { ...cliente, months: 6, product: "PT", ejecutivos: userScope(user) });
+  const catalog = new Map((await getSourceRecords("catalogo", CATALOG_SCHEMA)).map((i) => [i.code, i]));
+  const lines = ventas.items.map((v) => {
+    const item = catalog.get(v.code);
+    const costoKg = Number(item?.cost ?? item?.price_list ?? 0);
+    const precioPromKg = v.kilos > 0 ? v.venta / v.kilos : 0;
+    const margenDirectoPct = precioPromKg > 0 ? (precioPromKg - costoKg) / precioPromKg : 0;
+    return { code: v.code, name: v.name, kilosMes: v.kilos / 6, venta: v.venta / 6, costo: (v.venta / 6) * (1 - margenDirectoPct) };
+  });
+
+  const rut = sanitizeRut(s.cliente.rut || ventas.cliente?.rut || "");
+  const vigentes = (await getSourceRecords("comodatos", COMODATOS_SCHEMA))
+    .filter((r) => !rut || sanitizeRut(r.rut) === rut)
+    .reduce((a, r) => a + r.total / months, 0);
+  const propuestos = s.proposed.reduce((a, p) => a + (Math.max(0, p.qty) * Math.max(0, p.unit)) / Math.max(1, p.contractMonths || months), 0);
+
+  const m = computeMargins({
+    lines,
+    comodatoMensual: vigentes + propuestos,
+    commissionPct: s.params.commissionPct,
+    policy: MARGIN_POLICIES["clientes-activos"],
+  });
+  const ejecutivo = ventas.cliente?.ejecutivo || s.ejecutivo || user.ejecutivo || "";
+  const { status } = assessViability(m, await effectiveViabilityRules(ejecutivo));
+  return {
+    ...s,
+    ejecutivo,
+    results: {
+      promVentaMensual: m.ventaTotal,
+      comodatoMensual: m.comodatoMensual,
+      rel: m.rel,
+      comFinalPct: m.comFinalPct,
+      viabilidadPct: m.mgnFinalPct,
+      viable: status === "viable",
+      viability: status,
+    },
+  };
+}
+
+/* ===================== ACCESO ===================== */
+// Igual que las evaluaciones: lo propio y lo de la cartera visible (Gerencia resuelve las de su equipo)
+export function canSeeApproval(user: User, r: Pick<ApprovalRequest, "ejecutivo" | "createdBy">) {
+  return r.createdBy?.id === user.id || inScope(userScope(user))(r.ejecutivo);
+}
+
+/** Como la ve el usuario: sin costos ni margen en la copia si su rol no los ve. */
+export function visibleApproval(user: User, r: ApprovalRequest): ApprovalRequest {
+  if (!r.evaluation || can(user, "view-costs")) return r;
+  const { mgnFinalPct: _, ...results } = r.evaluation.results;
+  return { ...r, evaluation: { ...r.evaluation, results, sales: r.evaluation.sales.map(({ costKg: _c, ...l }) => l) } };
+}
+
+/* ===================== LECTURA ===================== */
+function matches(r: ApprovalSummary, f: ApprovalFilter) {
+  if (f.status && r.status !== f.status) return false;
+  if (f.evaluationId && r.evaluationId !== f.evaluationId) return false;
+  if (!f.q) return true;
+  const q = f.q.toLowerCase();
+  return [r.id, r.evaluationId, r.cliente.nombre, r.cliente.rut, r.cliente.codigo, r.ejecutivo, r.createdBy?.name].some((s) =>
+    String(s ?? "").toLowerCase().includes(q)
+  );
+}
+
+/** Solicitudes visibles para el usuario: las pendientes primero y, dentro de cada grupo, la última modificada. */
+export async function listApprovals(user: User, filter: ApprovalFilter = {}): Promise<ApprovalSummary[]> {
+  const { requests } = await readJson<Index>(INDEX, EMPTY);
+  return requests
+    .filter((r) => canSeeApproval(user, r) && matches(r, filter))
+    .sort((a, b) => Number(b.status === "pendiente") - Number(a.status === "pendiente") || (a.updatedAt < b.updatedAt ? 1 : -1));
+}
+
+export async function getApproval(user: User, id: string): Promise<ApprovalRequest> {
+  const r = ID_RE.test(id) ? await readJson<ApprovalRequest | null>(requestKey(id), null) : null;
+  // Una solicitud ajena responde igual que una inexistente
+  if (!r || !canSeeApproval(user, r)) throw new AuthError("Solicitud desconocida.", 404);
+  return r;
+}
+
+export async function getApprovalPdf(user: User, id: string): Promise<StoredPdf> {
+  await getApproval(user, id);
+  const pdf = await readJson<StoredPdf | null>(pdfKey(id), null);
+  if (!pdf) throw new AuthError("La solicitud no tiene PDF.", 404);
+  return pdf;
+}
+
+/* ===================== ESCRITURA ===================== */
+// El archivo de la solicitud y su resumen se actualizan dentro de la cola del índice. La solicitud se vuelve a leer ahí:
+// change valida el estado actual, así dos decisiones a la vez no resuelven dos veces la misma solicitud
+async function store(id: string, change: (current: ApprovalRequest) => ApprovalRequest): Promise<{ before: ApprovalRequest; after: ApprovalRequest }> {
+  let result: { before: ApprovalRequest; after: ApprovalRequest } | null = null;
+  await updateJson<Index>(INDEX, EMPTY, async (idx) => {
+    const before = await readJson<ApprovalRequest | null>(requestKey(id), null);
+    if (!before) throw new AuthError("Solicitud desconocida.", 404);
+    const after = change(before);
+    await writeJson(requestKey(id), after);
+    result = { before, after };
+    return { ...idx, requests: [...idx.requests.filter((x) => x.id !== id), toApprovalSummary(after)] };
+  });
+  const { before, after } = result!;
+  if (after.evaluationId) await setEvaluationApproval(after.evaluationId, approvalRef(after));
+  return { before, after };
+}
+
+/** Qué se envía a aprobar: la evaluación guardada tal como está, o la simulación que manda el navegador. */
+async function subject(user: User, body: any) {
+  if (body.source === "evaluacion") {
+    const stored = await getEvaluation(user, str(body.evaluationId, 20));
+    if (stored.status === "archivada") throw new Error(`La evaluación ${stored.id} está archivada.`);
+    // Con las reglas vigentes, no con las del día en que se guardó
+    const e = { ...stored, ...(await withEvaluationResults(stored)) };
+    if (resultViability(e.results) === "no-viable") throw new Error(`La evaluación ${e.id} no es viable: no se solicita VB.`);
+    const { cliente, ejecutivo, fecha, sales, comodatos, params, results, catalogVersion } = e;
+    return {
+      source: "evaluacion" as const,
+      evaluationId: e.id,
+      cliente: { nombre: cliente.nombre, rut: cliente.rut },
+      ejecutivo,
+      evaluation: { cliente, ejecutivo, fecha, sales, comodatos, params, results, catalogVersion },
+      venta: results.ventaTotal,
+      comodato: results.comodatoMensual,
+    };
+  }
+  if (body.source === "clientes-activos") {
+    const draft = normalizeDraft("simulacion", body.simulation);
+    if (!draft.cliente.nombre && !draft.cliente.codigo) throw new Error("Falta el cliente de la simulación.");
+    if (!draft.cliente.rut && !draft.cliente.codigo) throw new Error("Falta el RUT o el código del cliente de la simulación.");
+    const s = await simulate(user, draft);
+    if (resultViability(s.results) === "no-viable") throw new Error("La simulación no es viable: no se solicita VB.");
+    return {
+      source: "clientes-activos" as const,
+      cliente: { nombre: s.cliente.nombre, rut: s.cliente.rut, codigo: s.cliente.codigo },
+      ejecutivo: s.ejecutivo,
+      simulation: s,
+      venta: s.results.promVentaMensual,
+      comodato: s.results.comodatoMensual,
+    };
+  }
+  throw new Error("Origen de la solicitud desconocido.");
+}
+
+/** Crea la solicitud pendiente con su copia y su PDF; una evaluación no puede tener dos pendientes. */
+export async function createApproval(user: User, body: any): Promise<ApprovalRequest> {
+  if (!body || typeof body !== "object") throw new Error("Solicitud inválida.");
+  const pdf = parsePdf(body.pdf);
+  const s = await subject(user, body);
+  const now = new Date().toISOString();
+  let request: ApprovalRequest | null = null;
+  await updateJson<Index>(INDEX, EMPTY, async (idx) => {
+    const open = s.evaluationId && idx.requests.find((r) => r.evaluationId === s.evaluationId && r.status === "pendiente");
+    if (open) throw new Error(`La evaluación ${s.evaluationId} ya tiene la solicitud ${open.id} pendiente.`);
+    const id = formatId(idx.lastId + 1);
+    request = {
+      id,
+      ...s,
+      pdf: { fileName: pdf.fileName, size: pdf.size },
+      status: "pendiente",
+      history: [{ status: "pendiente", at: now, by: actor(user) }],
+      createdAt: now,
+      updatedAt: now,
+      createdBy: actor(user),
+      updatedBy: actor(user),
+    };
+    await writeJson(pdfKey(id), { fileName: pdf.fileName, contentType: pdf.contentType, data: pdf.data });
+    await writeJson(requestKey(id), request);
+    return { lastId: idx.lastId + 1, requests: [...idx.requests, toApprovalSummary(request)] };
+  });
+  const r = request!;
+  if (r.evaluationId) await setEvaluationApproval(r.evaluationId, approvalRef(r));
+  return r;
+}
+
+/** Aprobar, rechazar o pedir cambios; rechazo y cambios llevan comentario para el ejecutivo. Nadie resuelve su propia solicitud. */
+export async function decideApproval(user: User, id: string, status: ApprovalDecision, comment?: string): Promise<{ before: ApprovalRequest; after: ApprovalRequest }> {
+  const seen = await getApproval(user, id);
+  if (seen.createdBy?.id === user.id) throw new AuthError("No puedes resolver una solicitud que enviaste tú.", 403);
+  const note = str(comment, 1000);
+  if (status !== "aprobada" && !note) throw new Error("Indica el motivo en el comentario.");
+  return store(id, (before) => {
+    if (before.status !== "pendiente") throw new Error(`La solicitud ${id} ya está ${APPROVAL_STATUS_LABEL[before.status].toLowerCase()}.`);
+    const now = new Date().toISOString();
+    return {
+      ...before,
+      status,
+      history: [...before.history, { status, at: now, by: actor(user), ...(note && { comment: note }) }],
+      updatedAt: now,
+      updatedBy: actor(user),
+    };
+  });
+}
@@ -0,0 +1,132 @@
+import type { AuditActor } from "@/lib/audit";
+import { postJson } from "@/lib/auth";
+import type { SimulationDraft } from "@/lib/drafts";
+import type { EvaluationInput } from "@/lib/evaluations";
+import type { ViabilityStatus } from "@/lib/viability";
+
+/* ===================== TIPOS ===================== */
+// Solicitudes de VB comodato: el ejecutivo envía una evaluación viable o por revisar (copia + PDF) y Gerencia la resuelve
+export type ApprovalStatus = "pendiente" | "aprobada" | "rechazada" | "cambios";
+export const APPROVAL_STATUS_LABEL: Record<ApprovalStatus, string> = {
+  pendiente: "Pendiente",
+  aprobada: "Aprobada",
+  rechazada: "Rechazada",
+  cambios: "Cambios solicitados",
+};
+export const APPROVAL_STATUSES = Object.keys(APPROVAL_STATUS_LABEL) as ApprovalStatus[];
+
+/** Lo que resuelve quien aprueba, solo sobre una solicitud pendiente. */
+export type ApprovalDecision = Exclude<ApprovalStatus, "pendiente">;
+export const APPROVAL_ACTION_LABEL: Record<ApprovalDecision, string> = {
+  aprobada: "Aprobar",
+  cambios: "Pedir cambios",
+  rechazada: "Rechazar",
+};
+export const APPROVAL_DECISIONS = Object.keys(APPROVAL_ACTION_LABEL) as ApprovalDecision[];
+
+export function isApprovalDecision(v: unknown): v is ApprovalDecision {
+  return typeof v === "string" && v in APPROVAL_ACTION_LABEL;
+}
+
+/** Evaluación de negocio guardada o simulación de Clientes Activos (esta no se guarda aparte). */
+export type ApprovalSource = "evaluacion" | "clientes-activos";
+export const APPROVAL_SOURCE_LABEL: Record<ApprovalSource, string> = {
+  evaluacion: "Evaluación de negocio",
+  "clientes-activos": "Clientes activos",
+};
+
+export type SimulationResults = {
+  promVentaMensual: number;
+  comodatoMensual: number;
+  rel: number;
+  comFinalPct: number;
+  viabilidadPct: number;
+  viable: boolean;
+  viability?: ViabilityStatus;
+};
+export type SimulationSnapshot = SimulationDraft & { results: SimulationResults };
+
+/** Cada cambio de estado, con fecha, quién y su comentario (el primero es la solicitud). */
+export type ApprovalEvent = { status: ApprovalStatus; at: string; by: AuditActor; comment?: string };
+
+export type ApprovalRequest = {
+  /** "VB-00012" */
+  id: string;
+  source: ApprovalSource;
+  evaluationId?: string;
+  cliente: { nombre: string; rut: string; codigo?: string };
+  /** "Empleado Ventas" dueño de la solicitud: define quién la ve (ver userScope). */
+  ejecutivo: string;
+  /** Copia de lo evaluado al pedir el VB: no cambia aunque después se edite la evaluación. */
+  evaluation?: EvaluationInput;
+  simulation?: SimulationSnapshot;
+  /** Venta y comodato mensuales al pedir el VB (para listar sin abrir la copia). */
+  venta: number;
+  comodato: number;
+  pdf: { fileName: string; size: number };
+  status: ApprovalStatus;
+  history: ApprovalEvent[];
+  createdAt: string;
+  updatedAt: string;
+  createdBy: AuditActor;
+  updatedBy: AuditActor;
+};
+
+/** Fila del listado: sin la copia ni el historial. */
+export type ApprovalSummary = Omit<ApprovalRequest, "evaluation" | "simulation" | "history"> & { lastComment?: string };
+
+/** Última solicitud de una evaluación, guardada con ella para mostrar su estado. */
+export type ApprovalRef = { id: string; status: ApprovalStatus; at: string; comment?: string };
+
+export type ApprovalFilter = {
+  /** Texto libre sobre id, cliente, RUT y ejecutivo. */
+  q?: string;
+  status?: ApprovalStatus;
+  evaluationId?: string;
+};
+
+export function toApprovalSummary({ evaluation: _e, simulation: _s, history, ...rest }: ApprovalRequest): ApprovalSummary {
+  const comment = history[history.length - 1]?.comment;
+  return { ...rest, ...(comment && { lastComment: comment }) };
+}
+
+export function approvalRef(r: ApprovalRequest): ApprovalRef {
+  const last = r.history[r.history.length - 1];
+  return { id: r.id, status: r.status, at: r.updatedAt, ...(last?.comment && { comment: last.comment }) };
+}
+
+/* ===================== CLIENTE ===================== */
+export async function fetchApprovals(filter: ApprovalFilter = {}): Promise<ApprovalSummary[]> {
+  const p = new URLSearchParams();
+  for (const [k, v] of Object.entries(filter)) if (v) p.set(k, v);
+  const r = await fetch(`/api/approvals?${p}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudieron leer las solicitudes (${r.status})`);
+  return json.requests;
+}
+
+export async function fetchApproval(id: string): Promise<ApprovalRequest> {
+  const r = await fetch(`/api/approvals/${encodeURIComponent(id)}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudo abrir la solicitud ${id} (${r.status})`);
+  return json.request;
+}
+
+export function approvalPdfUrl(id: string) {
+  return `/api/approvals/${encodeURIComponent(id)}/pdf`;
+}
+
+/** PDF generado en el navegador, en base64 (sin el prefijo data:). */
+export type ApprovalPdf = { fileName: string; data: string };
+
+export type ApprovalSubmission =
+  | { source: "evaluacion"; evaluationId: string; pdf: ApprovalPdf }
+  | { source: "clientes-activos"; simulation: SimulationSnapshot; pdf: ApprovalPdf };
+
+export async function requestApproval(body: ApprovalSubmission): Promise<ApprovalRequest> {
+  return (await postJson<{ request: ApprovalRequest }>("/api/approvals", body)).request;
+}
+
+export async function decideApproval(id: string, status: ApprovalDecision, comment?: string): Promise<ApprovalRequest> {
+  return (await postJson<{ request: ApprovalRequest }>(`/api/approvals/${encodeURIComponent(id)}/decision`, { status, comment })).request;
+}
@@ -0,0 +1,140 @@
+import { toCsv } from "@/lib/sheets";
+
+/* ===================== TIPOS ===================== */
+export type AuditAction =
+  | "auth.login"
+  | "auth.logout"
+  | "user.create"
+  | "user.update"
+  | "source.update"
+  | "source.file.upload"
+  | "source.file.delete"
+  | "catalog.version"
+  | "config.change"
+  | "pdf.generate"
+  | "quote.print"
+  | "evaluation.create"
+  | "evaluation.update"
+  | "evaluation.archive"
+  | "evaluation.restore"
+  | "quote.issue"
+  | "quote.convert"
+  | "salesnote.create"
+  | "salesnote.update"
+  | "salesnote.status"
+  | "approval.request"
+  | "approval.decide"
+  | "mail.send"
+  | "mail.config"
+  | "viability.config";
+
+export const AUDIT_ACTION_LABEL: Record<AuditAction, string> = {
+  "auth.login": "Inicio de sesión",
+  "auth.logout": "Cierre de sesión",
+  "user.create": "Usuario creado",
+  "user.update": "Usuario modificado",
+  "source.update": "Fuente modificada",
+  "source.file.upload": "Archivo de fuente subido",
+  "source.file.delete": "Archivo de fuente quitado",
+  "catalog.version": "Nueva versión del catálogo",
+  "config.change": "Configuración cambiada",
+  "pdf.generate": "PDF generado",
+  "quote.print": "Cotización impresa",
+  "evaluation.create": "Evaluación creada",
+  "evaluation.update": "Evaluación modificada",
+  "evaluation.archive": "Evaluación archivada",
+  "evaluation.restore": "Evaluación restaurada",
+  "quote.issue": "Cotización emitida",
+  "quote.convert": "Cotización convertida a NV",
+  "salesnote.create": "Nota de venta creada",
+  "salesnote.update": "Nota de venta modificada",
+  "salesnote.status": "Estado de nota de venta",
+  "approval.request": "VB comodato solicitado",
+  "approval.decide": "VB comodato resuelto",
+  "mail.send": "Correo enviado",
+  "mail.config": "Configuración de correo",
+  "viability.config": "Reglas de viabilidad",
+};
+export const AUDIT_ACTIONS = Object.keys(AUDIT_ACTION_LABEL) as AuditAction[];
+
+// Las demás acciones las registra el servidor al ejecutarlas; el navegador solo informa estas
+export const CLIENT_AUDIT_ACTIONS: AuditAction[] = ["config.change", "pdf.generate", "quote.print"];
+
+export function isAuditAction(v: unknown): v is AuditAction {
+  return typeof v === "string" && (AUDIT_ACTIONS as string[]).includes(v);
+}
+
+/** Quién hizo la acción (copia al momento: si luego se renombra el usuario, la entrada no cambia). */
+export type AuditActor = { id: string; username: string; name: string } | null;
+
+export type AuditEntry = {
+  id: number;
+  at: string;
+  user: AuditActor;
+  action: AuditAction;
+  /** Tipo de cosa afectada ("config", "fuente", "evaluacion"…) e identificador dentro de ese tipo. */
+  entity: string;
+  entityId?: string;
+  before?: unknown;
+  after?: unknown;
+  detail?: string;
+};
+export type AuditInput = Omit<AuditEntry, "id" | "at" | "user">;
+
+export type AuditFilter = {
+  /** yyyy-mm-dd, inclusive. */
+  from?: string;
+  to?: string;
+  /** username exacto. */
+  user?: string;
+  action?: string;
+  entity?: string;
+  /** Texto libre sobre entityId, detalle y valores. */
+  q?: string;
+  limit?: number;
+};
+
+/* ===================== CLIENTE ===================== */
+/** Informa una acción del navegador (no bloquea ni falla; el servidor agrega usuario y fecha). */
+export function logAudit(input: AuditInput) {
+  fetch("/api/audit", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  }).catch(() => undefined);
+}
+
+function filterQuery(f: AuditFilter) {
+  const p = new URLSearchParams();
+  for (const [k, v] of Object.entries(f)) if (v !== undefined && v !== "") p.set(k, String(v));
+  return p.toString();
+}
+
+export async function fetchAudit(filter: AuditFilter = {}): Promise<{ entries: AuditEntry[]; total: number }> {
+  const r = await fetch(`/api/audit?${filterQuery(filter)}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudo leer la auditoría (${r.status})`);
+  return json;
+}
+
+/* ===================== EXPORTAR ===================== */
+function valueText(v: unknown) {
+  return v === undefined ? "" : typeof v === "string" ? v : JSON.stringify(v);
+}
+
+export function auditCsv(entries: AuditEntry[]): string {
+  const headers = ["id", "fecha", "usuario", "nombre", "accion", "entidad", "id_entidad", "antes", "despues", "detalle"];
+  const rows = entries.map((e) => [
+    e.id,
+    e.at,
+    e.user?.username ?? "",
+    e.user?.name ?? "",
+    e.action,
+    e.entity,
+    e.entityId ?? "",
+    valueText(e.before),
+    valueText(e.after),
+    e.detail ?? "",
+  ]);
+  return toCsv(headers, rows);
+}
@@ -0,0 +1,93 @@
+import { readJson, updateJson } from "@/lib/store";
+import type { User } from "@/lib/auth";
+import type { AuditEntry, AuditFilter, AuditInput } from "@/lib/audit";
+
+/* ===================== STORAGE ===================== */
+// data/audit/<yyyy-mm>.json: entradas del mes, en orden · data/audit/index.json: meses con entradas y último id.
+// Solo se agregan entradas: no hay función para modificar ni borrar.
+type Index = { lastId: number; months: string[] };
+const INDEX = "audit/index";
+const monthKey = (month: string) => `audit/${month}`;
+
+const MAX_TEXT = 500;
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 5000;
+
+// Textos largos (logos data:, URLs) se recortan para que el registro no crezca sin control
+function compact(v: unknown, depth = 0): unknown {
+  if (typeof v === "string") return v.length > MAX_TEXT ? `${v.slice(0, MAX_TEXT)}… (${v.length} caracteres)` : v;
+  if (v === null || typeof v !== "object" || depth > 4) return v;
+  if (Array.isArray(v)) return v.slice(0, 100).map((x) => compact(x, depth + 1));
+  return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, compact(x, depth + 1)]));
+}
+
+/* ===================== ESCRITURA ===================== */
+export async function appendAudit(user: Pick<User, "id" | "username" | "name"> | null, input: AuditInput): Promise<AuditEntry> {
+  const at = new Date().toISOString();
+  const month = at.slice(0, 7);
+  let entry: AuditEntry | null = null;
+  // El índice reparte los id; el archivo del mes se escribe dentro de la misma cola para mantener el orden
+  await updateJson<Index>(INDEX, { lastId: 0, months: [] }, async (idx) => {
+    entry = {
+      id: idx.lastId + 1,
+      at,
+      user: user ? { id: user.id, username: user.username, name: user.name } : null,
+      action: input.action,
+      entity: String(input.entity || "").slice(0, 60),
+      ...(input.entityId !== undefined && { entityId: String(input.entityId).slice(0, 200) }),
+      ...(input.before !== undefined && { before: compact(input.before) }),
+      ...(input.after !== undefined && { after: compact(input.after) }),
+      ...(input.detail && { detail: String(input.detail).slice(0, MAX_TEXT) }),
+    };
+    await updateJson<AuditEntry[]>(monthKey(month), [], (list) => [...list, entry!]);
+    return { lastId: entry.id, months: idx.months.includes(month) ? idx.months : [...idx.months, month] };
+  });
+  return entry!;
+}
+
+/** Nunca interrumpe la acción auditada: si el registro falla, se informa en el log del servidor. */
+export async function audit(user: Pick<User, "id" | "username" | "name"> | null, input: AuditInput) {
+  await appendAudit(user, input).catch((e) => console.error("auditoría:", e));
+}
+
+/** Solo los campos que cambiaron, como { before, after }; null si no cambió ninguno. */
+export function changedFields<T extends object>(before: T, after: T, keys: (keyof T)[]) {
+  const changed = keys.filter((k) => JSON.stringify(before[k]) !== JSON.stringify(after[k]));
+  if (!changed.length) return null;
+  const pick = (o: T) => Object.fromEntries(changed.map((k) => [k, o[k]]));
+  return { before: pick(before), after: pick(after) };
+}
+
+/* ===================== LECTURA ===================== */
+function matches(e: AuditEntry, f: AuditFilter) {
+  const day = e.at.slice(0, 10);
+  if (f.from && day < f.from) return false;
+  if (f.to && day > f.to) return false;
+  if (f.user && e.user?.username !== f.user) return false;
+  if (f.action && e.action !== f.action) return false;
+  if (f.entity && e.entity !== f.entity) return false;
+  if (f.q) {
+    const text = [e.entityId, e.detail, JSON.stringify(e.before ?? ""), JSON.stringify(e.after ?? "")].join(" ").toLowerCase();
+    if (!text.includes(f.q.toLowerCase())) return false;
+  }
+  return true;
+}
+
+/** Entradas que cumplen el filtro, la más nueva primero (hasta limit); total cuenta todas las que cumplen. */
+export async function listAudit(filter: AuditFilter = {}): Promise<{ entries: AuditEntry[]; total: number }> {
+  const limit = Math.min(MAX_LIMIT, Math.max(1, Math.floor(filter.limit || DEFAULT_LIMIT)));
+  const { months } = await readJson<Index>(INDEX, { lastId: 0, months: [] });
+  // Solo se leen los meses dentro del rango pedido
+  const inRange = months.filter((m) => (!filter.from || m >= filter.from.slice(0, 7)) && (!filter.to || m <= filter.to.slice(0, 7)));
+  const entries: AuditEntry[] = [];
+  let total = 0;
+  for (const m of inRange.sort().reverse()) {
+    const list = await readJson<AuditEntry[]>(monthKey(m), []);
+    for (let i = list.length - 1; i >= 0; i--) {
+      if (!matches(list[i], filter)) continue;
+      total++;
+      if (entries.length < limit) entries.push(list[i]);
+    }
+  }
+  return { entries, total };
+}
@@ -0,0 +1,170 @@
+/* ===================== TIPOS ===================== */
+export type Role = "usuario" | "gerencia" | "administradora";
+
+export type User = {
+  id: string;
+  /** Nombre de acceso, en minúsculas. */
+  username: string;
+  name: string;
+  role: Role;
+  /** Nombre en "Empleado Ventas" (Ventas y Maestro SN) de su cartera; null si no vende. */
+  ejecutivo: string | null;
+  /** Solo Gerencia: ejecutivos de su equipo. */
+  team: string[];
+  disabled: boolean;
+  createdAt: string;
+  lastLoginAt: string | null;
+};
+
+export const ROLES: Role[] = ["usuario", "gerencia", "administradora"];
+export const ROLE_LABEL: Record<Role, string> = { usuario: "Usuario", gerencia: "Gerencia", administradora: "Administradora" };
+
+export function isRole(v: unknown): v is Role {
+  return typeof v === "string" && (ROLES as string[]).includes(v);
+}
+
+/* ===================== PERMISOS ===================== */
+export type Capability =
+  | "view-costs" // costos, márgenes y subcálculos por producto
+  | "edit-sources" // Fuentes de datos, archivos de reemplazo y URLs
+  | "edit-config" // logo y parámetros compartidos de los documentos
+  | "approve-comodato"
+  | "manage-sales-notes" // aprobar, despachar y facturar notas de venta
+  | "mail-any-recipient" // enviar documentos a direcciones fuera de los destinatarios configurados
+  | "see-all-executives"
+  | "manage-users"
+  | "view-audit";
+
+export const CAPABILITY_LABEL: Record<Capability, string> = {
+  "view-costs": "Ver costos y márgenes",
+  "edit-sources": "Editar fuentes de datos",
+  "edit-config": "Editar configuración",
+  "approve-comodato": "Aprobar comodatos",
+  "manage-sales-notes": "Aprobar, despachar y facturar notas de venta",
+  "mail-any-recipient": "Enviar correos a cualquier destinatario",
+  "see-all-executives": "Ver todos los ejecutivos",
+  "manage-users": "Administrar usuarios",
+  "view-audit": "Ver auditoría",
+};
+
+export const ROLE_CAPABILITIES: Record<Role, Capability[]> = {
+  usuario: [],
+  gerencia: ["view-costs", "approve-comodato", "manage-sales-notes", "mail-any-recipient"],
+  administradora: ["view-costs", "edit-sources", "edit-config", "approve-comodato", "manage-sales-notes", "mail-any-recipient", "see-all-executives", "manage-users", "view-audit"],
+};
+
+/** ¿El rol (o el usuario) tiene el permiso? Sin sesión, nunca. */
+export function can(who: Role | { role: Role } | null | undefined, cap: Capability) {
+  const role = typeof who === "string" ? who : who?.role;
+  return !!role && ROLE_CAPABILITIES[role].includes(cap);
+}
+
+// Rutas protegidas por permiso (las aplica el middleware; gana la primera que coincide).
+// methods: solo esos métodos lo exigen (leer el registro de fuentes es libre, modificarlo no).
+export const ROUTE_CAPABILITIES: { pattern: RegExp; cap: Capability; methods?: string[] }[] = [
+  { pattern: /^\/fuentes\/catalogo(\/|$)/, cap: "view-costs" },
+  { pattern: /^\/fuentes(\/|$)/, cap: "edit-sources" },
+  { pattern: /^\/usuarios(\/|$)/, cap: "manage-users" },
+  { pattern: /^\/api\/users(\/|$)/, cap: "manage-users" },
+  { pattern: /^\/auditoria(\/|$)/, cap: "view-audit" },
+  // Cualquier sesión informa acciones (POST); leer el registro requiere el permiso
+  { pattern: /^\/api\/audit$/, cap: "view-audit", methods: ["GET"] },
+  // Todos piden VB y ven sus solicitudes; resolverlas requiere el permiso
+  { pattern: /^\/api\/approvals\/[^/]+\/decision$/, cap: "approve-comodato" },
+  // Todos envían correos y ven su registro; plantillas y destinatarios son configuración
+  { pattern: /^\/api\/mail\/settings$/, cap: "edit-config" },
+  // Las reglas que aplican las lee todo el que evalúa; editarlas es configuración
+  { pattern: /^\/api\/viability\/settings$/, cap: "edit-config" },
+  { pattern: /^\/comodatos\/reglas(\/|$)/, cap: "edit-config" },
+  { pattern: /^\/api\/sources(\/[^/]+(\/file)?)?$/, cap: "edit-sources", methods: ["PUT", "POST", "DELETE"] },
+];
+
+export function requiredCapability(pathname: string, method = "GET"): Capability | null {
+  const rule = ROUTE_CAPABILITIES.find((r) => r.pattern.test(pathname));
+  return rule && (!rule.methods || rule.methods.includes(method)) ? rule.cap : null;
+}
+
+/* ===================== CARTERA ===================== */
+// Usuario ve su cartera; Gerencia además la de su equipo; con "see-all-executives", todo.
+// null = sin filtro. mine=true deja solo la cartera propia (si el usuario tiene un ejecutivo vinculado).
+export function userScope(user: Pick<User, "role" | "ejecutivo" | "team"> | null | undefined, mine = false): string[] | null {
+  if (!user) return [];
+  const own = user.ejecutivo ? [user.ejecutivo] : [];
+  if (mine && own.length) return own;
+  if (can(user, "see-all-executives")) return null;
+  return user.role === "gerencia" ? [...own, ...(user.team ?? [])] : own;
+}
+
+// Los nombres vienen escritos a mano en las planillas: sin tildes, espacios ni mayúsculas
+export function ejecutivoKey(name: unknown) {
+  return String(name ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toUpperCase();
+}
+
+/** Predicado "¿este ejecutivo está en la cartera?" para filtrar filas. */
+export function inScope(scope: string[] | null): (ejecutivo: unknown) => boolean {
+  if (!scope) return () => true;
+  const keys = new Set(scope.map(ejecutivoKey).filter(Boolean));
+  return (ejecutivo) => keys.has(ejecutivoKey(ejecutivo));
+}
+
+/* ===================== HTTP ===================== */
+/** POST JSON; una respuesta no-ok se lanza con el mensaje { error } del servidor. */
+export async function postJson<T>(url: string, body?: unknown): Promise<T> {
+  const r = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `Error ${r.status}`);
+  return json as T;
+}
+
+/* ===================== SESIÓN (CLIENTE) ===================== */
+// Una consulta por pestaña; login/logout (lib/useSession) la reemplazan con setMe
+let me: Promise<User | null> | undefined;
+
+export function fetchMe(): Promise<User | null> {
+  if (!me) {
+    me = fetch("/api/auth/me", { cache: "no-store" })
+      .then((r) => (r.ok ? r.json().then((j) => j.user as User) : null))
+      .catch(() => null);
+  }
+  return me;
+}
+
+/** undefined fuerza a consultar de nuevo. */
+export function setMe(user: User | null | undefined) {
+  me = user === undefined ? undefined : Promise.resolve(user);
+}
+
+/* ===================== USUARIOS (ADMIN) ===================== */
+export type UserInput = { username: string; name: string; role: Role; password: string; ejecutivo?: string; team?: string[] };
+export type UserPatch = Partial<Pick<User, "name" | "role" | "disabled" | "ejecutivo" | "team">> & { password?: string };
+
+export async function fetchUsers(): Promise<User[]> {
+  const r = await fetch("/api/users", { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `Error ${r.status}`);
+  return json.users;
+}
+
+export async function createUser(input: UserInput): Promise<User> {
+  return (await postJson<{ user: User }>("/api/users", input)).user;
+}
+
+export async function updateUser(id: string, patch: UserPatch): Promise<User> {
+  const r = await fetch(`/api/users/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `Error ${r.status}`);
+  return json.user;
+}
@@ -0,0 +1,110 @@
+import { computeMargins, monthlyFee, type MarginLine, type MarginPolicy } from "@/lib/margins";
+import { assessViability, type EffectiveViabilityRules } from "@/lib/viability";
+
+/* ===================== PUNTO DE EQUILIBRIO ===================== */
+// Cuánto hay que mover una palanca (precio, kilos, inversión o meses de comodato) para que la evaluación quede Viable
+// con las reglas del ejecutivo. Se mueve una palanca a la vez, dejando las demás como están.
+// Cada búsqueda es una bisección: todas las palancas mejoran (o empeoran) el margen en una sola dirección.
+
+/** Evaluación tal como la calcula la página, antes de aplicar nada. */
+export type BreakEvenScenario = {
+  lines: MarginLine[];
+  /** Cuota mensual que no se mueve (Clientes Activos: comodatos vigentes). */
+  fixedMonthlyFee: number;
+  /** Comodato a evaluar: total del contrato y meses en que se paga. */
+  investment: number;
+  months: number;
+  commissionPct: number;
+  policy: MarginPolicy;
+};
+
+/** null: ni moviendo esa palanca hasta el tope se llega a Viable (o no aplica). */
+export type BreakEvenResult = {
+  /** $/kg mínimo de cada línea, moviendo solo esa línea. */
+  linePriceKg: (number | null)[];
+  /** Factor mínimo sobre todos los precios: bajo 1, el descuento máximo parejo; sobre 1, el alza necesaria. */
+  priceFactor: number | null;
+  /** Factor mínimo sobre los kilos de todas las líneas (la mezcla se mantiene). */
+  kilosFactor: number | null;
+  /** Inversión máxima en comodato con los mismos meses. */
+  maxInvestment: number | null;
+  /** Meses mínimos de contrato para la misma inversión. */
+  minMonths: number | null;
+};
+
+// Topes de búsqueda: más allá no es una negociación razonable. Precio y kilos parten de un factor positivo:
+// en 0 no hay venta y, con un margen mínimo de 0 o menos, el solver propondría regalar el producto
+const MIN_FACTOR = 0.01;
+const MAX_PRICE_FACTOR = 10;
+const MAX_KILOS_FACTOR = 100;
+const MAX_MONTHS = 120;
+const ITERATIONS = 40;
+
+export function isViableScenario(s: BreakEvenScenario, rules: EffectiveViabilityRules) {
+  const m = computeMargins({
+    lines: s.lines,
+    comodatoMensual: s.fixedMonthlyFee + monthlyFee(s.investment, s.months),
+    commissionPct: s.commissionPct,
+    policy: s.policy,
+  });
+  // Sin venta no hay negocio que evaluar, aunque las reglas acepten un margen de 0
+  return m.ventaTotal > 0 && assessViability(m, rules).status === "viable";
+}
+
+/** Menor x en [lo, hi] con ok(x); ok debe ser falso bajo el umbral y verdadero sobre él. */
+function seekMin(ok: (x: number) => boolean, lo: number, hi: number): number | null {
+  if (ok(lo)) return lo;
+  if (!ok(hi)) return null;
+  for (let i = 0; i < ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (ok(mid)) hi = mid;
+    else lo = mid;
+  }
+  return hi;
+}
+
+/** Mayor x desde lo con ok(x); hi se dobla hasta pasar el umbral. */
+function seekMax(ok: (x: number) => boolean, lo: number, hi: number): number | null {
+  if (!ok(lo)) return null;
+  while (ok(hi)) {
+    lo = hi;
+    hi *= 2;
+    if (hi > 1e13) return null;
+  }
+  for (let i = 0; i < ITERATIONS; i++) {
+    const mid = (lo + hi) / 2;
+    if (ok(mid)) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+}
+
+// Al subir el precio cambia la venta; el costo queda igual
+const withPrice = (l: MarginLine, f: number): MarginLine => ({ ...l, venta: l.venta * f });
+const withKilos = (l: MarginLine, f: number): MarginLine => ({ ...l, kilosMes: l.kilosMes * f, venta: l.venta * f, costo: l.costo * f });
+
+export function solveBreakEven(s: BreakEvenScenario, rules: EffectiveViabilityRules): BreakEvenResult {
+  const ok = (patch: Partial<BreakEvenScenario>) => isViableScenario({ ...s, ...patch }, rules);
+
+  const linePriceKg = s.lines.map((line, i) => {
+    if (line.kilosMes <= 0 || line.venta <= 0) return null;
+    const f = seekMin((f) => ok({ lines: s.lines.map((l, j) => (j === i ? withPrice(l, f) : l)) }), MIN_FACTOR, MAX_PRICE_FACTOR);
+    return f === null ? null : (line.venta * f) / line.kilosMes;
+  });
+  const hasSales = s.lines.some((l) => l.venta > 0);
+  const priceFactor = hasSales ? seekMin((f) => ok({ lines: s.lines.map((l) => withPrice(l, f)) }), MIN_FACTOR, MAX_PRICE_FACTOR) : null;
+  const kilosFactor = hasSales ? seekMin((f) => ok({ lines: s.lines.map((l) => withKilos(l, f)) }), MIN_FACTOR, MAX_KILOS_FACTOR) : null;
+  const maxInvestment = s.months > 0 ? seekMax((x) => ok({ investment: x }), 0, Math.max(s.investment, 1_000_000)) : null;
+
+  // Meses enteros: el primero que alcanza
+  let minMonths: number | null = null;
+  if (s.investment > 0) {
+    for (let n = 1; n <= MAX_MONTHS; n++) {
+      if (ok({ months: n })) {
+        minMonths = n;
+        break;
+      }
+    }
+  }
+  return { linePriceKg, priceFactor, kilosFactor, maxInvestment, minMonths };
+}
@@ -0,0 +1,88 @@
+import { readJson, updateJson, writeJson } from "@/lib/store";
+import {
+  catalogHash,
+  diffCatalog,
+  normalizeCatalog,
+  type CatalogVersion,
+  type CatalogVersionSummary,
+  type PricePoint,
+} from "@/lib/catalogVersions";
+import type { CatalogItem } from "@/lib/schemas";
+
+/* ===================== STORAGE ===================== */
+// data/catalog/versions.json: resumen de cada versión · data/catalog/v<id>.json: ítems + diff
+// data/catalog/history.json: código → puntos de precio (solo cuando el producto aparece, cambia o se elimina)
+type Index = { versions: CatalogVersionSummary[] };
+const INDEX = "catalog/versions";
+const HISTORY = "catalog/history";
+const versionKey = (id: number) => `catalog/v${id}`;
+
+/* ===================== LECTURA ===================== */
+/** Versiones de la más nueva a la más antigua. */
+export async function listCatalogVersions(): Promise<CatalogVersionSummary[]> {
+  const { versions } = await readJson<Index>(INDEX, { versions: [] });
+  return versions.slice().reverse();
+}
+
+export async function getCatalogVersion(id: number): Promise<CatalogVersion | null> {
+  return readJson<CatalogVersion | null>(versionKey(id), null);
+}
+
+/** Versión con ese contenido; si no hay y se indica priceHash, la más nueva con los mismos precios (sin costos). */
+export async function findCatalogVersion(hash: string, priceHash?: string): Promise<CatalogVersionSummary | null> {
+  const versions = await listCatalogVersions();
+  return versions.find((v) => v.hash === hash) ?? (priceHash ? versions.find((v) => v.priceHash === priceHash) : null) ?? null;
+}
+
+export async function getPriceHistory(code: string): Promise<PricePoint[]> {
+  const history = await readJson<Record<string, PricePoint[]>>(HISTORY, {});
+  return history[code.trim().toUpperCase()] ?? [];
+}
+
+/* ===================== ESCRITURA ===================== */
+/**
+ * Registra una lectura del catálogo. Si el contenido es igual al de la última versión no crea nada;
+ * si difiere, guarda la versión con su diff contra la anterior y extiende el historial de precios.
+ */
+export async function recordCatalogVersion(
+  input: CatalogItem[],
+  origin: string
+): Promise<{ version: CatalogVersionSummary; created: boolean }> {
+  const items = normalizeCatalog(input);
+  if (!items.length) throw new Error("Catálogo vacío.");
+  const hash = catalogHash(items);
+  let result: { version: CatalogVersionSummary; created: boolean } | null = null;
+
+  await updateJson<Index>(INDEX, { versions: [] }, async (idx) => {
+    const last = idx.versions[idx.versions.length - 1];
+    if (last && last.hash === hash) {
+      result = { version: last, created: false };
+      return idx;
+    }
+    const prev = last ? (await getCatalogVersion(last.id))?.items ?? [] : [];
+    const diff = diffCatalog(prev, items);
+    const version: CatalogVersionSummary = {
+      id: (last?.id ?? 0) + 1,
+      createdAt: new Date().toISOString(),
+      hash,
+      priceHash: catalogHash(items, false),
+      count: items.length,
+      origin: String(origin || "").slice(0, 300),
+      added: diff.added.length,
+      removed: diff.removed.length,
+      changed: diff.changed.length,
+    };
+    await writeJson(versionKey(version.id), { ...version, diff, items });
+    await updateJson<Record<string, PricePoint[]>>(HISTORY, {}, (h) => {
+      const at = version.createdAt;
+      const push = (code: string, p: Omit<PricePoint, "version" | "at">) => (h[code] = [...(h[code] ?? []), { version: version.id, at, ...p }]);
+      for (const it of diff.added) push(it.code, { name: it.name, price_list: it.price_list, cost: it.cost, kilos: it.kilos });
+      for (const c of diff.changed) push(c.code, { name: c.name, ...c.after });
+      for (const it of diff.removed) push(it.code, { name: it.name, removed: true });
+      return h;
+    });
+    result = { version, created: true };
+    return { versions: [...idx.versions, version] };
+  });
+  return result!;
+}
@@ -0,0 +1,161 @@
+import type { CatalogItem } from "@/lib/schemas";
+
+/* ===================== TIPOS ===================== */
+export type PriceField = "price_list" | "cost" | "kilos";
+export type PriceFields = Pick<CatalogItem, PriceField>;
+
+export type CatalogChange = { code: string; name: string; before: PriceFields; after: PriceFields; fields: PriceField[] };
+export type CatalogDiff = { added: CatalogItem[]; removed: CatalogItem[]; changed: CatalogChange[] };
+
+export type CatalogVersionSummary = {
+  id: number;
+  createdAt: string;
+  /** Huella del contenido: dos lecturas iguales no crean versión nueva. */
+  hash: string;
+  /** Huella sin costos: con ella se reconoce el catálogo que ve quien no tiene "view-costs". */
+  priceHash?: string;
+  count: number;
+  /** De dónde se leyó (URL de la fuente, archivo o API). */
+  origin: string;
+  added: number;
+  removed: number;
+  changed: number;
+};
+export type CatalogVersion = CatalogVersionSummary & { diff: CatalogDiff; items: CatalogItem[] };
+
+/** Lo que guardan evaluaciones y cotizaciones: contra qué versión del catálogo se tomaron los precios. */
+export type CatalogVersionRef = { id: number; createdAt: string };
+
+/** Punto del historial de un producto: solo versiones donde apareció, cambió o se eliminó. */
+export type PricePoint = PriceFields & { version: number; at: string; name: string; removed?: boolean };
+
+/* ===================== DIFF ===================== */
+export const PRICE_FIELDS: PriceField[] = ["price_list", "cost", "kilos"];
+
+/** Deja un ítem por código (el último), solo con los campos versionados y ordenado por código. */
+export function normalizeCatalog(items: CatalogItem[]): CatalogItem[] {
+  const byCode = new Map<string, CatalogItem>();
+  for (const it of items) {
+    const code = String(it.code ?? "").trim().toUpperCase();
+    if (!code) continue;
+    byCode.set(code, { code, name: String(it.name ?? "").trim(), price_list: it.price_list, cost: it.cost, kilos: it.kilos });
+  }
+  return Array.from(byCode.values()).sort((a, b) => (a.code < b.code ? -1 : a.code > b.code ? 1 : 0));
+}
+
+// FNV-1a de 32 bits: suficiente para reconocer un catálogo idéntico, no es un hash criptográfico.
+// withCost=false ignora el costo (catálogo servido sin esa columna).
+export function catalogHash(items: CatalogItem[], withCost = true): string {
+  const s = JSON.stringify(
+    normalizeCatalog(items).map((i) => [i.code, i.name, i.price_list ?? null, withCost ? i.cost ?? null : null, i.kilos ?? null])
+  );
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return `${s.length.toString(36)}-${h.toString(36)}`;
+}
+
+function pick(it: CatalogItem): PriceFields {
+  return { price_list: it.price_list, cost: it.cost, kilos: it.kilos };
+}
+
+/** Productos nuevos, eliminados y con price_list/cost/kilos distintos entre dos catálogos normalizados. */
+export function diffCatalog(prev: CatalogItem[], next: CatalogItem[]): CatalogDiff {
+  const before = new Map(prev.map((i) => [i.code, i] as [string, CatalogItem]));
+  const after = new Map(next.map((i) => [i.code, i] as [string, CatalogItem]));
+  const diff: CatalogDiff = { added: [], removed: [], changed: [] };
+  for (const it of next) {
+    const old = before.get(it.code);
+    if (!old) {
+      diff.added.push(it);
+      continue;
+    }
+    const fields = PRICE_FIELDS.filter((f) => (old[f] ?? null) !== (it[f] ?? null));
+    if (fields.length) diff.changed.push({ code: it.code, name: it.name || old.name, before: pick(old), after: pick(it), fields });
+  }
+  for (const it of prev) if (!after.has(it.code)) diff.removed.push(it);
+  return diff;
+}
+
+/* ===================== SIN COSTOS ===================== */
+// Para quien no tiene "view-costs": mismos datos sin el campo cost (los cambios solo de costo desaparecen)
+function withoutCost<T extends PriceFields>({ cost: _, ...rest }: T): Omit<T, "cost"> {
+  return rest;
+}
+
+export function redactCatalogVersion(v: CatalogVersion): CatalogVersion {
+  const changed = v.diff.changed
+    .map((c) => ({ ...c, before: withoutCost(c.before), after: withoutCost(c.after), fields: c.fields.filter((f) => f !== "cost") }))
+    .filter((c) => c.fields.length);
+  return {
+    ...v,
+    changed: changed.length,
+    items: v.items.map(withoutCost) as CatalogItem[],
+    diff: { added: v.diff.added.map(withoutCost) as CatalogItem[], removed: v.diff.removed.map(withoutCost) as CatalogItem[], changed },
+  };
+}
+
+export function redactPriceHistory(points: PricePoint[]): PricePoint[] {
+  return points.map(withoutCost) as PricePoint[];
+}
+
+/* ===================== CLIENTE ===================== */
+export function versionLabel(ref: CatalogVersionRef | null | undefined) {
+  if (!ref) return "sin versión";
+  return `v${ref.id} · ${new Date(ref.createdAt).toLocaleDateString("es-CL")}`;
+}
+
+export async function fetchCatalogVersions(): Promise<CatalogVersionSummary[]> {
+  const r = await fetch("/api/catalog/versions", { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudieron leer las versiones (${r.status})`);
+  return json.versions;
+}
+
+export async function fetchCatalogVersion(id: number): Promise<CatalogVersion> {
+  const r = await fetch(`/api/catalog/versions/${id}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudo leer la versión ${id} (${r.status})`);
+  return json.version;
+}
+
+export async function fetchPriceHistory(code: string): Promise<PricePoint[]> {
+  const r = await fetch(`/api/catalog/history?code=${encodeURIComponent(code)}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudo leer el historial (${r.status})`);
+  return json.points;
+}
+
+// Un mismo catálogo se informa una vez por pestaña
+const known = new Map<string, CatalogVersionRef>();
+
+/**
+ * Informa un catálogo leído y devuelve su versión. record=false (copia local posiblemente vieja)
+ * solo busca una versión existente con el mismo contenido. Nunca falla: sin versión devuelve null.
+ */
+export async function syncCatalogVersion(
+  items: CatalogItem[],
+  opts: { origin: string; record?: boolean }
+): Promise<CatalogVersionRef | null> {
+  const record = opts.record ?? true;
+  const hash = catalogHash(items);
+  const hit = known.get(hash);
+  if (hit) return hit;
+  try {
+    const r = await fetch("/api/catalog/versions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(record ? { items, origin: opts.origin } : { hash, priceHash: catalogHash(items, false), record: false }),
+    });
+    if (!r.ok) return null;
+    const { version } = (await r.json()) as { version: CatalogVersionSummary | null };
+    if (!version) return null;
+    const ref = { id: version.id, createdAt: version.createdAt };
+    known.set(hash, ref);
+    return ref;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,221 @@
+import type { CatalogVersionRef } from "@/lib/catalogVersions";
+import type { EvalComLine, EvalSaleLine, EvaluationInput } from "@/lib/evaluations";
+import type { QuoteData, QuoteItem } from "@/lib/quotes";
+
+/* ===================== TIPOS ===================== */
+// Borradores en un archivo JSON: para seguir en otro navegador o compartirlos por correo
+export type DraftKind = "evaluacion" | "simulacion" | "cotizacion";
+export const DRAFT_KIND_LABEL: Record<DraftKind, string> = {
+  evaluacion: "evaluación de negocio",
+  simulacion: "simulación de clientes activos",
+  cotizacion: "cotización",
+};
+
+/** Lo editable de la evaluación (los resultados se recalculan al importar). */
+export type EvaluationDraft = Omit<EvaluationInput, "results">;
+
+/** Comodato propuesto en la simulación de Clientes Activos. */
+export type ProposedItem = {
+  code: string;
+  name: string;
+  qty: number;
+  unit: number;
+  total: number;
+  contractMonths: number;
+  period: string;
+  monthlyFee: number;
+};
+
+/** El histórico no viaja: se vuelve a buscar con el cliente del borrador. */
+export type SimulationDraft = {
+  cliente: { codigo: string; rut: string; nombre: string; direccion: string };
+  ejecutivo: string;
+  /** yyyy-mm-dd */
+  fecha: string;
+  params: { months: number; commissionPct: number };
+  proposed: ProposedItem[];
+};
+
+/** Siempre sin número: el archivo es un borrador, el correlativo se asigna al emitir. */
+export type QuoteDraft = QuoteData;
+
+export type DraftData = { evaluacion: EvaluationDraft; simulacion: SimulationDraft; cotizacion: QuoteDraft };
+
+export type DraftFile<K extends DraftKind = DraftKind> = {
+  format: typeof FORMAT;
+  kind: K;
+  version: number;
+  exportedAt: string;
+  data: DraftData[K];
+};
+
+const FORMAT = "spartan-draft";
+
+/* ===================== VERSIONES ===================== */
+// Al cambiar la forma de un borrador: subir su versión y agregar la migración desde la anterior
+export const DRAFT_VERSION: Record<DraftKind, number> = { evaluacion: 1, simulacion: 1, cotizacion: 1 };
+
+export type Migration = (data: any) => any;
+/** MIGRATIONS[kind][n - 1] lleva los datos de un borrador de la versión n a la n + 1. */
+const MIGRATIONS: Record<DraftKind, Migration[]> = { evaluacion: [], simulacion: [], cotizacion: [] };
+
+/** Versión actual de un tipo de borrador y sus migraciones (ver DRAFT_VERSION y MIGRATIONS). */
+export type DraftHistory = { current: number; migrations: Migration[] };
+
+/* ===================== VALIDACIÓN ===================== */
+const num = (v: unknown) => (Number.isFinite(Number(v)) ? Number(v) : 0);
+const str = (v: unknown, max = 200) => String(v ?? "").trim().slice(0, max);
+const optNum = (v: unknown) => (v === undefined || v === null || v === "" ? undefined : num(v));
+const date = (v: unknown) => (typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : new Date().toISOString().slice(0, 10));
+
+function obj(v: unknown, what: string): any {
+  if (!v || typeof v !== "object" || Array.isArray(v)) throw new Error(`El borrador no trae ${what}.`);
+  return v;
+}
+
+function lines<T>(v: unknown, what: string, map: (l: any) => T): T[] {
+  if (!Array.isArray(v)) throw new Error(`El borrador no trae ${what}.`);
+  return v.slice(0, 500).map((l, i) => map(obj(l, `${what} válidos (fila ${i + 1})`)));
+}
+
+function catalogVersion(v: any): CatalogVersionRef | null {
+  return v && Number.isInteger(v.id) ? { id: v.id, createdAt: str(v.createdAt, 40) } : null;
+}
+
+function parseEvaluation(d: any): EvaluationDraft {
+  const cliente = obj(d.cliente ?? {}, "el cliente");
+  return {
+    cliente: { nombre: str(cliente.nombre), rut: str(cliente.rut, 20), direccion: str(cliente.direccion, 300) },
+    ejecutivo: str(d.ejecutivo, 120),
+    fecha: date(d.fecha),
+    sales: lines<EvalSaleLine>(d.sales, "productos", (l) => ({
+      code: str(l.code, 60).toUpperCase(),
+      name: str(l.name),
+      kilos: num(l.kilos),
+      qty: num(l.qty),
+      priceKg: num(l.priceKg),
+      priceListaKg: optNum(l.priceListaKg),
+      costKg: optNum(l.costKg),
+    })),
+    comodatos: lines<EvalComLine>(d.comodatos, "comodatos", (l) => ({
+      code: str(l.code, 60).toUpperCase(),
+      name: str(l.name),
+      priceContract: num(l.priceContract),
+      qty: num(l.qty),
+    })),
+    params: { months: Math.max(1, num(d.params?.months) || 1), commissionPct: num(d.params?.commissionPct) },
+    catalogVersion: catalogVersion(d.catalogVersion),
+  };
+}
+
+function parseSimulation(d: any): SimulationDraft {
+  const cliente = obj(d.cliente ?? {}, "el cliente");
+  return {
+    cliente: { codigo: str(cliente.codigo, 40).toUpperCase(), rut: str(cliente.rut, 20), nombre: str(cliente.nombre), direccion: str(cliente.direccion, 300) },
+    ejecutivo: str(d.ejecutivo, 120),
+    fecha: date(d.fecha),
+    params: { months: Math.max(1, num(d.params?.months) || 1), commissionPct: num(d.params?.commissionPct) },
+    proposed: lines<ProposedItem>(d.proposed, "comodatos propuestos", (l) => ({
+      code: str(l.code, 60).toUpperCase(),
+      name: str(l.name),
+      qty: num(l.qty),
+      unit: num(l.unit),
+      total: num(l.total),
+      contractMonths: Math.max(1, num(l.contractMonths) || 1),
+      period: str(l.period, 40),
+      monthlyFee: num(l.monthlyFee),
+    })),
+  };
+}
+
+function parseQuote(d: any): QuoteDraft {
+  const c = obj(d.client ?? {}, "el cliente");
+  const i = obj(d.issuer ?? {}, "el emisor");
+  return {
+    number: "",
+    dateISO: date(d.dateISO),
+    validity: str(d.validity, 60),
+    client: {
+      name: str(c.name),
+      rut: str(c.rut, 20),
+      address: str(c.address, 300),
+      clientCode: str(c.clientCode, 40),
+      condicionPago: str(c.condicionPago, 100),
+      giro: str(c.giro),
+    },
+    issuer: {
+      name: str(i.name),
+      rut: str(i.rut, 20),
+      address: str(i.address, 300),
+      paymentTerms: str(i.paymentTerms, 100),
+      contact: str(i.contact, 120),
+      email: str(i.email, 120),
+      phone: str(i.phone, 40),
+    },
+    items: lines<QuoteItem>(d.items, "productos", (it) => ({
+      code: str(it.code, 60).toUpperCase(),
+      description: str(it.description, 300),
+      kilos: num(it.kilos),
+      qty: num(it.qty),
+      unitPrice: num(it.unitPrice),
+      discountPct: num(it.discountPct),
+    })),
+    taxPct: d.taxPct === undefined ? 19 : num(d.taxPct),
+    catalogVersion: catalogVersion(d.catalogVersion),
+    ...(typeof d.evaluationId === "string" && /^EV-\d+$/.test(d.evaluationId) && { evaluationId: d.evaluationId }),
+  };
+}
+
+const PARSERS: { [K in DraftKind]: (d: any) => DraftData[K] } = {
+  evaluacion: parseEvaluation,
+  simulacion: parseSimulation,
+  cotizacion: parseQuote,
+};
+
+/** Normaliza los datos de un borrador ya en la versión actual (también lo usa el servidor). */
+export function normalizeDraft<K extends DraftKind>(kind: K, data: unknown): DraftData[K] {
+  return PARSERS[kind](obj(data, "datos"));
+}
+
+/** Lee un archivo exportado: valida el tipo, migra versiones anteriores y normaliza los datos. history: solo para pruebas. */
+export function parseDraft<K extends DraftKind>(
+  text: string,
+  kind: K,
+  { current, migrations }: DraftHistory = { current: DRAFT_VERSION[kind], migrations: MIGRATIONS[kind] }
+): DraftData[K] {
+  let file: any;
+  try {
+    file = JSON.parse(text);
+  } catch {
+    throw new Error("El archivo no es un JSON válido.");
+  }
+  if (file?.format !== FORMAT || !(file.kind in DRAFT_KIND_LABEL)) throw new Error("El archivo no es un borrador exportado desde esta aplicación.");
+  if (file.kind !== kind) throw new Error(`El archivo es una ${DRAFT_KIND_LABEL[file.kind as DraftKind]}, no una ${DRAFT_KIND_LABEL[kind]}.`);
+  const version = Number(file.version);
+  if (!Number.isInteger(version) || version < 1) throw new Error("El borrador no indica su versión.");
+  if (version > current) throw new Error(`El borrador es de una versión más nueva (v${version}); recarga la página e inténtalo de nuevo.`);
+  let data = obj(file.data, "datos");
+  for (let v = version; v < current; v++) data = obj(migrations[v - 1](data), "datos");
+  return normalizeDraft(kind, data);
+}
+
+/* ===================== ARCHIVO ===================== */
+function slug(s: string) {
+  return s.normalize("NFD").replace(/[\u0300-\u036f]/g, "").replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-|-$/g, "").toLowerCase();
+}
+
+/** Descarga el borrador como <tipo>-<nombre>-<fecha>.json. */
+export function exportDraft<K extends DraftKind>(kind: K, data: DraftData[K], name: string) {
+  const file: DraftFile<K> = { format: FORMAT, kind, version: DRAFT_VERSION[kind], exportedAt: new Date().toISOString(), data };
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = [kind, slug(name), new Date().toISOString().slice(0, 10)].filter(Boolean).join("-") + ".json";
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+export async function importDraft<K extends DraftKind>(file: File, kind: K): Promise<DraftData[K]> {
+  return parseDraft(await file.text(), kind);
+}
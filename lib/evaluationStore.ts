@@ -0,0 +1,245 @@
+import { readJson, updateJson, writeJson } from "@/lib/store";
+import { can, inScope, userScope, type User } from "@/lib/auth";
+import { AuthError } from "@/lib/userStore";
+import {
+  redactEvaluation,
+  toSummary,
+  type EvalComLine,
+  type EvalSaleLine,
+  type Evaluation,
+  type EvaluationFilter,
+  type EvaluationInput,
+  type EvaluationSummary,
+} from "@/lib/evaluations";
+import type { AuditActor } from "@/lib/audit";
+import type { ApprovalRef } from "@/lib/approvals";
+import { MARGIN_POLICIES, computeMargins, monthlyFee } from "@/lib/margins";
+import { assessViability } from "@/lib/viability";
+import { effectiveViabilityRules } from "@/lib/viabilityStore";
+import { getCatalogVersion } from "@/lib/catalogStore";
+import { getSourceRecords } from "@/lib/sheetCache";
+import { CATALOG_SCHEMA, type CatalogItem } from "@/lib/schemas";
+
+/* ===================== STORAGE ===================== */
+// data/evaluations/index.json: resúmenes (para listar sin abrir cada una) · data/evaluations/<id>.json: evaluación completa
+type Index = { lastId: number; evaluations: EvaluationSummary[] };
+const INDEX = "evaluations/index";
+const evalKey = (id: string) => `evaluations/${id}`;
+const formatId = (n: number) => `EV-${String(n).padStart(5, "0")}`;
+
+function actor(user: User): AuditActor {
+  return { id: user.id, username: user.username, name: user.name };
+}
+
+/* ===================== VALIDACIÓN ===================== */
+const num = (v: unknown) => (Number.isFinite(Number(v)) ? Number(v) : 0);
+const str = (v: unknown, max = 200) => String(v ?? "").trim().slice(0, max);
+const optNum = (v: unknown) => (v === undefined || v === null || v === "" ? undefined : num(v));
+
+/** Normaliza lo que llega del navegador; el ejecutivo vacío toma el del usuario que guarda. Los resultados los pone withEvaluationResults. */
+export function parseEvaluationInput(body: any, user: User): EvaluationInput {
+  if (!body || typeof body !== "object") throw new Error("Evaluación inválida.");
+  if (!Array.isArray(body.sales) || !Array.isArray(body.comodatos)) throw new Error("Faltan las líneas de la evaluación.");
+  // Sin costos en el catálogo el margen calculado no significa nada: no se guarda
+  const costs = can(user, "view-costs");
+  const sales: EvalSaleLine[] = body.sales.slice(0, 500).map((l: any) => ({
+    code: str(l?.code, 60).toUpperCase(),
+    name: str(l?.name),
+    kilos: num(l?.kilos),
+    qty: num(l?.qty),
+    priceKg: num(l?.priceKg),
+    priceListaKg: optNum(l?.priceListaKg),
+    costKg: costs ? optNum(l?.costKg) : undefined,
+  }));
+  const comodatos: EvalComLine[] = body.comodatos.slice(0, 500).map((l: any) => ({
+    code: str(l?.code, 60).toUpperCase(),
+    name: str(l?.name),
+    priceContract: num(l?.priceContract),
+    qty: num(l?.qty),
+  }));
+  const v = body.catalogVersion;
+  // El ejecutivo decide quién la ve y qué reglas de viabilidad aplican: solo uno de la cartera de quien guarda
+  const ejecutivo = str(body.ejecutivo, 120) || user.ejecutivo || "";
+  if (ejecutivo && !inScope(userScope(user))(ejecutivo)) throw new Error(`${ejecutivo} no es un ejecutivo de tu cartera.`);
+  return {
+    cliente: { nombre: str(body.cliente?.nombre), rut: str(body.cliente?.rut, 20), direccion: str(body.cliente?.direccion, 300) },
+    ejecutivo,
+    fecha: /^\d{4}-\d{2}-\d{2}$/.test(body.fecha) ? body.fecha : new Date().toISOString().slice(0, 10),
+    sales,
+    comodatos,
+    params: { months: Math.max(1, num(body.params?.months) || 1), commissionPct: num(body.params?.commissionPct) },
+    results: { ventaTotal: 0, totalComodato: 0, comodatoMensual: 0, rel: 0, comFinalPct: 0, viable: false },
+    catalogVersion: v && Number.isInteger(v.id) ? { id: v.id, createdAt: str(v.createdAt, 40) } : null,
+  };
+}
+
+/* ===================== RESULTADOS ===================== */
+// Costos del catálogo con que se evaluó (o el vigente): los usa quien no ve costos, que los envía vacíos
+async function catalogCosts(ref: EvaluationInput["catalogVersion"]): Promise<Map<string, number>> {
+  const version = ref ? await getCatalogVersion(ref.id) : null;
+  const items: CatalogItem[] = version?.items ?? (await getSourceRecords("catalogo", CATALOG_SCHEMA).catch(() => []));
+  return new Map(items.filter((i) => i.cost !== undefined).map((i) => [i.code, Number(i.cost)]));
+}
+
+/**
+ * Resultados y viabilidad calculados aquí, como en la página de Evaluación de Negocio, con las reglas del ejecutivo
+ * guardado: el VB comodato y las cotizaciones se fían de ellos, no de lo que calculó el navegador.
+ */
+export async function withEvaluationResults(input: EvaluationInput): Promise<EvaluationInput> {
+  const costs = input.sales.some((l) => l.costKg === undefined) ? await catalogCosts(input.catalogVersion) : null;
+  const sales = input.sales.map((l) => (l.costKg === undefined && costs?.has(l.code) ? { ...l, costKg: costs.get(l.code) } : l));
+  const lines = sales.map((l) => {
+    const kilosMes = (l.qty || 0) * (l.kilos || 1);
+    return { code: l.code, name: l.name, kilosMes, venta: (l.priceKg || 0) * kilosMes, costo: (l.costKg || 0) * kilosMes };
+  });
+  const totalComodato = input.comodatos.reduce((a, r) => a + (r.priceContract || 0) * (r.qty || 0), 0);
+  const m = computeMargins({
+    lines,
+    comodatoMensual: monthlyFee(totalComodato, input.params.months),
+    commissionPct: input.params.commissionPct,
+    policy: MARGIN_POLICIES.negocio,
+  });
+  const { status } = assessViability(m, await effectiveViabilityRules(input.ejecutivo));
+  return {
+    ...input,
+    sales,
+    results: {
+      ventaTotal: m.ventaTotal,
+      totalComodato,
+      comodatoMensual: m.comodatoMensual,
+      rel: m.rel,
+      mgnFinalPct: m.mgnFinalPct,
+      comFinalPct: m.comFinalPct,
+      viable: status === "viable",
+      viability: status,
+    },
+  };
+}
+
+/* ===================== ACCESO ===================== */
+// Cada uno ve lo que creó y lo de su cartera (Gerencia, su equipo; Administradora, todo)
+export function canSeeEvaluation(user: User, e: Pick<Evaluation, "ejecutivo" | "createdBy">) {
+  return e.createdBy?.id === user.id || inScope(userScope(user))(e.ejecutivo);
+}
+
+/* ===================== LECTURA ===================== */
+function matches(e: EvaluationSummary, f: EvaluationFilter) {
+  if (f.status !== "todas" && e.status !== (f.status ?? "activa")) return false;
+  if (!f.q) return true;
+  const q = f.q.toLowerCase();
+  return [e.id, e.cliente.nombre, e.cliente.rut, e.ejecutivo, e.createdBy?.name].some((s) => String(s ?? "").toLowerCase().includes(q));
+}
+
+/** Evaluaciones visibles para el usuario, la última modificada primero. */
+export async function listEvaluations(user: User, filter: EvaluationFilter = {}): Promise<EvaluationSummary[]> {
+  const { evaluations } = await readJson<Index>(INDEX, { lastId: 0, evaluations: [] });
+  const list = evaluations
+    .filter((e) => canSeeEvaluation(user, e) && matches(e, filter))
+    .sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : -1));
+  return can(user, "view-costs") ? list : list.map(redactEvaluation);
+}
+
+export async function getEvaluation(user: User, id: string): Promise<Evaluation> {
+  const e = /^EV-\d+$/.test(id) ? await readJson<Evaluation | null>(evalKey(id), null) : null;
+  // Una evaluación ajena responde igual que una inexistente
+  if (!e || !canSeeEvaluation(user, e)) throw new AuthError("Evaluación desconocida.", 404);
+  return e;
+}
+
+/** Como la ve el usuario: sin costos si su rol no los ve. */
+export function visibleEvaluation(user: User, e: Evaluation): Evaluation {
+  return can(user, "view-costs") ? e : redactEvaluation(e);
+}
+
+/* ===================== ESCRITURA ===================== */
+function summarize(e: Evaluation) {
+  return updateJson<Index>(INDEX, { lastId: 0, evaluations: [] }, (idx) => ({
+    ...idx,
+    evaluations: [...idx.evaluations.filter((x) => x.id !== e.id), toSummary(e)],
+  }));
+}
+
+async function store(e: Evaluation) {
+  await writeJson(evalKey(e.id), e);
+  await summarize(e);
+}
+
+// Cambios a una evaluación guardada: se vuelve a leer dentro de la cola de su archivo y change parte de esa versión,
+// así una edición y un VB simultáneos no se pisan (ninguno escribe una copia leída antes del otro)
+async function mutate(
+  id: string,
+  change: (current: Evaluation) => Evaluation | Promise<Evaluation>
+): Promise<{ before: Evaluation; after: Evaluation }> {
+  let result: { before: Evaluation; after: Evaluation } | null = null;
+  await updateJson<Evaluation | null>(evalKey(id), null, async (before) => {
+    if (!before) throw new AuthError("Evaluación desconocida.", 404);
+    const after = await change(before);
+    await summarize(after);
+    result = { before, after };
+    return after;
+  });
+  return result!;
+}
+
+export async function createEvaluation(user: User, input: EvaluationInput, copiedFrom?: string): Promise<Evaluation> {
+  let id = "";
+  // El id se reserva en el índice para que dos guardados simultáneos no choquen
+  await updateJson<Index>(INDEX, { lastId: 0, evaluations: [] }, (idx) => {
+    id = formatId(idx.lastId + 1);
+    return { ...idx, lastId: idx.lastId + 1 };
+  });
+  const now = new Date().toISOString();
+  const e: Evaluation = {
+    ...(await withEvaluationResults(input)),
+    id,
+    status: "activa",
+    createdAt: now,
+    updatedAt: now,
+    createdBy: actor(user),
+    updatedBy: actor(user),
+    ...(copiedFrom && { copiedFrom }),
+  };
+  await store(e);
+  return e;
+}
+
+export async function updateEvaluation(user: User, id: string, input: EvaluationInput): Promise<{ before: Evaluation; after: Evaluation }> {
+  await getEvaluation(user, id);
+  return mutate(id, async (before) => {
+    if (before.status === "archivada") throw new Error("La evaluación está archivada; restáurala o duplícala para editarla.");
+    // Quien no ve costos los recibió sin costo: se conservan los guardados para esos productos
+    let next = input;
+    if (!can(user, "view-costs")) {
+      const costs = new Map(before.sales.map((l) => [l.code, l.costKg]));
+      next = { ...input, sales: input.sales.map((l) => ({ ...l, costKg: costs.get(l.code) })) };
+    }
+    return { ...before, ...(await withEvaluationResults(next)), updatedAt: new Date().toISOString(), updatedBy: actor(user) };
+  });
+}
+
+export async function setEvaluationArchived(user: User, id: string, archived: boolean): Promise<Evaluation> {
+  await getEvaluation(user, id);
+  const { after } = await mutate(id, (e) => ({ ...e, status: archived ? "archivada" : "activa", updatedAt: new Date().toISOString(), updatedBy: actor(user) }));
+  return after;
+}
+
+/** Estado del VB comodato: lo actualiza la solicitud (no cuenta como modificación de la evaluación). */
+export async function setEvaluationApproval(id: string, approval: ApprovalRef): Promise<void> {
+  if (await readJson<Evaluation | null>(evalKey(id), null)) await mutate(id, (e) => ({ ...e, approval }));
+}
+
+/** Copia activa y editable, a nombre de quien duplica; recuerda de cuál salió. */
+export async function duplicateEvaluation(user: User, id: string): Promise<Evaluation> {
+  const e = await getEvaluation(user, id);
+  const input: EvaluationInput = {
+    cliente: e.cliente,
+    ejecutivo: e.ejecutivo,
+    fecha: e.fecha,
+    sales: e.sales,
+    comodatos: e.comodatos,
+    params: e.params,
+    results: e.results,
+    catalogVersion: e.catalogVersion,
+  };
+  return createEvaluation(user, input, id);
+}
@@ -0,0 +1,115 @@
+import type { CatalogVersionRef } from "@/lib/catalogVersions";
+import type { AuditActor } from "@/lib/audit";
+import type { ApprovalRef } from "@/lib/approvals";
+import type { ViabilityStatus } from "@/lib/viability";
+
+/* ===================== TIPOS ===================== */
+export type EvalSaleLine = { code: string; name: string; kilos: number; qty: number; priceKg: number; priceListaKg?: number; costKg?: number };
+export type EvalComLine = { code: string; name: string; priceContract: number; qty: number };
+
+export type EvalResults = {
+  ventaTotal: number;
+  totalComodato: number;
+  comodatoMensual: number;
+  rel: number;
+  /** Margen final; no se envía a quien no ve costos. */
+  mgnFinalPct?: number;
+  comFinalPct: number;
+  /** Solo "Viable" según las reglas; viability distingue además "Requiere revisión". */
+  viable: boolean;
+  viability?: ViabilityStatus;
+};
+
+export type EvaluationStatus = "activa" | "archivada";
+export const EVALUATION_STATUS_LABEL: Record<EvaluationStatus, string> = { activa: "Activa", archivada: "Archivada" };
+
+/** Lo que guarda la página de Evaluación de Negocio. */
+export type EvaluationInput = {
+  cliente: { nombre: string; rut: string; direccion: string };
+  /** "Empleado Ventas" dueño de la evaluación: define quién la ve (ver userScope). */
+  ejecutivo: string;
+  /** yyyy-mm-dd */
+  fecha: string;
+  sales: EvalSaleLine[];
+  comodatos: EvalComLine[];
+  params: { months: number; commissionPct: number };
+  /** Resultado calculado al guardar (para listar sin recalcular). */
+  results: EvalResults;
+  catalogVersion: CatalogVersionRef | null;
+};
+
+export type Evaluation = EvaluationInput & {
+  /** "EV-00012" */
+  id: string;
+  status: EvaluationStatus;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: AuditActor;
+  updatedBy: AuditActor;
+  /** Si se creó duplicando otra. */
+  copiedFrom?: string;
+  /** Última solicitud de VB comodato enviada con esta evaluación. */
+  approval?: ApprovalRef;
+};
+
+/** Fila del listado: sin las líneas. */
+export type EvaluationSummary = Omit<Evaluation, "sales" | "comodatos"> & { salesCount: number; comodatosCount: number };
+
+export type EvaluationFilter = { q?: string; status?: EvaluationStatus | "todas" };
+
+export function toSummary({ sales, comodatos, ...rest }: Evaluation): EvaluationSummary {
+  return { ...rest, salesCount: sales.length, comodatosCount: comodatos.length };
+}
+
+// Sin "view-costs": sin costo por línea ni margen final (el estado Viable sí se ve)
+export function redactEvaluation<T extends EvaluationSummary | Evaluation>(e: T): T {
+  const { mgnFinalPct: _, ...results } = e.results;
+  const out = { ...e, results };
+  if ("sales" in out) out.sales = out.sales.map(({ costKg: _c, ...l }) => l);
+  return out;
+}
+
+/* ===================== CLIENTE ===================== */
+async function send<T>(url: string, method: string, body?: unknown): Promise<T> {
+  const r = await fetch(url, {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `Error ${r.status}`);
+  return json as T;
+}
+
+export async function fetchEvaluations(filter: EvaluationFilter = {}): Promise<EvaluationSummary[]> {
+  const p = new URLSearchParams();
+  if (filter.q) p.set("q", filter.q);
+  if (filter.status) p.set("status", filter.status);
+  const r = await fetch(`/api/evaluations?${p}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudieron leer las evaluaciones (${r.status})`);
+  return json.evaluations;
+}
+
+export async function fetchEvaluation(id: string): Promise<Evaluation> {
+  const r = await fetch(`/api/evaluations/${encodeURIComponent(id)}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudo abrir la evaluación ${id} (${r.status})`);
+  return json.evaluation;
+}
+
+/** Sin id crea una evaluación nueva; con id guarda encima de esa. */
+export async function saveEvaluation(input: EvaluationInput, id?: string | null): Promise<Evaluation> {
+  const { evaluation } = id
+    ? await send<{ evaluation: Evaluation }>(`/api/evaluations/${encodeURIComponent(id)}`, "PUT", input)
+    : await send<{ evaluation: Evaluation }>("/api/evaluations", "POST", input);
+  return evaluation;
+}
+
+export async function duplicateEvaluation(id: string): Promise<Evaluation> {
+  return (await send<{ evaluation: Evaluation }>(`/api/evaluations/${encodeURIComponent(id)}/duplicate`, "POST")).evaluation;
+}
+
+export async function archiveEvaluation(id: string, archived: boolean): Promise<Evaluation> {
+  return (await send<{ evaluation: Evaluation }>(`/api/evaluations/${encodeURIComponent(id)}/archive`, "POST", { archived })).evaluation;
+}
@@ -0,0 +1,167 @@
+import type { AuditActor } from "@/lib/audit";
+import { postJson } from "@/lib/auth";
+
+/* ===================== TIPOS ===================== */
+// Correo de documentos generados (PDF adjunto) por el relay SMTP del servidor; ver lib/mailStore.ts
+export type MailDocKind = "evaluacion" | "cotizacion" | "nota-venta";
+export const MAIL_DOC_LABEL: Record<MailDocKind, string> = {
+  evaluacion: "Evaluación de negocio",
+  cotizacion: "Cotización",
+  "nota-venta": "Nota de venta",
+};
+export const MAIL_DOC_KINDS = Object.keys(MAIL_DOC_LABEL) as MailDocKind[];
+
+export function isMailDocKind(v: unknown): v is MailDocKind {
+  return typeof v === "string" && v in MAIL_DOC_LABEL;
+}
+
+/** Asunto y cuerpo con {{variables}} (ver MAIL_VARIABLES). */
+export type MailTemplate = { subject: string; body: string };
+
+/** A quién va el correo de los documentos del equipo de una Gerencia (usuario con rol Gerencia). */
+export type MailRoute = { gerenciaId: string; to: string[]; cc: string[] };
+
+export type MailSettings = {
+  templates: Record<MailDocKind, MailTemplate>;
+  /** Destinatarios cuando el ejecutivo no está en el equipo de ninguna Gerencia configurada. */
+  defaultTo: string[];
+  routes: MailRoute[];
+  updatedAt?: string;
+  updatedBy?: AuditActor;
+};
+
+export const MAIL_VARIABLES: Record<string, string> = {
+  numero: "N° del documento",
+  cliente: "Razón social",
+  rut: "RUT del cliente",
+  ejecutivo: "Ejecutivo",
+  fecha: "Fecha del documento",
+  total: "Total (venta mensual en evaluaciones)",
+  remitente: "Quien envía",
+};
+
+export const DEFAULT_MAIL_SETTINGS: MailSettings = {
+  templates: {
+    evaluacion: {
+      subject: "Evaluación de Negocio {{numero}} — {{cliente}}",
+      body: "Estimada/o:\n\nAdjunto la evaluación de negocio {{numero}} del cliente {{cliente}} (RUT {{rut}}), ejecutivo {{ejecutivo}}.\n\nSaludos,\n{{remitente}}",
+    },
+    cotizacion: {
+      subject: "Cotización {{numero}} — {{cliente}}",
+      body: "Estimada/o:\n\nAdjunto la cotización {{numero}} del {{fecha}} para {{cliente}}, por un total de {{total}}.\n\nSaludos,\n{{remitente}}",
+    },
+    "nota-venta": {
+      subject: "Nota de Venta {{numero}} — {{cliente}}",
+      body: "Estimada/o:\n\nAdjunto la nota de venta {{numero}} del {{fecha}} para {{cliente}}, por un total de {{total}}.\n\nSaludos,\n{{remitente}}",
+    },
+  },
+  defaultTo: [],
+  routes: [],
+};
+
+/** Reemplaza {{variable}}; las desconocidas quedan vacías. */
+export function renderTemplate(text: string, vars: Record<string, string>) {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, k: string) => vars[k] ?? "");
+}
+
+const EMAIL_RE = /^[^\s@,;<>]+@[^\s@,;<>]+\.[^\s@,;<>]+$/;
+export function isEmail(v: string) {
+  return EMAIL_RE.test(v);
+}
+
+/** "a@x.cl, b@y.cl; c@z.cl" → lista sin repetidos. */
+export function parseEmails(text: string): string[] {
+  return Array.from(new Set(text.split(/[\s,;]+/).map((s) => s.trim().toLowerCase()).filter(Boolean)));
+}
+
+/** Borrador del correo: destinatarios de la Gerencia del ejecutivo y plantilla ya completada.
+ *  anyRecipient: el usuario puede escribir otras direcciones (permiso "mail-any-recipient"). */
+export type MailPreview = { to: string[]; cc: string[]; subject: string; body: string; configured: boolean; anyRecipient: boolean };
+
+/** PDF generado en el navegador, en base64 (sin el prefijo data:). */
+export type MailAttachment = { fileName: string; data: string };
+
+export type MailSendInput = {
+  kind: MailDocKind;
+  documentId: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  body: string;
+  attachment: MailAttachment;
+};
+
+export type SentMail = {
+  id: number;
+  at: string;
+  by: AuditActor;
+  kind: MailDocKind;
+  documentId: string;
+  /** Ejecutivo del documento: define quién ve el envío en el registro (ver userScope). */
+  ejecutivo: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  /** sha256: huella del PDF tal como salió (el PDF se arma en el navegador; permite cotejarlo después). */
+  attachment: { fileName: string; size: number; sha256?: string };
+  status: "enviado" | "error";
+  messageId?: string;
+  error?: string;
+};
+
+export type SentMailFilter = { q?: string; kind?: MailDocKind; documentId?: string };
+
+/* ===================== CLIENTE ===================== */
+export async function fetchMailPreview(kind: MailDocKind, documentId: string): Promise<MailPreview> {
+  const p = new URLSearchParams({ kind, id: documentId });
+  const r = await fetch(`/api/mail/preview?${p}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudo preparar el correo (${r.status})`);
+  return json.preview;
+}
+
+export async function sendDocumentMail(input: MailSendInput): Promise<SentMail> {
+  return (await postJson<{ mail: SentMail }>("/api/mail/send", input)).mail;
+}
+
+export async function fetchSentMail(filter: SentMailFilter = {}): Promise<SentMail[]> {
+  const p = new URLSearchParams();
+  for (const [k, v] of Object.entries(filter)) if (v) p.set(k, v);
+  const r = await fetch(`/api/mail/log?${p}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudo leer el registro de correos (${r.status})`);
+  return json.mails;
+}
+
+export async function fetchMailSettings(): Promise<MailSettings> {
+  const r = await fetch("/api/mail/settings", { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudo leer la configuración de correo (${r.status})`);
+  return json.settings;
+}
+
+export async function saveMailSettings(settings: Omit<MailSettings, "updatedAt" | "updatedBy">): Promise<MailSettings> {
+  const r = await fetch("/api/mail/settings", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(settings),
+  });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `Error ${r.status}`);
+  return json.settings;
+}
+
+/** PDF del área imprimible (#printArea) para adjuntarlo; lo que no se imprime tampoco va al PDF. */
+export async function pdfFromElement(el: HTMLElement, fileName: string): Promise<MailAttachment> {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const margin = 20;
+  await doc.html(el, {
+    margin,
+    autoPaging: "text",
+    width: doc.internal.pageSize.getWidth() - margin * 2,
+    windowWidth: el.scrollWidth,
+    html2canvas: { ignoreElements: (e) => e.classList.contains("print:hidden") },
+  });
+  return { fileName, data: doc.output("datauristring").split(",")[1] };
+}
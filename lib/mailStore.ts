@@ -0,0 +1,225 @@
+import { createHash } from "crypto";
+import nodemailer from "nodemailer";
+import { readJson, updateJson } from "@/lib/store";
+import { can, inScope, userScope, type User } from "@/lib/auth";
+import { AuthError, gerenciasOf } from "@/lib/userStore";
+import { getEvaluation } from "@/lib/evaluationStore";
+import { getQuote } from "@/lib/quoteStore";
+import { getSalesNote } from "@/lib/salesNoteStore";
+import {
+  DEFAULT_MAIL_SETTINGS,
+  MAIL_DOC_KINDS,
+  isEmail,
+  isMailDocKind,
+  renderTemplate,
+  type MailDocKind,
+  type MailPreview,
+  type MailRoute,
+  type MailSettings,
+  type SentMail,
+  type SentMailFilter,
+} from "@/lib/mail";
+import type { AuditActor } from "@/lib/audit";
+
+/* ===================== CONFIG ===================== */
+// Relay SMTP por variables de entorno (para probar, MailHog: SMTP_HOST=localhost SMTP_PORT=1025):
+// SMTP_HOST (sin él no se envía), SMTP_PORT (587), SMTP_SECURE=1 (TLS directo), SMTP_USER / SMTP_PASS, MAIL_FROM
+function transport() {
+  const host = process.env.SMTP_HOST;
+  if (!host) throw new Error("El envío de correo no está configurado en el servidor (falta SMTP_HOST).");
+  const user = process.env.SMTP_USER;
+  return nodemailer.createTransport({
+    host,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === "1",
+    ...(user && { auth: { user, pass: process.env.SMTP_PASS ?? "" } }),
+  });
+}
+
+const from = () => process.env.MAIL_FROM || process.env.SMTP_USER || "no-reply@spartan.cl";
+
+/* ===================== STORAGE ===================== */
+// data/mail/settings.json: plantillas y destinatarios · data/mail/log.json: correos enviados (los últimos MAX_LOG)
+type Log = { lastId: number; mails: SentMail[] };
+const SETTINGS = "mail/settings";
+const LOG = "mail/log";
+const MAX_LOG = 5000;
+const MAX_RECIPIENTS = 20;
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+function actor(user: User): AuditActor {
+  return { id: user.id, username: user.username, name: user.name };
+}
+
+/* ===================== VALIDACIÓN ===================== */
+const str = (v: unknown, max = 200) => String(v ?? "").trim().slice(0, max);
+
+function emails(v: unknown, what: string): string[] {
+  const list = Array.isArray(v) ? Array.from(new Set(v.map((s) => str(s, 200).toLowerCase()).filter(Boolean))) : [];
+  const bad = list.find((s) => !isEmail(s));
+  if (bad) throw new Error(`Correo inválido en ${what}: ${bad}`);
+  if (list.length > MAX_RECIPIENTS) throw new Error(`Máximo ${MAX_RECIPIENTS} direcciones en ${what}.`);
+  return list;
+}
+
+export function parseMailSettings(body: any): Omit<MailSettings, "updatedAt" | "updatedBy"> {
+  if (!body || typeof body !== "object") throw new Error("Configuración inválida.");
+  const templates = { ...DEFAULT_MAIL_SETTINGS.templates };
+  for (const k of MAIL_DOC_KINDS) {
+    const t = body.templates?.[k];
+    if (!t) continue;
+    if (!str(t.subject)) throw new Error("Cada plantilla necesita un asunto.");
+    templates[k] = { subject: str(t.subject, 300), body: str(t.body, 5000) };
+  }
+  const routes: MailRoute[] = (Array.isArray(body.routes) ? body.routes : [])
+    .filter((r: any) => str(r?.gerenciaId, 60))
+    .map((r: any) => ({ gerenciaId: str(r.gerenciaId, 60), to: emails(r.to, "Para"), cc: emails(r.cc, "CC") }));
+  return { templates, defaultTo: emails(body.defaultTo, "destinatarios por defecto"), routes };
+}
+
+/* ===================== CONFIGURACIÓN ===================== */
+export async function getMailSettings(): Promise<MailSettings> {
+  const stored = await readJson<Partial<MailSettings>>(SETTINGS, {});
+  return { ...DEFAULT_MAIL_SETTINGS, ...stored, templates: { ...DEFAULT_MAIL_SETTINGS.templates, ...stored.templates } };
+}
+
+export async function updateMailSettings(user: User, body: unknown): Promise<{ before: MailSettings; after: MailSettings }> {
+  const input = parseMailSettings(body);
+  const before = await getMailSettings();
+  const after: MailSettings = { ...input, updatedAt: new Date().toISOString(), updatedBy: actor(user) };
+  await updateJson<Partial<MailSettings>>(SETTINGS, {}, () => after);
+  return { before, after };
+}
+
+/* ===================== DOCUMENTOS ===================== */
+function money(n: number) {
+  return (n || 0).toLocaleString("es-CL", { style: "currency", currency: "CLP", maximumFractionDigits: 0 });
+}
+
+type DocInfo = { ejecutivo: string; vars: Record<string, string> };
+
+/** Datos del documento guardado para la plantilla; también comprueba que el usuario lo vea. */
+async function documentInfo(user: User, kind: MailDocKind, id: string): Promise<DocInfo> {
+  const base = { remitente: user.name };
+  if (kind === "evaluacion") {
+    const e = await getEvaluation(user, id);
+    return {
+      ejecutivo: e.ejecutivo,
+      vars: { ...base, numero: e.id, cliente: e.cliente.nombre, rut: e.cliente.rut, ejecutivo: e.ejecutivo, fecha: e.fecha, total: money(e.results.ventaTotal) },
+    };
+  }
+  const d = kind === "cotizacion" ? await getQuote(user, id) : await getSalesNote(user, id);
+  return {
+    ejecutivo: d.ejecutivo,
+    vars: { ...base, numero: d.number, cliente: d.client.name, rut: d.client.rut ?? "", ejecutivo: d.ejecutivo, fecha: d.dateISO, total: money(d.totals.total) },
+  };
+}
+
+/** Para y CC de las Gerencias cuyo equipo incluye al ejecutivo; sin ninguna, los destinatarios por defecto. */
+async function recipients(settings: MailSettings, ejecutivo: string) {
+  const gerencias = new Set((await gerenciasOf(ejecutivo)).map((u) => u.id));
+  const routes = settings.routes.filter((r) => gerencias.has(r.gerenciaId));
+  const to = Array.from(new Set(routes.flatMap((r) => r.to)));
+  const cc = Array.from(new Set(routes.flatMap((r) => r.cc))).filter((e) => !to.includes(e));
+  return routes.length ? { to, cc } : { to: settings.defaultTo, cc: [] };
+}
+
+export async function previewMail(user: User, kind: MailDocKind, id: string): Promise<MailPreview> {
+  const [settings, doc] = await Promise.all([getMailSettings(), documentInfo(user, kind, id)]);
+  const t = settings.templates[kind];
+  return {
+    ...(await recipients(settings, doc.ejecutivo)),
+    subject: renderTemplate(t.subject, doc.vars),
+    body: renderTemplate(t.body, doc.vars),
+    configured: !!process.env.SMTP_HOST,
+    anyRecipient: can(user, "mail-any-recipient"),
+  };
+}
+
+/* ===================== ENVÍO ===================== */
+async function log(entry: Omit<SentMail, "id">): Promise<SentMail> {
+  let mail: SentMail | null = null;
+  await updateJson<Log>(LOG, { lastId: 0, mails: [] }, (cur) => {
+    mail = { ...entry, id: cur.lastId + 1 };
+    return { lastId: mail.id, mails: [...cur.mails, mail].slice(-MAX_LOG) };
+  });
+  return mail!;
+}
+
+/** PDF del navegador: debe empezar con %PDF y cerrar con %%EOF (un archivo truncado o de otro tipo no se envía). */
+function pdfAttachment(v: any): Buffer {
+  const data = typeof v?.data === "string" ? v.data.replace(/^data:[^,]*,/, "") : "";
+  const content = Buffer.from(data, "base64");
+  if (!content.length || content.subarray(0, 5).toString("latin1") !== "%PDF-") throw new Error("Falta el PDF adjunto.");
+  if (content.length > MAX_ATTACHMENT_BYTES) throw new Error("El PDF supera los 10 MB.");
+  if (!content.subarray(-1024).toString("latin1").includes("%%EOF")) throw new Error("El PDF adjunto está incompleto.");
+  return content;
+}
+
+/** Envía el PDF adjunto; el intento queda en el registro aunque el relay lo rechace.
+ *  Sin "mail-any-recipient", solo a los destinatarios configurados para el documento (ver recipients). */
+export async function sendDocumentMail(user: User, body: any): Promise<SentMail> {
+  if (!body || typeof body !== "object" || !isMailDocKind(body.kind)) throw new Error("Documento desconocido.");
+  const kind: MailDocKind = body.kind;
+  const documentId = str(body.documentId, 40);
+  const doc = await documentInfo(user, kind, documentId);
+  const to = emails(body.to, "Para");
+  const cc = emails(body.cc, "CC");
+  if (!to.length) throw new Error("Indica al menos un destinatario.");
+  if (!can(user, "mail-any-recipient")) {
+    const allowed = await recipients(await getMailSettings(), doc.ejecutivo);
+    const outside = [...to, ...cc].filter((e) => !allowed.to.includes(e) && !allowed.cc.includes(e));
+    if (outside.length) throw new AuthError(`Solo puedes enviar a los destinatarios configurados; no a ${outside.join(", ")}.`, 403);
+  }
+  const subject = str(body.subject, 300);
+  if (!subject) throw new Error("Falta el asunto.");
+  const content = pdfAttachment(body.attachment);
+  const fileName = str(body.attachment.fileName, 120).replace(/[^A-Za-z0-9_.-]+/g, "_") || `${documentId}.pdf`;
+
+  const entry = {
+    at: new Date().toISOString(),
+    by: actor(user),
+    kind,
+    documentId,
+    ejecutivo: doc.ejecutivo,
+    to,
+    cc,
+    subject,
+    attachment: { fileName, size: content.length, sha256: createHash("sha256").update(content).digest("hex") },
+  };
+  try {
+    const info = await transport().sendMail({
+      from: from(),
+      to,
+      cc,
+      subject,
+      text: str(body.body, 10000),
+      attachments: [{ filename: fileName, content, contentType: "application/pdf" }],
+    });
+    return await log({ ...entry, status: "enviado", messageId: info.messageId });
+  } catch (e: any) {
+    await log({ ...entry, status: "error", error: str(e?.message ?? e, 500) });
+    throw new Error(`No se pudo enviar el correo: ${e?.message ?? e}`);
+  }
+}
+
+/* ===================== REGISTRO ===================== */
+// Cada uno ve lo que envió y lo de su cartera, como los documentos
+export function canSeeMail(user: User, m: Pick<SentMail, "ejecutivo" | "by">) {
+  return m.by?.id === user.id || inScope(userScope(user))(m.ejecutivo);
+}
+
+/** Correos visibles para el usuario, el último primero. */
+export async function listSentMail(user: User, filter: SentMailFilter = {}): Promise<SentMail[]> {
+  const { mails } = await readJson<Log>(LOG, { lastId: 0, mails: [] });
+  const q = filter.q?.toLowerCase();
+  return mails
+    .filter(
+      (m) =>
+        canSeeMail(user, m) &&
+        (!filter.kind || m.kind === filter.kind) &&
+        (!filter.documentId || m.documentId === filter.documentId) &&
+        (!q || [m.documentId, m.subject, m.by?.name, ...m.to, ...m.cc].some((s) => String(s ?? "").toLowerCase().includes(q)))
+    )
+    .reverse();
+}
@@ -0,0 +1,119 @@
+/* ===================== MOTOR DE MÁRGENES ===================== */
+// Un solo cálculo de Mgn (1)/(2)/(3) y viabilidad para Evaluación de Negocio y Clientes Activos.
+// Cada página arma las líneas mensuales (venta y costo) y el comodato mensual a su manera; desde ahí el cálculo es el mismo:
+//   Mgn (1) = venta − costo
+//   Mgn (2) = Mgn (1) − comodato mensual repartido por kilos
+//   Mgn (3) = Mgn (2) − comisión final · venta, con comisión final = comisión base · (1 − comodato/venta)
+// Mgn final = Σ Mgn (3) / Σ venta; qué es viable lo deciden las reglas de lib/viability.ts.
+
+/** Venta y costo mensuales de un producto. */
+export type MarginLine = { code: string; name: string; kilosMes: number; venta: number; costo: number };
+
+/** Reglas que de verdad difieren entre páginas (ver MARGIN_POLICIES). */
+export type MarginPolicy = {
+  /** Comisión base sugerida (fracción de la venta); el usuario la cambia en cada página. */
+  commissionBase: number;
+  /** Si el comodato supera la venta, la comisión final queda en 0 en vez de negativa. */
+  clampCommission: boolean;
+};
+
+export type MarginSource = "negocio" | "clientes-activos";
+
+// Negocio: cliente nuevo, comisión de captación. Clientes Activos: comisión de cartera.
+// Negocio no acota la comisión: así se guardaron sus evaluaciones y al reabrirlas da lo mismo
+export const MARGIN_POLICIES: Record<MarginSource, MarginPolicy> = {
+  negocio: { commissionBase: 0.105, clampCommission: false },
+  "clientes-activos": { commissionBase: 0.02, clampCommission: true },
+};
+
+export type MarginInput<L extends MarginLine = MarginLine> = {
+  lines: L[];
+  comodatoMensual: number;
+  commissionPct: number;
+  policy: MarginPolicy;
+};
+
+export type MarginLineResult<L extends MarginLine = MarginLine> = L & {
+  /** Mgn directo (1) */
+  mgn1: number;
+  mgn1Pct: number;
+  cdtoAsignado: number;
+  comision: number;
+  mgn2: number;
+  mgn2Pct: number;
+  /** Mgn final (3) */
+  mgn3: number;
+  mgn3Pct: number;
+};
+
+export type MarginResult<L extends MarginLine = MarginLine> = {
+  lines: MarginLineResult<L>[];
+  ventaTotal: number;
+  kilosTotal: number;
+  comodatoMensual: number;
+  /** Relación comodato mensual / venta mensual. */
+  rel: number;
+  /** Comisión final como fracción de la venta. */
+  comFinalPct: number;
+  comisionTotal: number;
+  mgn1Total: number;
+  mgn2Total: number;
+  mgn3Total: number;
+  /** Viabilidad global: Σ Mgn (3) / Σ venta. */
+  mgnFinalPct: number;
+};
+
+const ratio = (a: number, b: number) => (b > 0 ? a / b : 0);
+const sum = <T>(xs: T[], f: (x: T) => number) => xs.reduce((a, x) => a + f(x), 0);
+
+/** Comisión final (fracción de la venta) para una relación comodato/venta. */
+export function finalCommission(commissionPct: number, rel: number, policy: MarginPolicy) {
+  return commissionPct * (policy.clampCommission ? Math.max(0, 1 - rel) : 1 - rel);
+}
+
+/** Cuota mensual de un contrato: total / meses (0 sin meses). */
+export function monthlyFee(total: number, months: number) {
+  return months > 0 ? total / months : 0;
+}
+
+/** Las líneas conservan sus demás campos (precio, costo por kg…) para mostrarlas. */
+export function computeMargins<L extends MarginLine>({ lines, comodatoMensual, commissionPct, policy }: MarginInput<L>): MarginResult<L> {
+  const ventaTotal = sum(lines, (l) => l.venta);
+  const kilosTotal = sum(lines, (l) => l.kilosMes);
+  const rel = ratio(comodatoMensual, ventaTotal);
+  const com = finalCommission(commissionPct, rel, policy);
+
+  const out = lines.map((l): MarginLineResult<L> => {
+    const mgn1 = l.venta - l.costo;
+    const cdtoAsignado = ratio(l.kilosMes, kilosTotal) * comodatoMensual;
+    const comision = com * l.venta;
+    const mgn2 = mgn1 - cdtoAsignado;
+    const mgn3 = mgn2 - comision;
+    return {
+      ...l,
+      mgn1,
+      mgn1Pct: ratio(mgn1, l.venta),
+      cdtoAsignado,
+      comision,
+      mgn2,
+      mgn2Pct: ratio(mgn2, l.venta),
+      mgn3,
+      mgn3Pct: ratio(mgn3, l.venta),
+    };
+  });
+
+  const mgn3Total = sum(out, (l) => l.mgn3);
+  return {
+    lines: out,
+    ventaTotal,
+    kilosTotal,
+    comodatoMensual,
+    rel,
+    comFinalPct: ventaTotal > 0 ? com : 0,
+    comisionTotal: sum(out, (l) => l.comision),
+    mgn1Total: sum(out, (l) => l.mgn1),
+    mgn2Total: sum(out, (l) => l.mgn2),
+    mgn3Total,
+    mgnFinalPct: ratio(mgn3Total, ventaTotal),
+  };
+}
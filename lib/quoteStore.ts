@@ -0,0 +1,181 @@
+import { readJson, updateJson, writeJson } from "@/lib/store";
+import { inScope, userScope, type User } from "@/lib/auth";
+import { AuthError } from "@/lib/userStore";
+import {
+  BRANCHES,
+  isBranch,
+  quoteTotals,
+  toQuoteSummary,
+  type BranchId,
+  type Quote,
+  type QuoteData,
+  type QuoteFilter,
+  type QuoteItem,
+  type QuoteSummary,
+} from "@/lib/quotes";
+import type { AuditActor } from "@/lib/audit";
+
+/* ===================== STORAGE ===================== */
+// data/quotes/index.json: correlativos y resúmenes · data/quotes/<número>.json: cotización completa
+// counters: "2025" (o "2025-STG" con correlativo por sucursal) → último correlativo usado
+type Index = { counters: Record<string, number>; quotes: QuoteSummary[] };
+const INDEX = "quotes/index";
+const quoteKey = (number: string) => `quotes/${number}`;
+const NUMBER_RE = /^CTZ-(?:[A-Z]+-)?\d{4}-\d+$/;
+
+const perBranch = () => process.env.QUOTE_SERIES_PER_BRANCH === "1";
+
+function actor(user: User): AuditActor {
+  return { id: user.id, username: user.username, name: user.name };
+}
+
+// CTZ-2025-00001, o CTZ-STG-2025-00001 con correlativo por sucursal
+function nextNumber(counters: Record<string, number>, branch: BranchId, year: string) {
+  const prefix = perBranch() ? `${BRANCHES[branch].code}-${year}` : year;
+  const seq = (counters[prefix] ?? 0) + 1;
+  return { counters: { ...counters, [prefix]: seq }, number: `CTZ-${prefix}-${String(seq).padStart(5, "0")}` };
+}
+
+/* ===================== VALIDACIÓN ===================== */
+const num = (v: unknown) => (Number.isFinite(Number(v)) ? Number(v) : 0);
+const str = (v: unknown, max = 200) => String(v ?? "").trim().slice(0, max);
+
+/** Cliente, emisor, ítems, IVA y versión del catálogo: lo común a cotizaciones y notas de venta. */
+export function parseDocumentFields(body: any): Pick<QuoteData, "client" | "issuer" | "items" | "taxPct" | "catalogVersion"> {
+  if (!body || typeof body !== "object") throw new Error("Documento inválido.");
+  if (!Array.isArray(body.items) || !body.items.length) throw new Error("El documento no tiene productos.");
+  if (!str(body.client?.name)) throw new Error("Falta la razón social del cliente.");
+  const items: QuoteItem[] = body.items.slice(0, 500).map((it: any) => ({
+    code: str(it?.code, 60).toUpperCase(),
+    description: str(it?.description, 300),
+    kilos: num(it?.kilos),
+    qty: num(it?.qty),
+    unitPrice: num(it?.unitPrice),
+    discountPct: num(it?.discountPct),
+  }));
+  const c = body.client;
+  const i = body.issuer ?? {};
+  const v = body.catalogVersion;
+  return {
+    client: {
+      name: str(c.name),
+      rut: str(c.rut, 20),
+      address: str(c.address, 300),
+      clientCode: str(c.clientCode, 40),
+      condicionPago: str(c.condicionPago, 100),
+      giro: str(c.giro),
+    },
+    issuer: {
+      name: str(i.name),
+      rut: str(i.rut, 20),
+      address: str(i.address, 300),
+      paymentTerms: str(i.paymentTerms, 100),
+      contact: str(i.contact, 120),
+      email: str(i.email, 120),
+      phone: str(i.phone, 40),
+    },
+    items,
+    taxPct: body.taxPct === undefined ? 19 : num(body.taxPct),
+    catalogVersion: v && Number.isInteger(v.id) ? { id: v.id, createdAt: str(v.createdAt, 40) } : null,
+  };
+}
+
+/** Normaliza lo que llega del navegador; número y fecha los pone el servidor al emitir. */
+export function parseQuoteInput(body: any): QuoteData & { branch: BranchId; clonedFrom?: string } {
+  const fields = parseDocumentFields(body);
+  if (!isBranch(body.branch)) throw new Error("Sucursal desconocida.");
+  return {
+    ...fields,
+    number: "",
+    dateISO: "",
+    validity: str(body.validity, 60),
+    branch: body.branch,
+    ...(typeof body.evaluationId === "string" && /^EV-\d+$/.test(body.evaluationId) && { evaluationId: body.evaluationId }),
+    ...(typeof body.clonedFrom === "string" && NUMBER_RE.test(body.clonedFrom) && { clonedFrom: body.clonedFrom }),
+  };
+}
+
+/* ===================== ACCESO ===================== */
+// El ejecutivo decide quién ve el documento y a quién se envía: como en las evaluaciones, solo uno de la cartera de quien guarda
+/** Ejecutivo del campo "Ejecutivo" del emisor (vacío: el del usuario), siempre dentro de la cartera del usuario. */
+export function scopedEjecutivo(user: User, contact: string | undefined) {
+  const ejecutivo = contact || user.ejecutivo || "";
+  if (ejecutivo && !inScope(userScope(user))(ejecutivo)) throw new Error(`${ejecutivo} no es un ejecutivo de tu cartera.`);
+  return ejecutivo;
+}
+
+// Igual que las evaluaciones: lo propio y lo de la cartera visible
+export function canSeeQuote(user: User, q: Pick<Quote, "ejecutivo" | "createdBy">) {
+  return q.createdBy?.id === user.id || inScope(userScope(user))(q.ejecutivo);
+}
+
+/* ===================== LECTURA ===================== */
+function matches(q: QuoteSummary, f: QuoteFilter) {
+  if (f.from && q.dateISO < f.from) return false;
+  if (f.to && q.dateISO > f.to) return false;
+  if (!f.q) return true;
+  const text = f.q.toLowerCase();
+  return [q.number, q.client.name, q.client.rut, q.ejecutivo, q.createdBy?.name, q.evaluationId].some((s) => String(s ?? "").toLowerCase().includes(text));
+}
+
+/** Cotizaciones visibles para el usuario, la más nueva primero. */
+export async function listQuotes(user: User, filter: QuoteFilter = {}): Promise<QuoteSummary[]> {
+  const { quotes } = await readJson<Index>(INDEX, { counters: {}, quotes: [] });
+  return quotes.filter((q) => canSeeQuote(user, q) && matches(q, filter)).sort((a, b) => (a.createdAt < b.createdAt ? 1 : -1));
+}
+
+export async function getQuote(user: User, number: string): Promise<Quote> {
+  const q = NUMBER_RE.test(number) ? await readJson<Quote | null>(quoteKey(number), null) : null;
+  // Una cotización ajena responde igual que una inexistente
+  if (!q || !canSeeQuote(user, q)) throw new AuthError("Cotización desconocida.", 404);
+  return q;
+}
+
+/* ===================== ESCRITURA ===================== */
+/** Asigna el correlativo y guarda la cotización tal como se emite; el ejecutivo vacío toma el del usuario (ver scopedEjecutivo). */
+export async function issueQuote(user: User, input: ReturnType<typeof parseQuoteInput>): Promise<Quote> {
+  const ejecutivo = scopedEjecutivo(user, input.issuer.contact);
+  const now = new Date().toISOString();
+  let quote: Quote | null = null;
+  // Número y archivo se escriben dentro de la misma cola: dos emisiones simultáneas no comparten correlativo
+  await updateJson<Index>(INDEX, { counters: {}, quotes: [] }, async (idx) => {
+    const { counters, number } = nextNumber(idx.counters, input.branch, now.slice(0, 4));
+    quote = {
+      ...input,
+      number,
+      dateISO: now.slice(0, 10),
+      ejecutivo,
+      totals: quoteTotals(input),
+      status: "emitida",
+      createdAt: now,
+      createdBy: actor(user),
+    };
+    await writeJson(quoteKey(number), quote);
+    return { counters, quotes: [...idx.quotes, toQuoteSummary(quote)] };
+  });
+  return quote!;
+}
+
+/**
+ * Convierte la cotización una sola vez. create (la nota de venta) corre dentro de la cola del índice con la cotización
+ * releída: dos conversiones a la vez no dejan notas huérfanas y, si create falla, la cotización queda como estaba.
+ */
+export async function convertQuote<T extends { number: string }>(
+  user: User,
+  number: string,
+  create: (current: Quote) => Promise<T>
+): Promise<{ quote: Quote; created: T }> {
+  await getQuote(user, number);
+  let result: { quote: Quote; created: T } | null = null;
+  await updateJson<Index>(INDEX, { counters: {}, quotes: [] }, async (idx) => {
+    const current = await readJson<Quote | null>(quoteKey(number), null);
+    if (!current) throw new AuthError("Cotización desconocida.", 404);
+    if (current.convertedTo) throw new Error(`La cotización ${number} ya se convirtió en ${current.convertedTo}.`);
+    const created = await create(current);
+    const quote: Quote = { ...current, status: "convertida", convertedTo: created.number, convertedAt: new Date().toISOString() };
+    await writeJson(quoteKey(number), quote);
+    result = { quote, created };
+    return { ...idx, quotes: idx.quotes.map((q) => (q.number === number ? toQuoteSummary(quote) : q)) };
+  });
+  return result!;
+}
@@ -0,0 +1,160 @@
+import type { CatalogVersionRef } from "@/lib/catalogVersions";
+import type { AuditActor } from "@/lib/audit";
+import { postJson } from "@/lib/auth";
+import type { SalesNote } from "@/lib/salesNotes";
+import type { Evaluation } from "@/lib/evaluations";
+
+/* ===================== TIPOS ===================== */
+export type QuoteItem = {
+  code?: string;
+  description: string;
+  kilos?: number;
+  qty: number;
+  unitPrice: number;
+  discountPct?: number;
+};
+export type Party = {
+  name: string;
+  rut?: string;
+  address?: string;
+  clientCode?: string;
+  condicionPago?: string;
+  giro?: string;
+};
+/** Lo que edita el formulario de cotización. number vacío: borrador (el servidor lo asigna al emitir). */
+export type QuoteData = {
+  number: string;
+  dateISO: string;
+  validity: string;
+  client: Party;
+  issuer: Party & { paymentTerms?: string; contact?: string; email?: string; phone?: string };
+  items: QuoteItem[];
+  taxPct?: number;
+  /** Versión del catálogo de la que se tomaron los precios. */
+  catalogVersion?: CatalogVersionRef | null;
+  /** Evaluación de negocio que justifica los precios (cotización generada desde ella). */
+  evaluationId?: string;
+};
+
+export type QuoteTotals = { subtotal: number; tax: number; total: number };
+
+/* ===================== SUCURSALES ===================== */
+// Dirección de emisión de cada formulario; con QUOTE_SERIES_PER_BRANCH=1 cada sucursal lleva su propio correlativo
+export type BranchId = "santiago" | "quilicura";
+export const BRANCHES: Record<BranchId, { label: string; code: string; address: string }> = {
+  santiago: { label: "Santiago", code: "STG", address: "Alameda 1001, Santiago" },
+  quilicura: { label: "Quilicura", code: "QLC", address: "Cerro Santa Lucia 9873, Quilicura" },
+};
+
+export function isBranch(v: unknown): v is BranchId {
+  return typeof v === "string" && v in BRANCHES;
+}
+
+/* ===================== COTIZACIÓN GUARDADA ===================== */
+export type QuoteStatus = "emitida" | "convertida";
+export const QUOTE_STATUS_LABEL: Record<QuoteStatus, string> = { emitida: "Emitida", convertida: "Convertida a NV" };
+
+/** Cotización emitida: no se modifica; se reimprime tal cual o se clona en un borrador. */
+export type Quote = QuoteData & {
+  branch: BranchId;
+  /** "Empleado Ventas" dueño de la cotización: define quién la ve (ver userScope). */
+  ejecutivo: string;
+  totals: QuoteTotals;
+  status: QuoteStatus;
+  createdAt: string;
+  createdBy: AuditActor;
+  /** Número de la cotización de la que se clonó. */
+  clonedFrom?: string;
+  /** Nota de venta creada desde esta cotización. */
+  convertedTo?: string;
+  convertedAt?: string;
+};
+
+/** Fila del listado: sin ítems ni emisor. */
+export type QuoteSummary = Omit<Quote, "items" | "issuer"> & { itemsCount: number };
+
+export type QuoteFilter = {
+  /** Texto libre sobre número, cliente, RUT y ejecutivo. */
+  q?: string;
+  /** yyyy-mm-dd, inclusive, sobre la fecha de la cotización. */
+  from?: string;
+  to?: string;
+};
+
+export function toQuoteSummary({ items, issuer: _, ...rest }: Quote): QuoteSummary {
+  return { ...rest, itemsCount: items.length };
+}
+
+/** Solo lo que edita el formulario (para reabrir o clonar). */
+export function quoteData(q: Quote): QuoteData {
+  const { number, dateISO, validity, client, issuer, items, taxPct, catalogVersion, evaluationId } = q;
+  return { number, dateISO, validity, client, issuer, items, taxPct, catalogVersion, evaluationId };
+}
+
+/** Cliente y productos de una evaluación viable, a los $/kg evaluados (sin descuento aparte). */
+export function quoteFromEvaluation(e: Evaluation): Pick<QuoteData, "client" | "items" | "catalogVersion" | "evaluationId"> {
+  return {
+    client: { name: e.cliente.nombre, rut: e.cliente.rut, address: e.cliente.direccion },
+    items: e.sales.map((l) => ({ code: l.code, description: l.name, kilos: l.kilos, qty: l.qty, unitPrice: l.priceKg, discountPct: 0 })),
+    catalogVersion: e.catalogVersion,
+    evaluationId: e.id,
+  };
+}
+
+/**
+ * Lo que no cuadra entre la cotización y su evaluación (null si cuadra): los mismos productos
+ * y ningún $/kg final (con descuento) bajo el evaluado, que es lo que se aprobó como viable.
+ */
+export function evaluationMismatch(items: QuoteItem[], e: Pick<Evaluation, "id" | "sales">): string | null {
+  const evaluated = new Map<string, number>();
+  for (const l of e.sales) evaluated.set(l.code, Math.max(evaluated.get(l.code) ?? 0, l.priceKg || 0));
+  const quoted = new Set<string>();
+  for (const it of items) {
+    const code = (it.code || "").toUpperCase();
+    const min = evaluated.get(code);
+    if (min === undefined) return `${it.code || it.description || "Un ítem"} no está en la evaluación ${e.id}.`;
+    if (lineTotal(it).precioVenta < min) return `${code}: el precio final queda bajo el $/kg evaluado en ${e.id}.`;
+    quoted.add(code);
+  }
+  const missing = Array.from(evaluated.keys()).filter((c) => !quoted.has(c));
+  return missing.length ? `Faltan productos de la evaluación ${e.id}: ${missing.join(", ")}.` : null;
+}
+
+/* ===================== CÁLCULO ===================== */
+export function lineTotal(it: QuoteItem) {
+  const precioVenta = (it.unitPrice || 0) * (1 - (it.discountPct || 0) / 100);
+  return { precioVenta, sub: (it.kilos || 0) * (it.qty || 0) * precioVenta };
+}
+
+export function quoteTotals(q: Pick<QuoteData, "items" | "taxPct">): QuoteTotals {
+  const subtotal = q.items.reduce((a, it) => a + lineTotal(it).sub, 0);
+  const tax = subtotal * ((q.taxPct ?? 19) / 100);
+  return { subtotal, tax, total: subtotal + tax };
+}
+
+/* ===================== CLIENTE ===================== */
+export async function fetchQuotes(filter: QuoteFilter = {}): Promise<QuoteSummary[]> {
+  const p = new URLSearchParams();
+  for (const [k, v] of Object.entries(filter)) if (v) p.set(k, v);
+  const r = await fetch(`/api/quotes?${p}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudieron leer las cotizaciones (${r.status})`);
+  return json.quotes;
+}
+
+export async function fetchQuote(number: string): Promise<Quote> {
+  const r = await fetch(`/api/quotes/${encodeURIComponent(number)}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudo abrir la cotización ${number} (${r.status})`);
+  return json.quote;
+}
+
+/** Guarda el borrador como cotización emitida; el servidor le asigna el correlativo. */
+export async function issueQuote(data: QuoteData, branch: BranchId, clonedFrom?: string | null): Promise<Quote> {
+  return (await postJson<{ quote: Quote }>("/api/quotes", { ...data, branch, clonedFrom: clonedFrom || undefined })).quote;
+}
+
+/** Crea la nota de venta con los datos de la cotización y la marca como convertida. */
+export async function convertQuote(number: string): Promise<{ note: SalesNote; quote: Quote }> {
+  return postJson(`/api/quotes/${encodeURIComponent(number)}/convert`);
+}
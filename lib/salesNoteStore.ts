@@ -0,0 +1,149 @@
+import { readJson, updateJson, writeJson } from "@/lib/store";
+import { ejecutivoKey, inScope, userScope, type User } from "@/lib/auth";
+import { AuthError } from "@/lib/userStore";
+import { convertQuote, parseDocumentFields, scopedEjecutivo } from "@/lib/quoteStore";
+import { quoteTotals, type Quote } from "@/lib/quotes";
+import {
+  SALES_NOTE_STATUS_LABEL,
+  canSetSalesNoteStatus,
+  canTransition,
+  toSalesNoteSummary,
+  type SalesNote,
+  type SalesNoteFilter,
+  type SalesNoteStatus,
+  type SalesNoteSummary,
+} from "@/lib/salesNotes";
+import type { AuditActor } from "@/lib/audit";
+
+/* ===================== STORAGE ===================== */
+// data/sales-notes/index.json: correlativo por año y resúmenes · data/sales-notes/<número>.json: nota completa
+type Index = { counters: Record<string, number>; notes: SalesNoteSummary[] };
+const INDEX = "sales-notes/index";
+const noteKey = (number: string) => `sales-notes/${number}`;
+const NUMBER_RE = /^NV-\d{4}-\d+$/;
+const EMPTY: Index = { counters: {}, notes: [] };
+
+function actor(user: User): AuditActor {
+  return { id: user.id, username: user.username, name: user.name };
+}
+
+/* ===================== ACCESO ===================== */
+// Igual que cotizaciones y evaluaciones: lo propio y lo de la cartera visible
+export function canSeeSalesNote(user: User, n: Pick<SalesNote, "ejecutivo" | "createdBy">) {
+  return n.createdBy?.id === user.id || inScope(userScope(user))(n.ejecutivo);
+}
+
+/* ===================== LECTURA ===================== */
+function matches(n: SalesNoteSummary, f: SalesNoteFilter) {
+  if (f.status && n.status !== f.status) return false;
+  if (f.from && n.dateISO < f.from) return false;
+  if (f.to && n.dateISO > f.to) return false;
+  if (!f.q) return true;
+  const text = f.q.toLowerCase();
+  return [n.number, n.client.name, n.client.rut, n.ejecutivo, n.createdBy?.name].some((s) => String(s ?? "").toLowerCase().includes(text));
+}
+
+/** Notas visibles para el usuario, la última modificada primero. */
+export async function listSalesNotes(user: User, filter: SalesNoteFilter = {}): Promise<SalesNoteSummary[]> {
+  const { notes } = await readJson<Index>(INDEX, EMPTY);
+  return notes.filter((n) => canSeeSalesNote(user, n) && matches(n, filter)).sort((a, b) => (a.updatedAt < b.updatedAt ? 1 : -1));
+}
+
+export async function getSalesNote(user: User, number: string): Promise<SalesNote> {
+  const n = NUMBER_RE.test(number) ? await readJson<SalesNote | null>(noteKey(number), null) : null;
+  // Una nota ajena responde igual que una inexistente
+  if (!n || !canSeeSalesNote(user, n)) throw new AuthError("Nota de venta desconocida.", 404);
+  return n;
+}
+
+/* ===================== ESCRITURA ===================== */
+// El archivo de la nota y su resumen se actualizan dentro de la cola del índice. La nota se vuelve a leer ahí:
+// change valida el estado actual, así dos cambios a la vez no se pisan (una edición no devuelve a borrador una nota emitida)
+async function mutate(number: string, change: (current: SalesNote) => SalesNote): Promise<{ before: SalesNote; after: SalesNote }> {
+  let result: { before: SalesNote; after: SalesNote } | null = null;
+  await updateJson<Index>(INDEX, EMPTY, async (idx) => {
+    const before = await readJson<SalesNote | null>(noteKey(number), null);
+    if (!before) throw new AuthError("Nota de venta desconocida.", 404);
+    const after = change(before);
+    await writeJson(noteKey(number), after);
+    result = { before, after };
+    return { ...idx, notes: [...idx.notes.filter((x) => x.number !== number), toSalesNoteSummary(after)] };
+  });
+  return result!;
+}
+
+/** Crea la nota en borrador con el siguiente NV del año; el ejecutivo es el de la cotización o uno de la cartera del usuario. */
+export async function createSalesNote(user: User, body: unknown, from?: Quote): Promise<SalesNote> {
+  const fields = parseDocumentFields(body);
+  const ejecutivo = from ? from.ejecutivo : scopedEjecutivo(user, fields.issuer.contact);
+  const now = new Date().toISOString();
+  const year = now.slice(0, 4);
+  let note: SalesNote | null = null;
+  await updateJson<Index>(INDEX, EMPTY, async (idx) => {
+    const seq = (idx.counters[year] ?? 0) + 1;
+    note = {
+      ...fields,
+      number: `NV-${year}-${String(seq).padStart(5, "0")}`,
+      dateISO: now.slice(0, 10),
+      ejecutivo,
+      totals: quoteTotals(fields),
+      status: "borrador",
+      history: [{ status: "borrador", at: now, by: actor(user), ...(from && { note: `Desde cotización ${from.number}` }) }],
+      ...(from && { source: { quote: from.number, dateISO: from.dateISO, catalogVersion: from.catalogVersion ?? null } }),
+      createdAt: now,
+      updatedAt: now,
+      createdBy: actor(user),
+      updatedBy: actor(user),
+    };
+    await writeJson(noteKey(note.number), note);
+    return { counters: { ...idx.counters, [year]: seq }, notes: [...idx.notes, toSalesNoteSummary(note)] };
+  });
+  return note!;
+}
+
+/** Nota en borrador con cliente, ítems, descuentos y condiciones de la cotización; la cotización queda convertida. */
+export async function convertQuoteToSalesNote(user: User, number: string): Promise<{ note: SalesNote; quote: Quote }> {
+  const { quote, created } = await convertQuote(user, number, (source) => {
+    const { client, issuer, items, taxPct, catalogVersion } = source;
+    return createSalesNote(user, { client, issuer, items, taxPct, catalogVersion }, source);
+  });
+  return { note: created, quote };
+}
+
+/** Solo el borrador se edita: emitida, la nota cambia únicamente de estado. Editar no cambia el ejecutivo (ni la cartera). */
+export async function updateSalesNote(user: User, number: string, body: unknown): Promise<{ before: SalesNote; after: SalesNote }> {
+  await getSalesNote(user, number);
+  const fields = parseDocumentFields(body);
+  return mutate(number, (before) => {
+    if (before.status !== "borrador") throw new Error(`La nota ${number} está ${SALES_NOTE_STATUS_LABEL[before.status].toLowerCase()}; ya no se puede editar.`);
+    const contact = fields.issuer.contact;
+    if (contact && ejecutivoKey(contact) !== ejecutivoKey(before.ejecutivo)) throw new Error(`La nota ${number} es de ${before.ejecutivo || "otro ejecutivo"}; el ejecutivo no se cambia al editarla.`);
+    return {
+      ...before,
+      ...fields,
+      totals: quoteTotals(fields),
+      updatedAt: new Date().toISOString(),
+      updatedBy: actor(user),
+    };
+  });
+}
+
+export async function setSalesNoteStatus(user: User, number: string, status: SalesNoteStatus, comment?: string): Promise<{ before: SalesNote; after: SalesNote }> {
+  const seen = await getSalesNote(user, number);
+  if (!canSetSalesNoteStatus(user, seen, status)) {
+    throw new AuthError(`No tienes permiso para dejar la nota ${SALES_NOTE_STATUS_LABEL[status].toLowerCase()}.`, 403);
+  }
+  return mutate(number, (before) => {
+    if (!canTransition(before.status, status)) {
+      throw new Error(`No se puede pasar de ${SALES_NOTE_STATUS_LABEL[before.status]} a ${SALES_NOTE_STATUS_LABEL[status]}.`);
+    }
+    const now = new Date().toISOString();
+    return {
+      ...before,
+      status,
+      history: [...before.history, { status, at: now, by: actor(user), ...(comment && { note: comment }) }],
+      updatedAt: now,
+      updatedBy: actor(user),
+    };
+  });
+}
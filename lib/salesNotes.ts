@@ -0,0 +1,136 @@
+import type { AuditActor } from "@/lib/audit";
+import { can, postJson, type Capability, type User } from "@/lib/auth";
+import type { CatalogVersionRef } from "@/lib/catalogVersions";
+import type { QuoteData, QuoteTotals } from "@/lib/quotes";
+
+/* ===================== TIPOS ===================== */
+// Mismo formulario que la cotización; number vacío hasta que el servidor crea la nota
+export type SalesNoteData = Omit<QuoteData, "validity">;
+
+export type SalesNoteStatus = "borrador" | "emitida" | "aprobada" | "despachada" | "facturada" | "anulada";
+export const SALES_NOTE_STATUS_LABEL: Record<SalesNoteStatus, string> = {
+  borrador: "Borrador",
+  emitida: "Emitida",
+  aprobada: "Aprobada",
+  despachada: "Despachada",
+  facturada: "Facturada",
+  anulada: "Anulada",
+};
+export const SALES_NOTE_STATUSES = Object.keys(SALES_NOTE_STATUS_LABEL) as SalesNoteStatus[];
+
+// borrador → emitida → aprobada → despachada → facturada; se puede anular mientras no esté facturada
+export const SALES_NOTE_TRANSITIONS: Record<SalesNoteStatus, SalesNoteStatus[]> = {
+  borrador: ["emitida", "anulada"],
+  emitida: ["aprobada", "anulada"],
+  aprobada: ["despachada", "anulada"],
+  despachada: ["facturada", "anulada"],
+  facturada: [],
+  anulada: [],
+};
+
+/** Botón de cada transición (el estado de destino). */
+export const SALES_NOTE_ACTION_LABEL: Record<SalesNoteStatus, string> = {
+  borrador: "Volver a borrador",
+  emitida: "Emitir",
+  aprobada: "Aprobar",
+  despachada: "Marcar despachada",
+  facturada: "Marcar facturada",
+  anulada: "Anular",
+};
+
+export function canTransition(from: SalesNoteStatus, to: SalesNoteStatus) {
+  return SALES_NOTE_TRANSITIONS[from].includes(to);
+}
+
+// Emitir y anular lo hace quien vende; aprobar, despachar y facturar requieren el permiso
+export const SALES_NOTE_STATUS_CAPABILITY: Partial<Record<SalesNoteStatus, Capability>> = {
+  aprobada: "manage-sales-notes",
+  despachada: "manage-sales-notes",
+  facturada: "manage-sales-notes",
+};
+
+/** ¿El usuario puede llevar la nota a ese estado? Nadie aprueba su propia nota. */
+export function canSetSalesNoteStatus(user: User | null | undefined, note: Pick<SalesNote, "createdBy">, to: SalesNoteStatus) {
+  const cap = SALES_NOTE_STATUS_CAPABILITY[to];
+  if (cap && !can(user, cap)) return false;
+  return !(to === "aprobada" && note.createdBy?.id === user?.id);
+}
+
+export function isSalesNoteStatus(v: unknown): v is SalesNoteStatus {
+  return typeof v === "string" && v in SALES_NOTE_STATUS_LABEL;
+}
+
+/** Cada cambio de estado, con fecha y quién lo hizo (el primero es la creación). */
+export type SalesNoteTransition = { status: SalesNoteStatus; at: string; by: AuditActor; note?: string };
+
+/** Cotización de la que se copiaron cliente, ítems, descuentos y condiciones (y de qué catálogo venían sus precios). */
+export type SalesNoteSource = { quote: string; dateISO: string; catalogVersion?: CatalogVersionRef | null };
+
+export type SalesNote = SalesNoteData & {
+  /** "Empleado Ventas" dueño de la nota: define quién la ve (ver userScope). */
+  ejecutivo: string;
+  totals: QuoteTotals;
+  status: SalesNoteStatus;
+  history: SalesNoteTransition[];
+  source?: SalesNoteSource;
+  createdAt: string;
+  updatedAt: string;
+  createdBy: AuditActor;
+  updatedBy: AuditActor;
+};
+
+/** Fila del listado: sin ítems ni emisor. */
+export type SalesNoteSummary = Omit<SalesNote, "items" | "issuer" | "history"> & { itemsCount: number };
+
+export type SalesNoteFilter = {
+  /** Texto libre sobre número, cliente, RUT y ejecutivo. */
+  q?: string;
+  status?: SalesNoteStatus;
+  /** yyyy-mm-dd, inclusive, sobre la fecha de la nota. */
+  from?: string;
+  to?: string;
+};
+
+export function toSalesNoteSummary({ items, issuer: _i, history: _h, ...rest }: SalesNote): SalesNoteSummary {
+  return { ...rest, itemsCount: items.length };
+}
+
+/** Solo lo que edita el formulario. */
+export function salesNoteData(n: SalesNote): SalesNoteData {
+  const { number, dateISO, client, issuer, items, taxPct, catalogVersion } = n;
+  return { number, dateISO, client, issuer, items, taxPct, catalogVersion };
+}
+
+/* ===================== CLIENTE ===================== */
+export async function fetchSalesNotes(filter: SalesNoteFilter = {}): Promise<SalesNoteSummary[]> {
+  const p = new URLSearchParams();
+  for (const [k, v] of Object.entries(filter)) if (v) p.set(k, v);
+  const r = await fetch(`/api/sales-notes?${p}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudieron leer las notas de venta (${r.status})`);
+  return json.notes;
+}
+
+export async function fetchSalesNote(number: string): Promise<SalesNote> {
+  const r = await fetch(`/api/sales-notes/${encodeURIComponent(number)}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudo abrir la nota de venta ${number} (${r.status})`);
+  return json.note;
+}
+
+/** Sin número crea la nota (en borrador, con su número NV); con número guarda encima del borrador. */
+export async function saveSalesNote(data: SalesNoteData): Promise<SalesNote> {
+  if (!data.number) return (await postJson<{ note: SalesNote }>("/api/sales-notes", data)).note;
+  const r = await fetch(`/api/sales-notes/${encodeURIComponent(data.number)}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(data),
+  });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `Error ${r.status}`);
+  return json.note;
+}
+
+export async function setSalesNoteStatus(number: string, status: SalesNoteStatus, note?: string): Promise<SalesNote> {
+  return (await postJson<{ note: SalesNote }>(`/api/sales-notes/${encodeURIComponent(number)}/status`, { status, note })).note;
+}
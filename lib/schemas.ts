@@ -0,0 +1,275 @@
+import { parseDateLike, toNumber, type DecimalSeparator, type SheetRow, type SheetValue } from "@/lib/sheets";
+
+/* ===================== TIPOS ===================== */
+// string: texto recortado · code: texto en MAYÚSCULAS · number: es-CL salvo que el campo diga decimal "." · date: Date | null · raw: sin conversión
+type FieldType = "string" | "code" | "number" | "date" | "raw";
+export type FieldDef = {
+  type: FieldType;
+  /** Encabezados aceptados (se comparan sin tildes, mayúsculas ni espacios). */
+  aliases: string[];
+  required?: boolean;
+  /** Queda undefined (en vez de 0 / "") si la columna no existe o la celda viene vacía. */
+  optional?: boolean;
+  /** Columna por posición (base 0) si ningún alias coincide. */
+  column?: number;
+  /** Solo number: separador decimal de la columna, el mismo para todas sus celdas (por defecto "," de es-CL). */
+  decimal?: DecimalSeparator;
+};
+export type Schema<T> = { name: string; fields: { [K in keyof T]-?: FieldDef } };
+
+export type MapReport = {
+  sheet: string;
+  /** Encabezados detectados en la planilla, en orden. */
+  headers: string[];
+  /** Campo → encabezado encontrado. */
+  matched: Record<string, string>;
+  /** Campos obligatorios sin columna. */
+  missing: string[];
+  /** Campos opcionales sin columna. */
+  optionalMissing: string[];
+  /** Encabezados de la planilla que no corresponden a ningún campo. */
+  unmatched: string[];
+  /** Filas descartadas por venir sin un campo obligatorio. */
+  skipped: number;
+};
+export type Mapped<T> = { records: T[]; report: MapReport };
+
+/* ===================== SCHEMAS ===================== */
+function schema<T>(name: string, fields: { [K in keyof T]-?: FieldDef }): Schema<T> {
+  return { name, fields };
+}
+function f(type: FieldType, aliases: string[], extra: Omit<FieldDef, "type" | "aliases"> = {}): FieldDef {
+  return { type, aliases, ...extra };
+}
+
+export type VentasRow = {
+  docDate: Date | null;
+  rut: string;
+  cliente: string;
+  codigoCliente: string;
+  itemCode: string;
+  descripcion: string;
+  kilos: number;
+  venta: number;
+  ejecutivo: string;
+  direccion: string;
+  comuna: string;
+  ciudad: string;
+};
+export const VENTAS_SCHEMA = schema<VentasRow>("Ventas", {
+  docDate: f("date", ["DocDate", "Fecha", "Fecha Documento"], { required: true }),
+  rut: f("string", ["Rut Cliente", "RUT", "Rut"], { required: true }),
+  cliente: f("string", ["Nombre Cliente", "CardName", "Cliente"]),
+  // "odigo liente" aparece en exportaciones con el encabezado cortado
+  codigoCliente: f("code", ["Codigo Cliente", "Código Cliente", "odigo liente", "CardCode"]),
+  itemCode: f("code", ["ItemCode", "Codigo Producto", "Código Producto"], { required: true }),
+  descripcion: f("string", ["Dscription", "Description", "Descripcion", "Descripción"]),
+  kilos: f("number", ["Cantidad Kilos", "Kilos"]),
+  venta: f("number", ["Global Venta", "Venta", "Total Venta"], { required: true }),
+  ejecutivo: f("string", ["Empleado Ventas", "Èmpleado Ventas", "Empleado ventas", "Ejecutivo"]),
+  direccion: f("string", ["Direccion", "Dirección"]),
+  comuna: f("string", ["Comuna"]),
+  ciudad: f("string", ["Ciudad"]),
+});
+
+export type ComodatoRow = {
+  rut: string;
+  codigo: string;
+  producto: string;
+  total: number;
+  periodo: SheetValue;
+};
+export const COMODATOS_SCHEMA = schema<ComodatoRow>("Comodatos", {
+  rut: f("string", ["Rut Cliente", "RUT", "Rut"], { required: true }),
+  codigo: f("code", ["Codigo Producto", "Código Producto", "ItemCode"]),
+  producto: f("string", ["Producto", "Descripcion", "Descripción"]),
+  total: f("number", ["Total", "Valor Total"], { required: true }),
+  // se deja crudo: puede venir como "2024-05", 202405, serial o fecha
+  periodo: f("raw", ["Periodo", "Período", "Fecha Instalacion", "Fecha Instalación"]),
+});
+
+export type CatalogItem = {
+  code: string;
+  name: string;
+  price_list?: number;
+  cost?: number;
+  kilos?: number;
+};
+export const CATALOG_SCHEMA = schema<CatalogItem>("Catálogo", {
+  code: f("code", ["code", "Codigo", "Código"], { required: true }),
+  name: f("string", ["name", "Nombre", "Producto"]),
+  price_list: f("number", ["price_list", "PrecioLista", "Precio Lista", "Precio"], { optional: true }),
+  cost: f("number", ["cost", "Costo"], { optional: true }),
+  kilos: f("number", ["kilos", "Kg", "Kilos"], { optional: true }),
+});
+
+export type SnRow = {
+  cardCode: string;
+  cardName: string;
+  rut: string;
+  direccion: string;
+  comuna: string;
+  ciudad: string;
+  ejecutivo: string;
+  condicionPago: string;
+  giro: string;
+};
+export const SN_SCHEMA = schema<SnRow>("Maestro SN", {
+  cardCode: f("code", ["CardCode", "Codigo Cliente", "Código Cliente"], { required: true }),
+  cardName: f("string", ["CardName", "Nombre Cliente", "Razon Social", "Razón Social"]),
+  rut: f("string", ["RUT", "Rut Cliente", "LicTradNum"], { required: true }),
+  direccion: f("string", ["Direccion Despacho", "Dirección Despacho"]),
+  comuna: f("string", ["Despacho Comuna"]),
+  ciudad: f("string", ["Despacho Ciudad"]),
+  ejecutivo: f("string", ["Empleado Ventas", "Èmpleado Ventas", "Empleado ventas"]),
+  condicionPago: f("string", ["Condicion pago", "Condición de pago", "Condicion de pago"]),
+  giro: f("string", ["Giro"]),
+});
+
+export type MetaRow = {
+  gerencia: string;
+  ventas: number;
+  meta: number;
+  cumplimiento: number;
+};
+// La pestaña Metas se leía por posición (B, G, I, J): se mantienen como respaldo
+export const METAS_SCHEMA = schema<MetaRow>("Metas", {
+  gerencia: f("string", ["Gerencia"], { required: true, column: 1 }),
+  ventas: f("number", ["Ventas", "Venta", "Total Ventas"], { required: true, column: 6 }),
+  meta: f("number", ["Meta", "Meta $"], { required: true, column: 8 }),
+  cumplimiento: f("number", ["Cumplimiento $", "Cumplimiento"], { column: 9 }),
+});
+
+/* ===================== MAPEO ===================== */
+export function headerKey(h: string) {
+  return String(h ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^0-9a-zA-Z]+/g, "")
+    .toLowerCase();
+}
+
+function convert({ type, decimal }: FieldDef, v: SheetValue | undefined): unknown {
+  switch (type) {
+    case "number":
+      return toNumber(v, decimal);
+    case "date":
+      return parseDateLike(v);
+    case "code":
+      return String(v ?? "").trim().toUpperCase();
+    case "raw":
+      return v ?? "";
+    default:
+      return v instanceof Date ? v.toISOString().slice(0, 10) : String(v ?? "").trim();
+  }
+}
+
+function isBlank(v: SheetValue | undefined) {
+  return v === undefined || v === null || (typeof v === "string" && v.trim() === "");
+}
+
+/** Mapea una tabla (encabezados + matriz) al schema, con reporte de columnas. */
+export function mapTable<T>(schema: Schema<T>, headers: string[], rows: SheetValue[][]): Mapped<T> {
+  const keys = headers.map(headerKey);
+  const used = new Set<number>();
+  const cols: Partial<Record<keyof T, number>> = {};
+  const report: MapReport = { sheet: schema.name, headers, matched: {}, missing: [], optionalMissing: [], unmatched: [], skipped: 0 };
+
+  for (const field of Object.keys(schema.fields) as (keyof T & string)[]) {
+    const def: FieldDef = schema.fields[field];
+    let idx = -1;
+    for (const alias of def.aliases) {
+      idx = keys.findIndex((k, i) => k === headerKey(alias) && !used.has(i));
+      if (idx >= 0) break;
+    }
+    if (idx < 0 && def.column !== undefined && def.column < headers.length && !used.has(def.column)) idx = def.column;
+    if (idx < 0) {
+      (def.required ? report.missing : report.optionalMissing).push(field);
+      continue;
+    }
+    used.add(idx);
+    cols[field] = idx;
+    report.matched[field] = headers[idx];
+  }
+  report.unmatched = headers.filter((h, i) => !used.has(i) && h.trim() !== "");
+
+  const records: T[] = [];
+  if (report.missing.length) return { records, report };
+  for (const r of rows) {
+    const rec: any = {};
+    let ok = true;
+    for (const field of Object.keys(schema.fields) as (keyof T & string)[]) {
+      const def: FieldDef = schema.fields[field];
+      const idx = cols[field];
+      const raw = idx === undefined ? undefined : r[idx];
+      if (def.required && isBlank(raw)) {
+        ok = false;
+        break;
+      }
+      rec[field] = def.optional && isBlank(raw) ? undefined : convert(def, raw);
+    }
+    if (ok) records.push(rec as T);
+    else report.skipped++;
+  }
+  return { records, report };
+}
+
+/** Filas indexadas por encabezado → encabezados (de las primeras 50 filas) + matriz. */
+export function rowsToTable(rows: SheetRow[]): { headers: string[]; rows: SheetValue[][] } {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  for (const r of rows.slice(0, 50)) {
+    for (const h of Object.keys(r)) if (!seen.has(h)) (seen.add(h), headers.push(h));
+  }
+  return { headers, rows: rows.map((r) => headers.map((h) => r[h])) };
+}
+
+/** Quita de la tabla las columnas que corresponden a esos campos del schema (por alias, como mapTable). */
+export function dropFields<T>(schema: Schema<T>, table: { headers: string[]; rows: SheetValue[][] }, fields: (keyof T)[]) {
+  const aliases = new Set(fields.flatMap((k) => schema.fields[k].aliases.map(headerKey)));
+  const keep = table.headers.map((h, i) => (aliases.has(headerKey(h)) ? -1 : i)).filter((i) => i >= 0);
+  return { headers: keep.map((i) => table.headers[i]), rows: table.rows.map((r) => keep.map((i) => r[i])) };
+}
+
+/** Deja las filas cuyo valor en la columna del campo cumple keep; si la columna no existe, ninguna. */
+export function filterRows<T>(
+  schema: Schema<T>,
+  table: { headers: string[]; rows: SheetValue[][] },
+  field: keyof T,
+  keep: (v: SheetValue | undefined) => boolean
+) {
+  const aliases = schema.fields[field].aliases.map(headerKey);
+  const idx = table.headers.findIndex((h) => aliases.includes(headerKey(h)));
+  return { headers: table.headers, rows: idx < 0 ? [] : table.rows.filter((r) => keep(r[idx])) };
+}
+
+/** Mapea filas ya indexadas por encabezado (salida de parseCsv / parseGviz / loadSheetSmart). */
+export function mapRows<T>(schema: Schema<T>, rows: SheetRow[]): Mapped<T> {
+  const table = rowsToTable(rows);
+  return mapTable(schema, table.headers, table.rows);
+}
+
+/** Texto corto para mostrar al usuario cuando faltan columnas obligatorias. */
+export function describeReport(schema: Schema<any>, report: MapReport): string {
+  if (!report.missing.length) return "";
+  const cols = report.missing.map((k) => `"${schema.fields[k]?.aliases[0] ?? k}"`);
+  return `${report.sheet}: faltan columnas ${cols.join(", ")}.`;
+}
+
+/** Faltan columnas obligatorias; report permite mostrar qué encabezados trae la planilla. */
+export class SchemaError extends Error {
+  report: MapReport;
+  constructor(message: string, report: MapReport) {
+    super(message);
+    this.name = "SchemaError";
+    this.report = report;
+    Object.setPrototypeOf(this, SchemaError.prototype);
+  }
+}
+
+/** Devuelve los registros o lanza SchemaError si faltan columnas obligatorias. */
+export function requireMapped<T>(schema: Schema<T>, { records, report }: Mapped<T>, origin?: string): T[] {
+  const msg = describeReport(schema, report);
+  if (msg) throw new SchemaError(origin ? `${msg} (${origin})` : msg, report);
+  return records;
+}
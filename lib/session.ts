@@ -0,0 +1,80 @@
+import type { Role } from "@/lib/auth";
+
+/* ===================== CONFIG ===================== */
+// Token de sesión firmado con HMAC-SHA256 (Web Crypto): lo verifican el middleware (Edge) y las rutas API (Node)
+export const SESSION_COOKIE = "spartan_session";
+
+export function sessionTtlMs() {
+  const h = Number(process.env.SESSION_TTL_HOURS);
+  return (Number.isFinite(h) && h > 0 ? h : 12) * 3600_000;
+}
+
+// En desarrollo hay un secreto fijo; en producción sin AUTH_SECRET no se emiten ni aceptan sesiones
+function secret(): string | null {
+  if (process.env.AUTH_SECRET) return process.env.AUTH_SECRET;
+  return process.env.NODE_ENV === "production" ? null : "spartan-dev-secret";
+}
+
+/* ===================== TOKEN ===================== */
+export type SessionToken = { sid: string; uid: string; role: Role; exp: number };
+
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string) {
+  const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  const out = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i);
+  return out;
+}
+
+async function hmac(key: string, data: string) {
+  const enc = new TextEncoder();
+  const k = await crypto.subtle.importKey("raw", enc.encode(key), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return toBase64Url(new Uint8Array(await crypto.subtle.sign("HMAC", k, enc.encode(data))));
+}
+
+// Comparación sin cortar en el primer carácter distinto
+function sameString(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+export async function signSession(t: SessionToken): Promise<string> {
+  const key = secret();
+  if (!key) throw new Error("Falta AUTH_SECRET en el servidor.");
+  const body = toBase64Url(new TextEncoder().encode(JSON.stringify(t)));
+  return `${body}.${await hmac(key, body)}`;
+}
+
+/** Token válido y vigente, o null. No consulta el almacén: una sesión cerrada se rechaza en las rutas API. */
+export async function verifySession(token: string | null | undefined): Promise<SessionToken | null> {
+  const key = secret();
+  if (!key || !token) return null;
+  const [body, sig] = token.split(".");
+  if (!body || !sig || !sameString(sig, await hmac(key, body))) return null;
+  try {
+    const t = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as SessionToken;
+    return t.exp > Date.now() ? t : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Opciones de la cookie de sesión (httpOnly: el navegador la envía pero los scripts no la leen). */
+export function sessionCookie(value: string, expires: Date) {
+  return {
+    name: SESSION_COOKIE,
+    value,
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires,
+  };
+}
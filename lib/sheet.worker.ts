@@ -0,0 +1,36 @@
+import { JobCancelledError, runJob, serializeError, type JobProgress, type SheetJob } from "@/lib/sheetJobs";
+
+/* ===================== WEB WORKER ===================== */
+// Mensajes: { id, job } para ejecutar, { id, cancel: true } para cancelar.
+// Respuestas: { id, progress } | { id, result } | { id, error }.
+type Incoming = { id: number; job?: SheetJob; cancel?: boolean };
+
+const scope = self as unknown as { postMessage: (msg: unknown) => void; onmessage: ((e: MessageEvent<Incoming>) => void) | null };
+const cancelled = new Set<number>();
+
+// De a un trabajo por vez: una búsqueda siempre ve el último índice cargado
+let queue: Promise<void> = Promise.resolve();
+
+async function run(id: number, job: SheetJob) {
+  const ctx = {
+    progress: (progress: JobProgress) => scope.postMessage({ id, progress }),
+    yieldNow: () =>
+      new Promise<void>((resolve, reject) =>
+        setTimeout(() => (cancelled.has(id) ? reject(new JobCancelledError()) : resolve()), 0)
+      ),
+  };
+  try {
+    if (cancelled.has(id)) throw new JobCancelledError();
+    scope.postMessage({ id, result: await runJob(job, ctx) });
+  } catch (e) {
+    scope.postMessage({ id, error: serializeError(e) });
+  } finally {
+    cancelled.delete(id);
+  }
+}
+
+scope.onmessage = (e) => {
+  const { id, job, cancel } = e.data;
+  if (cancel) cancelled.add(id);
+  else if (job) queue = queue.then(() => run(id, job));
+};
@@ -0,0 +1,113 @@
+import { NextResponse } from "next/server";
+import { mapTable, requireMapped, type Schema } from "@/lib/schemas";
+import { loadSheetTableDetailed, normalizeGoogleSheetUrl, parseCsv, toCsv, type SheetAttempt, type SheetVia } from "@/lib/sheets";
+import type { DataSource, SourceId } from "@/lib/sources";
+import { getSource, getSourceFile, markLoaded, visibleTable } from "@/lib/sourceStore";
+import { currentUser } from "@/lib/userStore";
+import type { SheetTable } from "@/lib/workbook";
+
+/* ===================== CONFIG ===================== */
+// /api/sheets/<nombre> sirve la fuente correspondiente del registro "Fuentes de datos"
+export const SHEET_SOURCES: Record<"clientes" | "catalogo", SourceId> = {
+  clientes: "sn",
+  catalogo: "catalogo",
+};
+export type SheetSourceName = keyof typeof SHEET_SOURCES;
+
+// Metas se lee por posición de columna: GViz las conserva aunque falten encabezados
+const SOURCE_VIAS: Partial<Record<SourceId, SheetVia[]>> = {
+  metas: ["gviz", "csv"],
+};
+
+// TTL en segundos (SHEETS_CACHE_TTL), por defecto 5 minutos
+const DEFAULT_TTL_SECONDS = 300;
+function ttlMs() {
+  const v = Number(process.env.SHEETS_CACHE_TTL);
+  return (Number.isFinite(v) && v >= 0 ? v : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+/* ===================== CACHE ===================== */
+// Las planillas se descargan solo aquí: al navegador llega lo que visibleTable deja ver a cada usuario.
+// key identifica el origen (URL o archivo subido): si cambia en el registro, la copia deja de valer
+type Entry = { table: SheetTable; fetchedAt: number; key: string; via: SheetVia | "file"; attempts: SheetAttempt[] };
+export type SourceTableResult = Entry & { status: "HIT" | "MISS" | "STALE" };
+
+const cache = new Map<SourceId, Entry>();
+const inflight = new Map<SourceId, Promise<Entry>>();
+
+function sourceKey(src: DataSource) {
+  return src.kind === "file" ? `file:${src.file?.uploadedAt ?? ""}` : src.url;
+}
+
+async function download(src: DataSource, key: string): Promise<Entry> {
+  let entry: Entry;
+  if (src.kind === "file") {
+    const table = await getSourceFile(src.id);
+    if (!table) throw new Error(`${src.name}: la fuente apunta a un archivo que no existe`);
+    entry = { table, fetchedAt: Date.now(), key, via: "file", attempts: [] };
+  } else {
+    const { id, gid } = normalizeGoogleSheetUrl(src.url);
+    if (!id) throw new Error(`URL de ${src.name.toLowerCase()} inválida.`);
+    const { table, via, attempts } = await loadSheetTableDetailed(id, gid, src.name, SOURCE_VIAS[src.id]);
+    entry = { table, fetchedAt: Date.now(), key, via, attempts };
+  }
+  cache.set(src.id, entry);
+  await markLoaded(src.id).catch(() => undefined);
+  return entry;
+}
+
+/** Tabla completa de la fuente, desde cache si sigue vigente y la fuente no cambió. */
+export async function getSourceTable(id: SourceId, opts: { refresh?: boolean } = {}): Promise<SourceTableResult> {
+  const src = await getSource(id);
+  const key = sourceKey(src);
+  const hit = cache.get(id);
+  const fresh = hit && hit.key === key && Date.now() - hit.fetchedAt < ttlMs();
+  if (hit && fresh && !opts.refresh) return { ...hit, status: "HIT" };
+
+  // Una sola descarga en curso por fuente, aunque lleguen varias peticiones a la vez
+  let p = inflight.get(id);
+  if (!p) {
+    p = download(src, key).finally(() => inflight.delete(id));
+    inflight.set(id, p);
+  }
+  try {
+    return { ...(await p), status: "MISS" };
+  } catch (e) {
+    // Si Google no responde, servimos la última copia de la misma fuente
+    if (hit && hit.key === key) return { ...hit, status: "STALE" };
+    throw e;
+  }
+}
+
+/** Registros completos de la fuente (sin recortar por usuario), para cálculos del servidor. */
+export async function getSourceRecords<T>(id: SourceId, schema: Schema<T>, opts: { refresh?: boolean } = {}): Promise<T[]> {
+  const { table } = await getSourceTable(id, opts);
+  return requireMapped(schema, mapTable(schema, table.headers, table.rows));
+}
+
+/* ===================== ROUTE HANDLER ===================== */
+// GET /api/sheets/<nombre>?format=csv|json&refresh=1 · cada usuario recibe solo lo que puede ver (visibleTable)
+export function sheetRoute(name: SheetSourceName) {
+  return async function GET(req: Request) {
+    const { searchParams } = new URL(req.url);
+    const refresh = ["1", "true"].includes(searchParams.get("refresh") || "");
+    const format = searchParams.get("format") === "json" ? "json" : "csv";
+    try {
+      const id = SHEET_SOURCES[name];
+      const { table, fetchedAt, status } = await getSourceTable(id, { refresh });
+      const visible = visibleTable(id, table, await currentUser());
+      const text = toCsv(visible.headers, visible.rows);
+      const headers = {
+        "Cache-Control": "no-store",
+        "X-Cache": status,
+        "X-Fetched-At": new Date(fetchedAt).toISOString(),
+      };
+      if (format === "json") {
+        return NextResponse.json({ fetchedAt: new Date(fetchedAt).toISOString(), rows: parseCsv(text) }, { headers });
+      }
+      return new NextResponse(text, { headers: { ...headers, "Content-Type": "text/csv; charset=utf-8" } });
+    } catch (e: any) {
+      return NextResponse.json({ error: e?.message ?? "Error leyendo la planilla" }, { status: 502 });
+    }
+  };
+}
@@ -0,0 +1,137 @@
+import { SheetLoadError, parseCsvTable, parseGvizTable, type SheetAttempt, type SheetValue, type SheetVia } from "@/lib/sheets";
+import { SchemaError, mapTable, type MapReport, type Mapped, type Schema } from "@/lib/schemas";
+import { aggregateVentas, type VentasQuery } from "@/lib/ventasHistorico";
+
+/* ===================== TIPOS ===================== */
+// Trabajos pesados sobre planillas: corren en el Web Worker (lib/sheet.worker.ts) o, sin Worker, en el hilo principal
+export type JobPhase = "descarga" | "lectura" | "mapeo" | "indice";
+export type JobProgress = { phase: JobPhase; done: number; total: number };
+
+/** Guarda los registros en el worker con un nombre, para buscar o agregar sin volver a enviarlos. */
+export type KeepAs = { name: string; fields?: string[] };
+
+export type SheetJob =
+  | { type: "text"; schema: Schema<any>; text: string; format: "csv" | "gviz"; keep?: KeepAs }
+  | { type: "table"; schema: Schema<any>; headers: string[]; rows: SheetValue[][]; keep?: KeepAs }
+  | { type: "index"; name: string; records: any[]; fields: string[] }
+  | { type: "search"; name: string; query: string; limit: number }
+  | { type: "aggregate"; name: string; query: VentasQuery };
+
+export type SheetReadResult<T> = { mapped: Mapped<T>; via: SheetVia | "file" | null; attempts: SheetAttempt[] };
+
+/** Error que cruza el límite del worker; se reconstruye como SheetLoadError/SchemaError en la página. */
+export type SerializedError = { name: string; message: string; attempts?: SheetAttempt[]; report?: MapReport };
+
+export type JobContext = {
+  progress: (p: JobProgress) => void;
+  /** Cede el turno (para leer cancelaciones) y lanza JobCancelledError si el trabajo se canceló. */
+  yieldNow: () => Promise<void>;
+};
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super("Cancelado");
+    this.name = "JobCancelledError";
+    Object.setPrototypeOf(this, JobCancelledError.prototype);
+  }
+}
+
+/* ===================== HELPERS ===================== */
+const CHUNK = 2000;
+
+/** Texto de búsqueda: sin tildes y en minúsculas (igual que los filtros de las páginas). */
+export function normalizeSearch(s: unknown) {
+  return String(s ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+export function serializeError(e: any): SerializedError {
+  return {
+    name: e?.name ?? "Error",
+    message: e?.message ?? String(e),
+    attempts: e instanceof SheetLoadError ? e.attempts : undefined,
+    report: e instanceof SchemaError ? e.report : undefined,
+  };
+}
+
+export function deserializeError(e: SerializedError): Error {
+  if (e.name === "JobCancelledError") return new JobCancelledError();
+  if (e.report) return new SchemaError(e.message, e.report);
+  if (e.attempts) return new SheetLoadError(e.message, e.attempts);
+  return new Error(e.message);
+}
+
+// mapTable por tramos: informa avance y permite cancelar entre tramos
+async function mapInChunks<T>(schema: Schema<T>, headers: string[], rows: SheetValue[][], ctx: JobContext): Promise<Mapped<T>> {
+  const total = rows.length;
+  const out = mapTable<T>(schema, headers, rows.slice(0, CHUNK));
+  for (let i = CHUNK; i < total && !out.report.missing.length; i += CHUNK) {
+    ctx.progress({ phase: "mapeo", done: i, total });
+    await ctx.yieldNow();
+    const part = mapTable<T>(schema, headers, rows.slice(i, i + CHUNK));
+    for (const r of part.records) out.records.push(r);
+    out.report.skipped += part.report.skipped;
+  }
+  ctx.progress({ phase: "mapeo", done: total, total });
+  return out;
+}
+
+/* ===================== DATASETS ===================== */
+type Dataset = { records: any[]; keys: string[] };
+const datasets = new Map<string, Dataset>();
+
+async function keep(name: string, records: any[], fields: string[], ctx: JobContext) {
+  const keys: string[] = [];
+  for (let i = 0; i < records.length; i++) {
+    if (i && i % CHUNK === 0) {
+      ctx.progress({ phase: "indice", done: i, total: records.length });
+      await ctx.yieldNow();
+    }
+    // Campos unidos con un separador que no aparece en la búsqueda
+    keys.push(fields.map((f) => normalizeSearch(records[i][f])).join("\u0000"));
+  }
+  datasets.set(name, { records, keys });
+}
+
+function dataset(name: string): Dataset {
+  const d = datasets.get(name);
+  if (!d) throw new Error(`Datos "${name}" no cargados.`);
+  return d;
+}
+
+/* ===================== EJECUCIÓN ===================== */
+export async function runJob(job: SheetJob, ctx: JobContext): Promise<unknown> {
+  switch (job.type) {
+    case "text":
+    case "table": {
+      let table: { headers: string[]; rows: SheetValue[][] };
+      const read: Omit<SheetReadResult<any>, "mapped"> = { via: null, attempts: [] };
+      if (job.type === "text") {
+        ctx.progress({ phase: "lectura", done: 0, total: 0 });
+        table = job.format === "gviz" ? parseGvizTable(job.text) : parseCsvTable(job.text);
+      } else {
+        table = { headers: job.headers, rows: job.rows };
+      }
+      await ctx.yieldNow();
+      const mapped = await mapInChunks(job.schema, table.headers, table.rows, ctx);
+      if (job.keep) await keep(job.keep.name, mapped.records, job.keep.fields ?? [], ctx);
+      return { ...read, mapped };
+    }
+    case "index":
+      await keep(job.name, job.records, job.fields, ctx);
+      return null;
+    case "search": {
+      const { records, keys } = dataset(job.name);
+      const q = normalizeSearch(job.query).trim();
+      const out: any[] = [];
+      for (let i = 0; i < keys.length && out.length < job.limit; i++) {
+        if (keys[i].includes(q)) out.push(records[i]);
+      }
+      return out;
+    }
+    case "aggregate":
+      return aggregateVentas(dataset(job.name).records, job.query);
+  }
+}
@@ -0,0 +1,144 @@
+import type { SheetValue } from "@/lib/sheets";
+import type { Schema } from "@/lib/schemas";
+import {
+  JobCancelledError,
+  deserializeError,
+  runJob,
+  serializeError,
+  type JobProgress,
+  type KeepAs,
+  type SerializedError,
+  type SheetJob,
+  type SheetReadResult,
+} from "@/lib/sheetJobs";
+import type { VentasHistorico, VentasQuery } from "@/lib/ventasHistorico";
+
+export { JobCancelledError, type JobProgress, type KeepAs } from "@/lib/sheetJobs";
+
+/* ===================== TIPOS ===================== */
+export type JobOptions = {
+  /** Al abortar, la promesa se rechaza con JobCancelledError y el worker deja el trabajo en el siguiente tramo. */
+  signal?: AbortSignal;
+  onProgress?: (p: JobProgress) => void;
+};
+
+type Pending = { resolve: (v: any) => void; reject: (e: Error) => void; onProgress?: (p: JobProgress) => void };
+type Outgoing = { id: number; progress?: JobProgress; result?: unknown; error?: SerializedError };
+
+/* ===================== WORKER ===================== */
+let worker: Worker | null | undefined;
+let nextId = 1;
+const pending = new Map<number, Pending>();
+
+function onMessage(e: MessageEvent<Outgoing>) {
+  const { id, progress, error } = e.data;
+  const p = pending.get(id);
+  if (!p) return;
+  if (progress) return p.onProgress?.(progress);
+  pending.delete(id);
+  if (error) p.reject(deserializeError(error));
+  else p.resolve(e.data.result);
+}
+
+// Un solo worker por pestaña; sin soporte (SSR, navegador antiguo) se trabaja en el hilo principal
+function getWorker(): Worker | null {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === "undefined") return (worker = null);
+  try {
+    worker = new Worker(new URL("./sheet.worker.ts", import.meta.url));
+    worker.onmessage = onMessage;
+    worker.onerror = () => {
+      // El script no cargó: se rechaza lo pendiente y se sigue en el hilo principal
+      for (const p of Array.from(pending.values())) p.reject(new Error("No se pudo iniciar el procesamiento en segundo plano."));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  } catch {
+    worker = null;
+  }
+  return worker;
+}
+
+function runHere<R>(job: SheetJob, opts: JobOptions): Promise<R> {
+  const ctx = {
+    progress: (p: JobProgress) => opts.onProgress?.(p),
+    yieldNow: () =>
+      new Promise<void>((resolve, reject) =>
+        setTimeout(() => (opts.signal?.aborted ? reject(new JobCancelledError()) : resolve()), 0)
+      ),
+  };
+  // Mismo camino que en el worker (serializar el error) para que los errores lleguen iguales
+  return runJob(job, ctx).then(
+    (r) => r as R,
+    (e) => Promise.reject(deserializeError(serializeError(e)))
+  );
+}
+
+/** Ejecuta un trabajo en el worker (o aquí si no hay Worker). */
+export function runSheetJob<R>(job: SheetJob, opts: JobOptions = {}): Promise<R> {
+  if (opts.signal?.aborted) return Promise.reject(new JobCancelledError());
+  const w = getWorker();
+  if (!w) return runHere<R>(job, opts);
+  const id = nextId++;
+  return new Promise<R>((resolve, reject) => {
+    pending.set(id, { resolve, reject, onProgress: opts.onProgress });
+    opts.signal?.addEventListener("abort", () => {
+      if (!pending.delete(id)) return;
+      w.postMessage({ id, cancel: true });
+      reject(new JobCancelledError());
+    });
+    w.postMessage({ id, job });
+  });
+}
+
+export function isCancelled(e: unknown) {
+  return e instanceof JobCancelledError;
+}
+
+/* ===================== API ===================== */
+/** CSV o respuesta GViz → registros del schema (sin exigir columnas: usar requireMapped). */
+export function parseSheetText<T>(schema: Schema<T>, text: string, format: "csv" | "gviz", opts: JobOptions & { keep?: KeepAs } = {}) {
+  return runSheetJob<SheetReadResult<T>>({ type: "text", schema, text, format, keep: opts.keep }, opts).then((r) => r.mapped);
+}
+
+/** Hoja ya en matriz (archivo subido o guardado en el servidor) → registros del schema. */
+export function mapSheetTable<T>(
+  schema: Schema<T>,
+  table: { headers: string[]; rows: SheetValue[][] },
+  opts: JobOptions & { keep?: KeepAs } = {}
+) {
+  return runSheetJob<SheetReadResult<T>>({ type: "table", schema, headers: table.headers, rows: table.rows, keep: opts.keep }, opts).then(
+    (r) => r.mapped
+  );
+}
+
+/** Deja registros en el worker para buscarlos por los campos indicados. */
+export function indexRecords(name: string, records: any[], fields: string[], opts: JobOptions = {}) {
+  return runSheetJob<null>({ type: "index", name, records, fields }, opts);
+}
+
+/** Registros cuyo texto (sin tildes, minúsculas) contiene la búsqueda en alguno de los campos indexados. */
+export function searchRecords<T>(name: string, query: string, limit: number, opts: JobOptions = {}) {
+  return runSheetJob<T[]>({ type: "search", name, query, limit }, opts);
+}
+
+/** aggregateVentas sobre registros de Ventas guardados en el worker. */
+export function aggregateVentasInWorker(name: string, query: VentasQuery, opts: JobOptions = {}) {
+  return runSheetJob<VentasHistorico>({ type: "aggregate", name, query }, opts);
+}
+
+/* ===================== PROGRESO ===================== */
+const PHASE_LABEL: Record<JobProgress["phase"], string> = {
+  descarga: "Descargando",
+  lectura: "Leyendo",
+  mapeo: "Procesando filas",
+  indice: "Indexando",
+};
+
+/** "Procesando filas 45%" o "Descargando…" si no hay total. */
+export function describeProgress(p: JobProgress | null | undefined) {
+  if (!p) return "";
+  const label = PHASE_LABEL[p.phase];
+  return p.total > 0 ? `${label} ${Math.round((p.done / p.total) * 100)}%` : `${label}…`;
+}
@@ -0,0 +1,310 @@
+/* ===================== TIPOS ===================== */
+// Fila de planilla indexada por encabezado. Los valores vienen como string (CSV)
+// o como number/boolean/Date (GViz tipado).
+export type SheetValue = string | number | boolean | Date | null;
+export type SheetRow = Record<string, SheetValue>;
+
+/* ===================== HELPERS ===================== */
+const BOM = "\uFEFF";
+
+/** Separador decimal de una columna: "," en planillas es-CL ("1.234,5"), "." en exportaciones planas ("1,234.5"). */
+export type DecimalSeparator = "," | ".";
+
+/**
+ * Número desde celda con la convención de su columna (por defecto es-CL): el otro separador es de miles y se descarta,
+ * así toda la columna queda en la misma escala ("1.250" es 1250 en es-CL, 1.25 con "."). Acepta number y montos con "$".
+ */
+export function toNumber(v?: unknown, decimal: DecimalSeparator = ","): number {
+  if (typeof v === "number") return Number.isFinite(v) ? v : 0;
+  const s = String(v ?? "").replace(/[^0-9,.-]/g, "");
+  return Number(s.replace(decimal === "," ? /\./g : /,/g, "").replace(decimal, ".")) || 0;
+}
+
+/** Fecha desde celda: Date, serial de Excel/Sheets, "yyyy-mm-dd" o "dd/mm/yyyy". */
+export function parseDateLike(d: any): Date | null {
+  if (!d && d !== 0) return null;
+  if (d instanceof Date) return d;
+  if (typeof d === "number") {
+    const base = new Date(1899, 11, 30).getTime();
+    return new Date(base + d * 86400000);
+  }
+  const s = String(d).trim();
+  const m1 = s.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (m1) return new Date(+m1[1], +m1[2] - 1, +m1[3]);
+  const m2 = s.match(/^(\d{2})[\/-](\d{2})[\/-](\d{4})/);
+  if (m2) return new Date(+m2[3], +m2[2] - 1, +m2[1]);
+  const t = Date.parse(s);
+  return Number.isNaN(t) ? null : new Date(t);
+}
+
+/* ===================== PARSER CSV ===================== */
+// Detecta separador "," o ";" (exportaciones de Excel en es-CL) mirando la primera línea
+function detectDelimiter(s: string): "," | ";" {
+  let commas = 0;
+  let semis = 0;
+  let inQuotes = false;
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && ch === "\n") break;
+    else if (!inQuotes && ch === ",") commas++;
+    else if (!inQuotes && ch === ";") semis++;
+  }
+  return semis > commas ? ";" : ",";
+}
+
+/** CSV → matriz de celdas. Maneja comillas, "" escapado, saltos de línea en celdas y BOM. */
+export function parseCsvMatrix(text: string, delimiter?: "," | ";"): string[][] {
+  const s = (text.startsWith(BOM) ? text.slice(1) : text).replace(/\r\n?/g, "\n");
+  const sep = delimiter ?? detectDelimiter(s);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const pushCell = () => (row.push(cell), (cell = ""));
+  const pushRow = () => (row.length ? rows.push(row) : 0, (row = []));
+  for (let i = 0; i < s.length; i++) {
+    const ch = s[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (s[i + 1] === '"') (cell += '"'), i++;
+        else inQuotes = false;
+      } else cell += ch;
+    } else {
+      if (ch === '"') inQuotes = true;
+      else if (ch === sep) pushCell();
+      else if (ch === "\n") (pushCell(), pushRow());
+      else cell += ch;
+    }
+  }
+  if (cell.length || row.length) (pushCell(), pushRow());
+  return rows;
+}
+
+/** CSV → encabezados + matriz (encabezados y valores recortados, filas vacías omitidas). */
+export function parseCsvTable(text: string): { headers: string[]; rows: string[][] } {
+  const matrix = parseCsvMatrix(text);
+  if (!matrix.length) return { headers: [], rows: [] };
+  const headers = matrix[0].map((h) => h.replace(BOM, "").trim());
+  const rows: string[][] = [];
+  for (let i = 1; i < matrix.length; i++) {
+    const r = matrix[i];
+    if (r.every((c) => c.trim() === "")) continue;
+    rows.push(headers.map((_, j) => (r[j] ?? "").trim()));
+  }
+  return { headers, rows };
+}
+
+/** CSV → filas por encabezado (encabezados y valores recortados, filas vacías omitidas). */
+export function parseCsv<T = Record<string, string>>(text: string): T[] {
+  const { headers, rows } = parseCsvTable(text);
+  return rows.map((r) => {
+    const obj: Record<string, string> = {};
+    headers.forEach((h, j) => (obj[h] = r[j]));
+    return obj as T;
+  });
+}
+
+/** Matriz con encabezados → CSV (comillas solo donde hace falta). Fechas como yyyy-mm-dd. */
+export function toCsv(headers: string[], rows: SheetValue[][]): string {
+  const cell = (v: SheetValue | undefined) => {
+    const s = v instanceof Date ? v.toISOString().slice(0, 10) : String(v ?? "");
+    return /[",;\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return [headers, ...rows].map((r) => r.map(cell).join(",")).join("\n");
+}
+
+/* ===================== PARSER GVIZ ===================== */
+// Celdas de fecha GViz: "Date(2025,0,15)" o "Date(2025,0,15,10,30,0)" (mes base 0)
+function gvizDate(v: string): Date | null {
+  const m = v.match(/^Date\((\d+),(\d+),(\d+)(?:,(\d+),(\d+),(\d+))?\)$/);
+  if (!m) return null;
+  return new Date(+m[1], +m[2], +m[3], +(m[4] ?? 0), +(m[5] ?? 0), +(m[6] ?? 0));
+}
+
+/** Respuesta GViz (google.visualization.Query.setResponse(...)) → matriz con encabezados. */
+export function parseGvizTable(text: string): { headers: string[]; rows: SheetValue[][] } {
+  const m = text.match(/setResponse\(([\s\S]*?)\);?\s*$/);
+  if (!m) throw new Error("GViz: formato inesperado.");
+  let json: any;
+  try {
+    json = JSON.parse(m[1]);
+  } catch {
+    const start = text.indexOf("{");
+    const end = text.lastIndexOf("}");
+    json = JSON.parse(text.slice(start, end + 1));
+  }
+  if (json.status === "error") {
+    const msg = json.errors?.[0]?.detailed_message || json.errors?.[0]?.message || "error";
+    throw new Error(`GViz: ${msg}`);
+  }
+  const table = json.table;
+  const cols: any[] = table?.cols ?? [];
+  const headers: string[] = cols.map((c: any) => String(c.label || c.id || "col").trim());
+  const rows: SheetValue[][] = (table?.rows ?? []).map((r: any) =>
+    cols.map((col: any, i: number) => {
+      const c = r.c?.[i];
+      if (!c) return "";
+      if (c.v === null || c.v === undefined) return c.f ?? "";
+      if ((col.type === "date" || col.type === "datetime") && typeof c.v === "string") return gvizDate(c.v) ?? c.f ?? c.v;
+      return c.v;
+    })
+  );
+  return { headers, rows };
+}
+
+/** Respuesta GViz → filas por encabezado, con valores tipados (number, boolean, Date). */
+export function parseGviz<T = SheetRow>(text: string): T[] {
+  const { headers, rows } = parseGvizTable(text);
+  return rows.map((r) => {
+    const obj: SheetRow = {};
+    headers.forEach((h, i) => (obj[h] = r[i] ?? ""));
+    return obj as T;
+  });
+}
+
+/* ===================== FETCH ===================== */
+export function csvExportUrl(spreadsheetId: string, gid: string | number) {
+  return `https://docs.google.com/spreadsheets/d/${spreadsheetId}/export?format=csv&gid=${gid}`;
+}
+export function gvizUrl(spreadsheetId: string, gid: string | number) {
+  return `https://docs.google.com/spreadsheets/d/${spreadsheetId}/gviz/tq?tqx=out:json&gid=${gid}`;
+}
+
+/* ===================== ERRORES ===================== */
+export type SheetVia = "csv" | "gviz";
+/** Resultado de un intento de lectura (para diagnóstico y mensajes en pantalla). */
+export type SheetAttempt = { via: SheetVia; url: string; status: number | null; error: string | null; rows: number };
+
+/** CSV y GViz fallaron; attempts trae el detalle de cada vía. */
+export class SheetLoadError extends Error {
+  attempts: SheetAttempt[];
+  constructor(message: string, attempts: SheetAttempt[]) {
+    super(message);
+    this.name = "SheetLoadError";
+    this.attempts = attempts;
+    Object.setPrototypeOf(this, SheetLoadError.prototype);
+  }
+}
+
+// Error de fetch con el status HTTP (null si ni siquiera hubo respuesta)
+function httpError(via: SheetVia, status: number | null, detail: string) {
+  return Object.assign(new Error(`${via === "csv" ? "CSV" : "GViz"}: ${detail}`), { status });
+}
+
+function httpHint(status: number) {
+  if (status === 401 || status === 403) return `sin permiso (${status}): la planilla no es pública`;
+  if (status === 404) return "no existe (404): revisa el id de la planilla";
+  if (status === 400) return "solicitud rechazada (400): ¿gid inválido?";
+  return `Google respondió ${status}`;
+}
+
+async function fetchText(via: SheetVia, url: string) {
+  let res: Response;
+  try {
+    res = await fetch(url, { cache: "no-store" });
+  } catch {
+    throw httpError(via, null, "sin respuesta (sin conexión o bloqueado por CORS)");
+  }
+  if (!res.ok) throw httpError(via, res.status, httpHint(res.status));
+  return { text: await res.text(), status: res.status };
+}
+
+type Table = { headers: string[]; rows: SheetValue[][] };
+
+// Matriz → filas por encabezado (lo que entregan parseCsv / parseGviz)
+function tableRows<T>({ headers, rows }: Table): T[] {
+  return rows.map((r) => {
+    const obj: SheetRow = {};
+    headers.forEach((h, i) => (obj[h] = r[i] ?? ""));
+    return obj as T;
+  });
+}
+
+export async function fetchCsvTable(spreadsheetId: string, gid: string | number): Promise<Table> {
+  const { text, status } = await fetchText("csv", csvExportUrl(spreadsheetId, gid));
+  // Sin permisos Google devuelve la página de login (HTML) con 200
+  if (/^\s*<(!doctype|html)/i.test(text)) throw httpError("csv", status, "respuesta HTML (¿planilla privada?)");
+  const table = parseCsvTable(text);
+  if (!table.rows.length) throw httpError("csv", status, "hoja vacía");
+  return table;
+}
+
+export async function fetchGvizTable(spreadsheetId: string, gid: string | number): Promise<Table> {
+  const { text, status } = await fetchText("gviz", gvizUrl(spreadsheetId, gid));
+  let table: Table;
+  try {
+    table = parseGvizTable(text);
+  } catch (e: any) {
+    throw httpError("gviz", status, String(e?.message ?? "formato inesperado").replace(/^GViz:\s*/, "").replace(/\.$/, ""));
+  }
+  if (!table.rows.length) throw httpError("gviz", status, "hoja vacía");
+  return table;
+}
+
+export async function fetchCsv<T = SheetRow>(spreadsheetId: string, gid: string | number): Promise<T[]> {
+  return tableRows<T>(await fetchCsvTable(spreadsheetId, gid));
+}
+
+export async function fetchGviz<T = SheetRow>(spreadsheetId: string, gid: string | number): Promise<T[]> {
+  return tableRows<T>(await fetchGvizTable(spreadsheetId, gid));
+}
+
+/** Intenta cada vía en orden (por defecto CSV y, si falla, GViz); informa por cuál se leyó y el resultado de cada intento. */
+export async function loadSheetTableDetailed(
+  spreadsheetId: string,
+  gid: string | number,
+  label: string,
+  vias: SheetVia[] = ["csv", "gviz"]
+): Promise<{ table: Table; via: SheetVia; attempts: SheetAttempt[] }> {
+  const attempts: SheetAttempt[] = [];
+  for (const via of vias) {
+    const url = via === "csv" ? csvExportUrl(spreadsheetId, gid) : gvizUrl(spreadsheetId, gid);
+    try {
+      const table = via === "csv" ? await fetchCsvTable(spreadsheetId, gid) : await fetchGvizTable(spreadsheetId, gid);
+      attempts.push({ via, url, status: 200, error: null, rows: table.rows.length });
+      return { table, via, attempts };
+    } catch (e: any) {
+      attempts.push({ via, url, status: e?.status ?? null, error: e?.message ?? "error", rows: 0 });
+    }
+  }
+  const detail = attempts.map((a) => a.error).join("; ");
+  throw new SheetLoadError(`${label}: no se pudo leer (${detail}).`, attempts);
+}
+
+/** Como loadSheetTableDetailed, con las filas indexadas por encabezado. */
+export async function loadSheetDetailed<T = SheetRow>(
+  spreadsheetId: string,
+  gid: string | number,
+  label: string
+): Promise<{ rows: T[]; via: SheetVia; attempts: SheetAttempt[] }> {
+  const { table, via, attempts } = await loadSheetTableDetailed(spreadsheetId, gid, label);
+  return { rows: tableRows<T>(table), via, attempts };
+}
+
+/** Intenta CSV y, si falla, GViz. */
+export async function loadSheetSmart<T = SheetRow>(
+  spreadsheetId: string,
+  gid: string | number,
+  label: string
+): Promise<T[]> {
+  return (await loadSheetDetailed<T>(spreadsheetId, gid, label)).rows;
+}
+
+/** Extrae id y gid desde un enlace de Google Sheets (edit, export o gviz). */
+export function normalizeGoogleSheetUrl(url: string) {
+  const m = (url || "").match(/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
+  const id = m ? m[1] : "";
+  let gid = "0";
+  const g = (url || "").match(/[?&#]gid=([0-9]+)/);
+  if (g) gid = g[1];
+  const csvUrl = id ? csvExportUrl(id, gid) : "";
+  return { id, gid, csvUrl };
+}
+
+/** Atajo: lee una planilla desde su URL pública. */
+export async function loadSheetFromUrl<T = SheetRow>(url: string, label: string): Promise<T[]> {
+  const { id, gid } = normalizeGoogleSheetUrl(url);
+  if (!id) throw new Error(`URL de ${label.toLowerCase()} inválida.`);
+  return loadSheetSmart<T>(id, gid, label);
+}
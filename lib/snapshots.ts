@@ -0,0 +1,138 @@
+import { fetchMe } from "@/lib/auth";
+
+/* ===================== TIPOS ===================== */
+// Copia local (IndexedDB) de datos leídos de planillas, con la hora en que se descargaron
+export type Snapshot<T> = { key: string; data: T; fetchedAt: number };
+
+export type SwrResult<T> = {
+  data: T;
+  fetchedAt: number;
+  /** true si se respondió con la copia local y se está revalidando en segundo plano. */
+  fromCache: boolean;
+};
+
+export type SwrOptions<T> = {
+  /** Datos nuevos tras revalidar en segundo plano. */
+  onRevalidate?: (r: SwrResult<T>) => void;
+  /** La revalidación falló: se sigue con la copia local. */
+  onOffline?: (error: string, snapshot: Snapshot<T>) => void;
+};
+
+/* ===================== INDEXEDDB ===================== */
+const DB_NAME = "spartan-snapshots";
+const STORE = "snapshots";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+function openDb(): Promise<IDBDatabase> {
+  if (typeof indexedDB === "undefined") return Promise.reject(new Error("IndexedDB no disponible"));
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: "key" });
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => (dbPromise = null));
+  }
+  return dbPromise;
+}
+
+function tx<R>(mode: IDBTransactionMode, fn: (s: IDBObjectStore) => IDBRequest): Promise<R> {
+  return openDb().then(
+    (db) =>
+      new Promise<R>((resolve, reject) => {
+        const req = fn(db.transaction(STORE, mode).objectStore(STORE));
+        req.onsuccess = () => resolve(req.result as R);
+        req.onerror = () => reject(req.error);
+      })
+  );
+}
+
+// Cada copia es del usuario que la descargó (el servidor recorta costos y cartera por usuario):
+// otra sesión en el mismo navegador no la ve. logout() además las borra todas
+async function ownKey(key: string) {
+  const user = await fetchMe();
+  return `${user?.id ?? "-"}:${key}`;
+}
+
+async function read<T>(key: string): Promise<Snapshot<T> | null> {
+  try {
+    return (await tx<Snapshot<T> | undefined>("readonly", (s) => s.get(key))) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function write<T>(key: string, data: T, fetchedAt: number): Promise<void> {
+  try {
+    await tx("readwrite", (s) => s.put({ key, data, fetchedAt }));
+  } catch {
+    // sin IndexedDB (modo privado, cuota llena): se trabaja solo en memoria
+  }
+}
+
+/** Lee la copia local; null si no existe o IndexedDB no está disponible. */
+export async function getSnapshot<T>(key: string): Promise<Snapshot<T> | null> {
+  return read<T>(await ownKey(key));
+}
+
+export async function putSnapshot<T>(key: string, data: T, fetchedAt = Date.now()): Promise<void> {
+  return write(await ownKey(key), data, fetchedAt);
+}
+
+export async function deleteSnapshot(key: string): Promise<void> {
+  const own = await ownKey(key);
+  try {
+    await tx("readwrite", (s) => s.delete(own));
+  } catch {}
+}
+
+/** Borra las copias locales de todos los usuarios (al cerrar sesión). */
+export async function clearSnapshots(): Promise<void> {
+  try {
+    await tx("readwrite", (s) => s.clear());
+  } catch {}
+}
+
+/* ===================== STALE-WHILE-REVALIDATE ===================== */
+// Una sola descarga en curso por clave, aunque varias partes de la página pidan lo mismo
+const inflight = new Map<string, Promise<SwrResult<any>>>();
+
+function revalidate<T>(key: string, fetcher: () => Promise<T>): Promise<SwrResult<T>> {
+  let p = inflight.get(key) as Promise<SwrResult<T>> | undefined;
+  if (!p) {
+    p = fetcher()
+      .then(async (data) => {
+        const fetchedAt = Date.now();
+        await write(key, data, fetchedAt);
+        return { data, fetchedAt, fromCache: false };
+      })
+      .finally(() => inflight.delete(key));
+    inflight.set(key, p);
+  }
+  return p;
+}
+
+/**
+ * Responde al tiro con la copia local (si existe) y revalida en segundo plano.
+ * Sin copia local espera la descarga; si esta falla, el error se propaga.
+ */
+export async function staleWhileRevalidate<T>(
+  key: string,
+  fetcher: () => Promise<T>,
+  opts: SwrOptions<T> = {}
+): Promise<SwrResult<T>> {
+  const own = await ownKey(key);
+  const snap = await read<T>(own);
+  if (!snap) return revalidate(own, fetcher);
+  revalidate(own, fetcher).then(
+    (r) => opts.onRevalidate?.(r),
+    (e: any) => opts.onOffline?.(e?.message ?? "Sin conexión", snap)
+  );
+  return { data: snap.data, fetchedAt: snap.fetchedAt, fromCache: true };
+}
+
+/** Fecha corta para el indicador "datos al …". */
+export function formatAsOf(ts: number) {
+  return new Date(ts).toLocaleString("es-CL", { dateStyle: "short", timeStyle: "short" });
+}
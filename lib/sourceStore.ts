@@ -0,0 +1,99 @@
+import { readJson, removeJson, updateJson, writeJson } from "@/lib/store";
+import { can, inScope, userScope, type User } from "@/lib/auth";
+import { dropFields, filterRows } from "@/lib/schemas";
+import { DEFAULT_SOURCES, SOURCE_COST_FIELDS, SOURCE_IDS, SOURCE_SCHEMAS, SOURCE_SCOPE_FIELDS, type DataSource, type SourceId } from "@/lib/sources";
+import type { SheetTable, UploadedSheet } from "@/lib/workbook";
+
+/* ===================== STORAGE ===================== */
+// data/sources.json guarda solo lo que difiere de fábrica; los archivos van en data/source-files/<id>.json
+type Stored = Partial<Record<SourceId, Partial<DataSource>>>;
+const FILE = "sources";
+const fileKey = (id: SourceId) => `source-files/${id}`;
+
+// Variables de entorno previas a este registro siguen valiendo como valor de fábrica
+function defaults(): Record<SourceId, DataSource> {
+  const d = { ...DEFAULT_SOURCES };
+  if (process.env.SHEETS_CLIENTES_CSV_URL) d.sn = { ...d.sn, url: process.env.SHEETS_CLIENTES_CSV_URL };
+  if (process.env.SHEETS_CATALOGO_CSV_URL) d.catalogo = { ...d.catalogo, url: process.env.SHEETS_CATALOGO_CSV_URL };
+  return d;
+}
+
+/* ===================== LECTURA ===================== */
+export async function listSources(): Promise<DataSource[]> {
+  const stored = await readJson<Stored>(FILE, {});
+  const d = defaults();
+  return SOURCE_IDS.map((id) => ({ ...d[id], ...stored[id], id }));
+}
+
+export async function getSource(id: SourceId): Promise<DataSource> {
+  const stored = await readJson<Stored>(FILE, {});
+  return { ...defaults()[id], ...stored[id], id };
+}
+
+export async function getSourceFile(id: SourceId): Promise<SheetTable | null> {
+  return readJson<SheetTable | null>(fileKey(id), null);
+}
+
+/** El enlace solo para quien administra fuentes: con él la planilla se descarga completa, con costos y todas las carteras. */
+export function visibleSource(src: DataSource, user: User | null): DataSource {
+  return can(user, "edit-sources") ? src : { ...src, url: "" };
+}
+
+/**
+ * Lo que el usuario puede ver de la tabla: sin las columnas de costo si no tiene "view-costs"
+ * y solo las filas de su cartera en las fuentes con columna de ejecutivo.
+ */
+export function visibleTable(id: SourceId, table: SheetTable, user: User | null): SheetTable {
+  let out = table;
+  const costs = SOURCE_COST_FIELDS[id];
+  if (costs && !can(user, "view-costs")) out = dropFields(SOURCE_SCHEMAS[id], out, costs);
+  const field = SOURCE_SCOPE_FIELDS[id];
+  const scope = userScope(user);
+  if (field && scope) out = filterRows(SOURCE_SCHEMAS[id], out, field, inScope(scope));
+  return out;
+}
+
+/* ===================== ESCRITURA ===================== */
+async function patch(id: SourceId, p: Partial<DataSource>): Promise<DataSource> {
+  const stored = await updateJson<Stored>(FILE, {}, (cur) => ({ ...cur, [id]: { ...cur[id], ...p } }));
+  return { ...defaults()[id], ...stored[id], id };
+}
+
+export async function updateSource(id: SourceId, input: { name?: unknown; url?: unknown; kind?: unknown }) {
+  const p: Partial<DataSource> = { updatedAt: new Date().toISOString() };
+  if (typeof input.name === "string") {
+    if (!input.name.trim()) throw new Error("El nombre no puede quedar vacío.");
+    p.name = input.name.trim();
+  }
+  if (typeof input.url === "string") p.url = input.url.trim();
+  if (input.kind !== undefined) {
+    if (input.kind !== "url" && input.kind !== "file") throw new Error("Tipo de fuente inválido.");
+    if (input.kind === "file" && !(await getSource(id)).file) throw new Error("Primero sube un archivo para esta fuente.");
+    p.kind = input.kind;
+  }
+  return patch(id, p);
+}
+
+/** Guarda la hoja subida y deja la fuente apuntando al archivo. */
+export async function saveSourceFile(id: SourceId, sheet: UploadedSheet) {
+  if (!Array.isArray(sheet?.headers) || !Array.isArray(sheet?.rows) || !sheet.headers.length) {
+    throw new Error("Archivo sin encabezados.");
+  }
+  await writeJson(fileKey(id), { headers: sheet.headers, rows: sheet.rows });
+  const now = new Date().toISOString();
+  return patch(id, {
+    kind: "file",
+    file: { fileName: String(sheet.fileName || "archivo"), sheet: String(sheet.sheet || ""), rows: sheet.rows.length, uploadedAt: now },
+    updatedAt: now,
+  });
+}
+
+/** Elimina el archivo y vuelve a la URL. */
+export async function deleteSourceFile(id: SourceId) {
+  await removeJson(fileKey(id));
+  return patch(id, { kind: "url", file: null, updatedAt: new Date().toISOString() });
+}
+
+export async function markLoaded(id: SourceId) {
+  return patch(id, { lastLoadedAt: new Date().toISOString() });
+}
@@ -0,0 +1,246 @@
+import { SheetLoadError, type SheetAttempt, type SheetVia } from "@/lib/sheets";
+import {
+  CATALOG_SCHEMA,
+  COMODATOS_SCHEMA,
+  METAS_SCHEMA,
+  SN_SCHEMA,
+  SchemaError,
+  VENTAS_SCHEMA,
+  requireMapped,
+  type MapReport,
+  type Schema,
+} from "@/lib/schemas";
+import { mapSheetTable, type JobOptions, type JobProgress } from "@/lib/sheetWorker";
+import { staleWhileRevalidate } from "@/lib/snapshots";
+import type { SheetTable, UploadedSheet } from "@/lib/workbook";
+
+/* ===================== TIPOS ===================== */
+export type SourceId = "ventas" | "comodatos" | "catalogo" | "sn" | "metas";
+export type SourceKind = "url" | "file";
+
+export type SourceFileInfo = { fileName: string; sheet: string; rows: number; uploadedAt: string };
+
+export type DataSource = {
+  id: SourceId;
+  name: string;
+  description: string;
+  kind: SourceKind;
+  /** Enlace de Google Sheets (edit, export o gviz); vacío para quien no tiene "edit-sources". */
+  url: string;
+  file: SourceFileInfo | null;
+  /** Última lectura exitosa (ISO), informada por las páginas o por /api/sheets. */
+  lastLoadedAt: string | null;
+  updatedAt: string | null;
+};
+export type SourceMap = Record<SourceId, DataSource>;
+
+/** Antigüedad de los datos mostrados: hora de descarga y si vienen de la copia local. */
+export type SourceStamp = { fetchedAt: number; fromCache: boolean; offline?: string };
+
+/* ===================== DEFAULTS ===================== */
+// Valores de fábrica; lo guardado en "Fuentes de datos" los reemplaza para todo el equipo
+function base(id: SourceId, name: string, description: string, url: string): DataSource {
+  return { id, name, description, kind: "url", url, file: null, lastLoadedAt: null, updatedAt: null };
+}
+export const DEFAULT_SOURCES: SourceMap = {
+  ventas: base(
+    "ventas",
+    "Ventas (últimos 6 meses)",
+    "Detalle de facturación por cliente y producto.",
+    "https://docs.google.com/spreadsheets/d/1MY531UHJDhxvHsw6-DwlW8m4BeHwYP48MUSV98UTc1s/edit?gid=871602912#gid=871602912"
+  ),
+  comodatos: base(
+    "comodatos",
+    "Comodatos",
+    "Equipos en comodato vigentes por cliente.",
+    "https://docs.google.com/spreadsheets/d/1MY531UHJDhxvHsw6-DwlW8m4BeHwYP48MUSV98UTc1s/edit?gid=551810728#gid=551810728"
+  ),
+  catalogo: base(
+    "catalogo",
+    "Catálogo",
+    "Productos con precio lista, costo y kilos.",
+    "https://docs.google.com/spreadsheets/d/1UXVAxwzg-Kh7AWCPnPbxbEpzXnRPR2pDBKrRUFNZKZo/edit?gid=0#gid=0"
+  ),
+  sn: base(
+    "sn",
+    "Maestro clientes (SN)",
+    "Socios de negocio: RUT, razón social, dirección y ejecutivo.",
+    "https://docs.google.com/spreadsheets/d/1kF0INEtwYDXhQCBPTVhU8NQI2URKoi99Hs43DTSO02I/edit?gid=161671364#gid=161671364"
+  ),
+  metas: base(
+    "metas",
+    "Metas",
+    "Metas y ventas por gerencia (resumen de la portada).",
+    "https://docs.google.com/spreadsheets/d/1GASOV0vl85q5STfvDn5hdZFD0Mwcj2SzXM6IqvgI50A/edit?gid=1307924129#gid=1307924129"
+  ),
+};
+export const SOURCE_IDS = Object.keys(DEFAULT_SOURCES) as SourceId[];
+
+// Schema con el que cada módulo lee la fuente (para diagnóstico)
+export const SOURCE_SCHEMAS: Record<SourceId, Schema<any>> = {
+  ventas: VENTAS_SCHEMA,
+  comodatos: COMODATOS_SCHEMA,
+  catalogo: CATALOG_SCHEMA,
+  sn: SN_SCHEMA,
+  metas: METAS_SCHEMA,
+};
+
+// Columnas que el servidor solo entrega a quien tiene el permiso "view-costs"
+export const SOURCE_COST_FIELDS: Partial<Record<SourceId, string[]>> = {
+  catalogo: ["cost"],
+};
+
+// Columna de ejecutivo por la que el servidor filtra la cartera de cada usuario
+export const SOURCE_SCOPE_FIELDS: Partial<Record<SourceId, string>> = {
+  ventas: "ejecutivo",
+  sn: "ejecutivo",
+};
+
+export function isSourceId(v: unknown): v is SourceId {
+  return typeof v === "string" && (SOURCE_IDS as string[]).includes(v);
+}
+
+/* ===================== CLIENTE ===================== */
+/** Registro de fuentes. Si la API no responde se usan los valores de fábrica. */
+export async function fetchSources(): Promise<SourceMap> {
+  try {
+    const r = await fetch("/api/sources", { cache: "no-store" });
+    if (!r.ok) throw new Error(`Fuentes ${r.status}`);
+    const { sources } = (await r.json()) as { sources: DataSource[] };
+    const map = { ...DEFAULT_SOURCES };
+    for (const s of sources) if (isSourceId(s.id)) map[s.id] = s;
+    return map;
+  } catch {
+    return { ...DEFAULT_SOURCES };
+  }
+}
+
+export type SourceTable = SheetTable & { via: SheetVia | "file"; attempts: SheetAttempt[] };
+
+/** Tabla de la fuente (URL o archivo) tal como el servidor la deja ver: sin costos ni carteras ajenas. */
+export async function fetchSourceTable(id: SourceId, opts: { refresh?: boolean; signal?: AbortSignal } = {}): Promise<SourceTable> {
+  const r = await fetch(`/api/sources/${id}/data${opts.refresh ? "?refresh=1" : ""}`, { cache: "no-store", signal: opts.signal });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) {
+    const message = json.error ?? `${DEFAULT_SOURCES[id].name}: no se pudo leer (${r.status}).`;
+    throw json.attempts?.length ? new SheetLoadError(message, json.attempts) : new Error(message);
+  }
+  return json;
+}
+
+/** Lee la fuente (URL o archivo del registro) y la mapea al schema; falla si faltan columnas obligatorias. */
+export async function loadSourceRecords<T>(src: DataSource, schema: Schema<T>, opts: JobOptions = {}): Promise<T[]> {
+  const { mapped } = await readSource(src, schema, opts);
+  return requireMapped(schema, mapped, src.kind === "file" ? src.file?.fileName : undefined);
+}
+
+// La planilla la descarga el servidor (/api/sources/<id>/data); el mapeo corre en el Web Worker (lib/sheetWorker)
+// para no congelar la página con planillas grandes
+async function readSource<T>(src: DataSource, schema: Schema<T>, opts: JobOptions = {}) {
+  opts.onProgress?.({ phase: "descarga", done: 0, total: 0 });
+  const { via, attempts, ...table } = await fetchSourceTable(src.id, { signal: opts.signal });
+  const mapped = await mapSheetTable(schema, table, opts);
+  return { mapped, via, attempts };
+}
+
+/* ===================== DIAGNÓSTICO ===================== */
+/** Error de carga listo para mostrar: mensaje + intentos CSV/GViz + columnas faltantes. */
+export type SourceProblem = { message: string; attempts: SheetAttempt[]; report: MapReport | null };
+
+export function toProblem(e: unknown, fallback = "Error cargando datos"): SourceProblem {
+  const err = e as any;
+  return {
+    message: err?.message ?? fallback,
+    attempts: err instanceof SheetLoadError ? err.attempts : [],
+    report: err instanceof SchemaError ? err.report : null,
+  };
+}
+
+export type SourceDiagnosis = {
+  id: SourceId;
+  name: string;
+  kind: SourceKind;
+  ok: boolean;
+  /** Vía por la que se leyó (CSV, GViz de respaldo o archivo subido). */
+  via: SheetVia | "file" | null;
+  attempts: SheetAttempt[];
+  rows: number;
+  report: MapReport | null;
+  error: string | null;
+  ms: number;
+};
+
+/** Prueba una fuente tal como la leen los módulos (sin tocar la copia local). */
+export async function diagnoseSource(src: DataSource): Promise<SourceDiagnosis> {
+  const t0 = Date.now();
+  const base = { id: src.id, name: src.name, kind: src.kind };
+  try {
+    const { mapped, via, attempts } = await readSource(src, SOURCE_SCHEMAS[src.id]);
+    const error = mapped.report.missing.length ? `Faltan columnas obligatorias: ${mapped.report.missing.join(", ")}` : null;
+    return { ...base, ok: !error, via, attempts, rows: mapped.records.length, report: mapped.report, error, ms: Date.now() - t0 };
+  } catch (e) {
+    const p = toProblem(e);
+    return { ...base, ok: false, via: null, attempts: p.attempts, rows: 0, report: null, error: p.message, ms: Date.now() - t0 };
+  }
+}
+
+/** Texto legible de dónde lee la fuente (URL o archivo subido), para historiales. */
+export function sourceOrigin(src: DataSource) {
+  return src.kind === "file" ? `archivo ${src.file?.fileName ?? ""}` : src.url || `fuente ${src.name}`;
+}
+
+// Cambiar la URL/archivo en el registro (updatedAt) o el schema invalida la copia local
+function snapshotKey(src: DataSource, schema: Schema<any>) {
+  const origin = src.kind === "file" ? `file:${src.file?.uploadedAt ?? ""}` : `url:${src.updatedAt ?? ""}`;
+  return `source:${src.id}:${schema.name}:${origin}`;
+}
+
+/** Como loadSourceRecords, pero responde con la copia local (IndexedDB) y revalida en segundo plano. */
+export async function loadSourceCached<T>(
+  src: DataSource,
+  schema: Schema<T>,
+  opts: {
+    onRevalidate?: (records: T[], stamp: SourceStamp) => void;
+    onOffline?: (stamp: SourceStamp) => void;
+    onProgress?: (p: JobProgress) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<{ records: T[]; stamp: SourceStamp }> {
+  const { onProgress, signal } = opts;
+  const r = await staleWhileRevalidate(snapshotKey(src, schema), () => loadSourceRecords(src, schema, { onProgress, signal }), {
+    onRevalidate: (x) => opts.onRevalidate?.(x.data, { fetchedAt: x.fetchedAt, fromCache: false }),
+    // Revalidación cancelada: se sigue con la copia local sin marcarla como "sin conexión"
+    onOffline: (error, snap) => signal?.aborted || opts.onOffline?.({ fetchedAt: snap.fetchedAt, fromCache: true, offline: error }),
+  });
+  return { records: r.data, stamp: { fetchedAt: r.fetchedAt, fromCache: r.fromCache } };
+}
+
+/* ===================== ADMIN ===================== */
+export async function saveSource(id: SourceId, patch: Partial<Pick<DataSource, "name" | "url" | "kind">>) {
+  const r = await fetch(`/api/sources/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(patch),
+  });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudo guardar (${r.status})`);
+  return json.source as DataSource;
+}
+
+export async function uploadSourceFile(id: SourceId, sheet: UploadedSheet) {
+  const r = await fetch(`/api/sources/${id}/file`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(sheet),
+  });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudo subir el archivo (${r.status})`);
+  return json.source as DataSource;
+}
+
+export async function removeSourceFile(id: SourceId) {
+  const r = await fetch(`/api/sources/${id}/file`, { method: "DELETE" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudo eliminar el archivo (${r.status})`);
+  return json.source as DataSource;
+}
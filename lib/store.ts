@@ -0,0 +1,59 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/* ===================== CONFIG ===================== */
+// Almacenamiento en archivos JSON del servidor (DATA_DIR, por defecto ./data)
+const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), "data");
+
+function fileFor(name: string) {
+  // name admite subcarpetas ("source-files/ventas"); sin puntos no se puede salir de DATA_DIR
+  const safe = name.replace(/[^a-zA-Z0-9/_-]/g, "_");
+  return path.join(DATA_DIR, `${safe}.json`);
+}
+
+/* ===================== LECTURA / ESCRITURA ===================== */
+export async function readJson<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(fileFor(name), "utf8")) as T;
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return fallback;
+    throw e;
+  }
+}
+
+/** Escribe de forma atómica (archivo temporal + rename) para no dejar JSON a medias. */
+export async function writeJson(name: string, value: unknown): Promise<void> {
+  const file = fileFor(name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2), "utf8");
+  await fs.rename(tmp, file);
+}
+
+export async function removeJson(name: string): Promise<void> {
+  try {
+    await fs.unlink(fileFor(name));
+  } catch (e: any) {
+    if (e?.code !== "ENOENT") throw e;
+  }
+}
+
+// Escrituras de lectura-modificación-escritura en serie por archivo (un solo proceso Node)
+const queues = new Map<string, Promise<unknown>>();
+
+/** Lee, aplica fn y guarda el resultado, sin pisar cambios concurrentes del mismo archivo. */
+export function updateJson<T>(name: string, fallback: T, fn: (current: T) => T | Promise<T>): Promise<T> {
+  const prev = queues.get(name) ?? Promise.resolve();
+  const next = prev
+    .catch(() => undefined)
+    .then(async () => {
+      const value = await fn(await readJson<T>(name, fallback));
+      await writeJson(name, value);
+      return value;
+    });
+  queues.set(name, next);
+  next.finally(() => {
+    if (queues.get(name) === next) queues.delete(name);
+  }).catch(() => undefined);
+  return next;
+}
@@ -0,0 +1,20 @@
+import { useEffect, useRef } from "react";
+import { logAudit } from "@/lib/audit";
+
+/* ===================== CONFIGURACIÓN AUDITADA ===================== */
+// Separado de lib/audit.ts porque usa hooks (las rutas API importan lib/audit.ts)
+/**
+ * Registra los cambios de un ajuste guardado en el navegador (comisión base, logo…).
+ * Espera a que el valor deje de cambiar para no dejar una entrada por tecla; el valor inicial no se registra.
+ */
+export function useAuditedSetting(key: string, value: unknown, delayMs = 1500) {
+  const logged = useRef(value);
+  useEffect(() => {
+    if (JSON.stringify(logged.current) === JSON.stringify(value)) return;
+    const t = setTimeout(() => {
+      logAudit({ action: "config.change", entity: "config", entityId: key, before: logged.current, after: value });
+      logged.current = value;
+    }, delayMs);
+    return () => clearTimeout(t);
+  }, [key, value, delayMs]);
+}
@@ -0,0 +1,60 @@
+import { useEffect, useMemo, useState } from "react";
+import { fetchMe, postJson, setMe, userScope, type User } from "@/lib/auth";
+import { clearSnapshots } from "@/lib/snapshots";
+
+/* ===================== SESIÓN (CLIENTE) ===================== */
+// Separado de lib/auth.ts porque usa hooks: las rutas API importan lib/auth.ts
+export async function login(username: string, password: string): Promise<User> {
+  const { user } = await postJson<{ user: User }>("/api/auth/login", { username, password });
+  setMe(user);
+  return user;
+}
+
+// Las copias locales tienen lo que el servidor dejó ver a este usuario: no quedan para el siguiente
+export async function logout() {
+  setMe(undefined);
+  await clearSnapshots();
+  await postJson("/api/auth/logout").catch(() => undefined);
+}
+
+/** needsSetup: aún no hay usuarios y el login ofrece crear la primera cuenta (Administradora). */
+export async function fetchAuthStatus(): Promise<{ needsSetup: boolean }> {
+  const r = await fetch("/api/auth/status", { cache: "no-store" });
+  return r.json();
+}
+
+export async function setupFirstUser(input: { username: string; name: string; password: string }): Promise<User> {
+  const { user } = await postJson<{ user: User }>("/api/auth/setup", input);
+  setMe(user);
+  return user;
+}
+
+/** Usuario de la sesión: undefined mientras se consulta, null sin sesión. */
+export function useSession(): User | null | undefined {
+  const [user, setUser] = useState<User | null | undefined>(undefined);
+  useEffect(() => {
+    let alive = true;
+    fetchMe().then((u) => alive && setUser(u));
+    return () => {
+      alive = false;
+    };
+  }, []);
+  return user;
+}
+
+/* ===================== CARTERA ===================== */
+/**
+ * Cartera a mostrar (ver userScope): por defecto solo la propia; si el rol ve más (equipo o todos),
+ * setMine(false) la amplía. scope es undefined mientras se consulta la sesión.
+ */
+export function useScope() {
+  const user = useSession();
+  const [mine, setMine] = useState(true);
+  return useMemo(() => {
+    const own = userScope(user, true);
+    const wide = userScope(user);
+    const canWiden = JSON.stringify(own) !== JSON.stringify(wide);
+    const scope = user === undefined ? undefined : mine && canWiden ? own : wide;
+    return { user, scope, mine, setMine, canWiden };
+  }, [user, mine]);
+}
@@ -0,0 +1,225 @@
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from "crypto";
+import { cookies } from "next/headers";
+import { readJson, updateJson } from "@/lib/store";
+import { can, ejecutivoKey, inScope, isRole, userScope, type Capability, type Role, type User, type UserPatch } from "@/lib/auth";
+import { SESSION_COOKIE, sessionTtlMs, signSession, verifySession } from "@/lib/session";
+
+/* ===================== STORAGE ===================== */
+// data/auth/users.json: usuarios con contraseña hasheada · data/auth/sessions.json: sesiones abiertas (sid → usuario)
+type StoredUser = User & { passwordHash: string };
+type StoredSession = { uid: string; createdAt: string; exp: number };
+const USERS = "auth/users";
+const SESSIONS = "auth/sessions";
+
+/** Error de autenticación/autorización con el status HTTP que debe responder la ruta. */
+export class AuthError extends Error {
+  status: number;
+  constructor(message: string, status = 401) {
+    super(message);
+    this.name = "AuthError";
+    this.status = status;
+    Object.setPrototypeOf(this, AuthError.prototype);
+  }
+}
+
+/* ===================== CONTRASEÑAS ===================== */
+// scrypt con sal aleatoria; el formato guarda los parámetros para poder subirlos sin invalidar lo existente
+const SCRYPT = { N: 16384, r: 8, p: 1, keylen: 64 };
+
+function scryptAsync(password: string, salt: Buffer, keylen: number, opts: ScryptOptions) {
+  return new Promise<Buffer>((resolve, reject) => scrypt(password, salt, keylen, opts, (e, key) => (e ? reject(e) : resolve(key))));
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, SCRYPT.keylen, { N: SCRYPT.N, r: SCRYPT.r, p: SCRYPT.p });
+  return `scrypt$${SCRYPT.N}$${SCRYPT.r}$${SCRYPT.p}$${salt.toString("base64")}$${key.toString("base64")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [alg, N, r, p, salt, hash] = stored.split("$");
+  if (alg !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "base64");
+  const key = await scryptAsync(password, Buffer.from(salt, "base64"), expected.length, { N: +N, r: +r, p: +p });
+  return timingSafeEqual(key, expected);
+}
+
+function checkPassword(password: unknown): string {
+  if (typeof password !== "string" || password.length < 8) throw new Error("La contraseña debe tener al menos 8 caracteres.");
+  return password;
+}
+
+/* ===================== USUARIOS ===================== */
+// Usuarios creados antes de la cartera no traen ejecutivo ni equipo
+function toUser({ passwordHash: _, ...u }: StoredUser): User {
+  return { ...u, ejecutivo: u.ejecutivo ?? null, team: u.team ?? [] };
+}
+
+function cleanEjecutivo(v: unknown): string | null {
+  const s = String(v ?? "").replace(/\s+/g, " ").trim();
+  return s ? s.slice(0, 120) : null;
+}
+
+function cleanTeam(v: unknown): string[] {
+  if (!Array.isArray(v)) throw new Error("Equipo inválido.");
+  const byKey = new Map<string, string>();
+  for (const e of v.map(cleanEjecutivo)) if (e && !byKey.has(ejecutivoKey(e))) byKey.set(ejecutivoKey(e), e);
+  return Array.from(byKey.values());
+}
+
+async function readUsers() {
+  return readJson<StoredUser[]>(USERS, []);
+}
+
+export async function listUsers(): Promise<User[]> {
+  return (await readUsers()).map(toUser);
+}
+
+/** Gerencias activas cuyo equipo incluye al ejecutivo (para reglas y destinatarios por Gerencia). */
+export async function gerenciasOf(ejecutivo: string): Promise<User[]> {
+  return (await listUsers()).filter((u) => u.role === "gerencia" && !u.disabled && inScope(userScope(u))(ejecutivo));
+}
+
+export async function hasUsers() {
+  return (await readUsers()).length > 0;
+}
+
+/** firstUser: solo si todavía no hay usuarios (se revisa dentro de la cola del archivo). */
+export async function createUser(
+  input: {
+    username?: unknown;
+    name?: unknown;
+    role?: unknown;
+    password?: unknown;
+    ejecutivo?: unknown;
+    team?: unknown;
+  },
+  { firstUser = false } = {}
+): Promise<User> {
+  const username = String(input.username ?? "").trim().toLowerCase();
+  if (!/^[a-z0-9._-]{3,32}$/.test(username)) throw new Error("Usuario: 3 a 32 caracteres (letras, números, punto, guion).");
+  const name = String(input.name ?? "").trim();
+  if (!name) throw new Error("El nombre no puede quedar vacío.");
+  if (!isRole(input.role)) throw new Error("Rol inválido.");
+  const role: Role = input.role;
+  const ejecutivo = cleanEjecutivo(input.ejecutivo);
+  const team = input.team === undefined ? [] : cleanTeam(input.team);
+  const passwordHash = await hashPassword(checkPassword(input.password));
+  let created: StoredUser | null = null;
+  await updateJson<StoredUser[]>(USERS, [], (users) => {
+    if (firstUser && users.length) throw new AuthError("Ya existen usuarios; inicia sesión.", 403);
+    if (users.some((u) => u.username === username)) throw new Error(`El usuario "${username}" ya existe.`);
+    created = {
+      id: randomBytes(8).toString("hex"),
+      username,
+      name,
+      role,
+      ejecutivo,
+      team,
+      disabled: false,
+      createdAt: new Date().toISOString(),
+      lastLoginAt: null,
+      passwordHash,
+    };
+    return [...users, created];
+  });
+  return toUser(created!);
+}
+
+/** Primera cuenta del sistema: solo mientras no exista ningún usuario, y siempre como Administradora. */
+export async function createFirstUser(input: { username?: unknown; name?: unknown; password?: unknown }): Promise<User> {
+  if (await hasUsers()) throw new AuthError("Ya existen usuarios; inicia sesión.", 403);
+  return createUser({ ...input, role: "administradora" }, { firstUser: true });
+}
+
+export async function updateUser(id: string, input: UserPatch): Promise<User> {
+  const p: Partial<StoredUser> = {};
+  if (input.name !== undefined) {
+    if (!String(input.name).trim()) throw new Error("El nombre no puede quedar vacío.");
+    p.name = String(input.name).trim();
+  }
+  if (input.role !== undefined) {
+    if (!isRole(input.role)) throw new Error("Rol inválido.");
+    p.role = input.role;
+  }
+  if (input.disabled !== undefined) p.disabled = !!input.disabled;
+  if (input.ejecutivo !== undefined) p.ejecutivo = cleanEjecutivo(input.ejecutivo);
+  if (input.team !== undefined) p.team = cleanTeam(input.team);
+  if (input.password !== undefined) p.passwordHash = await hashPassword(checkPassword(input.password));
+
+  let updated: StoredUser | null = null;
+  await updateJson<StoredUser[]>(USERS, [], (users) => {
+    const i = users.findIndex((u) => u.id === id);
+    if (i < 0) throw new AuthError("Usuario desconocido.", 404);
+    const next = { ...users[i], ...p };
+    // Siempre debe quedar al menos una Administradora activa
+    const admins = users.filter((u, j) => (j === i ? next : u).role === "administradora" && !(j === i ? next : u).disabled);
+    if (!admins.length) throw new Error("Debe quedar al menos una Administradora activa.");
+    updated = next;
+    return users.map((u, j) => (j === i ? next : u));
+  });
+  // Cambio de rol, contraseña o bloqueo: las sesiones abiertas de ese usuario dejan de valer
+  if (p.role || p.disabled || p.passwordHash) await revokeUserSessions(id);
+  return toUser(updated!);
+}
+
+// Hash de relleno: un usuario inexistente cuesta el mismo scrypt que uno existente
+let dummyHash: Promise<string> | null = null;
+
+/** Usuario y contraseña correctos y cuenta activa; ni el mensaje ni el tiempo revelan cuál de los dos falló. */
+export async function authenticate(username: unknown, password: unknown): Promise<User> {
+  const name = String(username ?? "").trim().toLowerCase();
+  const user = (await readUsers()).find((u) => u.username === name);
+  const hash = user?.passwordHash ?? (await (dummyHash ??= hashPassword(randomBytes(16).toString("hex"))));
+  const ok = (await verifyPassword(typeof password === "string" ? password : "", hash)) && !!user && typeof password === "string";
+  if (!user || !ok || user.disabled) throw new AuthError("Usuario o contraseña incorrectos.");
+  const lastLoginAt = new Date().toISOString();
+  await updateJson<StoredUser[]>(USERS, [], (users) => users.map((u) => (u.id === user.id ? { ...u, lastLoginAt } : u)));
+  return toUser({ ...user, lastLoginAt });
+}
+
+/* ===================== SESIONES ===================== */
+export async function createSession(user: User): Promise<{ token: string; expires: Date }> {
+  const sid = randomBytes(16).toString("hex");
+  const exp = Date.now() + sessionTtlMs();
+  const token = await signSession({ sid, uid: user.id, role: user.role, exp });
+  await updateJson<Record<string, StoredSession>>(SESSIONS, {}, (all) => {
+    const now = Date.now();
+    const alive = Object.fromEntries(Object.entries(all).filter(([, s]) => s.exp > now));
+    return { ...alive, [sid]: { uid: user.id, createdAt: new Date().toISOString(), exp } };
+  });
+  return { token, expires: new Date(exp) };
+}
+
+export async function revokeSession(sid: string) {
+  await updateJson<Record<string, StoredSession>>(SESSIONS, {}, ({ [sid]: _, ...rest }) => rest);
+}
+
+export async function revokeUserSessions(uid: string) {
+  await updateJson<Record<string, StoredSession>>(SESSIONS, {}, (all) =>
+    Object.fromEntries(Object.entries(all).filter(([, s]) => s.uid !== uid))
+  );
+}
+
+/** Sesión de la request actual (cookie firmada + sesión abierta + usuario activo), o null. */
+export async function currentSession(): Promise<{ sid: string; user: User } | null> {
+  const t = await verifySession(cookies().get(SESSION_COOKIE)?.value);
+  if (!t) return null;
+  const sessions = await readJson<Record<string, StoredSession>>(SESSIONS, {});
+  const s = sessions[t.sid];
+  if (!s || s.uid !== t.uid || s.exp <= Date.now()) return null;
+  const user = (await readUsers()).find((u) => u.id === t.uid);
+  return user && !user.disabled ? { sid: t.sid, user: toUser(user) } : null;
+}
+
+export async function currentUser(): Promise<User | null> {
+  return (await currentSession())?.user ?? null;
+}
+
+/** Usuario de la sesión o AuthError 401; con cap, 403 si su rol no tiene ese permiso. */
+export async function requireUser(cap?: Capability): Promise<User> {
+  const user = await currentUser();
+  if (!user) throw new AuthError("Sesión requerida.");
+  if (cap && !can(user, cap)) throw new AuthError("No tienes permiso para esta acción.", 403);
+  return user;
+}
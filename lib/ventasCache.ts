@@ -0,0 +1,19 @@
+import { VENTAS_SCHEMA, mapTable, requireMapped, type VentasRow } from "@/lib/schemas";
+import { getSourceTable } from "@/lib/sheetCache";
+
+/* ===================== CACHE ===================== */
+// La planilla de Ventas completa queda solo en el servidor; al navegador llega el agregado por cliente.
+// La descarga y su TTL son los de getSourceTable; aquí solo se guarda el mapeo de la última tabla
+type Entry = { records: VentasRow[]; fetchedAt: number; key: string };
+
+let mapped: Entry | null = null;
+
+/** Registros de Ventas ya mapeados, desde cache si sigue vigente y la fuente no cambió. */
+export async function getVentasRecords(opts: { refresh?: boolean } = {}): Promise<Entry & { status: "HIT" | "MISS" | "STALE" }> {
+  const { table, fetchedAt, key, status } = await getSourceTable("ventas", opts);
+  if (!mapped || mapped.key !== key || mapped.fetchedAt !== fetchedAt) {
+    const records = requireMapped(VENTAS_SCHEMA, mapTable(VENTAS_SCHEMA, table.headers, table.rows));
+    mapped = { records, fetchedAt, key };
+  }
+  return { ...mapped, status };
+}
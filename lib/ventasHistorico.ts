@@ -0,0 +1,144 @@
+import { SheetLoadError, type SheetAttempt } from "@/lib/sheets";
+import { SchemaError, type MapReport, type VentasRow } from "@/lib/schemas";
+import { staleWhileRevalidate } from "@/lib/snapshots";
+import { inScope } from "@/lib/auth";
+import type { SourceStamp } from "@/lib/sources";
+
+/* ===================== TIPOS ===================== */
+export type VentasQuery = {
+  rut?: string;
+  cardCode?: string;
+  /** Meses hacia atrás incluyendo el actual (por defecto 6). */
+  months?: number;
+  /** Solo ItemCode que contengan este texto (por defecto "PT"; "" = todos). */
+  product?: string;
+  /** Solo filas de estos ejecutivos (null o sin indicar = todos). En el servidor lo fija la sesión. */
+  ejecutivos?: string[] | null;
+};
+
+export type VentasCliente = { code: string; name: string; rut: string; direccion: string; ejecutivo: string };
+export type VentasItem = { code: string; name: string; kilos: number; venta: number };
+
+export type VentasHistorico = {
+  /** Ventana [start, end) en ISO. */
+  start: string;
+  end: string;
+  months: number;
+  /** Primer cliente con ventas en la ventana (datos de cabecera). */
+  cliente: VentasCliente | null;
+  /** Códigos de cliente del RUT/CardCode, con o sin ventas en la ventana. */
+  clientes: VentasCliente[];
+  items: VentasItem[];
+  /** Líneas de venta que entraron al agregado. */
+  rows: number;
+};
+
+/* ===================== AGREGADO ===================== */
+export const DEFAULT_MONTHS = 6;
+export const DEFAULT_PRODUCT = "PT";
+
+export function sanitizeRut(r: string) {
+  return (r || "").replace(/\./g, "").toUpperCase();
+}
+
+/** Meses completos hasta el mes de `base` inclusive. */
+export function monthWindow(months = DEFAULT_MONTHS, base = new Date()) {
+  const end = new Date(base.getFullYear(), base.getMonth() + 1, 1);
+  const start = new Date(base.getFullYear(), base.getMonth() - (months - 1), 1);
+  return { start, end };
+}
+
+function toCliente(r: VentasRow): VentasCliente {
+  return {
+    code: r.codigoCliente,
+    name: r.cliente,
+    rut: r.rut,
+    direccion: [r.direccion, r.comuna, r.ciudad].filter(Boolean).join(", "),
+    ejecutivo: r.ejecutivo,
+  };
+}
+
+/** Filtra por RUT/CardCode y ventana, y suma kilos y venta por ItemCode. Se usa en el servidor y con archivos de la sesión. */
+export function aggregateVentas(rows: VentasRow[], q: VentasQuery, base = new Date()): VentasHistorico {
+  const months = Math.max(1, Math.floor(q.months || DEFAULT_MONTHS));
+  const { start, end } = monthWindow(months, base);
+  const rutSan = sanitizeRut(q.rut || "");
+  const code = (q.cardCode || "").trim().toUpperCase();
+  const product = (q.product ?? DEFAULT_PRODUCT).trim().toUpperCase();
+  const visible = inScope(q.ejecutivos ?? null);
+
+  const clientes = new Map<string, VentasCliente>();
+  const items = new Map<string, VentasItem>();
+  let cliente: VentasCliente | null = null;
+  let count = 0;
+
+  for (const r of rows) {
+    if (rutSan && sanitizeRut(r.rut) !== rutSan) continue;
+    if (!visible(r.ejecutivo)) continue;
+    if (code && r.codigoCliente !== code) continue;
+    if (r.codigoCliente && !clientes.has(r.codigoCliente)) clientes.set(r.codigoCliente, toCliente(r));
+
+    const fecha = r.docDate;
+    if (!fecha || fecha < start || fecha >= end) continue;
+    if (!cliente) cliente = toCliente(r);
+    if (product && !r.itemCode.toUpperCase().includes(product)) continue;
+
+    let it = items.get(r.itemCode);
+    if (!it) {
+      it = { code: r.itemCode, name: r.descripcion, kilos: 0, venta: 0 };
+      items.set(r.itemCode, it);
+    }
+    it.kilos += r.kilos;
+    it.venta += r.venta;
+    if (!it.name) it.name = r.descripcion;
+    count++;
+  }
+
+  return {
+    start: start.toISOString(),
+    end: end.toISOString(),
+    months,
+    cliente,
+    clientes: Array.from(clientes.values()).sort((a, b) => a.code.localeCompare(b.code)),
+    items: Array.from(items.values()).sort((a, b) => b.venta - a.venta),
+    rows: count,
+  };
+}
+
+/* ===================== CLIENTE ===================== */
+function queryString(q: VentasQuery, refresh?: boolean) {
+  const p = new URLSearchParams();
+  if (q.rut) p.set("rut", q.rut);
+  if (q.cardCode) p.set("cardCode", q.cardCode);
+  p.set("months", String(q.months || DEFAULT_MONTHS));
+  p.set("product", q.product ?? DEFAULT_PRODUCT);
+  if (refresh) p.set("refresh", "1");
+  return p.toString();
+}
+
+/** GET /api/ventas/historico; reconstruye SheetLoadError/SchemaError para mostrar el detalle. */
+export async function fetchVentasHistorico(q: VentasQuery, opts: { refresh?: boolean } = {}) {
+  const r = await fetch(`/api/ventas/historico?${queryString(q, opts.refresh)}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) {
+    const message = json.error ?? `Ventas: el servidor respondió ${r.status}.`;
+    if (json.report) throw new SchemaError(message, json.report as MapReport);
+    if (json.attempts?.length) throw new SheetLoadError(message, json.attempts as SheetAttempt[]);
+    throw new Error(message);
+  }
+  return json as VentasHistorico & { fetchedAt: string };
+}
+
+/** Como fetchVentasHistorico, con copia local por consulta (IndexedDB) y revalidación en segundo plano. */
+export async function loadVentasHistorico(
+  q: VentasQuery,
+  opts: { onRevalidate?: (data: VentasHistorico, stamp: SourceStamp) => void; onOffline?: (stamp: SourceStamp) => void } = {}
+): Promise<{ data: VentasHistorico; stamp: SourceStamp }> {
+  const key = `ventas:historico:${queryString(q)}`;
+  const r = await staleWhileRevalidate(key, () => fetchVentasHistorico(q), {
+    onRevalidate: (x) => opts.onRevalidate?.(x.data, { fetchedAt: Date.parse(x.data.fetchedAt), fromCache: false }),
+    onOffline: (error, snap) => opts.onOffline?.({ fetchedAt: Date.parse(snap.data.fetchedAt), fromCache: true, offline: error }),
+  });
+  // fetchedAt del servidor: cuándo se leyó la planilla, no cuándo se pidió el agregado
+  return { data: r.data, stamp: { fetchedAt: Date.parse(r.data.fetchedAt), fromCache: r.fromCache } };
+}
@@ -0,0 +1,188 @@
+import type { AuditActor } from "@/lib/audit";
+import type { MarginResult } from "@/lib/margins";
+
+/* ===================== TIPOS ===================== */
+// Reglas de viabilidad de comodatos: las administra Administradora (edit-config) en /comodatos/reglas.
+// Cada regla da Viable, Requiere revisión o No viable; el estado de la evaluación es el peor de todos.
+export type ViabilityStatus = "viable" | "revision" | "no-viable";
+export const VIABILITY_STATUS_LABEL: Record<ViabilityStatus, string> = {
+  viable: "Viable",
+  revision: "Requiere revisión",
+  "no-viable": "No viable",
+};
+export const VIABILITY_STATUS_CLASS: Record<ViabilityStatus, string> = {
+  viable: "bg-emerald-100 text-emerald-800",
+  revision: "bg-amber-100 text-amber-800",
+  "no-viable": "bg-red-100 text-red-800",
+};
+const RANK: Record<ViabilityStatus, number> = { viable: 0, revision: 1, "no-viable": 2 };
+
+export function isViabilityStatus(v: unknown): v is ViabilityStatus {
+  return typeof v === "string" && v in VIABILITY_STATUS_LABEL;
+}
+
+/** Límites globales. null: la regla no se aplica. */
+export type ViabilityRules = {
+  /** Mgn final (3) mínimo para ser viable. */
+  minMarginPct: number;
+  /** Entre este margen y el mínimo: Requiere revisión; bajo este: No viable. Igual al mínimo: sin banda. */
+  reviewMarginPct: number;
+  /** Relación comodato/venta máxima; sobre ella, Requiere revisión. */
+  maxComodatoRel: number | null;
+  /** Venta mensual mínima; bajo ella, No viable. */
+  minVentaMensual: number | null;
+};
+
+/** Lo que cambia para el equipo de una Gerencia (usuario con rol Gerencia); lo demás, como las reglas base. */
+export type GerenciaRules = { gerenciaId: string } & Partial<ViabilityRules>;
+
+/** Línea de producto: los códigos que empiezan con prefix; bajo su margen mínimo, Requiere revisión. */
+export type ProductLineRule = { prefix: string; name: string; minMarginPct: number };
+
+export type ViabilitySettings = {
+  base: ViabilityRules;
+  gerencias: GerenciaRules[];
+  lines: ProductLineRule[];
+  updatedAt?: string;
+  updatedBy?: AuditActor;
+};
+
+// 0,50% de margen final: el umbral que usaban las páginas antes de tener reglas
+export const DEFAULT_VIABILITY_RULES: ViabilityRules = {
+  minMarginPct: 0.005,
+  reviewMarginPct: 0.005,
+  maxComodatoRel: null,
+  minVentaMensual: null,
+};
+export const DEFAULT_VIABILITY_SETTINGS: ViabilitySettings = { base: DEFAULT_VIABILITY_RULES, gerencias: [], lines: [] };
+
+/** Reglas que aplican a un ejecutivo: las base con lo que cambia su Gerencia. */
+export type EffectiveViabilityRules = {
+  rules: ViabilityRules;
+  lines: ProductLineRule[];
+  /** Gerencia cuyas reglas se aplicaron. */
+  gerencia?: { id: string; name: string };
+};
+
+export const DEFAULT_EFFECTIVE_RULES: EffectiveViabilityRules = { rules: DEFAULT_VIABILITY_RULES, lines: [] };
+
+/* ===================== EVALUACIÓN ===================== */
+export type RuleCheck = {
+  label: string;
+  /** Valor calculado y límite, en el formato de la regla. */
+  format: "pct" | "money";
+  value: number;
+  bound: "min" | "max";
+  limit: number;
+  status: ViabilityStatus;
+};
+
+export type ViabilityAssessment = { status: ViabilityStatus; checks: RuleCheck[] };
+
+/** Lo que miran las reglas de un resultado de computeMargins (Clientes Activos lo arma con sus filas). */
+type Assessed = Pick<MarginResult, "ventaTotal" | "rel" | "mgnFinalPct"> & { lines: { code: string; venta: number; mgn3: number }[] };
+
+export function assessViability(m: Assessed, { rules, lines }: EffectiveViabilityRules): ViabilityAssessment {
+  const checks: RuleCheck[] = [];
+  const margin = m.mgnFinalPct;
+  checks.push({
+    label: "Mgn final",
+    format: "pct",
+    value: margin,
+    bound: "min",
+    limit: rules.minMarginPct,
+    status: margin >= rules.minMarginPct ? "viable" : margin >= rules.reviewMarginPct ? "revision" : "no-viable",
+  });
+  if (rules.maxComodatoRel !== null) {
+    checks.push({
+      label: "Relación comodato/venta",
+      format: "pct",
+      value: m.rel,
+      bound: "max",
+      limit: rules.maxComodatoRel,
+      status: m.rel <= rules.maxComodatoRel ? "viable" : "revision",
+    });
+  }
+  if (rules.minVentaMensual !== null) {
+    checks.push({
+      label: "Venta mensual",
+      format: "money",
+      value: m.ventaTotal,
+      bound: "min",
+      limit: rules.minVentaMensual,
+      status: m.ventaTotal >= rules.minVentaMensual ? "viable" : "no-viable",
+    });
+  }
+  // Solo las líneas con productos en la evaluación
+  for (const line of lines) {
+    const ls = m.lines.filter((l) => l.code.toUpperCase().startsWith(line.prefix));
+    const venta = ls.reduce((a, l) => a + l.venta, 0);
+    if (venta <= 0) continue;
+    const value = ls.reduce((a, l) => a + l.mgn3, 0) / venta;
+    checks.push({
+      label: `Mgn final línea ${line.name || line.prefix}`,
+      format: "pct",
+      value,
+      bound: "min",
+      limit: line.minMarginPct,
+      status: value >= line.minMarginPct ? "viable" : "revision",
+    });
+  }
+  const status = checks.reduce<ViabilityStatus>((s, c) => (RANK[c.status] > RANK[s] ? c.status : s), "viable");
+  return { status, checks };
+}
+
+/** Estado guardado con los resultados; lo guardado antes de las reglas solo tiene viable. */
+export function resultViability(r: { viable: boolean; viability?: ViabilityStatus }): ViabilityStatus {
+  return r.viability ?? (r.viable ? "viable" : "no-viable");
+}
+
+/** Aplica a las reglas base lo que cambia la Gerencia. */
+export function mergeRules(base: ViabilityRules, override?: Partial<ViabilityRules>): ViabilityRules {
+  const r = { ...base };
+  for (const k of Object.keys(base) as (keyof ViabilityRules)[]) {
+    if (override?.[k] !== undefined) (r as any)[k] = override[k];
+  }
+  return r;
+}
+
+/** Resultado de cada regla, para la lista de reglas de la página y del PDF. */
+export const CHECK_STATUS_LABEL: Record<ViabilityStatus, string> = { viable: "Cumple", revision: "Revisar", "no-viable": "No cumple" };
+
+function formatValue(format: RuleCheck["format"], n: number) {
+  return format === "money"
+    ? (n || 0).toLocaleString("es-CL", { style: "currency", currency: "CLP", maximumFractionDigits: 0 })
+    : (n || 0).toLocaleString("es-CL", { style: "percent", minimumFractionDigits: 1, maximumFractionDigits: 1 });
+}
+
+/** "0,3% (mín. 0,5%)"; sin símbolos fuera de la fuente del PDF. */
+export function describeCheck(c: RuleCheck) {
+  return `${formatValue(c.format, c.value)} (${c.bound === "min" ? "mín." : "máx."} ${formatValue(c.format, c.limit)})`;
+}
+
+/* ===================== CLIENTE ===================== */
+/** Reglas que aplican a las evaluaciones del ejecutivo (las de su Gerencia, si tiene). */
+export async function fetchViabilityRules(ejecutivo: string): Promise<EffectiveViabilityRules> {
+  const r = await fetch(`/api/viability?${new URLSearchParams({ ejecutivo })}`, { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudieron leer las reglas de viabilidad (${r.status})`);
+  return json.rules;
+}
+
+export async function fetchViabilitySettings(): Promise<ViabilitySettings> {
+  const r = await fetch("/api/viability/settings", { cache: "no-store" });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `No se pudieron leer las reglas de viabilidad (${r.status})`);
+  return json.settings;
+}
+
+export async function saveViabilitySettings(settings: Omit<ViabilitySettings, "updatedAt" | "updatedBy">): Promise<ViabilitySettings> {
+  const r = await fetch("/api/viability/settings", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(settings),
+  });
+  const json = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(json.error ?? `Error ${r.status}`);
+  return json.settings;
+}
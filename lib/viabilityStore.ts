@@ -0,0 +1,91 @@
+import { readJson, updateJson } from "@/lib/store";
+import type { User } from "@/lib/auth";
+import { gerenciasOf } from "@/lib/userStore";
+import {
+  DEFAULT_VIABILITY_SETTINGS,
+  mergeRules,
+  type EffectiveViabilityRules,
+  type GerenciaRules,
+  type ProductLineRule,
+  type ViabilityRules,
+  type ViabilitySettings,
+} from "@/lib/viability";
+import type { AuditActor } from "@/lib/audit";
+
+/* ===================== STORAGE ===================== */
+// data/viability/settings.json: reglas base, por Gerencia y por línea de producto
+const SETTINGS = "viability/settings";
+
+function actor(user: User): AuditActor {
+  return { id: user.id, username: user.username, name: user.name };
+}
+
+/* ===================== VALIDACIÓN ===================== */
+const str = (v: unknown, max = 200) => String(v ?? "").trim().slice(0, max);
+const isSet = (v: unknown) => v !== undefined && v !== null && v !== "";
+
+function pctOf(v: unknown, what: string) {
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < -1 || n > 1) throw new Error(`${what}: debe ser una fracción entre -1 y 1 (0,005 = 0,5%).`);
+  return n;
+}
+
+function amountOf(v: unknown, what: string) {
+  const n = Number(v);
+  if (!Number.isFinite(n) || n < 0) throw new Error(`${what}: debe ser un monto positivo.`);
+  return n;
+}
+
+/** Solo los campos presentes (lo demás se hereda); null apaga una regla opcional. */
+function parseRules(v: any, where: string): Partial<ViabilityRules> {
+  const r: Partial<ViabilityRules> = {};
+  if (isSet(v?.minMarginPct)) r.minMarginPct = pctOf(v.minMarginPct, `${where} · Mgn final mínimo`);
+  if (isSet(v?.reviewMarginPct)) r.reviewMarginPct = pctOf(v.reviewMarginPct, `${where} · Mgn final de revisión`);
+  if (v?.maxComodatoRel === null) r.maxComodatoRel = null;
+  else if (isSet(v?.maxComodatoRel)) r.maxComodatoRel = amountOf(v.maxComodatoRel, `${where} · Relación comodato/venta máxima`);
+  if (v?.minVentaMensual === null) r.minVentaMensual = null;
+  else if (isSet(v?.minVentaMensual)) r.minVentaMensual = amountOf(v.minVentaMensual, `${where} · Venta mensual mínima`);
+  return r;
+}
+
+export function parseViabilitySettings(body: any): Omit<ViabilitySettings, "updatedAt" | "updatedBy"> {
+  if (!body || typeof body !== "object") throw new Error("Reglas inválidas.");
+  const base = mergeRules(DEFAULT_VIABILITY_SETTINGS.base, parseRules(body.base, "Reglas base"));
+  if (base.reviewMarginPct > base.minMarginPct) throw new Error("El margen de revisión no puede superar al mínimo.");
+  const gerencias: GerenciaRules[] = (Array.isArray(body.gerencias) ? body.gerencias : [])
+    .filter((g: any) => str(g?.gerenciaId, 60))
+    .map((g: any) => ({ gerenciaId: str(g.gerenciaId, 60), ...parseRules(g, "Gerencia") }));
+  for (const g of gerencias) {
+    const r = mergeRules(base, g);
+    if (r.reviewMarginPct > r.minMarginPct) throw new Error("Gerencia: el margen de revisión no puede superar al mínimo.");
+  }
+  const lines: ProductLineRule[] = (Array.isArray(body.lines) ? body.lines : [])
+    .filter((l: any) => str(l?.prefix, 30))
+    .map((l: any) => ({ prefix: str(l.prefix, 30).toUpperCase(), name: str(l.name, 80), minMarginPct: pctOf(l.minMarginPct, `Línea ${str(l.prefix, 30)}`) }));
+  return { base, gerencias, lines };
+}
+
+/* ===================== LECTURA / ESCRITURA ===================== */
+export async function getViabilitySettings(): Promise<ViabilitySettings> {
+  const stored = await readJson<Partial<ViabilitySettings>>(SETTINGS, {});
+  return { ...DEFAULT_VIABILITY_SETTINGS, ...stored, base: mergeRules(DEFAULT_VIABILITY_SETTINGS.base, stored.base) };
+}
+
+export async function updateViabilitySettings(user: User, body: unknown): Promise<{ before: ViabilitySettings; after: ViabilitySettings }> {
+  const input = parseViabilitySettings(body);
+  const before = await getViabilitySettings();
+  const after: ViabilitySettings = { ...input, updatedAt: new Date().toISOString(), updatedBy: actor(user) };
+  await updateJson<Partial<ViabilitySettings>>(SETTINGS, {}, () => after);
+  return { before, after };
+}
+
+/** Reglas para las evaluaciones del ejecutivo: las de la primera Gerencia con reglas propias cuyo equipo lo incluye. */
+export async function effectiveViabilityRules(ejecutivo: string): Promise<EffectiveViabilityRules> {
+  const settings = await getViabilitySettings();
+  const gerencias = ejecutivo ? await gerenciasOf(ejecutivo) : [];
+  for (const g of gerencias) {
+    const override = settings.gerencias.find((r) => r.gerenciaId === g.id);
+    if (override) return { rules: mergeRules(settings.base, override), lines: settings.lines, gerencia: { id: g.id, name: g.name } };
+  }
+  return { rules: settings.base, lines: settings.lines };
+}
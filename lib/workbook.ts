@@ -0,0 +1,55 @@
+import * as XLSX from "xlsx";
+import { parseCsvMatrix, type SheetValue } from "@/lib/sheets";
+
+/* ===================== TIPOS ===================== */
+// Hoja de un archivo subido por el usuario, en el mismo formato que parseGvizTable
+export type SheetTable = { headers: string[]; rows: SheetValue[][] };
+export type UploadedSheet = SheetTable & { fileName: string; sheet: string };
+
+export type Workbook = {
+  fileName: string;
+  sheetNames: string[];
+  table: (sheet: string) => SheetTable;
+};
+
+export const WORKBOOK_ACCEPT = ".xlsx,.xls,.xlsm,.csv";
+
+/* ===================== LECTURA ===================== */
+function isCsv(file: File) {
+  return /\.csv$/i.test(file.name) || file.type === "text/csv";
+}
+
+// Primera fila no vacía = encabezados; filas completamente vacías se omiten
+function toTable(matrix: SheetValue[][]): SheetTable {
+  const blank = (c: SheetValue) => c === null || c === undefined || String(c).trim() === "";
+  const nonEmpty = matrix.filter((r) => !r.every(blank));
+  if (!nonEmpty.length) return { headers: [], rows: [] };
+  const headers = nonEmpty[0].map((h) => String(h ?? "").trim());
+  const rows = nonEmpty.slice(1).map((r) => r.map((c) => (typeof c === "string" ? c.trim() : c ?? "")));
+  return { headers, rows };
+}
+
+/** Lee un .xlsx/.xls/.csv en el navegador. Las hojas se convierten a tabla recién al elegirlas. */
+export async function readWorkbook(file: File): Promise<Workbook> {
+  if (isCsv(file)) {
+    // CSV propio: respeta separador ";" de Excel es-CL
+    const table = toTable(parseCsvMatrix(await file.text()));
+    return { fileName: file.name, sheetNames: ["CSV"], table: () => table };
+  }
+  let wb: XLSX.WorkBook;
+  try {
+    wb = XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true });
+  } catch {
+    throw new Error(`${file.name}: no es un archivo Excel válido.`);
+  }
+  if (!wb.SheetNames.length) throw new Error(`${file.name}: el archivo no tiene hojas.`);
+  return {
+    fileName: file.name,
+    sheetNames: wb.SheetNames,
+    table: (sheet) => {
+      const ws = wb.Sheets[sheet];
+      if (!ws) throw new Error(`${file.name}: no existe la hoja "${sheet}".`);
+      return toTable(XLSX.utils.sheet_to_json<SheetValue[]>(ws, { header: 1, defval: "", raw: true }));
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { can, requiredCapability } from "@/lib/auth";
+import { SESSION_COOKIE, verifySession } from "@/lib/session";
+
+/* ===================== SESIÓN Y PERMISOS ===================== */
+// Sin sesión válida: las páginas van al login y las rutas API responden 401.
+// Sin el permiso de la ruta (ROUTE_CAPABILITIES): las páginas vuelven al inicio y las rutas API responden 403.
+// Aquí solo se verifica la firma y el vencimiento; las rutas API consultan además si la sesión sigue abierta.
+const PUBLIC = new Set(["/login", "/api/auth/login", "/api/auth/logout", "/api/auth/setup", "/api/auth/status"]);
+
+export async function middleware(req: NextRequest) {
+  const { pathname, search } = req.nextUrl;
+  if (PUBLIC.has(pathname)) return NextResponse.next();
+  const isApi = pathname.startsWith("/api/");
+  const session = await verifySession(req.cookies.get(SESSION_COOKIE)?.value);
+
+  if (!session) {
+    if (isApi) return NextResponse.json({ error: "Sesión requerida" }, { status: 401 });
+    const url = req.nextUrl.clone();
+    url.pathname = "/login";
+    url.search = pathname === "/" ? "" : `?next=${encodeURIComponent(pathname + search)}`;
+    return NextResponse.redirect(url);
+  }
+
+  const cap = requiredCapability(pathname, req.method);
+  if (cap && !can(session.role, cap)) {
+    if (isApi) return NextResponse.json({ error: "No tienes permiso para esta acción." }, { status: 403 });
+    const url = req.nextUrl.clone();
+    url.pathname = "/";
+    url.search = "";
+    return NextResponse.redirect(url);
+  }
+  return NextResponse.next();
+}
+
+// Todo excepto los archivos de Next y los estáticos de /public
+export const config = {
+  matcher: ["/((?!_next/|favicon\\.ico|.*\\.(?:png|jpe?g|svg|ico|webp|pdf)$).*)"],
+};
@@ -0,0 +1,8 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// Pruebas de lib/ (node, sin navegador): npm test
+export default defineConfig({
+  resolve: { alias: { "@": path.resolve(__dirname) } },
+  test: { include: ["lib/**/*.test.ts"], environment: "node" },
+});